@@ -0,0 +1,27 @@
+/**
+ * Unit tests run in Node: IndexedDB comes from fake-indexeddb and the
+ * extension APIs from a small in-memory `chrome` stub (tests/setup)
+ *
+ * @type {import("jest").Config}
+ */
+export default {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  setupFiles: ["fake-indexeddb/auto", "<rootDir>/tests/setup/chrome.ts"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+  transform: {
+    "^.+\\.ts$": [
+      "ts-jest",
+      {
+        tsconfig: {
+          module: "commonjs",
+          moduleResolution: "node",
+          allowImportingTsExtensions: false,
+          isolatedModules: true,
+        },
+      },
+    ],
+  },
+};
@@ -0,0 +1,168 @@
+/**
+ * Activity log sync
+ *
+ * Uploads the local activity log to the `activity_log` table in batches,
+ * then pulls activity recorded elsewhere (the web app, the mobile app or
+ * the extension on another device) into the local log. Runs after each
+ * sync queue run (see `processSyncQueue`).
+ *
+ * Rows are keyed by an id the client generates (`remoteId`), so a batch
+ * uploaded twice after a lost response is not duplicated.
+ *
+ * Only what happened, when, and numeric details (counts, durations) are
+ * uploaded. Page URLs and titles, question text and other free text in an
+ * item's metadata stay on this device (see docs/privacy-policy.md).
+ */
+
+import { logError } from "@/lib/storage";
+import {
+  getUnsyncedActivity,
+  pruneActivityLog,
+  saveRemoteActivity,
+  updateActivitySyncStatus,
+} from "@/lib/db/activity-log";
+import { getSyncCursor, saveSyncCursor } from "@/lib/db/sync-cursors";
+import type { ActivityLogItem } from "@/types";
+import type { Json } from "@/types/supabase";
+import type { ActivityLogInsert, SyncBackend } from "./sync-backend";
+
+const ACTIVITY_BATCH_SIZE = 100;
+const ACTIVITY_PULL_PAGE_SIZE = 500;
+
+/**
+ * Upload pending activity, then pull activity from other devices
+ *
+ * @param backend - The sync engine's backend (see `setSyncBackend`)
+ * @returns Number of items uploaded and pulled
+ */
+export async function syncActivityLog(
+  userId: string,
+  backend: SyncBackend,
+): Promise<{ pushed: number; pulled: number }> {
+  const result = { pushed: 0, pulled: 0 };
+
+  try {
+    result.pushed = await pushActivity(userId, backend);
+  } catch (error) {
+    console.error("[Glotian Activity Sync] Error uploading activity:", error);
+    await logError("syncActivityLog", error as Error, { userId });
+  }
+
+  try {
+    result.pulled = await pullActivity(userId, backend);
+  } catch (error) {
+    console.error("[Glotian Activity Sync] Error pulling activity:", error);
+    await logError("syncActivityLog", error as Error, { userId });
+  }
+
+  // Only uploaded items are pruned, so this waits for the push
+  await pruneActivityLog(userId);
+
+  if (result.pushed > 0 || result.pulled > 0) {
+    console.log("[Glotian Activity Sync] Activity synced:", result);
+  }
+  return result;
+}
+
+/**
+ * Upload pending and failed items in batches of `ACTIVITY_BATCH_SIZE`
+ *
+ * A failed batch is marked failed and stops the upload; it is retried on
+ * the next sync.
+ */
+async function pushActivity(
+  userId: string,
+  backend: SyncBackend,
+): Promise<number> {
+  let pushed = 0;
+
+  for (;;) {
+    const items = await getUnsyncedActivity(userId, ACTIVITY_BATCH_SIZE);
+    if (items.length === 0) break;
+
+    try {
+      await backend.insertActivity(items.map(toActivityRow));
+    } catch (error) {
+      for (const item of items) {
+        await updateActivitySyncStatus(item.id!, "failed");
+      }
+      throw error;
+    }
+
+    for (const item of items) {
+      await updateActivitySyncStatus(item.id!, "synced");
+    }
+
+    pushed += items.length;
+    if (items.length < ACTIVITY_BATCH_SIZE) break;
+  }
+
+  return pushed;
+}
+
+function toActivityRow(item: ActivityLogItem): ActivityLogInsert {
+  return {
+    id: item.remoteId!,
+    user_id: item.userId,
+    action: item.action,
+    entity_type: item.entityType,
+    entity_id: item.entityId,
+    metadata: toSyncedMetadata(item.metadata),
+    source: "extension",
+    occurred_at: new Date(item.timestamp).toISOString(),
+  };
+}
+
+/**
+ * The numeric fields of an item's metadata (e.g. `textLength`)
+ */
+function toSyncedMetadata(metadata: ActivityLogItem["metadata"]): Json {
+  const synced: Record<string, number> = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      synced[key] = value;
+    }
+  }
+  return synced;
+}
+
+/**
+ * Pull activity rows created since the last pull
+ *
+ * Paged by the server's `created_at`, like the delta pull of synced tables
+ * (see `pullTableChanges`).
+ */
+async function pullActivity(
+  userId: string,
+  backend: SyncBackend,
+): Promise<number> {
+  let cursor = await getSyncCursor(userId, "activity_log");
+  let pulled = 0;
+
+  for (;;) {
+    const rows = await backend.fetchActivitySince(
+      userId,
+      cursor,
+      ACTIVITY_PULL_PAGE_SIZE,
+    );
+    if (rows.length === 0) break;
+
+    // A full page may end partway through rows sharing one created_at:
+    // leave those for the next page so none are skipped by the cursor
+    const isFullPage = rows.length === ACTIVITY_PULL_PAGE_SIZE;
+    const lastCreatedAt = rows[rows.length - 1].created_at;
+    const trimmed = isFullPage
+      ? rows.filter((row) => row.created_at !== lastCreatedAt)
+      : rows;
+    const page = trimmed.length > 0 ? trimmed : rows;
+
+    pulled += await saveRemoteActivity(userId, page);
+
+    cursor = page[page.length - 1].created_at;
+    await saveSyncCursor(userId, "activity_log", cursor);
+
+    if (!isFullPage) break;
+  }
+
+  return pulled;
+}
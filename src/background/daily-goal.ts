@@ -0,0 +1,141 @@
+/**
+ * Daily goal nudge
+ *
+ * Fires an optional notification at the user's chosen evening time when
+ * today's active study time is still below `daily_goal_minutes`, unless it
+ * falls within quiet hours. Clicking it opens the side panel on the Review
+ * tab.
+ */
+
+import { getSettings } from "@/lib/storage";
+import { getDailyGoalProgress } from "@/lib/db/study-time";
+import { getNextOccurrence, isWithinQuietHours } from "@/utils/time-of-day";
+import { openSidePanelOnTab } from "./messaging";
+
+export const DAILY_GOAL_NUDGE_ALARM = "daily-goal-nudge";
+const DAILY_GOAL_NUDGE_NOTIFICATION = "glotian-daily-goal-nudge";
+
+// Settings that change when (or whether) the nudge fires
+const NUDGE_SETTING_KEYS = [
+  "dailyGoalNudgeEnabled",
+  "dailyGoalNudgeTime",
+  "quietHoursEnabled",
+  "quietHoursStart",
+  "quietHoursEnd",
+];
+
+/**
+ * Register listeners and make sure the nudge alarm is scheduled
+ *
+ * Called on every service worker start; a pending alarm is kept.
+ */
+export function setupDailyGoalNudge(): void {
+  chrome.notifications.onClicked.addListener((notificationId) => {
+    if (notificationId === DAILY_GOAL_NUDGE_NOTIFICATION) {
+      void openStudyTab();
+    }
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (
+      areaName === "local" &&
+      NUDGE_SETTING_KEYS.some((key) => key in changes)
+    ) {
+      void scheduleDailyGoalNudge();
+    }
+  });
+
+  void chrome.alarms.get(DAILY_GOAL_NUDGE_ALARM).then((existing) => {
+    if (!existing) void scheduleDailyGoalNudge();
+  });
+}
+
+/**
+ * Create (or clear) the one-shot alarm for the next nudge
+ */
+export async function scheduleDailyGoalNudge(): Promise<void> {
+  try {
+    await chrome.alarms.clear(DAILY_GOAL_NUDGE_ALARM);
+
+    const { dailyGoalNudgeEnabled, dailyGoalNudgeTime } = await getSettings([
+      "dailyGoalNudgeEnabled",
+      "dailyGoalNudgeTime",
+    ]);
+    if (!dailyGoalNudgeEnabled) return;
+
+    const when = getNextOccurrence(dailyGoalNudgeTime, new Date());
+    if (!when) {
+      console.warn(
+        "[Glotian Daily Goal] Invalid nudge time:",
+        dailyGoalNudgeTime,
+      );
+      return;
+    }
+
+    await chrome.alarms.create(DAILY_GOAL_NUDGE_ALARM, {
+      when: when.getTime(),
+    });
+    console.log("[Glotian Daily Goal] Next nudge at", when.toLocaleString());
+  } catch (error) {
+    console.error("[Glotian Daily Goal] Error scheduling nudge:", error);
+  }
+}
+
+/**
+ * Handle the nudge alarm: notify if today's goal isn't met yet
+ */
+export async function handleDailyGoalNudgeAlarm(): Promise<void> {
+  await scheduleDailyGoalNudge();
+
+  try {
+    const settings = await getSettings([
+      "userId",
+      "dailyGoalNudgeEnabled",
+      "quietHoursEnabled",
+      "quietHoursStart",
+      "quietHoursEnd",
+    ]);
+    if (!settings.dailyGoalNudgeEnabled || !settings.userId) return;
+
+    const now = new Date();
+    if (
+      settings.quietHoursEnabled &&
+      isWithinQuietHours(now, settings.quietHoursStart, settings.quietHoursEnd)
+    ) {
+      console.log("[Glotian Daily Goal] Nudge skipped: quiet hours");
+      return;
+    }
+
+    const progress = await getDailyGoalProgress(settings.userId, now);
+    if (progress.completed) {
+      console.log("[Glotian Daily Goal] Nudge skipped: goal already met");
+      return;
+    }
+
+    const remainingMinutes = Math.max(
+      1,
+      Math.ceil((progress.goalMinutes * 60 - progress.studiedSeconds) / 60),
+    );
+    await chrome.notifications.create(DAILY_GOAL_NUDGE_NOTIFICATION, {
+      type: "basic",
+      iconUrl: chrome.runtime.getURL("icons/icon-128.png"),
+      title: "Keep up your daily goal",
+      message: `${remainingMinutes} more minute${remainingMinutes === 1 ? "" : "s"} of study to reach today's ${progress.goalMinutes}-minute goal.`,
+      priority: 1,
+    });
+  } catch (error) {
+    console.error("[Glotian Daily Goal] Error showing nudge:", error);
+  }
+}
+
+/**
+ * Open the side panel on the Review tab (nudge notification click)
+ */
+async function openStudyTab(): Promise<void> {
+  try {
+    await openSidePanelOnTab("review");
+    await chrome.notifications.clear(DAILY_GOAL_NUDGE_NOTIFICATION);
+  } catch (error) {
+    console.error("[Glotian Daily Goal] Error opening review tab:", error);
+  }
+}
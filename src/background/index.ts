@@ -6,6 +6,8 @@
  * - AI API orchestration (translation, summarization, etc.)
  * - Sync queue processing
  * - Network status monitoring
+ * - Realtime cache updates
+ * - Trash purge
  * - Authentication state management
  * - Periodic tasks (alarms)
  */
@@ -16,7 +18,32 @@ import { getSetting, setSetting, updateAISupport } from "@/lib/storage";
 import { detectAISupport } from "@/lib/ai/detect";
 import { setupMessageHandlers } from "./messaging";
 import { setupNetworkListener } from "./network";
-import { processSyncQueue } from "./sync";
+import { processSyncQueue, setSyncBackend } from "./sync";
+import { createMemorySyncBackend } from "./memory-sync-backend";
+import { createMemoryRealtimeClient } from "./memory-realtime-client";
+import { updateAchievements } from "@/lib/db/achievements";
+import {
+  REVIEW_REMINDER_ALARM,
+  handleReviewReminderAlarm,
+  refreshDueBadge,
+  setupReviewScheduler,
+} from "./review-scheduler";
+import {
+  DAILY_GOAL_NUDGE_ALARM,
+  handleDailyGoalNudgeAlarm,
+  setupDailyGoalNudge,
+} from "./daily-goal";
+import {
+  REALTIME_RECONNECT_ALARM,
+  ensureRealtimeSubscription,
+  setRealtimeClient,
+  setupRealtimeSync,
+} from "./realtime";
+import {
+  TRASH_PURGE_ALARM,
+  handleTrashPurgeAlarm,
+  setupTrashPurge,
+} from "./trash-purge";
 import { logError } from "@/lib/logger";
 
 console.log("[Glotian Background] Service worker starting...");
@@ -99,12 +126,34 @@ chrome.runtime.onStartup.addListener(async () => {
   await logDatabaseStats();
 });
 
+// Offline development: sync against in-memory tables and channels instead
+// of Supabase. Set before `setupRealtimeSync` so no socket is opened.
+if (import.meta.env.VITE_MOCK_API === "true") {
+  console.log(
+    "[Glotian Background] Using the in-memory sync backend and Realtime client",
+  );
+  setSyncBackend(createMemorySyncBackend());
+  void setRealtimeClient(createMemoryRealtimeClient());
+}
+
 // Setup message handlers
 setupMessageHandlers();
 
 // Setup network status listener
 setupNetworkListener();
 
+// Setup due-card badge and review reminders
+setupReviewScheduler();
+
+// Setup end-of-day nudge for the daily study goal
+setupDailyGoalNudge();
+
+// Keep the cache up to date with server changes as they happen
+setupRealtimeSync();
+
+// Delete items left in the trash past the retention period
+setupTrashPurge();
+
 // Listen for keyboard shortcut commands (Manifest commands API)
 chrome.commands.onCommand.addListener((command) => {
   console.log("[Glotian Background] Command triggered:", command);
@@ -343,6 +392,32 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
     } else {
       console.log("[Glotian Background] Skipping sync - offline");
     }
+
+    // Count activity logged outside logActivity and reset broken streaks
+    // (after sync, so a server row is adopted before a local one is made)
+    const activeUserId = await getSetting("userId");
+    if (activeUserId) {
+      await updateAchievements(activeUserId).catch((error) =>
+        console.error(
+          "[Glotian Background] Error updating achievements:",
+          error,
+        ),
+      );
+    }
+
+    // Cards become due over time, not only when data changes
+    await refreshDueBadge();
+  } else if (alarm.name === REVIEW_REMINDER_ALARM) {
+    console.log("[Glotian Background] Review reminder alarm triggered");
+    await handleReviewReminderAlarm();
+  } else if (alarm.name === DAILY_GOAL_NUDGE_ALARM) {
+    console.log("[Glotian Background] Daily goal nudge alarm triggered");
+    await handleDailyGoalNudgeAlarm();
+  } else if (alarm.name === REALTIME_RECONNECT_ALARM) {
+    await ensureRealtimeSubscription();
+  } else if (alarm.name === TRASH_PURGE_ALARM) {
+    console.log("[Glotian Background] Trash purge alarm triggered");
+    await handleTrashPurgeAlarm();
   }
 });
 
@@ -0,0 +1,202 @@
+/**
+ * In-memory Realtime client
+ *
+ * Stands in for Supabase Realtime while developing offline or in automated
+ * tests: pass it to `setRealtimeClient` and channels subscribe without
+ * opening a socket. Changes are delivered with `emit` and channel status
+ * changes (a dropped socket, a server error) with `setStatus`. Like the
+ * server, `emit` only reaches listeners whose `column=eq.value` filter
+ * matches the row.
+ */
+
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+import type { RealtimeClient } from "./realtime";
+
+type ChannelState = "closed" | "errored" | "joined" | "joining" | "leaving";
+type ChannelStatus = "SUBSCRIBED" | "TIMED_OUT" | "CLOSED" | "CHANNEL_ERROR";
+
+type ChangePayload = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+const STATUS_STATES: Record<ChannelStatus, ChannelState> = {
+  SUBSCRIBED: "joined",
+  TIMED_OUT: "errored",
+  CLOSED: "closed",
+  CHANNEL_ERROR: "errored",
+};
+
+export type MemoryRealtimeChange =
+  | { eventType: "INSERT" | "UPDATE"; new: Record<string, unknown> }
+  | { eventType: "DELETE"; old: Record<string, unknown> };
+
+interface ChangeListener {
+  event: string;
+  schema: string;
+  table: string;
+  filter?: string;
+  callback: (payload: ChangePayload) => void;
+}
+
+export interface MemoryRealtimeChannel {
+  readonly topic: string;
+  readonly state: ChannelState;
+  /** Tables and filters of the channel's `postgres_changes` listeners */
+  listeners(): { table: string; filter?: string }[];
+}
+
+export interface MemoryRealtimeClient extends RealtimeClient {
+  /** Channels created and not removed yet, oldest first */
+  channels(): MemoryRealtimeChannel[];
+  /**
+   * Deliver a change on a table to the listeners of subscribed channels
+   *
+   * @returns Number of listeners that received it
+   */
+  emit(table: string, change: MemoryRealtimeChange): number;
+  /**
+   * Report a status on every open channel (e.g. CLOSED when the socket
+   * drops, CHANNEL_ERROR when the server rejects the subscription)
+   */
+  setStatus(status: ChannelStatus, error?: Error): void;
+  /**
+   * Answer new subscriptions with this status instead of SUBSCRIBED until
+   * called again with null (e.g. CHANNEL_ERROR while the server is down)
+   */
+  failSubscriptions(status: "CHANNEL_ERROR" | "TIMED_OUT" | null): void;
+}
+
+interface StandInChannel extends MemoryRealtimeChannel {
+  readonly changeListeners: ChangeListener[];
+  report(status: ChannelStatus, error?: Error): void;
+}
+
+export function createMemoryRealtimeClient(): MemoryRealtimeClient {
+  const channels: StandInChannel[] = [];
+  let subscribeFailure: ChannelStatus | null = null;
+
+  const createChannel = (topic: string): StandInChannel => {
+    const changeListeners: ChangeListener[] = [];
+    let state: ChannelState = "closed";
+    let onStatus: ((status: ChannelStatus, error?: Error) => void) | null =
+      null;
+
+    const channel = {
+      topic,
+      changeListeners,
+      get state() {
+        return state;
+      },
+      listeners: () =>
+        changeListeners.map(({ table, filter }) => ({ table, filter })),
+      report(status: ChannelStatus, error?: Error) {
+        state = STATUS_STATES[status];
+        onStatus?.(status, error);
+      },
+      on(
+        type: string,
+        options: Omit<ChangeListener, "callback">,
+        callback: (payload: ChangePayload) => void,
+      ) {
+        if (type === "postgres_changes") {
+          changeListeners.push({ ...options, callback });
+        }
+        return channel;
+      },
+      subscribe(callback?: (status: ChannelStatus, error?: Error) => void) {
+        onStatus = callback ?? null;
+        state = "joining";
+        // Joins after the caller returns, like a channel on a socket
+        void Promise.resolve().then(() => {
+          if (state === "joining") {
+            channel.report(subscribeFailure ?? "SUBSCRIBED");
+          }
+        });
+        return channel;
+      },
+    };
+
+    return channel;
+  };
+
+  return {
+    channel(name) {
+      const channel = createChannel(name);
+      channels.push(channel);
+      return channel as unknown as RealtimeChannel;
+    },
+
+    async removeChannel(removed) {
+      const index = channels.indexOf(removed as unknown as StandInChannel);
+      if (index === -1) return "error";
+
+      const [channel] = channels.splice(index, 1);
+      channel.report("CLOSED");
+      return "ok";
+    },
+
+    channels: () => [...channels],
+
+    emit(table, change) {
+      const row = change.eventType === "DELETE" ? change.old : change.new;
+      let delivered = 0;
+
+      for (const channel of channels) {
+        if (channel.state !== "joined") continue;
+
+        for (const listener of channel.changeListeners) {
+          if (
+            listener.schema !== "public" ||
+            listener.table !== table ||
+            (listener.event !== "*" && listener.event !== change.eventType) ||
+            !matchesFilter(listener.filter, row)
+          ) {
+            continue;
+          }
+
+          listener.callback({
+            schema: "public",
+            table,
+            commit_timestamp: new Date().toISOString(),
+            errors: [],
+            eventType: change.eventType,
+            new: change.eventType === "DELETE" ? {} : structuredClone(row),
+            old: change.eventType === "DELETE" ? structuredClone(row) : {},
+          } as ChangePayload);
+          delivered++;
+        }
+      }
+
+      return delivered;
+    },
+
+    setStatus(status, error) {
+      for (const channel of channels) {
+        if (channel.state !== "closed") channel.report(status, error);
+      }
+    },
+
+    failSubscriptions(status) {
+      subscribeFailure = status;
+    },
+  };
+}
+
+/**
+ * Whether a row passes a `postgres_changes` filter (only `eq` is supported)
+ */
+function matchesFilter(
+  filter: string | undefined,
+  row: Record<string, unknown>,
+): boolean {
+  if (!filter) return true;
+
+  const match = /^(\w+)=eq\.(.*)$/.exec(filter);
+  if (!match) {
+    throw new Error(`Unsupported Realtime filter: ${filter}`);
+  }
+
+  const [, column, value] = match;
+  return String(row[column]) === value;
+}
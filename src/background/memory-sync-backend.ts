@@ -0,0 +1,257 @@
+/**
+ * In-memory sync backend
+ *
+ * Stands in for the Supabase tables while developing offline or in
+ * automated tests: pass it to `setSyncBackend` and the sync engine pushes
+ * to and pulls from plain maps. Rows are stored as given (nothing fills in
+ * defaults or timestamps, apart from a missing id and the `created_at` of
+ * activity rows), and are copied in and out so callers can't change them
+ * behind the backend's back. Inserts and upserts missing a NOT NULL column
+ * fail the way Postgres fails them.
+ */
+
+import type { ActivityLogRow } from "@/types";
+import {
+  SyncBackendError,
+  type SyncBackend,
+  type SyncTable,
+  type SyncTableInsert,
+  type SyncTableRow,
+} from "./sync-backend";
+
+type StoredRow = Record<string, unknown> & { id: string };
+
+// NOT NULL columns without a server default. Like Postgres, inserts and
+// upserts missing one are rejected, even when an upsert would only update
+// an existing row.
+const REQUIRED_COLUMNS: { [T in SyncTable]: string[] } = {
+  learning_notes: [
+    "user_id",
+    "original_text",
+    "translated_text",
+    "source_language",
+    "target_language",
+  ],
+  flashcard_decks: ["user_id", "name", "language"],
+  flashcards: ["user_id", "deck_id", "term", "definition", "language"],
+  study_progress: ["user_id", "flashcard_id", "next_review_at"],
+  study_sessions: ["user_id", "started_at"],
+  reviews: ["user_id", "flashcard_id", "rating", "reviewed_at"],
+  user_preferences: ["user_id"],
+  user_achievements: ["user_id"],
+};
+
+export type MemorySyncBackendSeed = {
+  [T in SyncTable]?: SyncTableRow<T>[];
+} & { activity_log?: ActivityLogRow[] };
+
+export interface MemorySyncBackend extends SyncBackend {
+  /** Copies of the rows currently stored in a table */
+  rows<T extends SyncTable>(table: T): SyncTableRow<T>[];
+  /** Copies of the stored activity rows */
+  activityRows(): ActivityLogRow[];
+  /**
+   * Fail every call with this error until called again with null (e.g. a
+   * `status: 401` error to simulate an expired session)
+   */
+  failWith(error: SyncBackendError | null): void;
+}
+
+export function createMemorySyncBackend(
+  seed: MemorySyncBackendSeed = {},
+): MemorySyncBackend {
+  const tables = new Map<SyncTable, Map<string, StoredRow>>();
+  const activity = new Map<string, ActivityLogRow>();
+  let lastCreatedAt = 0;
+  let failure: SyncBackendError | null = null;
+
+  const tableRows = (table: SyncTable) => {
+    let rows = tables.get(table);
+    if (!rows) {
+      rows = new Map();
+      tables.set(table, rows);
+    }
+    return rows;
+  };
+
+  const check = () => {
+    if (failure) throw failure;
+  };
+
+  const checkRequired = (table: SyncTable, row: Record<string, unknown>) => {
+    const missing = REQUIRED_COLUMNS[table].find(
+      (column) => row[column] === undefined || row[column] === null,
+    );
+    if (missing) {
+      throw new SyncBackendError(
+        `null value in column "${missing}" of relation "${table}" violates not-null constraint`,
+        "23502",
+        400,
+      );
+    }
+  };
+
+  const copy = <T>(row: StoredRow) => structuredClone(row) as T;
+
+  const store = (table: SyncTable, row: Record<string, unknown>) => {
+    const id = typeof row.id === "string" ? row.id : crypto.randomUUID();
+    tableRows(table).set(id, structuredClone({ ...row, id }));
+  };
+
+  // Like a database clock: no two activity rows share a `created_at`
+  const nextCreatedAt = () => {
+    lastCreatedAt = Math.max(Date.now(), lastCreatedAt + 1);
+    return new Date(lastCreatedAt).toISOString();
+  };
+
+  const { activity_log: activitySeed, ...tableSeed } = seed;
+  for (const [table, rows] of Object.entries(tableSeed)) {
+    for (const row of rows ?? []) {
+      store(table as SyncTable, row as Record<string, unknown>);
+    }
+  }
+  for (const row of activitySeed ?? []) {
+    activity.set(row.id, structuredClone(row));
+  }
+
+  return {
+    async fetchById(table, id) {
+      check();
+      const row = tableRows(table).get(id);
+      return row ? copy(row) : null;
+    },
+
+    async fetchByIds(table, ids) {
+      check();
+      const rows = tableRows(table);
+      return ids.flatMap((id) => {
+        const row = rows.get(id);
+        return row ? [copy(row)] : [];
+      });
+    },
+
+    async fetchChangesSince(table, userId, since, limit) {
+      check();
+      return [...tableRows(table).values()]
+        .filter(
+          (row) =>
+            row.user_id === userId &&
+            (since === null || String(row.updated_at) > since),
+        )
+        .sort(
+          (a, b) =>
+            String(a.updated_at).localeCompare(String(b.updated_at)) ||
+            a.id.localeCompare(b.id),
+        )
+        .slice(0, limit)
+        .map((row) => copy(row));
+    },
+
+    async insert(table, row) {
+      check();
+      checkRequired(table, row as Record<string, unknown>);
+      const { id } = row as { id?: string };
+      if (id && tableRows(table).has(id)) {
+        throw new SyncBackendError(
+          `duplicate key value violates unique constraint "${table}_pkey"`,
+          "23505",
+          409,
+        );
+      }
+      store(table, row as Record<string, unknown>);
+    },
+
+    async update(table, ids, changes) {
+      check();
+      for (const id of ids) {
+        const existing = tableRows(table).get(id);
+        if (existing) {
+          store(table, { ...existing, ...(changes as object), id });
+        }
+      }
+    },
+
+    async upsert<T extends SyncTable>(
+      table: T,
+      rows: SyncTableInsert<T>[],
+      onConflict: "id" | "user_id" = "id",
+    ) {
+      check();
+      for (const row of rows as Record<string, unknown>[]) {
+        checkRequired(table, row);
+      }
+
+      const stored = tableRows(table);
+      for (const row of rows as Record<string, unknown>[]) {
+        const existing = [...stored.values()].find(
+          (candidate) =>
+            row[onConflict] !== undefined &&
+            candidate[onConflict] === row[onConflict],
+        );
+        if (existing) stored.delete(existing.id);
+        store(table, { ...existing, ...row });
+      }
+    },
+
+    async softDelete(table, ids, deletedAt) {
+      check();
+      for (const id of ids) {
+        const existing = tableRows(table).get(id);
+        if (existing) {
+          store(table, {
+            ...existing,
+            deleted_at: deletedAt,
+            updated_at: deletedAt,
+          });
+        }
+      }
+    },
+
+    async delete(table, ids) {
+      check();
+      for (const id of ids) {
+        tableRows(table).delete(id);
+      }
+    },
+
+    async fetchActivitySince(userId, since, limit) {
+      check();
+      return [...activity.values()]
+        .filter(
+          (row) =>
+            row.user_id === userId &&
+            (since === null || row.created_at > since),
+        )
+        .sort(
+          (a, b) =>
+            a.created_at.localeCompare(b.created_at) ||
+            a.id.localeCompare(b.id),
+        )
+        .slice(0, limit)
+        .map((row) => structuredClone(row));
+    },
+
+    async insertActivity(rows) {
+      check();
+      for (const row of rows) {
+        if (activity.has(row.id)) continue;
+        activity.set(
+          row.id,
+          structuredClone({ ...row, created_at: nextCreatedAt() }),
+        );
+      }
+    },
+
+    rows(table) {
+      return [...tableRows(table).values()].map((row) => copy(row));
+    },
+
+    activityRows() {
+      return [...activity.values()].map((row) => structuredClone(row));
+    },
+
+    failWith(error) {
+      failure = error;
+    },
+  };
+}
@@ -8,18 +8,51 @@
  * - REWRITE_TEXT, REWRITE_RESPONSE
  * - ASK_QUESTION, ANSWER_QUESTION
  * - PROCESS_IMAGE, PROCESS_AUDIO, MULTIMODAL_RESPONSE
- * - SYNC_NOW, SYNC_STATUS
- * - AUTH_SUCCESS, AUTH_LOGOUT
- * - OPEN_SIDE_PANEL
+ * - CREATE_FLASHCARD, EXTRACT_FLASHCARDS, SAVE_EXTRACTED_FLASHCARDS
+ * - CREATE_FLASHCARDS_FROM_TEXT
+ * - SYNC_NOW, CANCEL_SYNC, SYNC_STATUS
+ * - RESOLVE_SYNC_CONFLICT, SYNC_CONFLICTS_UPDATED
+ * - AUTH_SUCCESS, AUTH_LOGOUT, SWITCH_ACCOUNT
+ * - OPEN_SIDE_PANEL, REFRESH_REVIEW_BADGE
+ * - ACHIEVEMENTS_UPDATED
+ * - RECORD_STUDY_TIME, STUDY_TIME_UPDATED
  * - WEB_APP_SYNC
  */
 
-import type { RuntimeMessage, QARequest, QAResponse } from "@/types";
+import type {
+  CachedNote,
+  ExtensionSettings,
+  FlashcardExtractRequest,
+  FlashcardExtractResponse,
+  RuntimeMessage,
+  QARequest,
+  QAResponse,
+} from "@/types";
 import { supabase } from "@/lib/supabase";
 import { db } from "@/lib/db/schema";
 import { createCachedNote } from "@/lib/db/cache";
-import { getSetting, setSetting, logError } from "@/lib/storage";
-import { processSyncQueue } from "./sync";
+import {
+  createCachedFlashcard,
+  getOrCreateDefaultDeck,
+  toServerPayload,
+} from "@/lib/db/flashcards";
+import { getSetting, setSetting, setSettings, logError } from "@/lib/storage";
+import {
+  forgetAccountSession,
+  getAccount,
+  removeAccount,
+  resetAccountSettings,
+  restoreAccountSettings,
+  saveAccount,
+  touchAccount,
+} from "@/lib/accounts";
+import {
+  cancelSyncRuns,
+  processSyncQueue,
+  enqueueSyncOperation,
+  resolveSyncConflict,
+  seedUserAchievements,
+} from "./sync";
 import {
   answerQuestionWithGemini,
   answerQuestionWithOpenAI,
@@ -29,8 +62,16 @@ import {
 import { getAISupport } from "@/lib/ai/detect";
 import { validatePageContent } from "@/lib/ai/summarize";
 import { logActivity } from "@/lib/db/activity-log";
+import { recordStudyTime } from "@/lib/db/study-time";
+import { enqueueSyncItem, getSyncQueueStats } from "@/lib/db/sync-queue";
+import { deleteSyncBase, saveSyncBase } from "@/lib/db/sync-bases";
+import { deleteSyncConflictForEntity } from "@/lib/db/conflicts";
+import { deleteAccountData } from "@/lib/db/account-data";
 import { translate } from "@/lib/ai/translate";
 import { autoTag } from "@/lib/ai/auto-tag";
+import { extractFlashcardsWithFallback } from "@/lib/ai/flashcard-extract";
+import { segmentVocabularyCandidates } from "@/lib/ai/vocabulary";
+import { isClozeCandidate } from "@/lib/cloze";
 import {
   ensureSupportedSourceLanguage,
   ensureSupportedTargetLanguage,
@@ -66,6 +107,7 @@ import {
 } from "@/lib/ai/rewriter";
 import type { SummarizeRequest, SummarizeResponse } from "@/lib/ai/summarizer";
 import { runOffscreenTask } from "./offscreen";
+import { refreshDueBadge } from "./review-scheduler";
 
 /**
  * Web app sync event structure
@@ -128,22 +170,65 @@ export function setupMessageHandlers(): void {
           handleMultimodal(message, sender, sendResponse);
           return true;
 
+        case "CREATE_FLASHCARD":
+          handleCreateFlashcard(message, sender, sendResponse);
+          return true;
+
+        case "EXTRACT_FLASHCARDS":
+          handleExtractFlashcards(message, sendResponse);
+          return true;
+
+        case "SAVE_EXTRACTED_FLASHCARDS":
+          handleSaveExtractedFlashcards(message, sendResponse);
+          return true;
+
+        case "CREATE_FLASHCARDS_FROM_TEXT":
+          handleCreateFlashcardsFromText(message, sendResponse);
+          return true;
+
         case "SYNC_NOW":
           handleSyncNow(sender, sendResponse);
           return true;
 
+        case "CANCEL_SYNC":
+          sendResponse({ success: cancelSyncRuns() });
+          return false;
+
+        case "RESOLVE_SYNC_CONFLICT":
+          handleResolveSyncConflict(message, sendResponse);
+          return true;
+
         case "AUTH_SUCCESS":
           handleAuthSuccess(message, sender, sendResponse);
           return true;
 
         case "AUTH_LOGOUT":
-          handleAuthLogout(sender, sendResponse);
+          handleAuthLogout(message, sender, sendResponse);
+          return true;
+
+        case "SWITCH_ACCOUNT":
+          handleSwitchAccount(message, sendResponse);
           return true;
 
         case "OPEN_SIDE_PANEL":
           handleOpenSidePanel(message, sender, sendResponse);
           return true;
 
+        case "REFRESH_REVIEW_BADGE":
+          handleRefreshReviewBadge(sendResponse);
+          return true;
+
+        case "ACHIEVEMENTS_UPDATED":
+        case "STUDY_TIME_UPDATED":
+        case "SYNC_CONFLICTS_UPDATED":
+        case "SYNC_PROGRESS":
+          // Broadcast for the popup and side panel; nothing to do here
+          return false;
+
+        case "RECORD_STUDY_TIME":
+          handleRecordStudyTime(message, sendResponse);
+          return true;
+
         case "WEB_APP_SYNC":
           handleWebAppSync(message, sender, sendResponse);
           return true;
@@ -234,6 +319,8 @@ async function handleCaptureText(
       });
     }
 
+    const contextSentence = message.contextSentence?.trim() || null;
+
     // Create note in IndexedDB
     const noteTitle =
       message.selection.length > 80
@@ -249,6 +336,7 @@ async function handleCaptureText(
         targetLanguage,
         grammar: result.grammarExplanation,
         alternatives: result.alternativeExpressions,
+        contextSentence,
       }),
       tags: tags.tags || [],
       sourceType: "extension",
@@ -266,10 +354,28 @@ async function handleCaptureText(
       },
     });
 
+    // Short captures used in a sentence also become a cloze card
+    let clozeFlashcardId: string | null = null;
+    if (
+      contextSentence &&
+      result.translatedText &&
+      isClozeCandidate(message.selection, contextSentence)
+    ) {
+      clozeFlashcardId = await createClozeFlashcardFromCapture(userId, {
+        term: message.selection.trim(),
+        translation: result.translatedText,
+        contextSentence,
+        language: resolvedSourceLanguage,
+        noteId: note.id,
+        pageUrl: message.pageUrl,
+      });
+    }
+
     sendResponse({
       success: true,
       noteId: note.id,
       translatedText: result.translatedText,
+      clozeFlashcardId,
     });
   } catch (error) {
     console.error("[Glotian Messaging] Error handling CAPTURE_TEXT:", error);
@@ -339,16 +445,7 @@ async function handleCaptureTextOffline(
       timestamp: note.createdAt,
     });
 
-    await db.syncQueue.add({
-      operation: "create",
-      table: "learning_notes",
-      entityId: note.id,
-      payload,
-      timestamp: Date.now(),
-      retryCount: 0,
-      lastAttempt: null,
-      error: null,
-    });
+    await enqueueSyncItem(userId, "create", "learning_notes", note.id, payload);
 
     await logActivity(userId, "note_created", {
       entityType: "learning_note",
@@ -520,16 +617,13 @@ async function handleSaveSummaryNote(
       timestamp: now,
     });
 
-    await db.syncQueue.add({
-      operation: "create",
-      table: "learning_notes",
-      entityId: noteId,
-      payload: summaryPayload,
-      timestamp: Date.now(),
-      retryCount: 0,
-      lastAttempt: null,
-      error: null,
-    });
+    await enqueueSyncItem(
+      userId,
+      "create",
+      "learning_notes",
+      noteId,
+      summaryPayload,
+    );
 
     await db.activityLog.add({
       userId,
@@ -995,6 +1089,585 @@ async function handleMultimodal(
   }
 }
 
+/**
+ * Resolve the language new flashcards are filed under
+ *
+ * Uses the explicit language when given, otherwise the learner's source language.
+ */
+async function resolveFlashcardLanguage(explicit?: string): Promise<string> {
+  const defaults = getDefaultLanguagePreferences();
+  const storedSourceLanguage = await getSetting("sourceLanguage");
+  const resolved = ensureSupportedSourceLanguage(
+    explicit ?? storedSourceLanguage,
+    defaults.sourceLanguage,
+  );
+  return resolved === "auto" ? "en" : resolved;
+}
+
+/**
+ * Resolve the deck new flashcards are written to
+ *
+ * Returns null when an explicit deckId does not belong to the user. Otherwise
+ * falls back to the default deck for the language, enqueuing it if just created.
+ */
+async function resolveTargetDeckId(
+  userId: string,
+  language: string,
+  deckId?: string,
+): Promise<string | null> {
+  if (deckId) {
+    const existingDeck = await db.decks.get(deckId);
+    return existingDeck && existingDeck.user_id === userId ? deckId : null;
+  }
+
+  const { deck, created } = await getOrCreateDefaultDeck(userId, language);
+  if (created) {
+    await enqueueSyncOperation(
+      userId,
+      "create",
+      "flashcard_decks",
+      deck.id,
+      toServerPayload(deck),
+    );
+  }
+  return deck.id;
+}
+
+/**
+ * Get the learnable text and language of a cached note
+ *
+ * Older captures store a JSON blob in `content` instead of the server columns.
+ */
+function getNoteStudyText(note: CachedNote): {
+  text: string;
+  language: string | null;
+} {
+  const legacy = note as CachedNote & { content?: unknown };
+  if (typeof note.original_text === "string" && note.original_text.trim()) {
+    return { text: note.original_text, language: note.source_language ?? null };
+  }
+
+  if (typeof legacy.content === "string") {
+    try {
+      const parsed = JSON.parse(legacy.content) as {
+        originalText?: unknown;
+        sourceLanguage?: unknown;
+      };
+      if (typeof parsed.originalText === "string") {
+        return {
+          text: parsed.originalText,
+          language:
+            typeof parsed.sourceLanguage === "string"
+              ? parsed.sourceLanguage
+              : null,
+        };
+      }
+    } catch {
+      // Plain-text content
+    }
+    return { text: legacy.content, language: null };
+  }
+
+  return { text: "", language: null };
+}
+
+/**
+ * Create a cloze card for a captured term, blanked out of its context sentence
+ *
+ * Failures are logged and swallowed so the capture itself still succeeds.
+ */
+async function createClozeFlashcardFromCapture(
+  userId: string,
+  capture: {
+    term: string;
+    translation: string;
+    contextSentence: string;
+    language: string;
+    noteId: string;
+    pageUrl: string;
+  },
+): Promise<string | null> {
+  try {
+    const language = await resolveFlashcardLanguage(capture.language);
+    const deckId = await resolveTargetDeckId(userId, language);
+    if (!deckId) return null;
+
+    const flashcard = await createCachedFlashcard(userId, deckId, {
+      term: capture.term,
+      definition: capture.translation,
+      example_sentences: [capture.contextSentence],
+      source_note_id: capture.noteId,
+      language,
+      card_type: "cloze",
+      context_sentence: capture.contextSentence,
+    });
+
+    await enqueueSyncOperation(
+      userId,
+      "create",
+      "flashcards",
+      flashcard.id,
+      toServerPayload(flashcard),
+    );
+
+    await logActivity(userId, "flashcard_created", {
+      entityType: "flashcard",
+      entityId: flashcard.id,
+      metadata: {
+        deckId,
+        language,
+        sourceType: "capture",
+        cardType: "cloze",
+        pageUrl: capture.pageUrl,
+      },
+    });
+
+    return flashcard.id;
+  } catch (error) {
+    console.error("[Glotian Messaging] Failed to create cloze card:", error);
+    await logError("createClozeFlashcardFromCapture", error as Error, {
+      noteId: capture.noteId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Handle CREATE_FLASHCARD message
+ *
+ * Writes the card into the user's deck (default deck per language unless a
+ * deckId is given), queues it for sync and replies with the created card.
+ */
+async function handleCreateFlashcard(
+  message: Extract<RuntimeMessage, { type: "CREATE_FLASHCARD" }>,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    console.log("[Glotian Messaging] Handling CREATE_FLASHCARD");
+
+    const userId = await getSetting("userId");
+    if (!userId) {
+      sendResponse({
+        success: false,
+        error: "User not authenticated. Please login first.",
+      });
+      return;
+    }
+
+    const term = message.term?.trim();
+    const definition = message.definition?.trim();
+    if (!term || !definition) {
+      sendResponse({
+        success: false,
+        error: "Flashcard term and definition are required.",
+      });
+      return;
+    }
+
+    const language = await resolveFlashcardLanguage(message.language);
+    const deckId = await resolveTargetDeckId(userId, language, message.deckId);
+    if (!deckId) {
+      sendResponse({ success: false, error: "Deck not found." });
+      return;
+    }
+
+    const flashcard = await createCachedFlashcard(userId, deckId, {
+      term,
+      definition,
+      part_of_speech: message.partOfSpeech ?? null,
+      example_sentences: message.exampleSentences ?? [],
+      source_note_id: message.sourceNoteId ?? null,
+      language,
+    });
+
+    await enqueueSyncOperation(
+      userId,
+      "create",
+      "flashcards",
+      flashcard.id,
+      toServerPayload(flashcard),
+    );
+
+    await logActivity(userId, "flashcard_created", {
+      entityType: "flashcard",
+      entityId: flashcard.id,
+      metadata: {
+        deckId,
+        language,
+        sourceType: message.sourceType ?? "manual",
+        pageUrl: sender.tab?.url,
+      },
+    });
+
+    sendResponse({ success: true, flashcard });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling CREATE_FLASHCARD:",
+      error,
+    );
+    await logError("handleCreateFlashcard", error as Error, {
+      messageType: message.type,
+      sourceType: message.sourceType,
+    });
+    sendResponse({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create flashcard.",
+    });
+  }
+}
+
+/**
+ * Handle EXTRACT_FLASHCARDS message
+ *
+ * Returns a preview list of candidates; nothing is written until the user
+ * confirms them via SAVE_EXTRACTED_FLASHCARDS.
+ */
+async function handleExtractFlashcards(
+  message: Extract<RuntimeMessage, { type: "EXTRACT_FLASHCARDS" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    console.log("[Glotian Messaging] Handling EXTRACT_FLASHCARDS");
+
+    const userId = await getSetting("userId");
+    if (!userId) {
+      sendResponse({
+        success: false,
+        error: "User not authenticated. Please login first.",
+      });
+      return;
+    }
+
+    const note = await db.notes.get(message.noteId);
+    if (!note) {
+      sendResponse({ success: false, error: "Note not found." });
+      return;
+    }
+
+    const { text, language: noteLanguage } = getNoteStudyText(note);
+    if (!text.trim()) {
+      sendResponse({
+        success: false,
+        error: "This note has no text to extract flashcards from.",
+      });
+      return;
+    }
+
+    const language = await resolveFlashcardLanguage(noteLanguage ?? undefined);
+    const defaults = getDefaultLanguagePreferences();
+    const targetLanguage = ensureSupportedTargetLanguage(
+      await getSetting("targetLanguage"),
+      defaults.targetLanguage,
+    );
+
+    const request: FlashcardExtractRequest = {
+      text,
+      language,
+      targetLanguage,
+    };
+
+    let result: FlashcardExtractResponse | null = null;
+    const aiSupport = await getAISupport();
+    if (aiSupport.prompt) {
+      try {
+        result = await runOffscreenTask<FlashcardExtractResponse>(
+          "extract-flashcards",
+          { request },
+        );
+      } catch (error) {
+        console.warn(
+          "[Glotian Messaging] Prompt API flashcard extraction failed, using heuristic keywords:",
+          error,
+        );
+      }
+    }
+
+    if (!result) {
+      result = extractFlashcardsWithFallback(request);
+    }
+
+    sendResponse({
+      success: true,
+      noteId: note.id,
+      language,
+      candidates: result.candidates,
+      aiSource: result.aiSource,
+    });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling EXTRACT_FLASHCARDS:",
+      error,
+    );
+    await logError("handleExtractFlashcards", error as Error, {
+      noteId: message.noteId,
+    });
+    sendResponse({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to extract flashcards.",
+    });
+  }
+}
+
+/**
+ * Handle SAVE_EXTRACTED_FLASHCARDS message
+ *
+ * Writes the candidates the user accepted, linked to the source note.
+ */
+async function handleSaveExtractedFlashcards(
+  message: Extract<RuntimeMessage, { type: "SAVE_EXTRACTED_FLASHCARDS" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    console.log("[Glotian Messaging] Handling SAVE_EXTRACTED_FLASHCARDS");
+
+    const userId = await getSetting("userId");
+    if (!userId) {
+      sendResponse({
+        success: false,
+        error: "User not authenticated. Please login first.",
+      });
+      return;
+    }
+
+    const note = await db.notes.get(message.noteId);
+    if (!note) {
+      sendResponse({ success: false, error: "Note not found." });
+      return;
+    }
+
+    const accepted = (message.candidates ?? []).filter(
+      (candidate) => candidate.term?.trim() && candidate.definition?.trim(),
+    );
+    if (accepted.length === 0) {
+      sendResponse({
+        success: false,
+        error: "Select at least one flashcard with a definition.",
+      });
+      return;
+    }
+
+    const { language: noteLanguage } = getNoteStudyText(note);
+    const language = await resolveFlashcardLanguage(noteLanguage ?? undefined);
+    const deckId = await resolveTargetDeckId(userId, language);
+    if (!deckId) {
+      sendResponse({ success: false, error: "Deck not found." });
+      return;
+    }
+
+    const flashcardIds: string[] = [];
+    for (const candidate of accepted) {
+      const flashcard = await createCachedFlashcard(userId, deckId, {
+        term: candidate.term.trim(),
+        definition: candidate.definition.trim(),
+        part_of_speech: candidate.partOfSpeech ?? null,
+        example_sentences: candidate.exampleSentences ?? [],
+        source_note_id: note.id,
+        language,
+      });
+
+      await enqueueSyncOperation(
+        userId,
+        "create",
+        "flashcards",
+        flashcard.id,
+        toServerPayload(flashcard),
+      );
+
+      await logActivity(userId, "flashcard_created", {
+        entityType: "flashcard",
+        entityId: flashcard.id,
+        metadata: {
+          deckId,
+          language,
+          sourceType: "note",
+          sourceNoteId: note.id,
+        },
+      });
+
+      flashcardIds.push(flashcard.id);
+    }
+
+    sendResponse({ success: true, count: flashcardIds.length, flashcardIds });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling SAVE_EXTRACTED_FLASHCARDS:",
+      error,
+    );
+    await logError("handleSaveExtractedFlashcards", error as Error, {
+      noteId: message.noteId,
+      candidateCount: message.candidates?.length,
+    });
+    sendResponse({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to save flashcards.",
+    });
+  }
+}
+
+/**
+ * Handle CREATE_FLASHCARDS_FROM_TEXT message
+ *
+ * Segments text (e.g. a summary simplified to the learner's CEFR level) into
+ * vocabulary and phrase candidates, skips terms already in the user's
+ * flashcards and creates the rest. Definitions come from the side panel translator.
+ * Broadcasts FLASHCARDS_FROM_TEXT_PROGRESS after each candidate.
+ */
+async function handleCreateFlashcardsFromText(
+  message: Extract<RuntimeMessage, { type: "CREATE_FLASHCARDS_FROM_TEXT" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  const jobId = message.jobId ?? null;
+
+  try {
+    console.log("[Glotian Messaging] Handling CREATE_FLASHCARDS_FROM_TEXT");
+
+    const userId = await getSetting("userId");
+    if (!userId) {
+      sendResponse({
+        success: false,
+        error: "User not authenticated. Please login first.",
+      });
+      return;
+    }
+
+    const text = message.text?.trim();
+    if (!text) {
+      sendResponse({
+        success: false,
+        error: "No text to create flashcards from.",
+      });
+      return;
+    }
+
+    const language = await resolveFlashcardLanguage();
+    const defaults = getDefaultLanguagePreferences();
+    const targetLanguage = ensureSupportedTargetLanguage(
+      await getSetting("targetLanguage"),
+      defaults.targetLanguage,
+    );
+
+    const existingTerms = new Set(
+      (await db.flashcards.where("user_id").equals(userId).toArray())
+        .filter((card) => card.language === language && !card.deleted_at)
+        .map((card) => card.term.trim().toLowerCase()),
+    );
+
+    const segmented = segmentVocabularyCandidates(text);
+    const candidates = segmented.filter(
+      (candidate) => !existingTerms.has(candidate.term.toLowerCase()),
+    );
+    const skipped = segmented.length - candidates.length;
+
+    if (candidates.length === 0) {
+      sendResponse({ success: true, created: 0, skipped, failed: 0 });
+      return;
+    }
+
+    const deckId = await resolveTargetDeckId(userId, language);
+    if (!deckId) {
+      sendResponse({ success: false, error: "Deck not found." });
+      return;
+    }
+
+    const reportProgress = (processed: number, created: number) => {
+      chrome.runtime
+        .sendMessage({
+          type: "FLASHCARDS_FROM_TEXT_PROGRESS",
+          jobId,
+          processed,
+          total: candidates.length,
+          created,
+        })
+        .catch(() => {
+          // Side panel may have been closed
+        });
+    };
+
+    let created = 0;
+    let failed = 0;
+
+    for (const [index, candidate] of candidates.entries()) {
+      try {
+        // Chrome AI only works in side panel context
+        const response = await chrome.runtime.sendMessage({
+          type: "TRANSLATE_REQUEST",
+          request: {
+            text: candidate.term,
+            sourceLang: language,
+            targetLang: targetLanguage,
+          },
+        });
+        const definition = response?.success
+          ? response.result?.translatedText?.trim()
+          : "";
+        if (!definition) {
+          throw new Error(response?.error || "Translation failed");
+        }
+
+        const flashcard = await createCachedFlashcard(userId, deckId, {
+          term: candidate.term,
+          definition,
+          part_of_speech: candidate.kind === "phrase" ? "phrase" : null,
+          example_sentences: [candidate.sentence],
+          source_note_id: message.sourceNoteId,
+          language,
+        });
+
+        await enqueueSyncOperation(
+          userId,
+          "create",
+          "flashcards",
+          flashcard.id,
+          toServerPayload(flashcard),
+        );
+
+        await logActivity(userId, "flashcard_created", {
+          entityType: "flashcard",
+          entityId: flashcard.id,
+          metadata: {
+            deckId,
+            language,
+            sourceType: "summary",
+          },
+        });
+
+        created++;
+      } catch (error) {
+        console.warn(
+          "[Glotian Messaging] Skipping flashcard candidate:",
+          candidate.term,
+          error,
+        );
+        failed++;
+      }
+
+      reportProgress(index + 1, created);
+    }
+
+    sendResponse({ success: true, created, skipped, failed });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling CREATE_FLASHCARDS_FROM_TEXT:",
+      error,
+    );
+    await logError("handleCreateFlashcardsFromText", error as Error, {
+      jobId,
+      sourceNoteId: message.sourceNoteId,
+    });
+    sendResponse({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create flashcards.",
+    });
+  }
+}
+
 async function handleSyncNow(
   sender: chrome.runtime.MessageSender,
   sendResponse: (response?: any) => void,
@@ -1014,19 +1687,21 @@ async function handleSyncNow(
       return;
     }
 
-    await processSyncQueue(userId);
+    const result = await processSyncQueue(userId);
+    await refreshDueBadge();
 
     // Get updated sync status
-    const pendingCount = await db.syncQueue.count();
-    const failedCount = await db.syncQueue.where("retryCount").above(0).count();
+    const { total: pendingCount, failed: failedCount } =
+      await getSyncQueueStats(userId);
     const lastSyncTime = await getSetting("lastSyncTime");
 
     sendResponse({
       type: "SYNC_STATUS",
       pendingCount,
-      syncedCount: 0, // TODO: Track this
+      syncedCount: result.synced,
       failedCount,
       lastSyncTime,
+      cancelled: result.cancelled,
     });
   } catch (error) {
     console.error("[Glotian Messaging] Error handling SYNC_NOW:", error);
@@ -1051,8 +1726,25 @@ async function handleAuthSuccess(
       "[Glotian Messaging] Handling AUTH_SUCCESS for user:",
       message.userId,
     );
-    await setSetting("userId", message.userId);
-    await setSetting("supabaseSession", message.session);
+    const previousUserId = await getSetting("userId");
+    if (previousUserId !== message.userId) {
+      if (previousUserId) {
+        // Added another account: keep the one signed in until now
+        cancelSyncRuns();
+        await saveAccount(
+          previousUserId,
+          message.previousSession ?? (await getSetting("supabaseSession")),
+        );
+      }
+      await restoreAccountSettings(message.userId);
+    }
+
+    await setSettings({
+      userId: message.userId,
+      supabaseSession: message.session,
+    });
+    await touchAccount(message.userId, message.session);
+    await seedUserAchievements(message.userId);
     sendResponse({ success: true });
   } catch (error) {
     console.error("[Glotian Messaging] Error handling AUTH_SUCCESS:", error);
@@ -1064,21 +1756,27 @@ async function handleAuthSuccess(
 }
 
 async function handleAuthLogout(
+  message: Extract<RuntimeMessage, { type: "AUTH_LOGOUT" }>,
   sender: chrome.runtime.MessageSender,
   sendResponse: (response?: any) => void,
 ): Promise<void> {
   try {
     console.log("[Glotian Messaging] Handling AUTH_LOGOUT");
+    const userId = await getSetting("userId");
+    cancelSyncRuns();
     await supabase.auth.signOut();
-    await setSetting("userId", null);
-    await setSetting("supabaseSession", null);
 
-    // Clear local data
-    await db.notes.clear();
-    await db.flashcards.clear();
-    await db.decks.clear();
-    await db.syncQueue.clear();
-    await db.activityLog.clear();
+    if (userId && message.wipeData) {
+      await deleteAccountData(userId);
+      await removeAccount(userId);
+    } else if (userId) {
+      // Cached rows, unsynced changes and preferences wait for the next
+      // sign-in to this account
+      await saveAccount(userId, null);
+    }
+
+    await setSettings({ userId: null, supabaseSession: null });
+    await resetAccountSettings();
 
     sendResponse({ success: true });
   } catch (error) {
@@ -1088,6 +1786,137 @@ async function handleAuthLogout(
   }
 }
 
+/**
+ * Make a stored account the signed-in one
+ *
+ * Responds with `needsLogin` (and the account's email) when the account has
+ * no working session; the side panel then asks for its password.
+ */
+async function handleSwitchAccount(
+  message: Extract<RuntimeMessage, { type: "SWITCH_ACCOUNT" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    const target = await getAccount(message.userId);
+    if (!target) {
+      sendResponse({ success: false, error: "Account not found" });
+      return;
+    }
+
+    const currentUserId = await getSetting("userId");
+    if (currentUserId === target.userId) {
+      sendResponse({ success: true });
+      return;
+    }
+
+    if (!target.refreshToken) {
+      sendResponse({ success: false, needsLogin: true, email: target.email });
+      return;
+    }
+
+    console.log("[Glotian Messaging] Switching to account:", target.userId);
+    cancelSyncRuns();
+
+    const {
+      data: { session: currentSession },
+    } = await supabase.auth.getSession();
+
+    const { data, error } = await supabase.auth.refreshSession({
+      refresh_token: target.refreshToken,
+    });
+    if (error || !data.session) {
+      // The stored refresh token was revoked or has expired
+      console.warn(
+        "[Glotian Messaging] Stored session no longer valid:",
+        error?.message,
+      );
+      await forgetAccountSession(target.userId);
+      if (currentSession) {
+        await supabase.auth.setSession(currentSession);
+      }
+      sendResponse({ success: false, needsLogin: true, email: target.email });
+      return;
+    }
+
+    if (currentUserId) {
+      await saveAccount(currentUserId, currentSession);
+    }
+    await restoreAccountSettings(target.userId);
+    await setSettings({
+      userId: target.userId,
+      supabaseSession: data.session,
+    });
+    await touchAccount(target.userId, data.session);
+    await seedUserAchievements(target.userId);
+
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error("[Glotian Messaging] Error handling SWITCH_ACCOUNT:", error);
+    await logError("handleSwitchAccount", error as Error, {
+      userId: message.userId,
+    });
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
+const SIDE_PANEL_TABS = [
+  "capture",
+  "summarize",
+  "qa",
+  "media",
+  "activity",
+  "review",
+  "decks",
+];
+
+/**
+ * Open the side panel for a browser tab, or the active tab when omitted
+ *
+ * Used for background-triggered openings (content scripts, notifications).
+ */
+export async function openSidePanel(tabId?: number): Promise<void> {
+  let targetTabId = tabId;
+
+  if (typeof targetTabId !== "number") {
+    const [activeTab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    targetTabId = activeTab?.id;
+  }
+
+  if (typeof targetTabId === "number") {
+    await chrome.sidePanel.open({ tabId: targetTabId });
+  } else {
+    const currentWindow = await chrome.windows.getCurrent();
+    if (typeof currentWindow.id === "number") {
+      await chrome.sidePanel.open({ windowId: currentWindow.id });
+    } else {
+      throw new Error("Unable to determine active window for side panel.");
+    }
+  }
+}
+
+/**
+ * Open the side panel on a specific tab (e.g. from a notification click)
+ */
+export async function openSidePanelOnTab(
+  tab: ExtensionSettings["sidePanelLastTab"],
+): Promise<void> {
+  // Save before opening so a newly loaded panel restores the tab;
+  // awaiting first would lose the click's user gesture
+  const saved = setSetting("sidePanelLastTab", tab);
+  await openSidePanel();
+  await saved;
+
+  // An already open panel switches tabs on this message
+  await chrome.runtime
+    .sendMessage({ type: "OPEN_SIDE_PANEL", tab, openedBySender: true })
+    .catch(() => {
+      // No-op if the panel is not listening yet
+    });
+}
+
 async function handleOpenSidePanel(
   message: Extract<RuntimeMessage, { type: "OPEN_SIDE_PANEL" }>,
   sender: chrome.runtime.MessageSender,
@@ -1104,31 +1933,11 @@ async function handleOpenSidePanel(
 
     if (!message.openedBySender && !sentFromExtensionUI) {
       // Determine target tab or window for background-triggered openings
-      let targetTabId = sender.tab?.id;
-
-      if (typeof targetTabId !== "number") {
-        const [activeTab] = await chrome.tabs.query({
-          active: true,
-          currentWindow: true,
-        });
-        targetTabId = activeTab?.id;
-      }
-
-      if (typeof targetTabId === "number") {
-        await chrome.sidePanel.open({ tabId: targetTabId });
-      } else {
-        const currentWindow = await chrome.windows.getCurrent();
-        if (typeof currentWindow.id === "number") {
-          await chrome.sidePanel.open({ windowId: currentWindow.id });
-        } else {
-          throw new Error("Unable to determine active window for side panel.");
-        }
-      }
+      await openSidePanel(sender.tab?.id);
     }
 
     // Save last tab preference
-    const allowedTabs = ["capture", "summarize", "qa", "media", "activity"];
-    if (message.tab && allowedTabs.includes(message.tab)) {
+    if (message.tab && SIDE_PANEL_TABS.includes(message.tab)) {
       await setSetting("sidePanelLastTab", message.tab as any);
     }
 
@@ -1140,6 +1949,71 @@ async function handleOpenSidePanel(
   }
 }
 
+async function handleRefreshReviewBadge(
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    await refreshDueBadge();
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling REFRESH_REVIEW_BADGE:",
+      error,
+    );
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
+/**
+ * Record active time reported by a content script (writing coach overlay)
+ *
+ * Content scripts can't reach the extension's IndexedDB themselves.
+ */
+async function handleRecordStudyTime(
+  message: Extract<RuntimeMessage, { type: "RECORD_STUDY_TIME" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    const userId = await getSetting("userId");
+    if (!userId) {
+      sendResponse({ success: false, error: "Not logged in" });
+      return;
+    }
+
+    await recordStudyTime(userId, message.source, message.seconds);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling RECORD_STUDY_TIME:",
+      error,
+    );
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
+/**
+ * Apply the user's choice for a sync conflict (Activity tab inbox)
+ */
+async function handleResolveSyncConflict(
+  message: Extract<RuntimeMessage, { type: "RESOLVE_SYNC_CONFLICT" }>,
+  sendResponse: (response?: any) => void,
+): Promise<void> {
+  try {
+    await resolveSyncConflict(
+      message.conflictId,
+      message.choice,
+      message.values,
+    );
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error(
+      "[Glotian Messaging] Error handling RESOLVE_SYNC_CONFLICT:",
+      error,
+    );
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
 async function handleWebAppSync(
   message: Extract<RuntimeMessage, { type: "WEB_APP_SYNC" }>,
   sender: chrome.runtime.MessageSender,
@@ -1168,6 +2042,7 @@ async function handleWebAppSync(
           syncStatus: "synced" as const,
           lastAccessedAt: Date.now(),
         });
+        await saveSyncBase("learning_notes", notePayload.id, notePayload);
         console.log(
           `[Glotian Messaging] Updated note in cache: ${syncEvent.noteId || "unknown"}`,
         );
@@ -1175,6 +2050,8 @@ async function handleWebAppSync(
     } else if (eventType.includes("NOTE_DELETED")) {
       if (syncEvent.noteId) {
         await db.notes.delete(syncEvent.noteId);
+        await deleteSyncBase("learning_notes", syncEvent.noteId);
+        await deleteSyncConflictForEntity("learning_notes", syncEvent.noteId);
         console.log(
           `[Glotian Messaging] Deleted note from cache: ${syncEvent.noteId}`,
         );
@@ -1189,6 +2066,11 @@ async function handleWebAppSync(
           syncStatus: "synced" as const,
           lastAccessedAt: Date.now(),
         });
+        await saveSyncBase(
+          "flashcard_decks",
+          syncEvent.deck.id,
+          syncEvent.deck,
+        );
         console.log(
           `[Glotian Messaging] Updated deck in cache: ${syncEvent.deckId || "unknown"}`,
         );
@@ -1196,6 +2078,7 @@ async function handleWebAppSync(
     } else if (eventType.includes("DECK_DELETED")) {
       if (syncEvent.deckId) {
         await db.decks.delete(syncEvent.deckId);
+        await deleteSyncBase("flashcard_decks", syncEvent.deckId);
         console.log(
           `[Glotian Messaging] Deleted deck from cache: ${syncEvent.deckId}`,
         );
@@ -1205,11 +2088,20 @@ async function handleWebAppSync(
       eventType.includes("FLASHCARD_UPDATED")
     ) {
       if (syncEvent.flashcard) {
+        // Cloze fields are local only: keep the cached card's
+        const existing = await db.flashcards.get(syncEvent.flashcard.id);
         await db.flashcards.put({
           ...syncEvent.flashcard,
+          card_type: existing?.card_type ?? "basic",
+          context_sentence: existing?.context_sentence ?? null,
           syncStatus: "synced" as const,
           lastAccessedAt: Date.now(),
         });
+        await saveSyncBase(
+          "flashcards",
+          syncEvent.flashcard.id,
+          syncEvent.flashcard,
+        );
         console.log(
           `[Glotian Messaging] Updated flashcard in cache: ${syncEvent.flashcardId || "unknown"}`,
         );
@@ -1217,6 +2109,7 @@ async function handleWebAppSync(
     } else if (eventType.includes("FLASHCARD_DELETED")) {
       if (syncEvent.flashcardId) {
         await db.flashcards.delete(syncEvent.flashcardId);
+        await deleteSyncBase("flashcards", syncEvent.flashcardId);
         console.log(
           `[Glotian Messaging] Deleted flashcard from cache: ${syncEvent.flashcardId}`,
         );
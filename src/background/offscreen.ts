@@ -1,6 +1,10 @@
 const OFFSCREEN_DOCUMENT_PATH = "src/offscreen/index.html";
 
-type OffscreenAction = "summarize" | "qa" | "summarize-content";
+type OffscreenAction =
+  | "summarize"
+  | "qa"
+  | "summarize-content"
+  | "extract-flashcards";
 
 interface OffscreenMessage<Response> {
   ok: boolean;
@@ -0,0 +1,218 @@
+/**
+ * Realtime cache updates
+ *
+ * While a user is signed in, the service worker subscribes to Supabase
+ * Realtime `postgres_changes` on the user's notes, flashcards and decks, and
+ * applies each change to the cache the same way pulled rows are applied
+ * (see `applyServerRow`). Changes then reach the extension without a
+ * glotian.app tab open.
+ *
+ * The socket goes away with the service worker. Every worker start and a
+ * dropped channel re-subscribe, and each new subscription first catches up
+ * with a delta pull. Until subscribed, a one-minute alarm retries as well,
+ * so a worker stopped while waiting to reconnect still gets back.
+ */
+
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { getSetting } from "@/lib/storage";
+import { applyServerRow, pullServerChanges, removeServerRow } from "./sync";
+import { refreshDueBadge } from "./review-scheduler";
+
+export const REALTIME_RECONNECT_ALARM = "realtime-reconnect";
+
+const REALTIME_TABLES = [
+  "learning_notes",
+  "flashcards",
+  "flashcard_decks",
+] as const;
+type RealtimeTable = (typeof REALTIME_TABLES)[number];
+
+// Retry delays after a channel error while the worker stays alive
+const RECONNECT_BASE_DELAY_MS = 2_000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+
+// The client only needs channels, so a stand-in can be swapped in (see
+// `createMemoryRealtimeClient`)
+export type RealtimeClient = Pick<SupabaseClient, "channel" | "removeChannel">;
+
+let realtimeClient: RealtimeClient = supabase;
+let channel: RealtimeChannel | null = null;
+let channelUserId: string | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Register listeners and subscribe for the signed-in user
+ *
+ * Called on every service worker start.
+ */
+export function setupRealtimeSync(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && "userId" in changes) {
+      void ensureRealtimeSubscription();
+    }
+  });
+
+  // Alarms survive worker restarts; the socket doesn't
+  setReconnectAlarm(true);
+
+  void ensureRealtimeSubscription();
+}
+
+/**
+ * Use another Realtime client (e.g. the in-memory one in mock mode)
+ *
+ * An open subscription moves over to the new client.
+ */
+export async function setRealtimeClient(client: RealtimeClient): Promise<void> {
+  const previous = realtimeClient;
+  const wasSubscribed = channel !== null;
+
+  // Swapped before awaiting, so subscriptions started meanwhile use it
+  realtimeClient = client;
+  await unsubscribe(previous);
+  if (wasSubscribed) await ensureRealtimeSubscription();
+}
+
+/**
+ * Subscribe for the signed-in user unless already subscribed
+ *
+ * Also drops the subscription after sign-out or a user switch.
+ */
+export async function ensureRealtimeSubscription(): Promise<void> {
+  try {
+    const userId = (await getSetting("userId")) ?? null;
+
+    if (channel && channelUserId === userId) {
+      const state = channel.state;
+      if (state === "joined" || state === "joining") return;
+    }
+
+    await unsubscribe();
+    if (userId) {
+      subscribe(userId);
+    } else {
+      setReconnectAlarm(false);
+    }
+  } catch (error) {
+    console.error("[Glotian Realtime] Error updating subscription:", error);
+  }
+}
+
+function subscribe(userId: string): void {
+  const filter = `user_id=eq.${userId}`;
+  const next = realtimeClient.channel(`glotian-cache:${userId}`);
+
+  for (const table of REALTIME_TABLES) {
+    next.on(
+      "postgres_changes",
+      { event: "*", schema: "public", table, filter },
+      (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        void handleRealtimeChange(userId, table, payload);
+      },
+    );
+  }
+
+  channel = next;
+  channelUserId = userId;
+
+  next.subscribe((status, error) => {
+    if (channel !== next) return; // Replaced meanwhile
+
+    if (status === "SUBSCRIBED") {
+      console.log("[Glotian Realtime] Subscribed for user:", userId);
+      reconnectAttempts = 0;
+      setReconnectAlarm(false);
+      // Catch up with changes made while disconnected (after any sync run
+      // in progress, see `pullServerChanges`)
+      void pullServerChanges(userId);
+    } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+      console.warn(`[Glotian Realtime] Channel ${status}:`, error);
+      setReconnectAlarm(true);
+      scheduleReconnect();
+    } else if (status === "CLOSED") {
+      console.log("[Glotian Realtime] Channel closed");
+      setReconnectAlarm(true);
+    }
+  });
+}
+
+async function unsubscribe(client = realtimeClient): Promise<void> {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+
+  const current = channel;
+  channel = null;
+  channelUserId = null;
+  if (current) {
+    await client.removeChannel(current);
+  }
+}
+
+/**
+ * Start or stop the one-minute reconnect alarm (handled by the background
+ * script, which calls `ensureRealtimeSubscription`)
+ */
+function setReconnectAlarm(enabled: boolean): void {
+  if (enabled) {
+    chrome.alarms.create(REALTIME_RECONNECT_ALARM, { periodInMinutes: 1 });
+  } else {
+    void chrome.alarms.clear(REALTIME_RECONNECT_ALARM);
+  }
+}
+
+/**
+ * Re-subscribe after a delay that doubles with each failed attempt
+ */
+function scheduleReconnect(): void {
+  if (reconnectTimer) return;
+
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+    RECONNECT_MAX_DELAY_MS,
+  );
+  reconnectAttempts++;
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    void ensureRealtimeSubscription();
+  }, delay);
+}
+
+async function handleRealtimeChange(
+  userId: string,
+  table: RealtimeTable,
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>,
+): Promise<void> {
+  try {
+    let updated: boolean;
+    if (payload.eventType === "DELETE") {
+      const entityId = payload.old.id;
+      if (typeof entityId !== "string") return;
+      updated = await removeServerRow(userId, table, entityId);
+    } else {
+      updated = await applyServerRow(userId, table, payload.new);
+    }
+
+    console.log(
+      `[Glotian Realtime] ${payload.eventType} on ${table}` +
+        (updated ? "" : " (skipped)"),
+    );
+
+    if (updated && table !== "learning_notes") {
+      await refreshDueBadge();
+    }
+  } catch (error) {
+    console.error(
+      `[Glotian Realtime] Error applying ${payload.eventType} on ${table}:`,
+      error,
+    );
+  }
+}
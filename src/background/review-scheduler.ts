@@ -0,0 +1,181 @@
+/**
+ * Review scheduler
+ *
+ * - Shows the number of due cards as the action badge
+ * - Fires an optional daily reminder notification at the user's chosen
+ *   time, unless it falls within quiet hours or nothing is due
+ * - Clicking the reminder opens the side panel on the Review tab
+ */
+
+import { getSetting, getSettings } from "@/lib/storage";
+import { countDueCards } from "@/lib/db/study";
+import { getNextOccurrence, isWithinQuietHours } from "@/utils/time-of-day";
+import { openSidePanelOnTab } from "./messaging";
+
+export const REVIEW_REMINDER_ALARM = "review-reminder";
+const REVIEW_REMINDER_NOTIFICATION = "glotian-review-reminder";
+
+const BADGE_COLOR = "#1976d2";
+const MAX_BADGE_COUNT = 99;
+
+// Settings that change when (or whether) the reminder fires
+const REMINDER_SETTING_KEYS = [
+  "reviewReminderEnabled",
+  "reviewReminderTime",
+  "quietHoursEnabled",
+  "quietHoursStart",
+  "quietHoursEnd",
+];
+
+/**
+ * Register listeners and bring the badge and reminder alarm up to date
+ *
+ * Called on every service worker start; alarms persist across restarts,
+ * so the reminder is only scheduled here when none is pending.
+ */
+export function setupReviewScheduler(): void {
+  chrome.notifications.onClicked.addListener((notificationId) => {
+    if (notificationId === REVIEW_REMINDER_NOTIFICATION) {
+      void openReviewTab();
+    }
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "local") return;
+
+    if ("userId" in changes) {
+      void refreshDueBadge();
+    }
+    if (REMINDER_SETTING_KEYS.some((key) => key in changes)) {
+      void scheduleReviewReminder();
+    }
+  });
+
+  void refreshDueBadge();
+
+  // Keep a pending alarm: the worker may have been woken to handle it
+  void chrome.alarms.get(REVIEW_REMINDER_ALARM).then((existing) => {
+    if (!existing) void scheduleReviewReminder();
+  });
+}
+
+/**
+ * Show the due card count on the action badge (cleared when nothing is due)
+ */
+export async function refreshDueBadge(): Promise<void> {
+  try {
+    const userId = await getSetting("userId");
+    const dueCount = userId ? await countDueCards(userId) : 0;
+
+    await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+    await chrome.action.setBadgeText({
+      text:
+        dueCount === 0
+          ? ""
+          : dueCount > MAX_BADGE_COUNT
+            ? `${MAX_BADGE_COUNT}+`
+            : String(dueCount),
+    });
+  } catch (error) {
+    console.error("[Glotian Review Scheduler] Error updating badge:", error);
+  }
+}
+
+/**
+ * Create (or clear) the one-shot alarm for the next reminder
+ *
+ * A one-shot alarm is rescheduled after each firing so the reminder stays
+ * at the same local time across daylight saving changes.
+ */
+export async function scheduleReviewReminder(): Promise<void> {
+  try {
+    await chrome.alarms.clear(REVIEW_REMINDER_ALARM);
+
+    const { reviewReminderEnabled, reviewReminderTime } = await getSettings([
+      "reviewReminderEnabled",
+      "reviewReminderTime",
+    ]);
+    if (!reviewReminderEnabled) return;
+
+    const when = getNextOccurrence(reviewReminderTime, new Date());
+    if (!when) {
+      console.warn(
+        "[Glotian Review Scheduler] Invalid reminder time:",
+        reviewReminderTime,
+      );
+      return;
+    }
+
+    await chrome.alarms.create(REVIEW_REMINDER_ALARM, {
+      when: when.getTime(),
+    });
+    console.log(
+      "[Glotian Review Scheduler] Next reminder at",
+      when.toLocaleString(),
+    );
+  } catch (error) {
+    console.error(
+      "[Glotian Review Scheduler] Error scheduling reminder:",
+      error,
+    );
+  }
+}
+
+/**
+ * Handle the reminder alarm: notify if cards are due outside quiet hours
+ */
+export async function handleReviewReminderAlarm(): Promise<void> {
+  await scheduleReviewReminder();
+
+  try {
+    const settings = await getSettings([
+      "userId",
+      "reviewReminderEnabled",
+      "quietHoursEnabled",
+      "quietHoursStart",
+      "quietHoursEnd",
+    ]);
+    if (!settings.reviewReminderEnabled || !settings.userId) return;
+
+    const now = new Date();
+    if (
+      settings.quietHoursEnabled &&
+      isWithinQuietHours(now, settings.quietHoursStart, settings.quietHoursEnd)
+    ) {
+      console.log("[Glotian Review Scheduler] Reminder skipped: quiet hours");
+      return;
+    }
+
+    const dueCount = await countDueCards(settings.userId, now);
+    await refreshDueBadge();
+    if (dueCount === 0) {
+      console.log("[Glotian Review Scheduler] Reminder skipped: nothing due");
+      return;
+    }
+
+    await chrome.notifications.create(REVIEW_REMINDER_NOTIFICATION, {
+      type: "basic",
+      iconUrl: chrome.runtime.getURL("icons/icon-128.png"),
+      title: "Time to review",
+      message: `You have ${dueCount} card${dueCount === 1 ? "" : "s"} due for review.`,
+      priority: 1,
+    });
+  } catch (error) {
+    console.error("[Glotian Review Scheduler] Error showing reminder:", error);
+  }
+}
+
+/**
+ * Open the side panel on the Review tab (reminder notification click)
+ */
+async function openReviewTab(): Promise<void> {
+  try {
+    await openSidePanelOnTab("review");
+    await chrome.notifications.clear(REVIEW_REMINDER_NOTIFICATION);
+  } catch (error) {
+    console.error(
+      "[Glotian Review Scheduler] Error opening review tab:",
+      error,
+    );
+  }
+}
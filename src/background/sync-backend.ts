@@ -0,0 +1,211 @@
+/**
+ * Sync backend
+ *
+ * The server side of the sync engine (see `processSyncQueue`) and of the
+ * activity log upload (see `syncActivityLog`): the few reads and writes
+ * they need, behind one interface. The Supabase adapter
+ * below is the one the extension uses; `createMemorySyncBackend` keeps the
+ * tables in memory, for working offline and for automated tests.
+ *
+ * Methods throw on failure. Errors should carry a PostgREST `code` and/or
+ * an HTTP `status` like Supabase errors do, so the engine can tell auth,
+ * validation and transient failures apart (see `classifySyncError`).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/supabase";
+import type { ActivityLogRow, SyncQueueItem } from "@/types";
+
+type PublicTables = Database["public"]["Tables"];
+
+export type SyncTable = Extract<keyof PublicTables, SyncQueueItem["table"]>;
+export type SyncTableRow<T extends SyncTable> = PublicTables[T]["Row"];
+export type SyncTableInsert<T extends SyncTable> = PublicTables[T]["Insert"];
+export type SyncTableUpdate<T extends SyncTable> = PublicTables[T]["Update"];
+
+export type ActivityLogInsert = PublicTables["activity_log"]["Insert"];
+
+// Tables with a deleted_at column
+export type SoftDeleteTable =
+  | "learning_notes"
+  | "flashcards"
+  | "flashcard_decks";
+
+export interface SyncBackend {
+  /** The row with this id, or null if there is none */
+  fetchById<T extends SyncTable>(
+    table: T,
+    id: string,
+  ): Promise<SyncTableRow<T> | null>;
+  /** The rows with these ids; ids without a row are left out */
+  fetchByIds<T extends SyncTable>(
+    table: T,
+    ids: string[],
+  ): Promise<SyncTableRow<T>[]>;
+  /**
+   * A user's rows with `updated_at` after `since` (all rows when null),
+   * ordered by `updated_at`, then `id`
+   */
+  fetchChangesSince<T extends SyncTable>(
+    table: T,
+    userId: string,
+    since: string | null,
+    limit: number,
+  ): Promise<SyncTableRow<T>[]>;
+  /** Insert a new row; fails if the id is taken */
+  insert<T extends SyncTable>(table: T, row: SyncTableInsert<T>): Promise<void>;
+  /** Set the same columns on existing rows (ids without a row are skipped) */
+  update<T extends SyncTable>(
+    table: T,
+    ids: string[],
+    changes: SyncTableUpdate<T>,
+  ): Promise<void>;
+  /** Insert rows, or overwrite the rows they collide with on `onConflict` */
+  upsert<T extends SyncTable>(
+    table: T,
+    rows: SyncTableInsert<T>[],
+    onConflict?: "id" | "user_id",
+  ): Promise<void>;
+  /** Set `deleted_at` (and `updated_at`) on rows */
+  softDelete(
+    table: SoftDeleteTable,
+    ids: string[],
+    deletedAt: string,
+  ): Promise<void>;
+  /** Remove rows for good */
+  delete(table: SyncTable, ids: string[]): Promise<void>;
+  /**
+   * A user's activity rows with `created_at` after `since` (all rows when
+   * null), ordered by `created_at`, then `id`
+   */
+  fetchActivitySince(
+    userId: string,
+    since: string | null,
+    limit: number,
+  ): Promise<ActivityLogRow[]>;
+  /** Insert activity rows, skipping those whose id is already taken */
+  insertActivity(rows: ActivityLogInsert[]): Promise<void>;
+}
+
+/**
+ * Error thrown by backends other than Supabase, shaped like a Supabase error
+ */
+export class SyncBackendError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "SyncBackendError";
+  }
+}
+
+/**
+ * Sync backend on a Supabase project (PostgREST errors are rethrown as is)
+ */
+export function createSupabaseSyncBackend(
+  client: SupabaseClient<Database>,
+): SyncBackend {
+  // Queries are built for the union of tables; rows are cast back per table
+  const from = (table: SyncTable) => client.from(table);
+
+  return {
+    async fetchById<T extends SyncTable>(table: T, id: string) {
+      const { data, error } = await from(table)
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as unknown as SyncTableRow<T> | null;
+    },
+
+    async fetchByIds<T extends SyncTable>(table: T, ids: string[]) {
+      if (ids.length === 0) return [];
+      const { data, error } = await from(table).select("*").in("id", ids);
+      if (error) throw error;
+      return (data ?? []) as unknown as SyncTableRow<T>[];
+    },
+
+    async fetchChangesSince<T extends SyncTable>(
+      table: T,
+      userId: string,
+      since: string | null,
+      limit: number,
+    ) {
+      let query = from(table)
+        .select("*")
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(limit);
+      if (since) {
+        query = query.gt("updated_at", since);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data ?? []) as unknown as SyncTableRow<T>[];
+    },
+
+    async insert(table, row) {
+      const { error } = await from(table).insert(row as never);
+      if (error) throw error;
+    },
+
+    async update(table, ids, changes) {
+      if (ids.length === 0) return;
+      const { error } = await from(table)
+        .update(changes as never)
+        .in("id", ids);
+      if (error) throw error;
+    },
+
+    async upsert(table, rows, onConflict = "id") {
+      if (rows.length === 0) return;
+      const { error } = await from(table).upsert(rows as never, {
+        onConflict,
+      });
+      if (error) throw error;
+    },
+
+    async softDelete(table, ids, deletedAt) {
+      const { error } = await client
+        .from(table)
+        .update({ deleted_at: deletedAt, updated_at: deletedAt })
+        .in("id", ids);
+      if (error) throw error;
+    },
+
+    async delete(table, ids) {
+      const { error } = await from(table).delete().in("id", ids);
+      if (error) throw error;
+    },
+
+    async fetchActivitySince(userId, since, limit) {
+      let query = client
+        .from("activity_log")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(limit);
+      if (since) {
+        query = query.gt("created_at", since);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data ?? []) as ActivityLogRow[];
+    },
+
+    async insertActivity(rows) {
+      if (rows.length === 0) return;
+      const { error } = await client.from("activity_log").upsert(rows, {
+        onConflict: "id",
+        ignoreDuplicates: true,
+      });
+      if (error) throw error;
+    },
+  };
+}
@@ -3,6 +3,8 @@
  *
  * Handles offline changes and syncs them to Supabase when online
  * Implements Last-Write-Wins conflict resolution
+ * Pulls rows changed on the server since the last run (delta sync)
+ * Reads and writes go through a `SyncBackend` (Supabase by default)
  */
 
 import { supabase } from "@/lib/supabase";
@@ -12,14 +14,53 @@ import type {
   CachedDeck,
   CachedFlashcard,
   CachedNote,
+  CachedReview,
+  CachedStudyProgress,
+  CachedStudySession,
+  CachedUserAchievements,
   CachedUserPreference,
+  SyncConflictChoice,
+  SyncErrorKind,
+  SyncItemResult,
+  SyncProgressEvent,
   SyncQueueItem,
-  Tables,
+  SyncRunStats,
 } from "@/types";
 import type { Database, Json } from "@/types/supabase";
-import type { SupabaseClient, PostgrestError } from "@supabase/supabase-js";
 import type { Table, UpdateSpec } from "dexie";
 import type { Note } from "@/types";
+import { createEmptyStats } from "@/lib/db/achievements";
+import {
+  adoptOwnerlessSyncItems,
+  compactSyncQueue,
+  completeSyncItem,
+  enqueueSyncItem,
+  getAllSyncItems,
+  hasUnsyncedChanges,
+  moveToDeadLetter,
+  updateSyncItemRetry,
+} from "@/lib/db/sync-queue";
+import { deleteSyncBase, getSyncBase, saveSyncBase } from "@/lib/db/sync-bases";
+import { getSyncCursor, saveSyncCursor } from "@/lib/db/sync-cursors";
+import {
+  deleteSyncConflict,
+  deleteSyncConflictForEntity,
+  getSyncConflict,
+  saveSyncConflict,
+} from "@/lib/db/conflicts";
+import { logActivity } from "@/lib/db/activity-log";
+import { syncActivityLog } from "./activity-sync";
+import {
+  createSupabaseSyncBackend,
+  type SoftDeleteTable,
+  type SyncBackend,
+  type SyncTable,
+  type SyncTableInsert,
+  type SyncTableRow,
+  type SyncTableUpdate,
+} from "./sync-backend";
+import { mergeThreeWay } from "@/lib/sync-merge";
+import type { MergedField } from "@/lib/sync-merge";
 
 type SupabaseLearningNote = Note;
 type NoteSourceType = "manual" | "image" | "voice" | "extension" | "web" | "mobile";
@@ -29,11 +70,7 @@ function fromSupabaseNote(note: SupabaseLearningNote): Note {
   return note;
 }
 
-type SyncTable = Extract<
-  keyof Database["public"]["Tables"],
-  SyncQueueItem["table"]
->;
-type TableRow<T extends SyncTable> = Tables<T>;
+type TableRow<T extends SyncTable> = SyncTableRow<T>;
 
 type ValidationResult<T> = { ok: true; data: T } | { ok: false; issue: string };
 
@@ -52,10 +89,106 @@ const SRS_ALGORITHMS = new Set(["sm2", "fsrs-lite"]);
 
 const CEFR_LEVELS = new Set(["A1", "A2", "B1", "B2", "C1", "C2"]);
 
+const STUDY_STATUSES = new Set(["new", "learning", "review", "relearning"]);
+
+const REVIEW_RATINGS = new Set([1, 2, 3, 4]);
+
+// Append-only (reviews) or single-writer (study_sessions) tables have no
+// updated_at column, so they skip the Last-Write-Wins check
+const TABLES_WITHOUT_UPDATED_AT: ReadonlySet<SyncTable> = new Set<SyncTable>([
+  "reviews",
+  "study_sessions",
+]);
+
+// Tables with a deleted_at column: deletes are pushed as soft deletes unless
+// they are permanent (see `isPermanentDelete`)
+const SOFT_DELETE_TABLES: ReadonlySet<SyncTable> = new Set<SoftDeleteTable>([
+  "learning_notes",
+  "flashcards",
+  "flashcard_decks",
+]);
+
+// Push order: parents before children (foreign keys). Deletes go in reverse.
+const PUSH_TABLE_ORDER: readonly SyncTable[] = [
+  "user_preferences",
+  "flashcard_decks",
+  "learning_notes",
+  "flashcards",
+  "study_progress",
+  "reviews",
+  "study_sessions",
+  "user_achievements",
+];
+
+// Pushed one item at a time: achievements upsert on user_id, one row per user
+const UNBATCHED_TABLES: ReadonlySet<SyncTable> = new Set<SyncTable>([
+  "user_achievements",
+]);
+
+// Rows per bulk request
+const SYNC_BATCH_SIZE = 100;
+
+// Retry policy for transient failures: jittered exponential backoff, then
+// the item is moved to the dead-letter queue
+const MAX_SYNC_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// PostgREST / Postgres codes for an expired or insufficient session
+const AUTH_ERROR_CODES: ReadonlySet<string> = new Set([
+  "PGRST301", // JWT expired / invalid
+  "PGRST302", // Anonymous access disabled
+]);
+
+// Postgres error classes worth retrying: connection, transaction rollback,
+// insufficient resources, operator intervention
+const TRANSIENT_SQLSTATE_CLASSES = ["08", "40", "53", "57"];
+
+// Where rows are pushed to and pulled from
+let syncBackend: SyncBackend = createSupabaseSyncBackend(supabase);
+
+/**
+ * Sync against another backend (e.g. `createMemorySyncBackend` offline)
+ */
+export function setSyncBackend(backend: SyncBackend): void {
+  syncBackend = backend;
+}
+
+// Sync runs and catch-up pulls read and write the same queue, cache and
+// cursors, so they take turns (see `runExclusive`)
+let syncTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a task once every sync run or pull started before it has finished
+ */
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = syncTail.then(task);
+  syncTail = result.catch(() => {});
+  return result;
+}
+
+/**
+ * A queued payload the server can never accept as-is (not retried)
+ */
+class SyncValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncValidationError";
+  }
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+function getErrorMessage(error: unknown): string {
+  return (
+    (isRecord(error) && typeof error.message === "string"
+      ? error.message
+      : String(error)) || "Unknown error"
+  );
+}
+
 function ensureString(
   record: Record<string, unknown>,
   key: string,
@@ -193,6 +326,11 @@ type FlashcardRow = Database["public"]["Tables"]["flashcards"]["Row"];
 type FlashcardDeckRow = Database["public"]["Tables"]["flashcard_decks"]["Row"];
 type UserPreferenceRow =
   Database["public"]["Tables"]["user_preferences"]["Row"];
+type StudyProgressRow = Database["public"]["Tables"]["study_progress"]["Row"];
+type ReviewRow = Database["public"]["Tables"]["reviews"]["Row"];
+type StudySessionRow = Database["public"]["Tables"]["study_sessions"]["Row"];
+type UserAchievementsRow =
+  Database["public"]["Tables"]["user_achievements"]["Row"];
 
 function validateFlashcardRow(data: unknown): ValidationResult<FlashcardRow> {
   if (!isRecord(data)) {
@@ -361,6 +499,204 @@ function validateUserPreferenceRow(
   };
 }
 
+function validateStudyProgressRow(
+  data: unknown,
+): ValidationResult<StudyProgressRow> {
+  if (!isRecord(data)) {
+    return { ok: false, issue: "expected object" };
+  }
+
+  const requiredStrings: Array<keyof StudyProgressRow> = [
+    "id",
+    "user_id",
+    "flashcard_id",
+    "next_review_at",
+    "updated_at",
+  ];
+
+  for (const key of requiredStrings) {
+    const result = ensureString(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const requiredNumbers: Array<keyof StudyProgressRow> = [
+    "interval_days",
+    "ease_factor",
+    "repetitions",
+    "total_reviews",
+    "correct_reviews",
+  ];
+
+  for (const key of requiredNumbers) {
+    const result = ensureNumber(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const lastReviewedAt = ensureNullableString(data, "last_reviewed_at");
+  if (!lastReviewedAt.ok) return lastReviewedAt;
+
+  const status = data["status"];
+  if (!STUDY_STATUSES.has(status as string)) {
+    return {
+      ok: false,
+      issue: `status must be one of ${Array.from(STUDY_STATUSES).join(", ")}`,
+    };
+  }
+
+  return {
+    ok: true,
+    data: {
+      id: data.id as string,
+      user_id: data.user_id as string,
+      flashcard_id: data.flashcard_id as string,
+      interval_days: data.interval_days as number,
+      ease_factor: data.ease_factor as number,
+      repetitions: data.repetitions as number,
+      next_review_at: data.next_review_at as string,
+      total_reviews: data.total_reviews as number,
+      correct_reviews: data.correct_reviews as number,
+      last_reviewed_at: lastReviewedAt.data,
+      status: status as StudyProgressRow["status"],
+      updated_at: data.updated_at as string,
+    },
+  };
+}
+
+function validateReviewRow(data: unknown): ValidationResult<ReviewRow> {
+  if (!isRecord(data)) {
+    return { ok: false, issue: "expected object" };
+  }
+
+  const requiredStrings: Array<keyof ReviewRow> = [
+    "id",
+    "user_id",
+    "flashcard_id",
+    "reviewed_at",
+  ];
+
+  for (const key of requiredStrings) {
+    const result = ensureString(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const timeTaken = ensureNumber(data, "time_taken_seconds");
+  if (!timeTaken.ok) return timeTaken;
+
+  const rating = data["rating"];
+  if (!REVIEW_RATINGS.has(rating as number)) {
+    return {
+      ok: false,
+      issue: `rating must be one of ${Array.from(REVIEW_RATINGS).join(", ")}`,
+    };
+  }
+
+  return {
+    ok: true,
+    data: {
+      id: data.id as string,
+      user_id: data.user_id as string,
+      flashcard_id: data.flashcard_id as string,
+      rating: rating as ReviewRow["rating"],
+      time_taken_seconds: timeTaken.data,
+      reviewed_at: data.reviewed_at as string,
+    },
+  };
+}
+
+function validateStudySessionRow(
+  data: unknown,
+): ValidationResult<StudySessionRow> {
+  if (!isRecord(data)) {
+    return { ok: false, issue: "expected object" };
+  }
+
+  const requiredStrings: Array<keyof StudySessionRow> = [
+    "id",
+    "user_id",
+    "started_at",
+  ];
+
+  for (const key of requiredStrings) {
+    const result = ensureString(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const endedAt = ensureNullableString(data, "ended_at");
+  if (!endedAt.ok) return endedAt;
+
+  const requiredNumbers: Array<keyof StudySessionRow> = [
+    "cards_reviewed",
+    "correct_count",
+    "total_time_seconds",
+  ];
+
+  for (const key of requiredNumbers) {
+    const result = ensureNumber(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  return {
+    ok: true,
+    data: {
+      id: data.id as string,
+      user_id: data.user_id as string,
+      started_at: data.started_at as string,
+      ended_at: endedAt.data,
+      cards_reviewed: data.cards_reviewed as number,
+      correct_count: data.correct_count as number,
+      total_time_seconds: data.total_time_seconds as number,
+    },
+  };
+}
+
+function validateUserAchievementsRow(
+  data: unknown,
+): ValidationResult<UserAchievementsRow> {
+  if (!isRecord(data)) {
+    return { ok: false, issue: "expected object" };
+  }
+
+  const requiredStrings: Array<keyof UserAchievementsRow> = [
+    "id",
+    "user_id",
+    "updated_at",
+  ];
+
+  for (const key of requiredStrings) {
+    const result = ensureString(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const requiredNumbers: Array<keyof UserAchievementsRow> = [
+    "current_streak",
+    "longest_streak",
+    "total_xp",
+    "level",
+  ];
+
+  for (const key of requiredNumbers) {
+    const result = ensureNumber(data, key as string);
+    if (!result.ok) return result;
+  }
+
+  const badges = ensureStringArray(data, "badges");
+  if (!badges.ok) return badges;
+
+  return {
+    ok: true,
+    data: {
+      id: data.id as string,
+      user_id: data.user_id as string,
+      current_streak: data.current_streak as number,
+      longest_streak: data.longest_streak as number,
+      total_xp: data.total_xp as number,
+      level: data.level as number,
+      badges: badges.data,
+      updated_at: data.updated_at as string,
+    },
+  };
+}
+
 function logValidationFailure(
   scope: "remote" | "payload",
   table: SyncTable,
@@ -372,20 +708,6 @@ function logValidationFailure(
   );
 }
 
-type TableInsertMap = {
-  learning_notes: Database["public"]["Tables"]["learning_notes"]["Insert"];
-  flashcards: Database["public"]["Tables"]["flashcards"]["Insert"];
-  flashcard_decks: Database["public"]["Tables"]["flashcard_decks"]["Insert"];
-  user_preferences: Database["public"]["Tables"]["user_preferences"]["Insert"];
-};
-
-type TableUpdateMap = {
-  learning_notes: Database["public"]["Tables"]["learning_notes"]["Update"];
-  flashcards: Database["public"]["Tables"]["flashcards"]["Update"];
-  flashcard_decks: Database["public"]["Tables"]["flashcard_decks"]["Update"];
-  user_preferences: Database["public"]["Tables"]["user_preferences"]["Update"];
-};
-
 function ensureObjectPayload(
   payload: unknown,
 ): payload is Record<string, unknown> {
@@ -400,19 +722,44 @@ type CacheTableMap = {
   flashcards: CachedFlashcard;
   flashcard_decks: CachedDeck;
   user_preferences: CachedUserPreference;
+  study_progress: CachedStudyProgress;
+  reviews: CachedReview;
+  study_sessions: CachedStudySession;
+  user_achievements: CachedUserAchievements;
 };
 
 type CacheUpdateSpec =
   | UpdateSpec<CachedNote>
   | UpdateSpec<CachedFlashcard>
   | UpdateSpec<CachedDeck>
-  | UpdateSpec<CachedUserPreference>;
+  | UpdateSpec<CachedUserPreference>
+  | UpdateSpec<CachedStudyProgress>
+  | UpdateSpec<CachedReview>
+  | UpdateSpec<CachedStudySession>
+  | UpdateSpec<CachedUserAchievements>;
+
+// Tables pulled by delta sync, parents first. Reviews and sessions have no
+// updated_at to track; achievements are seeded once (`seedUserAchievements`)
+const PULL_TABLES = [
+  "user_preferences",
+  "flashcard_decks",
+  "flashcards",
+  "study_progress",
+  "learning_notes",
+] as const satisfies readonly SyncTable[];
+type PullTable = (typeof PULL_TABLES)[number];
+
+const PULL_PAGE_SIZE = 500;
 
 const DB_TABLE_MAP: { [K in SyncTable]: Table<CacheTableMap[K], string> } = {
   learning_notes: db.notes,
   flashcards: db.flashcards,
   flashcard_decks: db.decks,
   user_preferences: db.userPreferences,
+  study_progress: db.studyProgress,
+  reviews: db.reviews,
+  study_sessions: db.studySessions,
+  user_achievements: db.achievements,
 };
 
 /**
@@ -430,26 +777,98 @@ async function updateCacheTable<T extends SyncTable>(
 }
 
 /**
- * Handle sync conflict by fetching latest server data and updating local cache
+ * Resolve a queued change against a newer server row
+ *
+ * Updates are merged field by field against the merge base: local edits to
+ * fields the server didn't touch are kept and pushed on the next run, while
+ * fields changed on both sides keep the server value. A deleted row that
+ * was edited on the server is restored from the server. Either way the
+ * details are logged as `sync_conflict` activity, and fields (or deletes)
+ * the user has to decide on are stored in the conflict inbox.
  */
-async function handleConflict(
-  tableName: SyncTable,
-  entityId: string,
-): Promise<void> {
+async function handleConflict(item: SyncQueueItem): Promise<void> {
+  const tableName: SyncTable = item.table;
+  const entityId = item.entityId;
+
   try {
-    const { data: latestData } = await supabase
-      .from(tableName)
-      .select("*")
-      .eq("id", entityId)
-      .maybeSingle();
+    const latestData = await syncBackend.fetchById(tableName, entityId);
+    if (!latestData) return;
+
+    const server = latestData as Record<string, unknown>;
+
+    if (item.operation !== "update" || !ensureObjectPayload(item.payload)) {
+      await updateLocalCacheFromServer(
+        tableName,
+        entityId,
+        latestData as TableRow<typeof tableName>,
+      );
+      // A create that collided with an existing row has no base to merge on
+      const conflicts =
+        item.operation === "create" && ensureObjectPayload(item.payload)
+          ? mergeThreeWay(null, item.payload, server).conflicts
+          : [];
+      if (item.operation === "delete" || conflicts.length > 0) {
+        await recordSyncConflict(item, conflicts, server, server);
+      }
+      await logSyncConflict(item, {
+        operation: item.operation,
+        fields: [],
+      });
+      return;
+    }
 
-    if (latestData) {
+    const base = await getSyncBase(tableName, entityId);
+    const result = mergeThreeWay(base, item.payload, server);
+    let cachedRow = server;
+
+    if (result.hasLocalChanges) {
+      const payload = {
+        ...result.merged,
+        updated_at: new Date().toISOString(),
+      };
+      cachedRow = payload;
+      await updateLocalCacheFromServer(
+        tableName,
+        entityId,
+        payload as TableRow<typeof tableName>,
+      );
+      // The server still has its own version until the merge is pushed
+      await saveSyncBase(tableName, entityId, server);
+      await updateCacheTable(tableName, entityId, { syncStatus: "pending" });
+      // Folds into the in-flight queue item, which is kept for the next run
+      await enqueueSyncItem(
+        item.userId,
+        "update",
+        tableName,
+        entityId,
+        payload,
+      );
+    } else {
       await updateLocalCacheFromServer(
         tableName,
         entityId,
         latestData as TableRow<typeof tableName>,
       );
     }
+
+    if (result.conflicts.length > 0) {
+      await recordSyncConflict(item, result.conflicts, cachedRow, server);
+    }
+
+    if (result.fields.length > 0) {
+      await logSyncConflict(item, {
+        operation: item.operation,
+        mergedWithBase: base !== null,
+        fields: result.fields.map((field) => ({
+          field: field.field,
+          before: field.base,
+          local: field.local,
+          server: field.server,
+          after: field.merged,
+          resolution: field.resolution,
+        })),
+      });
+    }
   } catch (err) {
     console.error(
       `[Glotian Sync] Error handling conflict for ${entityId}:`,
@@ -459,129 +878,850 @@ async function handleConflict(
 }
 
 /**
- * Process all pending items in the sync queue for a specific user
+ * Store a conflict for the user to resolve (Activity tab inbox)
+ *
+ * @param cachedRow - Row now in the local cache
  */
-export async function processSyncQueue(userId: string): Promise<{
-  synced: number;
-  failed: number;
-  conflicts: number;
-}> {
-  console.log("[Glotian Sync] Processing sync queue for user:", userId);
+async function recordSyncConflict(
+  item: SyncQueueItem,
+  conflicts: MergedField[],
+  cachedRow: Record<string, unknown>,
+  server: Record<string, unknown>,
+): Promise<void> {
+  await saveSyncConflict({
+    userId: item.userId,
+    table: item.table,
+    entityId: item.entityId,
+    operation: item.operation,
+    fields: conflicts.map(({ field, base, local, server }) => ({
+      field,
+      base,
+      local,
+      server,
+    })),
+    merged: cachedRow,
+    serverUpdatedAt:
+      typeof server.updated_at === "string" ? server.updated_at : null,
+  });
+}
 
-  const stats = {
-    synced: 0,
-    failed: 0,
-    conflicts: 0,
-  };
+/**
+ * Apply the user's choice for a stored conflict
+ *
+ * - "server": the cache already has the server values, so the conflict is
+ *   just dropped
+ * - "local" / "edit": the chosen values are written to the cache and queued
+ *   as an update; for a local delete, the delete is queued again
+ */
+export async function resolveSyncConflict(
+  conflictId: number,
+  choice: SyncConflictChoice,
+  values?: Record<string, unknown>,
+): Promise<void> {
+  const conflict = await getSyncConflict(conflictId);
+  if (!conflict) {
+    throw new Error("Conflict not found");
+  }
 
-  try {
-    // Get all pending sync items for this user, ordered by timestamp
-    // Note: The sync queue doesn't have user_id directly, but we process only items
-    // that belong to this user's entities. However, for proper multi-user support,
-    // entities should have user_id fields. This implementation assumes per-user filtering
-    // happens at the entity level when items are enqueued.
-    const queue = await db.syncQueue.orderBy("timestamp").toArray();
+  const tableName: SyncTable = conflict.table;
+  const entityId = conflict.entityId;
+  const updatedAt = new Date().toISOString();
 
-    if (queue.length === 0) {
-      console.log("[Glotian Sync] No items in sync queue");
-      await updateLastSyncTime(Date.now());
-      return stats;
-    }
-
-    console.log(`[Glotian Sync] Processing ${queue.length} items`);
-
-    // Process each item sequentially
-    for (const item of queue) {
-      try {
-        const result = await syncItem(item);
-
-        if (result === "success") {
-          stats.synced++;
-          if (item.id !== undefined) {
-            await db.syncQueue.delete(item.id);
-          }
-        } else if (result === "conflict") {
-          stats.conflicts++;
-          if (item.id !== undefined) {
-            await db.syncQueue.delete(item.id);
-          }
-        } else if (result === "retry") {
-          stats.failed++;
-          await updateRetryCount(item);
-        }
-      } catch (error) {
-        console.error(`[Glotian Sync] Error syncing item ${item.id}:`, error);
-        stats.failed++;
-        await updateRetryCount(item);
-        await logError("syncItem", error as Error, { item });
-      }
+  if (choice === "server") {
+    // Nothing to push
+  } else if (conflict.operation === "delete") {
+    if (choice === "edit") {
+      throw new Error("A deleted item can't be edited");
+    }
+    // Only items deleted from the trash are queued as deletes
+    await DB_TABLE_MAP[tableName].delete(entityId);
+    await enqueueSyncItem(conflict.userId, "delete", tableName, entityId, {
+      updated_at: updatedAt,
+      permanent: true,
+    });
+  } else {
+    if (choice === "edit" && !values) {
+      throw new Error("Edited values are required");
     }
 
-    await updateLastSyncTime(Date.now());
-    console.log("[Glotian Sync] Sync complete:", stats);
+    const chosen: Record<string, unknown> = {};
+    for (const field of conflict.fields) {
+      chosen[field.field] =
+        choice === "edit" && values && field.field in values
+          ? values[field.field]
+          : field.local;
+    }
 
-    // Broadcast sync status to side panel and popup
-    broadcastSyncStatus(stats);
-  } catch (error) {
-    console.error("[Glotian Sync] Error processing sync queue:", error);
-    await logError("processSyncQueue", error as Error, { userId });
+    // The server keeps its version (the merge base) until this is pushed
+    const base = await getSyncBase(tableName, entityId);
+    await updateLocalCacheFromServer(tableName, entityId, {
+      ...conflict.merged,
+      ...chosen,
+      updated_at: updatedAt,
+    } as TableRow<typeof tableName>);
+    if (base) {
+      await saveSyncBase(tableName, entityId, base);
+    } else {
+      await deleteSyncBase(tableName, entityId);
+    }
+    await updateCacheTable(tableName, entityId, { syncStatus: "pending" });
+    await enqueueSyncItem(conflict.userId, "update", tableName, entityId, {
+      ...chosen,
+      updated_at: updatedAt,
+    });
   }
 
-  return stats;
+  await deleteSyncConflict(conflict);
+  console.log(
+    `[Glotian Sync] Resolved conflict for ${tableName}/${entityId}: ${choice}`,
+  );
+}
+
+async function logSyncConflict(
+  item: SyncQueueItem,
+  details: Record<string, unknown>,
+): Promise<void> {
+  const entityType =
+    item.table === "learning_notes"
+      ? "learning_note"
+      : item.table === "flashcards"
+        ? "flashcard"
+        : null;
+
+  await logActivity(item.userId, "sync_conflict", {
+    entityType,
+    entityId: item.entityId,
+    metadata: { table: item.table, ...details },
+  });
 }
 
 /**
- * Sync a single item to Supabase
+ * Pull rows changed on the server since the last pull into the local cache
+ *
+ * Brings in changes made elsewhere (web app, other devices). Each table is
+ * read in `updated_at` order from its high-water mark. Rows with local
+ * changes still waiting to be pushed are skipped, and the mark stays before
+ * the first of them, so they are pulled again once their changes are pushed.
+ * Waits for a sync run in progress (which pulls too) to finish.
+ *
+ * @returns Number of rows applied to the cache
  */
-async function syncItem(
-  item: SyncQueueItem,
-): Promise<"success" | "conflict" | "retry"> {
-  console.log(
-    `[Glotian Sync] Syncing ${item.operation} on ${item.table} (${item.entityId})`,
-  );
+export function pullServerChanges(userId: string): Promise<number> {
+  return runExclusive(() => pullChanges(userId));
+}
 
-  try {
-    const tableName: SyncTable = item.table;
-    const client = supabase;
+async function pullChanges(userId: string): Promise<number> {
+  let applied = 0;
 
-    // Check for conflicts (Last-Write-Wins)
-    if (item.operation === "update" || item.operation === "delete") {
-      const { data: serverData, error: fetchError } = await client
-        .from(tableName)
-        .select("updated_at")
-        .eq("id", item.entityId)
-        .maybeSingle();
-
-      if (fetchError && fetchError.code !== "PGRST116") {
-        // PGRST116 = not found (OK for delete)
-        throw fetchError;
+  for (const table of PULL_TABLES) {
+    try {
+      applied += await pullTableChanges(userId, table);
+    } catch (error) {
+      console.error(`[Glotian Sync] Error pulling ${table}:`, error);
+      await logError("pullServerChanges", error as Error, { userId, table });
+    }
+  }
+
+  if (applied > 0) {
+    console.log(`[Glotian Sync] Pulled ${applied} changed rows`);
+  }
+  return applied;
+}
+
+async function pullTableChanges(
+  userId: string,
+  table: PullTable,
+): Promise<number> {
+  let cursor = await getSyncCursor(userId, table);
+  let applied = 0;
+  // Set at the first row skipped for a pending local change: the last
+  // updated_at before that row's, where the next pull has to start
+  let heldCursor: string | null | undefined;
+  let previousUpdatedAt = cursor;
+  let olderUpdatedAt = cursor; // Latest updated_at older than the row's
+
+  for (;;) {
+    const rows = (await syncBackend.fetchChangesSince(
+      table,
+      userId,
+      cursor,
+      PULL_PAGE_SIZE,
+    )) as Record<string, unknown>[];
+    if (rows.length === 0) break;
+
+    // A full page may end partway through rows sharing one updated_at:
+    // leave those for the next page so none are skipped by the cursor
+    const isFullPage = rows.length === PULL_PAGE_SIZE;
+    const lastUpdatedAt = rows[rows.length - 1].updated_at;
+    const trimmed = isFullPage
+      ? rows.filter((row) => row.updated_at !== lastUpdatedAt)
+      : rows;
+    const page = trimmed.length > 0 ? trimmed : rows;
+
+    for (const row of page) {
+      const updatedAt = String(row.updated_at);
+      if (updatedAt !== previousUpdatedAt) olderUpdatedAt = previousUpdatedAt;
+      previousUpdatedAt = updatedAt;
+
+      if (await applyServerRow(userId, table, row)) {
+        applied++;
+      } else if (
+        heldCursor === undefined &&
+        typeof row.id === "string" &&
+        (await hasPendingLocalChanges(userId, table, row.id))
+      ) {
+        heldCursor = olderUpdatedAt;
       }
+    }
 
-      const localUpdatedRaw = (item.payload as { updated_at?: string })
-        .updated_at;
-      const serverUpdatedAt = (serverData as { updated_at?: string } | null)
-        ?.updated_at;
+    cursor = String(page[page.length - 1].updated_at);
+    if (heldCursor === undefined) {
+      await saveSyncCursor(userId, table, cursor);
+    }
 
-      if (serverUpdatedAt) {
-        if (!localUpdatedRaw) {
-          console.warn(
-            `[Glotian Sync] Local payload missing updated_at for ${item.entityId}, using server version`,
-          );
-          await handleConflict(tableName, item.entityId);
-          return "conflict";
-        }
+    if (!isFullPage) break;
+  }
 
-        const serverUpdated = new Date(serverUpdatedAt).getTime();
-        const localUpdated = new Date(localUpdatedRaw).getTime();
+  if (heldCursor) {
+    await saveSyncCursor(userId, table, heldCursor);
+  }
+  return applied;
+}
 
-        if (serverUpdated > localUpdated) {
-          console.warn(
-            `[Glotian Sync] Conflict detected for ${item.entityId}: server is newer`,
-          );
-          await handleConflict(tableName, item.entityId);
-          return "conflict";
-        }
-      } else if (!serverData && item.operation === "delete") {
+/**
+ * Apply a row read from the server (delta pull or Realtime) to the cache
+ *
+ * Rows with local changes still waiting to be pushed are left alone: the
+ * push resolves them against the server (see `handleConflict`). Soft-deleted
+ * rows keep their `deleted_at` tombstone, so they show up in the trash.
+ *
+ * @returns Whether the cache was updated
+ */
+export async function applyServerRow(
+  userId: string,
+  table: SyncTable,
+  row: Record<string, unknown>,
+): Promise<boolean> {
+  const entityId = typeof row.id === "string" ? row.id : null;
+  if (!entityId) {
+    logValidationFailure("remote", table, "unknown", "id must be a string");
+    return false;
+  }
+
+  if (await hasPendingLocalChanges(userId, table, entityId)) {
+    return false;
+  }
+
+  await updateLocalCacheFromServer(
+    table,
+    entityId,
+    row as TableRow<typeof table>,
+  );
+  return true;
+}
+
+/**
+ * Remove a row deleted on the server from the cache
+ *
+ * Kept if it has local changes waiting to be pushed.
+ *
+ * @returns Whether the cache was updated
+ */
+export async function removeServerRow(
+  userId: string,
+  table: SyncTable,
+  entityId: string,
+): Promise<boolean> {
+  if (await hasPendingLocalChanges(userId, table, entityId)) {
+    return false;
+  }
+
+  await removeCachedRow(table, entityId);
+  return true;
+}
+
+async function hasPendingLocalChanges(
+  userId: string,
+  table: SyncTable,
+  entityId: string,
+): Promise<boolean> {
+  const cached = (await DB_TABLE_MAP[table].get(entityId)) as
+    | { syncStatus?: string }
+    | undefined;
+  return (
+    cached?.syncStatus === "pending" ||
+    (await hasUnsyncedChanges(userId, table, entityId))
+  );
+}
+
+async function removeCachedRow(
+  table: SyncTable,
+  entityId: string,
+): Promise<void> {
+  await DB_TABLE_MAP[table].delete(entityId);
+  await deleteSyncBase(table, entityId);
+  await deleteSyncConflictForEntity(table, entityId);
+}
+
+/**
+ * Process all pending items in the sync queue for a specific user
+ *
+ * Queued local changes are pushed first, batched per table (see
+ * `pushSyncRound`), then changes made elsewhere are pulled (see
+ * `pullServerChanges`). The activity log syncs last (see `syncActivityLog`).
+ *
+ * Progress is broadcast as SYNC_PROGRESS events. A run cancelled with
+ * `cancelSyncRuns` stops before its next request; items not pushed yet stay
+ * queued and nothing is pulled. Runs start once earlier runs and pulls have
+ * finished.
+ */
+export function processSyncQueue(
+  userId: string,
+): Promise<SyncRunStats & { cancelled: boolean }> {
+  return runExclusive(() => runSyncQueue(userId));
+}
+
+async function runSyncQueue(
+  userId: string,
+): Promise<SyncRunStats & { cancelled: boolean }> {
+  console.log("[Glotian Sync] Processing sync queue for user:", userId);
+
+  const stats: SyncRunStats = {
+    synced: 0,
+    failed: 0,
+    conflicts: 0,
+    pulled: 0,
+  };
+  const run: SyncRun = {
+    id: crypto.randomUUID(),
+    stats,
+    failedEntities: new Set(),
+    total: 0,
+    itemIndexes: new Map(),
+    cancelled: false,
+  };
+  let authFailed = false;
+  activeSyncRuns.add(run);
+
+  try {
+    // Adopt the server's achievements row before pushing a local one
+    await seedUserAchievements(userId);
+
+    // Items left without an owner by an older version
+    await adoptOwnerlessSyncItems(userId);
+
+    // Fold redundant operations (e.g. repeated edits) before pushing
+    await compactSyncQueue(userId);
+
+    // Get all pending sync items for this user, ordered by timestamp.
+    // Items queued by other users on this profile stay parked until they
+    // sign back in, so they are never pushed under this user's session.
+    const queue = await getAllSyncItems(userId);
+
+    // Skip items still backing off from an earlier failure
+    const now = Date.now();
+    const dueItems = queue.filter((item) => (item.nextAttemptAt ?? 0) <= now);
+    run.total = dueItems.length;
+    emitSyncProgress(run, { phase: "started", total: run.total });
+
+    if (queue.length === 0) {
+      console.log("[Glotian Sync] No items in sync queue");
+    } else {
+      console.log(
+        `[Glotian Sync] Processing ${dueItems.length} items (${queue.length - dueItems.length} backing off)`,
+      );
+    }
+
+    // Each round pushes at most one item per entity, so an entity's changes
+    // still reach the server in order. Later items of an entity whose
+    // earlier item failed wait for the next run.
+    let pending = dueItems;
+    while (pending.length > 0 && !authFailed && !run.cancelled) {
+      const round: SyncQueueItem[] = [];
+      const deferred: SyncQueueItem[] = [];
+      const inRound = new Set<string>();
+      for (const item of pending) {
+        const key = `${item.table}:${item.entityId}`;
+        (inRound.has(key) ? deferred : round).push(item);
+        inRound.add(key);
+      }
+
+      authFailed = await pushSyncRound(round, run);
+      pending = [];
+      for (const item of deferred) {
+        if (run.failedEntities.has(`${item.table}:${item.entityId}`)) {
+          reportSyncItemResult(run, item, "skipped");
+        } else {
+          pending.push(item);
+        }
+      }
+    }
+
+    if (run.cancelled) {
+      console.log("[Glotian Sync] Sync cancelled:", stats);
+    } else {
+      // Pulled after pushing, so rows just pushed come back as the new base
+      if (!authFailed) {
+        stats.pulled = await pullChanges(userId);
+        await syncActivityLog(userId, syncBackend);
+      }
+
+      await updateLastSyncTime(Date.now());
+      console.log("[Glotian Sync] Sync complete:", stats);
+    }
+
+    // Broadcast sync status to side panel and popup
+    broadcastSyncStatus(stats);
+  } catch (error) {
+    console.error("[Glotian Sync] Error processing sync queue:", error);
+    await logError("processSyncQueue", error as Error, { userId });
+  } finally {
+    activeSyncRuns.delete(run);
+    emitSyncProgress(run, {
+      phase: "finished",
+      stats: { ...stats },
+      cancelled: run.cancelled,
+    });
+  }
+
+  return { ...stats, cancelled: run.cancelled };
+}
+
+interface SyncRun {
+  id: string;
+  stats: SyncRunStats;
+  failedEntities: Set<string>; // "table:entityId"
+  total: number; // Items due at the start of the run
+  itemIndexes: Map<SyncQueueItem, number>; // 1-based, in push order
+  cancelled: boolean;
+}
+
+const activeSyncRuns = new Set<SyncRun>();
+
+/**
+ * Ask running syncs to stop before their next request
+ *
+ * Requests already sent finish and are recorded; the rest stays queued.
+ *
+ * @returns Whether a sync was running
+ */
+export function cancelSyncRuns(): boolean {
+  for (const run of activeSyncRuns) {
+    run.cancelled = true;
+  }
+  return activeSyncRuns.size > 0;
+}
+
+function emitSyncProgress(run: SyncRun, event: SyncProgressEvent): void {
+  chrome.runtime
+    .sendMessage({ type: "SYNC_PROGRESS", runId: run.id, event })
+    .catch(() => {
+      // No side panel open
+    });
+}
+
+/**
+ * Announce that an item is being pushed (again, after a failed batch)
+ */
+function reportSyncItemStart(run: SyncRun, item: SyncQueueItem): void {
+  emitSyncProgress(run, {
+    phase: "item",
+    index: getSyncItemIndex(run, item),
+    total: run.total,
+    table: item.table,
+    entityId: item.entityId,
+    operation: item.operation,
+  });
+}
+
+function reportSyncItemResult(
+  run: SyncRun,
+  item: SyncQueueItem,
+  result: SyncItemResult,
+  error?: unknown,
+): void {
+  emitSyncProgress(run, {
+    phase: "result",
+    index: getSyncItemIndex(run, item),
+    total: run.total,
+    table: item.table,
+    entityId: item.entityId,
+    result,
+    error: error === undefined ? undefined : getErrorMessage(error),
+  });
+}
+
+function getSyncItemIndex(run: SyncRun, item: SyncQueueItem): number {
+  let index = run.itemIndexes.get(item);
+  if (index === undefined) {
+    index = run.itemIndexes.size + 1;
+    run.itemIndexes.set(item, index);
+  }
+  return index;
+}
+
+/**
+ * Push one round of queue items (at most one per entity)
+ *
+ * Creates and updates go first, parents before children, then deletes in
+ * reverse order. Each table's items are sent in chunks of
+ * `SYNC_BATCH_SIZE`.
+ *
+ * @returns Whether the session was rejected (the run should stop)
+ */
+async function pushSyncRound(
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<boolean> {
+  for (const table of PUSH_TABLE_ORDER) {
+    const writes = items.filter(
+      (item) => item.table === table && item.operation !== "delete",
+    );
+    for (let i = 0; i < writes.length; i += SYNC_BATCH_SIZE) {
+      if (run.cancelled) return false;
+      const chunk = writes.slice(i, i + SYNC_BATCH_SIZE);
+      if (await pushWriteBatch(table, chunk, run)) return true;
+    }
+  }
+
+  for (const table of [...PUSH_TABLE_ORDER].reverse()) {
+    const deletes = items.filter(
+      (item) => item.table === table && item.operation === "delete",
+    );
+    for (let i = 0; i < deletes.length; i += SYNC_BATCH_SIZE) {
+      if (run.cancelled) return false;
+      const chunk = deletes.slice(i, i + SYNC_BATCH_SIZE);
+      if (await pushDeleteBatch(table, chunk, run)) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Push creates and updates for one table in bulk
+ *
+ * Creates are upserted, grouped by their set of columns. Updates are sent
+ * with `update`, one request per set of identical changes: an upsert would
+ * need every NOT NULL column (Postgres checks them before ON CONFLICT, so
+ * partial payloads fail), an INSERT policy, and would bring back rows
+ * deleted on the server. If a request fails for any reason other than
+ * auth, its items are retried one at a time to find the rows at fault.
+ */
+async function pushWriteBatch(
+  table: SyncTable,
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<boolean> {
+  // Invalid payloads fail (and are dead-lettered) on their own
+  const valid = items.filter((item) => ensureObjectPayload(item.payload));
+  const invalid = items.filter((item) => !ensureObjectPayload(item.payload));
+  if (await pushItemsIndividually(invalid, run)) return true;
+
+  if (UNBATCHED_TABLES.has(table) || valid.length <= 1) {
+    return pushItemsIndividually(valid, run);
+  }
+
+  await markSyncAttempts(valid, run);
+
+  let toPush: SyncQueueItem[];
+  try {
+    toPush = await resolveBatchConflicts(table, valid, run);
+  } catch (error) {
+    if (classifySyncError(error) === "auth") {
+      return failSyncItems(valid, error, run);
+    }
+    return pushItemsIndividually(valid, run);
+  }
+
+  const groups = new Map<string, SyncQueueItem[]>();
+  for (const item of toPush) {
+    const key =
+      item.operation === "create"
+        ? `create:${Object.keys(item.payload).sort().join(",")}`
+        : `update:${JSON.stringify(
+            Object.entries(getUpdateChanges(item)).sort(([a], [b]) =>
+              a.localeCompare(b),
+            ),
+          )}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  for (const group of groups.values()) {
+    if (run.cancelled) break;
+    const isCreate = group[0].operation === "create";
+    try {
+      if (isCreate) {
+        const rows = group.map((item) => ({
+          ...item.payload,
+          id: item.entityId,
+          user_id: item.userId,
+        }));
+        await syncBackend.upsert(
+          table,
+          rows as unknown as SyncTableInsert<typeof table>[],
+        );
+      } else {
+        await syncBackend.update(
+          table,
+          group.map((item) => item.entityId),
+          getUpdateChanges(group[0]) as SyncTableUpdate<typeof table>,
+        );
+      }
+    } catch (error) {
+      console.warn(
+        `[Glotian Sync] Batch ${isCreate ? "upsert" : "update"} of ${group.length} ${table} rows failed, retrying one by one:`,
+        (error as Error).message,
+      );
+      if (classifySyncError(error) === "auth") {
+        return failSyncItems(group, error, run);
+      }
+      if (await pushItemsIndividually(group, run)) return true;
+      continue;
+    }
+
+    for (const item of group) {
+      await updateCacheTable(table, item.entityId, { syncStatus: "synced" });
+      await finishSyncItem(item, "success", run);
+    }
+    console.log(
+      `[Glotian Sync] ${isCreate ? "Upserted" : "Updated"} ${group.length} ${table} rows`,
+    );
+  }
+
+  return false;
+}
+
+/**
+ * The columns a queued update sets: its payload without the row's id
+ */
+function getUpdateChanges(item: SyncQueueItem): Record<string, unknown> {
+  const changes: Record<string, unknown> = { ...item.payload };
+  delete changes.id;
+  return changes;
+}
+
+/**
+ * Push deletes for one table with a single `in()` request
+ */
+async function pushDeleteBatch(
+  table: SyncTable,
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<boolean> {
+  if (UNBATCHED_TABLES.has(table) || items.length <= 1) {
+    return pushItemsIndividually(items, run);
+  }
+
+  await markSyncAttempts(items, run);
+
+  let toDelete: SyncQueueItem[];
+  try {
+    toDelete = await resolveBatchConflicts(table, items, run);
+  } catch (error) {
+    if (classifySyncError(error) === "auth") {
+      return failSyncItems(items, error, run);
+    }
+    return pushItemsIndividually(items, run);
+  }
+  if (toDelete.length === 0) return false;
+
+  // Soft and permanent deletes are separate requests
+  const groups = [
+    toDelete.filter((item) => !isPermanentDelete(item)),
+    toDelete.filter(isPermanentDelete),
+  ];
+  for (const [index, group] of groups.entries()) {
+    if (group.length === 0) continue;
+    if (run.cancelled) break;
+
+    try {
+      await deleteServerRows(
+        table,
+        group.map((item) => item.entityId),
+        index === 1,
+      );
+    } catch (error) {
+      console.warn(
+        `[Glotian Sync] Batch delete of ${group.length} ${table} rows failed, retrying one by one:`,
+        (error as Error).message,
+      );
+      if (classifySyncError(error) === "auth") {
+        return failSyncItems(group, error, run);
+      }
+      if (await pushItemsIndividually(group, run)) return true;
+      continue;
+    }
+
+    for (const item of group) {
+      await updateCacheTable(table, item.entityId, { syncStatus: "synced" });
+      await finishSyncItem(item, "success", run);
+    }
+    console.log(`[Glotian Sync] Deleted ${group.length} ${table} rows`);
+  }
+  return false;
+}
+
+/**
+ * Last-Write-Wins for a batch: one lookup for all its updates and deletes
+ *
+ * Items the server has a newer version of are resolved as conflicts here.
+ *
+ * @returns Items still to push
+ */
+async function resolveBatchConflicts(
+  table: SyncTable,
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<SyncQueueItem[]> {
+  if (TABLES_WITHOUT_UPDATED_AT.has(table)) return items;
+
+  const checked = items.filter((item) => item.operation !== "create");
+  if (checked.length === 0) return items;
+
+  const serverRows = (await syncBackend.fetchByIds(
+    table,
+    checked.map((item) => item.entityId),
+  )) as Array<{ id: string; updated_at?: string }>;
+
+  const serverUpdatedAt = new Map(
+    serverRows.map((row) => [row.id, row.updated_at]),
+  );
+
+  const toPush: SyncQueueItem[] = [];
+  for (const item of items) {
+    if (item.operation === "create") {
+      toPush.push(item);
+      continue;
+    }
+
+    const updatedAt = serverUpdatedAt.get(item.entityId);
+    if (updatedAt && isServerNewer(item, updatedAt)) {
+      await handleConflict(item);
+      await finishSyncItem(item, "conflict", run);
+    } else if (
+      !serverUpdatedAt.has(item.entityId) &&
+      item.operation === "delete"
+    ) {
+      // Nothing to delete on server
+      await finishSyncItem(item, "success", run);
+    } else {
+      toPush.push(item);
+    }
+  }
+  return toPush;
+}
+
+/**
+ * Push items one request at a time (small batches, or a batch that failed)
+ */
+async function pushItemsIndividually(
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<boolean> {
+  for (const item of items) {
+    // Stop between items; the rest stays queued
+    if (run.cancelled) return false;
+
+    try {
+      await markSyncAttempts([item], run);
+      const result = await syncItem(item);
+      await finishSyncItem(item, result, run);
+    } catch (error) {
+      console.error(`[Glotian Sync] Error syncing item ${item.id}:`, error);
+      // Every other item would fail the same way until the session is
+      // refreshed
+      if (await failSyncItems([item], error, run)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Mark the attempt first: a create that may reach the server must not be
+ * cancelled out by a delete queued meanwhile
+ */
+async function markSyncAttempts(
+  items: SyncQueueItem[],
+  run: SyncRun,
+): Promise<void> {
+  const now = Date.now();
+  for (const item of items) {
+    reportSyncItemStart(run, item);
+    if (item.id === undefined) continue;
+    item.lastAttempt = now;
+    await db.syncQueue.update(item.id, { lastAttempt: now });
+  }
+}
+
+async function finishSyncItem(
+  item: SyncQueueItem,
+  result: "success" | "conflict",
+  run: SyncRun,
+): Promise<void> {
+  if (result === "success") {
+    run.stats.synced++;
+    // The server now has this version: it's the base for later merges
+    if (item.operation === "delete") {
+      await deleteSyncBase(item.table, item.entityId);
+      await deleteSyncConflictForEntity(item.table, item.entityId);
+    } else {
+      await saveSyncBase(item.table, item.entityId, item.payload, true);
+    }
+  } else {
+    run.stats.conflicts++;
+  }
+  await completeSyncItem(item);
+  reportSyncItemResult(run, item, result === "success" ? "synced" : result);
+}
+
+/**
+ * Send failed items down the retry path
+ *
+ * @returns Whether the failure was an auth error (the run should stop)
+ */
+async function failSyncItems(
+  items: SyncQueueItem[],
+  error: unknown,
+  run: SyncRun,
+): Promise<boolean> {
+  const errorKind = classifySyncError(error);
+  for (const item of items) {
+    run.stats.failed++;
+    run.failedEntities.add(`${item.table}:${item.entityId}`);
+    await handleSyncFailure(item, errorKind, error);
+    await logError("syncItem", error as Error, { item, errorKind });
+    reportSyncItemResult(run, item, "failed", error);
+  }
+  return errorKind === "auth";
+}
+
+/**
+ * Sync a single item to Supabase
+ */
+async function syncItem(item: SyncQueueItem): Promise<"success" | "conflict"> {
+  console.log(
+    `[Glotian Sync] Syncing ${item.operation} on ${item.table} (${item.entityId})`,
+  );
+
+  try {
+    const tableName: SyncTable = item.table;
+
+    // Check for conflicts (Last-Write-Wins)
+    if (
+      (item.operation === "update" || item.operation === "delete") &&
+      !TABLES_WITHOUT_UPDATED_AT.has(tableName)
+    ) {
+      const serverData = await syncBackend.fetchById(tableName, item.entityId);
+      const serverUpdatedAt = (serverData as { updated_at?: string } | null)
+        ?.updated_at;
+
+      if (serverUpdatedAt) {
+        if (isServerNewer(item, serverUpdatedAt)) {
+          await handleConflict(item);
+          return "conflict";
+        }
+      } else if (!serverData && item.operation === "delete") {
         // Nothing to delete on server
         return "success";
       } else if (!serverData && item.operation === "update") {
@@ -591,214 +1731,47 @@ async function syncItem(
       }
     }
 
-    if (item.operation === "create") {
-      let insertError: PostgrestError | null = null;
-
-      switch (tableName) {
-        case "learning_notes": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for create: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("learning_notes")
-            .insert<
-              TableInsertMap["learning_notes"]
-            >(item.payload as TableInsertMap["learning_notes"]);
-          insertError = error ?? null;
-          break;
-        }
-        case "flashcards": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for create: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("flashcards")
-            .insert<
-              TableInsertMap["flashcards"]
-            >(item.payload as TableInsertMap["flashcards"]);
-          insertError = error ?? null;
-          break;
-        }
-        case "flashcard_decks": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for create: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("flashcard_decks")
-            .insert<
-              TableInsertMap["flashcard_decks"]
-            >(item.payload as TableInsertMap["flashcard_decks"]);
-          insertError = error ?? null;
-          break;
-        }
-        case "user_preferences": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for create: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("user_preferences")
-            .insert<
-              TableInsertMap["user_preferences"]
-            >(item.payload as TableInsertMap["user_preferences"]);
-          insertError = error ?? null;
-          break;
-        }
+    if (item.operation === "delete") {
+      await deleteServerRows(
+        tableName,
+        [item.entityId],
+        isPermanentDelete(item),
+      );
+    } else {
+      if (!ensureObjectPayload(item.payload)) {
+        logValidationFailure(
+          "payload",
+          tableName,
+          item.entityId,
+          "payload must be an object",
+        );
+        await updateCacheTable(tableName, item.entityId, {
+          syncStatus: "failed",
+        });
+        throw new SyncValidationError(
+          `Invalid payload for ${item.operation}: payload must be an object`,
+        );
       }
 
-      if (insertError) throw insertError;
-    } else if (item.operation === "update") {
-      let updateError: PostgrestError | null = null;
-
-      switch (tableName) {
-        case "learning_notes": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for update: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("learning_notes")
-            .update<TableUpdateMap["learning_notes"]>(
-              item.payload as TableUpdateMap["learning_notes"],
-            )
-            .eq("id", item.entityId);
-          updateError = error ?? null;
-          break;
-        }
-        case "flashcards": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for update: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("flashcards")
-            .update<TableUpdateMap["flashcards"]>(
-              item.payload as TableUpdateMap["flashcards"],
-            )
-            .eq("id", item.entityId);
-          updateError = error ?? null;
-          break;
-        }
-        case "flashcard_decks": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for update: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("flashcard_decks")
-            .update<TableUpdateMap["flashcard_decks"]>(
-              item.payload as TableUpdateMap["flashcard_decks"],
-            )
-            .eq("id", item.entityId);
-          updateError = error ?? null;
-          break;
-        }
-        case "user_preferences": {
-          if (!ensureObjectPayload(item.payload)) {
-            logValidationFailure(
-              "payload",
-              tableName,
-              item.entityId,
-              "payload must be an object",
-            );
-            await updateCacheTable(tableName, item.entityId, {
-              syncStatus: "failed",
-            });
-            throw new Error(
-              "Invalid payload for update: payload must be an object",
-            );
-          }
-          const { error } = await client
-            .from("user_preferences")
-            .update<TableUpdateMap["user_preferences"]>(
-              item.payload as TableUpdateMap["user_preferences"],
-            )
-            .eq("id", item.entityId);
-          updateError = error ?? null;
-          break;
-        }
+      if (item.operation === "update") {
+        await syncBackend.update(
+          tableName,
+          [item.entityId],
+          item.payload as SyncTableUpdate<typeof tableName>,
+        );
+      } else if (tableName === "user_achievements") {
+        // One row per user: take over a row the web app may have created
+        await syncBackend.upsert(
+          tableName,
+          [item.payload as SyncTableInsert<typeof tableName>],
+          "user_id",
+        );
+      } else {
+        await syncBackend.insert(
+          tableName,
+          item.payload as SyncTableInsert<typeof tableName>,
+        );
       }
-
-      if (updateError) throw updateError;
-    } else if (item.operation === "delete") {
-      const { error } = await client
-        .from(tableName)
-        .delete()
-        .eq("id", item.entityId);
-      if (error) throw error;
     }
 
     // Update local cache sync status
@@ -808,8 +1781,60 @@ async function syncItem(
     return "success";
   } catch (error) {
     console.error(`[Glotian Sync] Error syncing ${item.entityId}:`, error);
-    return "retry";
+    throw error;
+  }
+}
+
+/**
+ * Last-Write-Wins check: whether the server row is newer than a queued change
+ */
+function isServerNewer(item: SyncQueueItem, serverUpdatedAt: string): boolean {
+  const localUpdatedRaw = (item.payload as { updated_at?: string }).updated_at;
+  if (!localUpdatedRaw) {
+    console.warn(
+      `[Glotian Sync] Local payload missing updated_at for ${item.entityId}, using server version`,
+    );
+    return true;
+  }
+
+  const serverUpdated = new Date(serverUpdatedAt).getTime();
+  const localUpdated = new Date(localUpdatedRaw).getTime();
+  if (serverUpdated > localUpdated) {
+    console.warn(
+      `[Glotian Sync] Conflict detected for ${item.entityId}: server is newer`,
+    );
+    return true;
   }
+  return false;
+}
+
+/**
+ * Whether a queued delete removes the row for good (emptied from the trash)
+ * rather than soft-deleting it
+ */
+function isPermanentDelete(item: SyncQueueItem): boolean {
+  return (item.payload as { permanent?: boolean }).permanent === true;
+}
+
+/**
+ * Delete rows on the server: soft delete where the table has `deleted_at`,
+ * unless the delete is permanent
+ */
+async function deleteServerRows(
+  table: SyncTable,
+  ids: string[],
+  permanent = false,
+): Promise<void> {
+  if (SOFT_DELETE_TABLES.has(table) && !permanent) {
+    await syncBackend.softDelete(
+      table as SoftDeleteTable,
+      ids,
+      new Date().toISOString(),
+    );
+    return;
+  }
+
+  await syncBackend.delete(table, ids);
 }
 
 async function updateLocalCacheFromServer<T extends SyncTable>(
@@ -841,8 +1866,12 @@ async function updateLocalCacheFromServer<T extends SyncTable>(
       return;
     }
 
+    // Cloze fields are local only: keep the cached card's
+    const existing = await db.flashcards.get(entityId);
     const cached: CachedFlashcard = {
       ...validation.data,
+      card_type: existing?.card_type ?? "basic",
+      context_sentence: existing?.context_sentence ?? null,
       syncStatus: "synced",
       lastAccessedAt: Date.now(),
     };
@@ -878,46 +1907,216 @@ async function updateLocalCacheFromServer<T extends SyncTable>(
     };
 
     await db.userPreferences.put(cached);
+  } else if (table === "study_progress") {
+    const validation = validateStudyProgressRow(latestData);
+    if (!validation.ok) {
+      logValidationFailure("remote", table, entityId, validation.issue);
+      await updateCacheTable(table, entityId, { syncStatus: "failed" });
+      return;
+    }
+
+    // Stability is local only: keep it unless the card was reviewed elsewhere
+    const existing = await db.studyProgress.get(entityId);
+    const cached: CachedStudyProgress = {
+      ...validation.data,
+      stability:
+        existing?.last_reviewed_at === validation.data.last_reviewed_at
+          ? (existing?.stability ?? null)
+          : null,
+      syncStatus: "synced",
+      lastAccessedAt: Date.now(),
+    };
+
+    await db.studyProgress.put(cached);
+  } else if (table === "reviews") {
+    const validation = validateReviewRow(latestData);
+    if (!validation.ok) {
+      logValidationFailure("remote", table, entityId, validation.issue);
+      await updateCacheTable(table, entityId, { syncStatus: "failed" });
+      return;
+    }
+
+    const cached: CachedReview = {
+      ...validation.data,
+      syncStatus: "synced",
+    };
+
+    await db.reviews.put(cached);
+  } else if (table === "study_sessions") {
+    const validation = validateStudySessionRow(latestData);
+    if (!validation.ok) {
+      logValidationFailure("remote", table, entityId, validation.issue);
+      await updateCacheTable(table, entityId, { syncStatus: "failed" });
+      return;
+    }
+
+    const cached: CachedStudySession = {
+      ...validation.data,
+      syncStatus: "synced",
+    };
+
+    await db.studySessions.put(cached);
+  } else if (table === "user_achievements") {
+    const validation = validateUserAchievementsRow(latestData);
+    if (!validation.ok) {
+      logValidationFailure("remote", table, entityId, validation.issue);
+      await updateCacheTable(table, entityId, { syncStatus: "failed" });
+      return;
+    }
+
+    // Keep the local activity cursor so events aren't counted twice
+    const existing = await db.achievements.get(entityId);
+    const cached: CachedUserAchievements = {
+      ...validation.data,
+      stats: existing?.stats ?? createEmptyStats(),
+      syncStatus: "synced",
+      lastAccessedAt: Date.now(),
+    };
+
+    await db.achievements.put(cached);
   }
+
+  await saveSyncBase(table, entityId, latestData as Record<string, unknown>);
 }
 
 /**
- * Update retry count for failed sync item
+ * Load the user's server achievements row when there is none locally yet
+ *
+ * Local activity is then counted on top of the server totals.
  */
-async function updateRetryCount(item: SyncQueueItem): Promise<void> {
-  const newRetryCount = item.retryCount + 1;
+export async function seedUserAchievements(userId: string): Promise<void> {
+  try {
+    if (await db.achievements.where("user_id").equals(userId).count()) {
+      return;
+    }
 
-  if (newRetryCount >= 5) {
-    console.warn(
-      `[Glotian Sync] Giving up on ${item.entityId} after 5 retries`,
+    // One row per user, so the first "change" is the row
+    const [data] = await syncBackend.fetchChangesSince(
+      "user_achievements",
+      userId,
+      null,
+      1,
     );
+    if (!data) return;
 
+    const validation = validateUserAchievementsRow(data);
+    if (!validation.ok) {
+      logValidationFailure(
+        "remote",
+        "user_achievements",
+        (data as { id?: string }).id ?? userId,
+        validation.issue,
+      );
+      return;
+    }
+
+    await db.achievements.put({
+      ...validation.data,
+      stats: createEmptyStats(),
+      syncStatus: "synced",
+      lastAccessedAt: Date.now(),
+    });
+    await saveSyncBase(
+      "user_achievements",
+      validation.data.id,
+      validation.data,
+    );
+    console.log("[Glotian Sync] Seeded achievements from server");
+  } catch (error) {
+    console.error("[Glotian Sync] Error seeding achievements:", error);
+  }
+}
+
+/**
+ * Decide whether a failed push is worth retrying
+ *
+ * - "validation": the server rejected the payload (4xx, constraint or
+ *   schema errors, row level security); retrying the same payload can't
+ *   succeed
+ * - "auth": the session is expired or missing; retried once the user signs
+ *   in again, without using up attempts
+ * - "network": anything transient (offline, timeouts, 5xx, ...)
+ *
+ * Error codes are checked before HTTP statuses: PostgREST answers several
+ * different codes with the same status (e.g. 409 for both duplicate keys
+ * and missing parent rows).
+ */
+function classifySyncError(error: unknown): SyncErrorKind {
+  if (error instanceof SyncValidationError) return "validation";
+  if (!isRecord(error)) return "network";
+
+  const status = typeof error.status === "number" ? error.status : null;
+  const code = typeof error.code === "string" ? error.code : "";
+
+  if (code) {
+    if (AUTH_ERROR_CODES.has(code)) return "auth";
+    // Row level security: signed in but not allowed to write the row.
+    // Without a session (401) it's the session that's missing.
+    if (code === "42501") return status === 401 ? "auth" : "validation";
+    // Foreign key violation: the parent row may simply not be pushed yet
+    if (code === "23503") return "network";
+    if (TRANSIENT_SQLSTATE_CLASSES.some((prefix) => code.startsWith(prefix))) {
+      return "network";
+    }
+    // Data exceptions (22), integrity violations (23), undefined columns or
+    // tables (42) and malformed requests (PGRST1xx/2xx)
+    if (/^(22|23|42|PGRST)/.test(code)) return "validation";
+  }
+
+  if (status !== null) {
+    if (status === 401 || status === 403) return "auth";
+    if (status === 408 || status === 429 || status >= 500) return "network";
+    if (status >= 400) return "validation";
+  }
+
+  return "network";
+}
+
+/**
+ * Delay before the next attempt: exponential with jitter, capped
+ */
+function getRetryDelay(attempt: number): number {
+  const delay = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1),
+  );
+  // Spread retries of items that failed together over [delay/2, delay]
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Schedule a failed item for retry, or dead-letter it
+ */
+async function handleSyncFailure(
+  item: SyncQueueItem,
+  errorKind: SyncErrorKind,
+  error: unknown,
+): Promise<void> {
+  const message = getErrorMessage(error);
+
+  const retryCount =
+    errorKind === "auth" ? item.retryCount : item.retryCount + 1;
+
+  if (errorKind === "validation" || retryCount >= MAX_SYNC_ATTEMPTS) {
     // Mark as failed in local cache
     await updateCacheTable(item.table, item.entityId, { syncStatus: "failed" });
+    await moveToDeadLetter(item, errorKind, message);
+    return;
+  }
 
-    // Remove from queue
-    if (item.id !== undefined) {
-      await db.syncQueue.delete(item.id);
-    }
-  } else {
-    // Update retry count
-    if (item.id !== undefined) {
-      await db.syncQueue.update(item.id, {
-        retryCount: newRetryCount,
-        lastAttempt: Date.now(),
-      });
-    }
+  if (item.id !== undefined) {
+    const nextAttemptAt = Date.now() + getRetryDelay(Math.max(1, retryCount));
+    await updateSyncItemRetry(item.id, retryCount, message, nextAttemptAt);
+    console.warn(
+      `[Glotian Sync] Retrying ${item.entityId} (${errorKind}) after ${new Date(nextAttemptAt).toLocaleTimeString()}`,
+    );
   }
 }
 
 /**
  * Broadcast sync status to all listeners
  */
-function broadcastSyncStatus(stats: {
-  synced: number;
-  failed: number;
-  conflicts: number;
-}): void {
+function broadcastSyncStatus(stats: SyncRunStats): void {
   // Send message to side panel and popup
   chrome.runtime
     .sendMessage({
@@ -933,29 +2132,18 @@ function broadcastSyncStatus(stats: {
  * Enqueue a sync operation with type-safe payload
  */
 export async function enqueueSyncOperation<T extends SyncQueueItem["table"]>(
+  userId: string,
   operation: "create" | "update" | "delete",
   table: T,
   entityId: string,
   payload: Record<string, any>,
 ): Promise<void> {
   try {
-    await db.syncQueue.add({
-      operation,
-      table,
-      entityId,
-      payload: payload as Record<string, any>,
-      timestamp: Date.now(),
-      retryCount: 0,
-      lastAttempt: null,
-      error: null,
-    });
-
-    console.log(
-      `[Glotian Sync] Enqueued ${operation} for ${table}/${entityId}`,
-    );
+    await enqueueSyncItem(userId, operation, table, entityId, payload);
   } catch (error) {
     console.error("[Glotian Sync] Error enqueuing sync operation:", error);
     await logError("enqueueSyncOperation", error as Error, {
+      userId,
       operation,
       table,
       entityId,
@@ -0,0 +1,48 @@
+/**
+ * Trash purge
+ *
+ * Once a day, notes, decks and cards that have been in the trash for more
+ * than `trashRetentionDays` are deleted for good (see `purgeExpiredTrash`).
+ * The permanent deletes go out with the next sync.
+ */
+
+import { getSettings } from "@/lib/storage";
+import { purgeExpiredTrash } from "@/lib/db/trash";
+
+export const TRASH_PURGE_ALARM = "trash-purge";
+
+/**
+ * Make sure the daily purge alarm exists
+ *
+ * Called on every service worker start; a pending alarm is kept.
+ */
+export function setupTrashPurge(): void {
+  void chrome.alarms.get(TRASH_PURGE_ALARM).then((existing) => {
+    if (!existing) {
+      chrome.alarms.create(TRASH_PURGE_ALARM, {
+        delayInMinutes: 1,
+        periodInMinutes: 24 * 60,
+      });
+    }
+  });
+}
+
+/**
+ * Handle the purge alarm for the signed-in user
+ */
+export async function handleTrashPurgeAlarm(): Promise<void> {
+  try {
+    const { userId, trashRetentionDays } = await getSettings([
+      "userId",
+      "trashRetentionDays",
+    ]);
+    if (!userId) return;
+
+    const purged = await purgeExpiredTrash(userId, trashRetentionDays);
+    if (purged > 0) {
+      console.log(`[Glotian Trash] Purged ${purged} expired trash items`);
+    }
+  } catch (error) {
+    console.error("[Glotian Trash] Error purging trash:", error);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Context sentence extraction
+ *
+ * Finds the sentence surrounding the current selection on the page, so a
+ * captured term can keep the sentence it was used in (for cloze cards).
+ */
+
+// Elements whose text is treated as one paragraph when looking for a sentence
+const BLOCK_SELECTOR =
+  "p, li, td, th, dd, dt, blockquote, figcaption, pre, h1, h2, h3, h4, h5, h6, article, section, div";
+
+const MAX_SENTENCE_LENGTH = 500;
+
+const SENTENCE_TERMINATORS = /[.!?…]/;
+const CJK_SENTENCE_TERMINATORS = /[。！？]/;
+
+/**
+ * Get the sentence around the current selection, or null if there is none
+ *
+ * Selections spanning several blocks have no single sentence.
+ */
+export function getSelectionContextSentence(): string | null {
+  const active = document.activeElement;
+  if (
+    active instanceof HTMLInputElement ||
+    active instanceof HTMLTextAreaElement
+  ) {
+    const start = active.selectionStart;
+    const end = active.selectionEnd;
+    if (start !== null && end !== null && end > start) {
+      return findSentenceAround(active.value, start, end);
+    }
+  }
+
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0);
+  const startNode = range.startContainer;
+  const startElement =
+    startNode instanceof Element ? startNode : startNode.parentElement;
+  const block = startElement?.closest(BLOCK_SELECTOR);
+  if (!block || !block.contains(range.endContainer)) {
+    return null;
+  }
+
+  // Offset of the selection within the block's text
+  const prefix = document.createRange();
+  prefix.setStart(block, 0);
+  prefix.setEnd(range.startContainer, range.startOffset);
+  const start = prefix.toString().length;
+  const end = start + range.toString().length;
+
+  return findSentenceAround(block.textContent ?? "", start, end);
+}
+
+/**
+ * Whether the sentence ends at `index`: a terminator followed by whitespace
+ * (or the end of the text), a CJK terminator, or a line break
+ */
+function isSentenceEnd(text: string, index: number): boolean {
+  const char = text[index];
+  if (char === "\n") return true;
+  if (CJK_SENTENCE_TERMINATORS.test(char)) return true;
+  return (
+    SENTENCE_TERMINATORS.test(char) &&
+    (index + 1 >= text.length || /\s/.test(text[index + 1]))
+  );
+}
+
+/**
+ * Expand [start, end) to the enclosing sentence(s) of `text`
+ */
+export function findSentenceAround(
+  text: string,
+  start: number,
+  end: number,
+): string | null {
+  let sentenceStart = start;
+  while (sentenceStart > 0 && !isSentenceEnd(text, sentenceStart - 1)) {
+    sentenceStart--;
+  }
+
+  let sentenceEnd = Math.max(end, start + 1);
+  while (sentenceEnd < text.length && !isSentenceEnd(text, sentenceEnd - 1)) {
+    sentenceEnd++;
+  }
+
+  const sentence = text
+    .slice(sentenceStart, sentenceEnd)
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!sentence || sentence.length > MAX_SENTENCE_LENGTH) {
+    return null;
+  }
+  return sentence;
+}
@@ -14,6 +14,8 @@ import {
   showWarningSnackbar,
 } from "./snackbar";
 import { getOverlayInstance } from "./overlay";
+import { getSelectionContextSentence } from "./context-sentence";
+import { createActivityTracker } from "../lib/activity-tracker";
 
 console.log("[Glotian Content] Content script loaded");
 
@@ -21,6 +23,7 @@ type SelectionDetails = {
   text: string;
   pageUrl: string;
   pageTitle: string;
+  contextSentence: string | null;
 };
 
 const selectionsMap = new Map<string, SelectionDetails>();
@@ -41,6 +44,7 @@ function createCapture(
     text,
     pageUrl: options.pageUrl || window.location.href,
     pageTitle: options.pageTitle || document.title,
+    contextSentence: getSelectionContextSentence(),
   };
 
   selectionsMap.set(noteId, details);
@@ -177,6 +181,7 @@ function sendCaptureToBackground(text: string, noteId: string): void {
       selection: text,
       pageUrl,
       pageTitle,
+      contextSentence: details?.contextSentence ?? null,
     },
     (response) => {
       if (chrome.runtime.lastError) {
@@ -433,6 +438,19 @@ function getSelectedTextFromEditable(element: HTMLElement): string {
   return "";
 }
 
+// Count active time spent with the writing coach toward the daily goal
+createActivityTracker({
+  target: document,
+  getSource: () => (getOverlayInstance().visible ? "writing_coach" : null),
+  onFlush: (source, seconds) => {
+    chrome.runtime
+      .sendMessage({ type: "RECORD_STUDY_TIME", source, seconds })
+      .catch(() => {
+        // Extension was reloaded; the time is dropped
+      });
+  },
+});
+
 // Initialize
 console.log(
   "[Glotian Content] Content script initialized. Press Ctrl+Shift+F to capture selected text, Ctrl+Shift+K to open writing coach.",
@@ -76,6 +76,13 @@ export class WritingCoachOverlay {
     console.log("[Writing Coach] Overlay shown");
   }
 
+  /**
+   * Whether the overlay is currently shown
+   */
+  public get visible(): boolean {
+    return this.isVisible;
+  }
+
   /**
    * Hide overlay and clean up
    */
@@ -1106,10 +1113,16 @@ export class WritingCoachOverlay {
         button.dataset.expressionOriginal = expr.original;
         button.dataset.expressionRewritten = expr.rewritten;
 
-        button.addEventListener("click", () => {
+        button.addEventListener("click", async () => {
           const original = button.dataset.expressionOriginal || "";
           const rewritten = button.dataset.expressionRewritten || "";
-          this.addToFlashcards(original, rewritten);
+          button.disabled = true;
+          const added = await this.addToFlashcards(original, rewritten);
+          if (added) {
+            button.textContent = "✓ Added to Flashcards";
+          } else {
+            button.disabled = false;
+          }
         });
 
         itemDiv.appendChild(comparisonDiv);
@@ -1132,7 +1145,7 @@ export class WritingCoachOverlay {
   private async addToFlashcards(
     original: string,
     rewritten: string,
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       // Input validation: ensure both are strings
       if (typeof original !== "string" || typeof rewritten !== "string") {
@@ -1140,7 +1153,7 @@ export class WritingCoachOverlay {
           "[Writing Coach] Invalid flashcard inputs: must be strings",
         );
         this.showError("Failed to add flashcard: invalid data.");
-        return;
+        return false;
       }
 
       // Trim and validate non-empty
@@ -1150,7 +1163,7 @@ export class WritingCoachOverlay {
       if (!sanitizedOriginal || !sanitizedRewritten) {
         console.error("[Writing Coach] Empty flashcard content");
         this.showError("Failed to add flashcard: content cannot be empty.");
-        return;
+        return false;
       }
 
       // Validate reasonable length (prevent abuse)
@@ -1161,21 +1174,36 @@ export class WritingCoachOverlay {
       ) {
         console.error("[Writing Coach] Flashcard content exceeds max length");
         this.showError("Failed to add flashcard: content too long.");
-        return;
+        return false;
       }
 
       // Send to background script with validated data
-      await chrome.runtime.sendMessage({
+      const response = await chrome.runtime.sendMessage({
         type: "CREATE_FLASHCARD",
         term: sanitizedOriginal,
         definition: sanitizedRewritten,
         sourceType: "writing_coach",
+        language: "en", // Matches the language used for proofreading/rewriting above
       });
 
-      console.log("[Writing Coach] Expression added to flashcards");
+      if (!response?.success) {
+        this.showError(
+          response?.error
+            ? `Failed to add flashcard: ${response.error}`
+            : "Failed to add flashcard. Please try again.",
+        );
+        return false;
+      }
+
+      console.log(
+        "[Writing Coach] Expression added to flashcards:",
+        response.flashcard?.id,
+      );
+      return true;
     } catch (error) {
       console.error("[Writing Coach] Failed to add flashcard:", error);
       this.showError("Failed to add flashcard. Please try again.");
+      return false;
     }
   }
 
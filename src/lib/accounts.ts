@@ -0,0 +1,156 @@
+/**
+ * Accounts used on this browser
+ *
+ * Settings keep one flat set of preferences, the signed-in account's.
+ * When another account takes over, the outgoing one's preferences and
+ * refresh token are stored in `accounts` and the incoming one's are put
+ * back, so each account keeps its own languages, reminders and sync state.
+ * Cached rows and queued changes are already keyed by user id in IndexedDB.
+ *
+ * Only the signed-in account's session (access token included) is kept, in
+ * `supabaseSession`. The others keep just a refresh token, which
+ * chrome.storage.local holds unencrypted like the session itself; it is
+ * dropped when the account signs out or is removed.
+ */
+
+import type { Session } from "@supabase/supabase-js";
+import type {
+  AccountSettingKey,
+  AccountSettings,
+  StoredAccount,
+} from "@/types";
+import {
+  getSetting,
+  getSettings,
+  setSetting,
+  setSettings,
+} from "@/lib/storage";
+
+export const ACCOUNT_SETTING_KEYS: AccountSettingKey[] = [
+  "sourceLanguage",
+  "targetLanguage",
+  "defaultCEFRLevel",
+  "autoSaveEnabled",
+  "sidePanelLastTab",
+  "reviewReminderEnabled",
+  "reviewReminderTime",
+  "quietHoursEnabled",
+  "quietHoursStart",
+  "quietHoursEnd",
+  "dailyGoalNudgeEnabled",
+  "dailyGoalNudgeTime",
+  "trashRetentionDays",
+  "lastSyncTime",
+];
+
+/**
+ * Stored accounts, most recently used first
+ */
+export async function listAccounts(): Promise<StoredAccount[]> {
+  const accounts = (await getSetting("accounts")) ?? [];
+  return [...accounts].sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+}
+
+export async function getAccount(
+  userId: string,
+): Promise<StoredAccount | undefined> {
+  const accounts = await listAccounts();
+  return accounts.find((account) => account.userId === userId);
+}
+
+/**
+ * Store an account as it is now: the current preferences and the refresh
+ * token of the given session (null to keep its data but require a password
+ * next time)
+ *
+ * Call before another account's settings replace the current ones.
+ */
+export async function saveAccount(
+  userId: string,
+  session: Session | null,
+): Promise<void> {
+  const settings: AccountSettings = await getSettings(ACCOUNT_SETTING_KEYS);
+  const existing = await getAccount(userId);
+
+  await putAccount({
+    userId,
+    email: session?.user.email ?? existing?.email ?? null,
+    refreshToken: session?.refresh_token ?? null,
+    settings,
+    lastActiveAt: Date.now(),
+  });
+}
+
+/**
+ * Put an account's stored preferences back in place
+ *
+ * An account without a snapshot (first sign-in on this browser) starts from
+ * the defaults rather than the previous account's preferences and last sync
+ * time.
+ */
+export async function restoreAccountSettings(userId: string): Promise<void> {
+  const account = await getAccount(userId);
+
+  await resetAccountSettings();
+  if (account && Object.keys(account.settings).length > 0) {
+    await setSettings(account.settings);
+  }
+}
+
+/**
+ * Reset the current preferences to their defaults
+ */
+export async function resetAccountSettings(): Promise<void> {
+  await chrome.storage.local.remove(ACCOUNT_SETTING_KEYS);
+}
+
+/**
+ * Mark an account as the signed-in one, used now
+ *
+ * Its stored refresh token is dropped: the session in `supabaseSession`
+ * takes over (and rotates it).
+ */
+export async function touchAccount(
+  userId: string,
+  session: Session | null,
+): Promise<void> {
+  const existing = await getAccount(userId);
+
+  await putAccount({
+    userId,
+    email: session?.user.email ?? existing?.email ?? null,
+    refreshToken: null,
+    settings: existing?.settings ?? {},
+    lastActiveAt: Date.now(),
+  });
+}
+
+/**
+ * Drop a stored refresh token that no longer works, keeping the account's
+ * data
+ */
+export async function forgetAccountSession(userId: string): Promise<void> {
+  const existing = await getAccount(userId);
+  if (existing) {
+    await putAccount({ ...existing, refreshToken: null });
+  }
+}
+
+/**
+ * Forget an account, its refresh token included
+ */
+export async function removeAccount(userId: string): Promise<void> {
+  const accounts = await listAccounts();
+  await setSetting(
+    "accounts",
+    accounts.filter((account) => account.userId !== userId),
+  );
+}
+
+async function putAccount(account: StoredAccount): Promise<void> {
+  const accounts = await listAccounts();
+  await setSetting("accounts", [
+    account,
+    ...accounts.filter((existing) => existing.userId !== account.userId),
+  ]);
+}
@@ -0,0 +1,251 @@
+/**
+ * Streaks, XP, levels and badges
+ *
+ * Pure rules behind `user_achievements`:
+ * - XP is earned per activity log event (captures, summaries, Q&A, coach
+ *   fixes, reviews, ...)
+ * - A streak counts consecutive calendar days with at least one XP event,
+ *   using day boundaries in the user's own time zone
+ * - Levels follow a triangular XP curve: 100, 300, 600, 1000, ...
+ * - Badges unlock once a rule over the accumulated stats is met
+ */
+
+import type {
+  ActivityAction,
+  ActivityLogItem,
+  AchievementStats,
+} from "@/types";
+
+export interface BadgeDefinition {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Values badge rules are checked against
+ */
+export interface AchievementSnapshot {
+  stats: AchievementStats;
+  longestStreak: number;
+  level: number;
+}
+
+export interface LevelProgress {
+  level: number;
+  xpIntoLevel: number; // XP earned since reaching `level`
+  xpForNextLevel: number; // XP needed to go from `level` to `level + 1`
+}
+
+const XP_PER_ACTION: Record<ActivityAction, number> = {
+  note_created: 10,
+  note_updated: 0,
+  page_summarized: 15,
+  qa_asked: 5,
+  flashcard_created: 2,
+  coach_fix_applied: 5,
+  media_ocr: 5,
+  media_transcribe: 5,
+  study_session_completed: 5,
+  sync_conflict: 0,
+};
+
+// Reviews also earn XP per card on top of the session bonus
+const XP_PER_CARD_REVIEWED = 2;
+
+const LEVEL_XP_STEP = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BADGE_RULES: Array<
+  BadgeDefinition & { unlocked: (snapshot: AchievementSnapshot) => boolean }
+> = [
+  {
+    id: "first_capture",
+    icon: "✨",
+    title: "First Capture",
+    description: "Save your first note",
+    unlocked: ({ stats }) => countOf(stats, "note_created") >= 1,
+  },
+  {
+    id: "collector_50",
+    icon: "📚",
+    title: "Collector",
+    description: "Save 50 notes",
+    unlocked: ({ stats }) => countOf(stats, "note_created") >= 50,
+  },
+  {
+    id: "summarizer_10",
+    icon: "📄",
+    title: "Skimmer",
+    description: "Summarize 10 pages",
+    unlocked: ({ stats }) => countOf(stats, "page_summarized") >= 10,
+  },
+  {
+    id: "curious_25",
+    icon: "💬",
+    title: "Curious Mind",
+    description: "Ask 25 questions about pages",
+    unlocked: ({ stats }) => countOf(stats, "qa_asked") >= 25,
+  },
+  {
+    id: "polished_10",
+    icon: "✍️",
+    title: "Polished",
+    description: "Apply 10 writing coach fixes",
+    unlocked: ({ stats }) => countOf(stats, "coach_fix_applied") >= 10,
+  },
+  {
+    id: "reviewer_100",
+    icon: "🧠",
+    title: "Reviewer",
+    description: "Review 100 cards",
+    unlocked: ({ stats }) => stats.cardsReviewed >= 100,
+  },
+  {
+    id: "streak_7",
+    icon: "🔥",
+    title: "Week Streak",
+    description: "Study 7 days in a row",
+    unlocked: ({ longestStreak }) => longestStreak >= 7,
+  },
+  {
+    id: "streak_30",
+    icon: "🏆",
+    title: "Month Streak",
+    description: "Study 30 days in a row",
+    unlocked: ({ longestStreak }) => longestStreak >= 30,
+  },
+  {
+    id: "level_5",
+    icon: "⭐",
+    title: "Rising Star",
+    description: "Reach level 5",
+    unlocked: ({ level }) => level >= 5,
+  },
+  {
+    id: "level_10",
+    icon: "🌟",
+    title: "Polyglot in Training",
+    description: "Reach level 10",
+    unlocked: ({ level }) => level >= 10,
+  },
+];
+
+export const BADGES: BadgeDefinition[] = BADGE_RULES.map(
+  ({ unlocked: _unlocked, ...badge }) => badge,
+);
+
+function countOf(stats: AchievementStats, action: ActivityAction): number {
+  return stats.actionCounts[action] ?? 0;
+}
+
+/**
+ * XP earned for a single activity log event
+ */
+export function getActivityXp(item: ActivityLogItem): number {
+  const base = XP_PER_ACTION[item.action] ?? 0;
+  if (item.action !== "study_session_completed") return base;
+
+  const cardsReviewed = Number(item.metadata?.cardsReviewed) || 0;
+  return base + cardsReviewed * XP_PER_CARD_REVIEWED;
+}
+
+/**
+ * Total XP needed to reach a level (level 1 starts at 0)
+ */
+function xpForLevel(level: number): number {
+  return (LEVEL_XP_STEP * (level - 1) * level) / 2;
+}
+
+export function getLevelForXp(totalXp: number): number {
+  let level = 1;
+  while (xpForLevel(level + 1) <= totalXp) level++;
+  return level;
+}
+
+export function getLevelProgress(totalXp: number): LevelProgress {
+  const level = getLevelForXp(totalXp);
+  return {
+    level,
+    xpIntoLevel: totalXp - xpForLevel(level),
+    xpForNextLevel: xpForLevel(level + 1) - xpForLevel(level),
+  };
+}
+
+/**
+ * IDs of every badge whose rule is met
+ */
+export function getUnlockedBadges(snapshot: AchievementSnapshot): string[] {
+  return BADGE_RULES.filter((rule) => rule.unlocked(snapshot)).map(
+    (rule) => rule.id,
+  );
+}
+
+/**
+ * The user's current IANA time zone (e.g. "Asia/Seoul")
+ */
+export function getUserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Calendar day ("YYYY-MM-DD") of a timestamp in a time zone
+ */
+export function toDayKey(
+  timestamp: number,
+  timeZone: string = getUserTimeZone(),
+): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? "";
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * Whole calendar days from one day key to another (negative if earlier)
+ *
+ * Day keys are compared as dates, so DST transitions don't skew the count.
+ */
+export function daysBetween(fromDay: string, toDay: string): number {
+  const toUtc = (day: string) => {
+    const [year, month, date] = day.split("-").map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((toUtc(toDay) - toUtc(fromDay)) / DAY_MS);
+}
+
+/**
+ * Streak after activity on `day`, given the previous active day
+ */
+export function advanceStreak(
+  currentStreak: number,
+  lastActiveDay: string | null,
+  day: string,
+): number {
+  if (!lastActiveDay) return 1;
+
+  const gap = daysBetween(lastActiveDay, day);
+  if (gap <= 0) return Math.max(currentStreak, 1); // Same day (or clock moved back)
+  if (gap === 1) return currentStreak + 1;
+  return 1;
+}
+
+/**
+ * Whether a streak ending on `lastActiveDay` is still alive on `today`
+ *
+ * Missing today doesn't break the streak until the day is over.
+ */
+export function isStreakAlive(
+  lastActiveDay: string | null,
+  today: string,
+): boolean {
+  return lastActiveDay !== null && daysBetween(lastActiveDay, today) <= 1;
+}
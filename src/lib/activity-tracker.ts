@@ -0,0 +1,122 @@
+/**
+ * Active time tracker
+ *
+ * Counts time the user is actually interacting with a page: the time
+ * between two input events is counted only while the page is visible and
+ * the gap is shorter than the idle timeout. Accumulated seconds are handed
+ * to `onFlush` periodically and whenever the page is hidden.
+ */
+
+import type { StudyTimeSource } from "@/types";
+
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+// Minimum gap between two counted events (pointermove fires very often)
+const SAMPLE_INTERVAL_MS = 1000;
+
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "wheel",
+  "scroll",
+  "input",
+] as const;
+
+export interface ActivityTrackerOptions {
+  /** Element (or document) whose input events count as activity */
+  target: Document | HTMLElement;
+  /** Where the time is currently being spent, or null to pause tracking */
+  getSource: () => StudyTimeSource | null;
+  /** Receives accumulated time; called with whole seconds only */
+  onFlush: (source: StudyTimeSource, seconds: number) => void | Promise<void>;
+}
+
+export interface ActivityTracker {
+  /** Hand over the time accumulated so far (e.g. before switching source) */
+  flush: () => void;
+  /** Flush and remove all listeners */
+  stop: () => void;
+}
+
+export function createActivityTracker(
+  options: ActivityTrackerOptions,
+): ActivityTracker {
+  let lastActivityAt: number | null = null;
+  let pendingMs = 0;
+  let pendingSource: StudyTimeSource | null = null;
+
+  const handleActivity = () => {
+    const now = Date.now();
+    if (lastActivityAt !== null && now - lastActivityAt < SAMPLE_INTERVAL_MS) {
+      return;
+    }
+
+    const source = options.getSource();
+    if (!source || document.visibilityState !== "visible") {
+      lastActivityAt = null;
+      return;
+    }
+
+    if (source !== pendingSource) {
+      flush();
+      pendingMs = 0;
+      pendingSource = source;
+    } else if (lastActivityAt !== null) {
+      const gap = now - lastActivityAt;
+      if (gap <= IDLE_TIMEOUT_MS) pendingMs += gap;
+    }
+    lastActivityAt = now;
+  };
+
+  const flush = () => {
+    const seconds = Math.floor(pendingMs / 1000);
+    if (pendingSource && seconds > 0) {
+      pendingMs -= seconds * 1000;
+      const result = options.onFlush(pendingSource, seconds);
+      if (result instanceof Promise) {
+        result.catch((error) =>
+          console.error("[Glotian Activity] Failed to record time:", error),
+        );
+      }
+    }
+  };
+
+  // Stop counting across the hidden period, but keep what was earned
+  const handleVisibilityChange = () => {
+    if (document.visibilityState !== "visible") {
+      lastActivityAt = null;
+      flush();
+    }
+  };
+
+  const handlePageHide = () => {
+    flush();
+  };
+
+  for (const type of ACTIVITY_EVENTS) {
+    options.target.addEventListener(type, handleActivity, {
+      capture: true,
+      passive: true,
+    });
+  }
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  window.addEventListener("pagehide", handlePageHide);
+  const interval = window.setInterval(flush, FLUSH_INTERVAL_MS);
+
+  return {
+    flush,
+    stop: () => {
+      flush();
+      window.clearInterval(interval);
+      for (const type of ACTIVITY_EVENTS) {
+        options.target.removeEventListener(type, handleActivity, {
+          capture: true,
+        });
+      }
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+    },
+  };
+}
@@ -162,7 +162,7 @@ function estimateCEFRLevel(
 /**
  * Check if word is a common stop word
  */
-function isCommonWord(word: string): boolean {
+export function isCommonWord(word: string): boolean {
   const stopWords = new Set([
     "the",
     "be",
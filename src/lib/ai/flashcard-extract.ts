@@ -0,0 +1,207 @@
+/**
+ * Flashcard extraction using Chrome Prompt API
+ *
+ * Mines a saved note for key terms, definitions, part of speech and
+ * example sentences. Falls back to heuristic keywords when no model is available.
+ */
+
+import type {
+  FlashcardCandidate,
+  FlashcardExtractRequest,
+  FlashcardExtractResponse,
+} from "@/types";
+import { autoTagWithFallback } from "./auto-tag-fallback";
+import { ensureAIPolyfill } from "./polyfill";
+import { getAIHandle, getModernAIGlobal } from "./env";
+
+const DEFAULT_MAX_CARDS = 10;
+const MAX_TEXT_LENGTH = 5000;
+
+function resolveLanguageModel(): any | null {
+  const modern = getModernAIGlobal<any>("LanguageModel");
+  if (modern && typeof modern.create === "function") {
+    return modern;
+  }
+
+  const aiHandle = getAIHandle() as { languageModel?: any } | undefined;
+  if (aiHandle?.languageModel) {
+    return aiHandle.languageModel;
+  }
+
+  ensureAIPolyfill();
+  const fallbackHandle = getAIHandle() as { languageModel?: any } | undefined;
+  return fallbackHandle?.languageModel ?? null;
+}
+
+/**
+ * Normalize a raw candidate returned by the model, dropping invalid entries
+ */
+function toCandidate(raw: unknown): FlashcardCandidate | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const record = raw as Record<string, unknown>;
+  const term = typeof record.term === "string" ? record.term.trim() : "";
+  const definition =
+    typeof record.definition === "string" ? record.definition.trim() : "";
+
+  if (!term || !definition) {
+    return null;
+  }
+
+  const partOfSpeech =
+    typeof record.partOfSpeech === "string" && record.partOfSpeech.trim()
+      ? record.partOfSpeech.trim().toLowerCase()
+      : null;
+  const exampleSentences = Array.isArray(record.exampleSentences)
+    ? record.exampleSentences
+        .filter((item): item is string => typeof item === "string")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .slice(0, 3)
+    : [];
+
+  return { term, definition, partOfSpeech, exampleSentences };
+}
+
+/**
+ * Remove candidates whose term repeats (case-insensitive)
+ */
+function dedupeCandidates(
+  candidates: FlashcardCandidate[],
+): FlashcardCandidate[] {
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = candidate.term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Find the sentence in `text` that contains `term`, if any
+ */
+function findSentenceContaining(text: string, term: string): string | null {
+  const termLower = term.toLowerCase();
+  const sentences = text
+    .split(/(?<=[.!?。！？])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  return (
+    sentences.find((sentence) => sentence.toLowerCase().includes(termLower)) ??
+    null
+  );
+}
+
+/**
+ * Extract flashcard candidates with the Chrome Prompt API
+ *
+ * @throws Error if the Prompt API is unavailable or returns unusable output
+ */
+export async function extractFlashcardsWithPrompt(
+  request: FlashcardExtractRequest,
+): Promise<FlashcardExtractResponse> {
+  const languageModel = resolveLanguageModel();
+  if (!languageModel) {
+    throw new Error("Chrome Prompt API not available");
+  }
+
+  const maxCards = request.maxCards ?? DEFAULT_MAX_CARDS;
+  const sanitizedText = request.text
+    .replace(/"/g, '\\"')
+    .substring(0, MAX_TEXT_LENGTH);
+
+  let session: any = null;
+  try {
+    session = await languageModel.create({
+      temperature: 0.3,
+      topK: 3,
+    });
+
+    const prompt = `You are helping a language learner build flashcards.
+From the following ${request.language} text, pick up to ${maxCards} key terms or phrases worth studying.
+For each term provide:
+1. "term": the word or phrase exactly as it appears in the text
+2. "definition": a short definition written in ${request.targetLanguage}
+3. "partOfSpeech": noun, verb, adjective, adverb, phrase, etc.
+4. "exampleSentences": 1-2 example sentences in ${request.language}, preferably taken from the text
+
+Text: "${sanitizedText}"
+
+Respond ONLY with a JSON array (no markdown, no extra text):
+[
+  {"term": "...", "definition": "...", "partOfSpeech": "noun", "exampleSentences": ["..."]}
+]`;
+
+    const response: string = await session.prompt(prompt);
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error("No JSON array found in response");
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Invalid response schema");
+    }
+
+    const candidates = dedupeCandidates(
+      parsed
+        .map(toCandidate)
+        .filter((item): item is FlashcardCandidate => item !== null),
+    ).slice(0, maxCards);
+
+    if (candidates.length === 0) {
+      throw new Error("Prompt API returned no usable flashcards");
+    }
+
+    return { candidates, aiSource: "chrome" };
+  } finally {
+    if (session && typeof session.destroy === "function") {
+      try {
+        session.destroy();
+      } catch (e) {
+        console.warn(
+          "[Glotian Flashcard Extract] Error cleaning up session:",
+          e,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Heuristic fallback: use auto-tag keywords as terms
+ *
+ * Definitions are left empty for the user to fill in during preview.
+ */
+export function extractFlashcardsWithFallback(
+  request: FlashcardExtractRequest,
+): FlashcardExtractResponse {
+  console.log("[Glotian Flashcard Extract] Using heuristic keywords");
+
+  const maxCards = request.maxCards ?? DEFAULT_MAX_CARDS;
+  const text = request.text.substring(0, MAX_TEXT_LENGTH);
+  const { keywords } = autoTagWithFallback({
+    text,
+    language: request.language,
+  });
+
+  const candidates = dedupeCandidates(
+    keywords
+      .filter((keyword) => keyword && keyword !== "text")
+      .map((keyword) => {
+        const sentence = findSentenceContaining(text, keyword);
+        return {
+          term: keyword,
+          definition: "",
+          partOfSpeech: null,
+          exampleSentences: sentence ? [sentence] : [],
+        };
+      }),
+  ).slice(0, maxCards);
+
+  return { candidates, aiSource: "heuristic" };
+}
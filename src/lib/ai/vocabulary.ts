@@ -0,0 +1,84 @@
+/**
+ * Vocabulary candidate segmentation
+ *
+ * Splits free text (e.g. a page summary) into single-word and short-phrase
+ * flashcard candidates. Terms carry no CEFR level of their own: there is no
+ * word frequency data to grade them by, so the learner's level comes from the
+ * text (the simplified summary is written for it).
+ */
+
+import { isCommonWord } from "./auto-tag-fallback";
+
+export interface VocabularyCandidate {
+  term: string;
+  kind: "word" | "phrase";
+  sentence: string; // Sentence the term was found in, used as an example
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}][\p{L}\p{M}'’-]*/gu;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Segment text into vocabulary and phrase candidates
+ *
+ * - Stop words and words shorter than three letters are dropped
+ * - Two-word phrases are kept when both words are content words and the pair
+ *   occurs more than once
+ * - Results are unique (case-insensitive), ordered by first appearance
+ */
+export function segmentVocabularyCandidates(
+  text: string,
+  maxCandidates = 20,
+): VocabularyCandidate[] {
+  const seen = new Set<string>();
+  const candidates: VocabularyCandidate[] = [];
+
+  const push = (candidate: VocabularyCandidate) => {
+    const key = candidate.term.toLowerCase();
+    if (seen.has(key) || candidates.length >= maxCandidates) return;
+    seen.add(key);
+    candidates.push(candidate);
+  };
+
+  const sentences = splitSentences(text).map((sentence) => ({
+    sentence,
+    words: sentence.match(WORD_PATTERN) ?? [],
+  }));
+
+  // Count adjacent content-word pairs so only recurring phrases are offered
+  const pairCounts = new Map<string, number>();
+  for (const { words } of sentences) {
+    for (let i = 0; i < words.length - 1; i++) {
+      const key = `${words[i].toLowerCase()} ${words[i + 1].toLowerCase()}`;
+      pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  for (const { sentence, words } of sentences) {
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      const lower = word.toLowerCase();
+      if (lower.length < 3 || isCommonWord(lower)) continue;
+
+      push({ term: lower, kind: "word", sentence });
+
+      const next = words[i + 1]?.toLowerCase();
+      if (!next || next.length < 3 || isCommonWord(next)) continue;
+
+      const phrase = `${lower} ${next}`;
+      if ((pairCounts.get(phrase) ?? 0) >= 2) {
+        push({ term: phrase, kind: "phrase", sentence });
+      }
+    }
+
+    if (candidates.length >= maxCandidates) break;
+  }
+
+  return candidates;
+}
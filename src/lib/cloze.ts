@@ -0,0 +1,76 @@
+/**
+ * Cloze-deletion helpers
+ *
+ * A cloze card keeps the sentence a term was captured in; during review the
+ * term is blanked out of the sentence and the translation is shown as a hint.
+ */
+
+export const CLOZE_BLANK = "_____";
+
+// Longer selections are passages, not terms worth blanking out
+const MAX_CLOZE_TERM_WORDS = 4;
+const MAX_CLOZE_TERM_LENGTH = 60;
+
+export interface ClozeParts {
+  before: string;
+  answer: string; // The term as it appears in the sentence
+  after: string;
+}
+
+function isLetter(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Split a sentence around the first occurrence of a term (case-insensitive)
+ *
+ * Whole-word matches are preferred; scripts without spaces (e.g. CJK) fall
+ * back to the first plain match.
+ */
+export function splitCloze(sentence: string, term: string): ClozeParts | null {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return null;
+
+  const haystack = sentence.toLowerCase();
+  let fallback = -1;
+
+  for (
+    let index = haystack.indexOf(needle);
+    index !== -1;
+    index = haystack.indexOf(needle, index + 1)
+  ) {
+    if (fallback === -1) fallback = index;
+
+    const wholeWord =
+      !isLetter(sentence[index - 1]) &&
+      !isLetter(sentence[index + needle.length]);
+    if (wholeWord) {
+      fallback = index;
+      break;
+    }
+  }
+
+  if (fallback === -1) return null;
+
+  return {
+    before: sentence.slice(0, fallback),
+    answer: sentence.slice(fallback, fallback + needle.length),
+    after: sentence.slice(fallback + needle.length),
+  };
+}
+
+/**
+ * Whether a captured selection and its sentence make a useful cloze card
+ */
+export function isClozeCandidate(term: string, sentence: string): boolean {
+  const trimmedTerm = term.trim();
+  const trimmedSentence = sentence.trim();
+
+  return (
+    trimmedTerm.length > 0 &&
+    trimmedTerm.length <= MAX_CLOZE_TERM_LENGTH &&
+    trimmedTerm.split(/\s+/).length <= MAX_CLOZE_TERM_WORDS &&
+    trimmedSentence.length > trimmedTerm.length &&
+    splitCloze(trimmedSentence, trimmedTerm) !== null
+  );
+}
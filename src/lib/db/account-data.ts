@@ -0,0 +1,96 @@
+/**
+ * Per-account local data
+ *
+ * Every cached row, queued change and sync record belongs to one user.
+ * These helpers count or remove one account's share, leaving other
+ * accounts on this browser untouched.
+ */
+
+import Dexie from "dexie";
+import { db } from "./schema";
+
+export interface AccountDataCounts {
+  notes: number;
+  flashcards: number;
+  decks: number;
+  unsyncedChanges: number;
+}
+
+// Notes pulled from the server carry `user_id`; notes created here carry
+// `userId` (see `createCachedNote`)
+function whereUserNotes(userId: string) {
+  return db.notes.filter(
+    (note) =>
+      note.user_id === userId ||
+      (note as { userId?: string }).userId === userId,
+  );
+}
+
+export async function countAccountData(
+  userId: string,
+): Promise<AccountDataCounts> {
+  const [notes, flashcards, decks, unsyncedChanges] = await Promise.all([
+    whereUserNotes(userId).count(),
+    db.flashcards.where("user_id").equals(userId).count(),
+    db.decks.where("user_id").equals(userId).count(),
+    db.syncQueue.where("userId").equals(userId).count(),
+  ]);
+
+  return { notes, flashcards, decks, unsyncedChanges };
+}
+
+/**
+ * Delete everything stored locally for an account
+ *
+ * Unsynced changes are dropped too; rows on the server are not touched.
+ */
+export async function deleteAccountData(userId: string): Promise<void> {
+  await db.transaction(
+    "rw",
+    [
+      db.notes,
+      db.flashcards,
+      db.decks,
+      db.userPreferences,
+      db.studyProgress,
+      db.reviews,
+      db.studySessions,
+      db.achievements,
+      db.syncQueue,
+      db.deadLetterQueue,
+      db.syncBases,
+      db.conflicts,
+      db.syncCursors,
+      db.activityLog,
+      db.dailyStudyTime,
+    ],
+    async () => {
+      await whereUserNotes(userId).delete();
+      await db.flashcards.where("user_id").equals(userId).delete();
+      await db.decks.where("user_id").equals(userId).delete();
+      await db.userPreferences.where("user_id").equals(userId).delete();
+      await db.studyProgress.where("user_id").equals(userId).delete();
+      await db.reviews.where("user_id").equals(userId).delete();
+      await db.studySessions.where("user_id").equals(userId).delete();
+      await db.achievements.where("user_id").equals(userId).delete();
+
+      await db.syncQueue.where("userId").equals(userId).delete();
+      await db.deadLetterQueue.where("userId").equals(userId).delete();
+      await db.conflicts.where("userId").equals(userId).delete();
+      // Merge bases are server rows, which all carry their owner
+      await db.syncBases
+        .filter((base) => base.data.user_id === userId)
+        .delete();
+      // Deleted rows must be pulled again in full if the account comes back
+      await db.syncCursors
+        .where("[userId+table]")
+        .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+        .delete();
+
+      await db.activityLog.where("userId").equals(userId).delete();
+      await db.dailyStudyTime.where("userId").equals(userId).delete();
+    },
+  );
+
+  console.log("[Glotian DB] Local data deleted for user:", userId);
+}
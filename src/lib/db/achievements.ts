@@ -0,0 +1,214 @@
+/**
+ * Achievements cache helpers
+ *
+ * Folds new activity log events into the user's `user_achievements` row
+ * (XP, level, streaks, badges). Activity is counted once: the row keeps a
+ * cursor of the last activity log id it has seen, so pruning old activity
+ * never takes XP away.
+ */
+
+import { db } from "./schema";
+import { toServerPayload } from "./flashcards";
+import { enqueueSyncItem } from "./sync-queue";
+import {
+  advanceStreak,
+  daysBetween,
+  getActivityXp,
+  getLevelForXp,
+  getUnlockedBadges,
+  getUserTimeZone,
+  isStreakAlive,
+  toDayKey,
+} from "@/lib/achievements";
+import type { AchievementStats, CachedUserAchievements } from "@/types";
+
+type AchievementsListener = (achievements: CachedUserAchievements) => void;
+
+const listeners = new Set<AchievementsListener>();
+
+/**
+ * Get the cached achievements row for a user, if any
+ */
+export async function getAchievements(
+  userId: string,
+): Promise<CachedUserAchievements | undefined> {
+  return db.achievements.where("user_id").equals(userId).first();
+}
+
+/**
+ * Call `listener` whenever this context updates the achievements row
+ *
+ * Other extension pages are told via an ACHIEVEMENTS_UPDATED message.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeAchievements(
+  listener: AchievementsListener,
+): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Strip local-only fields so the row can be sent to Supabase
+ */
+export function toAchievementsPayload(row: CachedUserAchievements) {
+  const { stats: _stats, ...rest } = row;
+  return toServerPayload(rest);
+}
+
+export function createEmptyStats(): AchievementStats {
+  return {
+    activityCursor: 0,
+    lastActiveDay: null,
+    actionCounts: {},
+    cardsReviewed: 0,
+  };
+}
+
+/**
+ * Count activity logged since the last update and refresh streak, XP,
+ * level and badges
+ *
+ * The row is only queued for sync when a server-visible field changed.
+ */
+export async function updateAchievements(
+  userId: string,
+  now: Date = new Date(),
+): Promise<CachedUserAchievements> {
+  const timeZone = getUserTimeZone();
+
+  const { row, changed } = await db.transaction(
+    "rw",
+    [db.activityLog, db.achievements, db.syncQueue],
+    async () => {
+      const existing = await getAchievements(userId);
+      const row: CachedUserAchievements = existing
+        ? {
+            ...existing,
+            badges: [...existing.badges],
+            stats: {
+              ...existing.stats,
+              actionCounts: { ...existing.stats.actionCounts },
+            },
+          }
+        : {
+            id: crypto.randomUUID(),
+            user_id: userId,
+            current_streak: 0,
+            longest_streak: 0,
+            total_xp: 0,
+            level: 1,
+            badges: [],
+            updated_at: now.toISOString(),
+            stats: createEmptyStats(),
+            syncStatus: "pending",
+            lastAccessedAt: Date.now(),
+          };
+      const { stats } = row;
+
+      const newItems = (
+        await db.activityLog
+          .where("id")
+          .above(stats.activityCursor)
+          .and((item) => item.userId === userId)
+          .toArray()
+      ).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+      for (const item of newItems) {
+        stats.activityCursor = Math.max(stats.activityCursor, item.id ?? 0);
+        // Activity from other devices earned its XP there
+        if (item.pulledAt) continue;
+
+        const xp = getActivityXp(item);
+        if (xp <= 0) continue;
+
+        row.total_xp += xp;
+        stats.actionCounts[item.action] =
+          (stats.actionCounts[item.action] ?? 0) + 1;
+        if (item.action === "study_session_completed") {
+          stats.cardsReviewed += Number(item.metadata?.cardsReviewed) || 0;
+        }
+
+        const day = toDayKey(item.timestamp, timeZone);
+        row.current_streak = advanceStreak(
+          row.current_streak,
+          stats.lastActiveDay,
+          day,
+        );
+        if (!stats.lastActiveDay || daysBetween(stats.lastActiveDay, day) > 0) {
+          stats.lastActiveDay = day;
+        }
+        row.longest_streak = Math.max(row.longest_streak, row.current_streak);
+      }
+
+      if (
+        !isStreakAlive(stats.lastActiveDay, toDayKey(now.getTime(), timeZone))
+      ) {
+        row.current_streak = 0;
+      }
+
+      row.level = getLevelForXp(row.total_xp);
+      // Keep badges granted elsewhere (e.g. by the web app)
+      row.badges = Array.from(
+        new Set([
+          ...row.badges,
+          ...getUnlockedBadges({
+            stats,
+            longestStreak: row.longest_streak,
+            level: row.level,
+          }),
+        ]),
+      );
+
+      const changed =
+        !existing ||
+        existing.current_streak !== row.current_streak ||
+        existing.longest_streak !== row.longest_streak ||
+        existing.total_xp !== row.total_xp ||
+        existing.level !== row.level ||
+        existing.badges.length !== row.badges.length;
+
+      if (changed) {
+        row.updated_at = now.toISOString();
+        row.syncStatus = "pending";
+        await enqueueSyncItem(
+          userId,
+          existing ? "update" : "create",
+          "user_achievements",
+          row.id,
+          toAchievementsPayload(row),
+        );
+      }
+
+      if (changed || stats.activityCursor !== existing?.stats.activityCursor) {
+        row.lastAccessedAt = Date.now();
+        await db.achievements.put(row);
+      }
+
+      return { row, changed };
+    },
+  );
+
+  if (changed) {
+    notifyAchievementsChanged(row);
+  }
+
+  return row;
+}
+
+function notifyAchievementsChanged(row: CachedUserAchievements): void {
+  for (const listener of listeners) {
+    try {
+      listener(row);
+    } catch (error) {
+      console.error("[Glotian Achievements] Listener failed:", error);
+    }
+  }
+
+  chrome.runtime
+    .sendMessage({ type: "ACHIEVEMENTS_UPDATED", userId: row.user_id })
+    .catch(() => {
+      // No other extension pages open
+    });
+}
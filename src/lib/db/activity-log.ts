@@ -1,13 +1,22 @@
 import { db } from "./schema";
-import type { ActivityLogItem } from "@/types";
+import { updateAchievements } from "./achievements";
+import type { ActivityLogItem, ActivityLogRow } from "@/types";
 
 /**
  * Activity Log Writer
  *
  * Records user actions in the extension for display in the Activity tab.
  * All logs are stored locally in IndexedDB and marked for sync to Supabase.
+ * Activity recorded on other devices is pulled into the same table (see
+ * `syncActivityLog`), so the tab shows one history across devices.
  */
 
+const ENTITY_TYPES = new Set<ActivityLogItem["entityType"]>([
+  "learning_note",
+  "flashcard",
+  "qa_exchange",
+]);
+
 /**
  * Log a user action to the activity log
  */
@@ -29,6 +38,7 @@ export async function logActivity(
       metadata: options.metadata ?? {},
       timestamp: Date.now(),
       syncStatus: "pending",
+      remoteId: crypto.randomUUID(),
     };
 
     await db.activityLog.add(activityItem);
@@ -38,6 +48,14 @@ export async function logActivity(
     });
   } catch (error) {
     console.error("[Activity Log] Failed to log activity:", error);
+    return;
+  }
+
+  // Award XP and extend the streak for this action
+  try {
+    await updateAchievements(userId);
+  } catch (error) {
+    console.error("[Activity Log] Failed to update achievements:", error);
   }
 }
 
@@ -144,8 +162,90 @@ export async function updateActivitySyncStatus(
   }
 }
 
+/**
+ * Get activity items still to be uploaded (pending or failed), oldest first
+ *
+ * Items logged without a server row id get one here, before their first
+ * upload, so retrying an upload never duplicates a row.
+ */
+export async function getUnsyncedActivity(
+  userId: string,
+  limit: number,
+): Promise<ActivityLogItem[]> {
+  const items = (
+    await db.activityLog
+      .where("[userId+syncStatus]")
+      .anyOf([
+        [userId, "pending"],
+        [userId, "failed"],
+      ])
+      .sortBy("timestamp")
+  ).slice(0, limit);
+
+  for (const item of items) {
+    if (!item.remoteId && item.id !== undefined) {
+      item.remoteId = crypto.randomUUID();
+      await db.activityLog.update(item.id, { remoteId: item.remoteId });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Store activity pulled from the server
+ *
+ * Rows already in the log (e.g. uploaded from this device) are skipped.
+ *
+ * @returns Number of items added
+ */
+export async function saveRemoteActivity(
+  userId: string,
+  rows: ActivityLogRow[],
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  return db.transaction("rw", db.activityLog, async () => {
+    const known = new Set(
+      (
+        await db.activityLog
+          .where("remoteId")
+          .anyOf(rows.map((row) => row.id))
+          .toArray()
+      ).map((item) => item.remoteId),
+    );
+
+    const pulledAt = Date.now();
+    const items: ActivityLogItem[] = rows
+      .filter((row) => !known.has(row.id))
+      .map((row) => {
+        const entityType = row.entity_type as ActivityLogItem["entityType"];
+        return {
+          userId,
+          action: row.action as ActivityLogItem["action"],
+          entityType: ENTITY_TYPES.has(entityType) ? entityType : null,
+          entityId: row.entity_id,
+          metadata:
+            row.metadata && typeof row.metadata === "object"
+              ? (row.metadata as Record<string, any>)
+              : {},
+          timestamp: new Date(row.occurred_at).getTime(),
+          syncStatus: "synced",
+          remoteId: row.id,
+          source: row.source,
+          pulledAt,
+        };
+      });
+
+    await db.activityLog.bulkAdd(items);
+    return items.length;
+  });
+}
+
 /**
  * Clear old activity logs (keep last 1000 items)
+ *
+ * Items not uploaded yet are never pruned.
  */
 export async function pruneActivityLog(userId: string): Promise<void> {
   try {
@@ -155,7 +255,9 @@ export async function pruneActivityLog(userId: string): Promise<void> {
       .sortBy("timestamp");
 
     if (allItems.length > 1000) {
-      const itemsToDelete = allItems.slice(0, -1000); // Delete oldest, keep newest 1000
+      const itemsToDelete = allItems
+        .slice(0, -1000) // Delete oldest, keep newest 1000
+        .filter((item) => item.syncStatus === "synced");
       const idsToDelete = itemsToDelete
         .map((item) => item.id)
         .filter((id): id is number => id !== undefined);
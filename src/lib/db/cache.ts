@@ -70,13 +70,17 @@ export async function getCachedNote(
 }
 
 /**
- * Get recent notes for user
+ * Get recent notes for user (excluding notes in the trash)
  */
 export async function getRecentNotes(
   userId: string,
   limit = 20,
 ): Promise<CachedNote[]> {
-  const notes = await db.notes.where("userId").equals(userId).toArray();
+  const notes = await db.notes
+    .where("userId")
+    .equals(userId)
+    .filter((note) => !note.deleted_at)
+    .toArray();
 
   return notes
     .sort(
@@ -115,6 +119,7 @@ export async function searchNotes(
     if (results.length >= limit) {
       break;
     }
+    if (note.deleted_at) continue;
 
     const contentText = note.content?.toLowerCase() || "";
 
@@ -240,12 +245,13 @@ export async function evictLRUIfNeeded(): Promise<{
     console.log(`[Glotian Cache] Evicted ${idsToRemove.length} old decks`);
   }
 
-  // Evict old activity logs (keep last 1000 entries)
+  // Evict old activity logs (keep last 1000 entries, and any not uploaded)
   const activityCount = await db.activityLog.count();
   if (activityCount > 1000) {
     const logsToRemove = activityCount - 1000;
     const oldestLogs = await db.activityLog
       .orderBy("timestamp")
+      .filter((log) => log.syncStatus === "synced")
       .limit(logsToRemove)
       .toArray();
 
@@ -0,0 +1,100 @@
+/**
+ * Sync conflict inbox
+ *
+ * Fields the sync engine couldn't merge (and local deletes of rows edited
+ * on the server) are stored here until the user picks a version in the
+ * Activity tab. The cache keeps the server value meanwhile. There is at
+ * most one open conflict per entity; a later conflict on the same entity
+ * is folded into it.
+ */
+
+import Dexie from "dexie";
+import { db } from "./schema";
+import type { SyncConflict, SyncQueueItem } from "@/types";
+
+/**
+ * Store a conflict, folding it into the entity's open conflict if any
+ */
+export async function saveSyncConflict(
+  conflict: Omit<SyncConflict, "id" | "detectedAt">,
+): Promise<void> {
+  await db.transaction("rw", db.conflicts, async () => {
+    const existing = await db.conflicts
+      .where("[table+entityId]")
+      .equals([conflict.table, conflict.entityId])
+      .first();
+
+    // Fields still unresolved from the earlier conflict stay listed
+    const fields =
+      existing && conflict.operation !== "delete"
+        ? [
+            ...existing.fields.filter(
+              (field) =>
+                !conflict.fields.some((next) => next.field === field.field),
+            ),
+            ...conflict.fields,
+          ]
+        : conflict.fields;
+
+    await db.conflicts.put({
+      ...conflict,
+      id: existing?.id,
+      fields,
+      detectedAt: Date.now(),
+    });
+  });
+
+  notifySyncConflictsChanged(conflict.userId);
+}
+
+/**
+ * Open conflicts for a user, newest first
+ */
+export async function getSyncConflicts(
+  userId: string,
+): Promise<SyncConflict[]> {
+  return db.conflicts
+    .where("[userId+detectedAt]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+    .reverse()
+    .toArray();
+}
+
+export async function getSyncConflict(
+  conflictId: number,
+): Promise<SyncConflict | undefined> {
+  return db.conflicts.get(conflictId);
+}
+
+/**
+ * Remove a resolved conflict
+ */
+export async function deleteSyncConflict(
+  conflict: SyncConflict,
+): Promise<void> {
+  if (conflict.id === undefined) return;
+  await db.conflicts.delete(conflict.id);
+  notifySyncConflictsChanged(conflict.userId);
+}
+
+/**
+ * Remove the open conflict for an entity (e.g. it was deleted everywhere)
+ */
+export async function deleteSyncConflictForEntity(
+  table: SyncQueueItem["table"],
+  entityId: string,
+): Promise<void> {
+  const existing = await db.conflicts
+    .where("[table+entityId]")
+    .equals([table, entityId])
+    .first();
+  if (existing) await deleteSyncConflict(existing);
+}
+
+function notifySyncConflictsChanged(userId: string): void {
+  chrome.runtime
+    .sendMessage({ type: "SYNC_CONFLICTS_UPDATED", userId })
+    .catch(() => {
+      // No other extension pages open
+    });
+}
@@ -0,0 +1,662 @@
+/**
+ * Flashcard and deck cache helpers
+ */
+
+import Dexie from "dexie";
+import { db } from "./schema";
+import { enqueueSyncItem } from "./sync-queue";
+import type { CachedDeck, CachedFlashcard, SyncStatus } from "@/types";
+
+const IMPORT_BATCH_SIZE = 50;
+
+/**
+ * Fields accepted when creating a flashcard locally
+ */
+export interface FlashcardDraft {
+  id?: string;
+  deck_id?: string;
+  source_note_id?: string | null;
+  term: string;
+  definition: string;
+  part_of_speech?: string | null;
+  example_sentences?: string[];
+  language: string;
+  difficulty_level?: CachedFlashcard["difficulty_level"];
+  card_type?: CachedFlashcard["card_type"];
+  context_sentence?: string | null;
+}
+
+/**
+ * Build the default deck name for a language
+ */
+export function getDefaultDeckName(language: string): string {
+  return `My ${language.toUpperCase()} Vocabulary`;
+}
+
+/**
+ * Find the user's default deck for a language, creating it if missing
+ *
+ * The default deck is the oldest non-deleted deck for the language.
+ * `created` tells the caller whether the deck still needs to be enqueued for sync.
+ */
+export async function getOrCreateDefaultDeck(
+  userId: string,
+  language: string,
+): Promise<{ deck: CachedDeck; created: boolean }> {
+  const decks = await db.decks
+    .where("[user_id+created_at]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+    .filter((deck) => deck.language === language && !deck.deleted_at)
+    .toArray();
+
+  if (decks.length > 0) {
+    return { deck: decks[0], created: false };
+  }
+
+  const now = new Date().toISOString();
+  const deck: CachedDeck = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    name: getDefaultDeckName(language),
+    description: null,
+    language,
+    card_count: 0,
+    total_study_time_seconds: 0,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+    syncStatus: "pending",
+    lastAccessedAt: Date.now(),
+  };
+
+  await db.decks.put(deck);
+  console.log("[Glotian Cache] Default deck created:", deck.id, language);
+
+  return { deck, created: true };
+}
+
+function buildCachedFlashcard(
+  userId: string,
+  deckId: string,
+  draft: FlashcardDraft,
+): CachedFlashcard {
+  const now = new Date().toISOString();
+  return {
+    id: draft.id ?? crypto.randomUUID(),
+    user_id: userId,
+    deck_id: deckId,
+    source_note_id: draft.source_note_id ?? null,
+    term: draft.term,
+    definition: draft.definition,
+    part_of_speech: draft.part_of_speech ?? null,
+    example_sentences: draft.example_sentences ?? [],
+    language: draft.language,
+    difficulty_level: draft.difficulty_level ?? "medium",
+    card_type: draft.card_type ?? "basic",
+    context_sentence: draft.context_sentence ?? null,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+    syncStatus: "pending",
+    lastAccessedAt: Date.now(),
+  };
+}
+
+/**
+ * Create a flashcard in IndexedDB cache and bump the deck's card count
+ *
+ * The deck's new card_count is queued for sync; queuing the card itself is
+ * up to the caller.
+ */
+export async function createCachedFlashcard(
+  userId: string,
+  deckId: string,
+  draft: FlashcardDraft,
+): Promise<CachedFlashcard> {
+  const flashcard = buildCachedFlashcard(userId, deckId, draft);
+
+  await db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      await db.flashcards.put(flashcard);
+      await refreshCardCounts([deckId]);
+    },
+  );
+
+  console.log("[Glotian Cache] Flashcard created:", flashcard.id);
+
+  return flashcard;
+}
+
+/**
+ * List the user's decks (excluding soft-deleted ones), sorted by name
+ */
+export async function listDecks(userId: string): Promise<CachedDeck[]> {
+  const decks = await db.decks.where("user_id").equals(userId).toArray();
+  return decks
+    .filter((deck) => !deck.deleted_at)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * List the non-deleted flashcards in a deck, newest first
+ */
+export async function listDeckFlashcards(
+  userId: string,
+  deckId: string,
+): Promise<CachedFlashcard[]> {
+  const flashcards = await db.flashcards
+    .where("[user_id+deck_id]")
+    .equals([userId, deckId])
+    .toArray();
+  return flashcards
+    .filter((card) => !card.deleted_at)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+async function getActiveDeck(deckId: string): Promise<CachedDeck> {
+  const deck = await db.decks.get(deckId);
+  if (!deck || deck.deleted_at) {
+    throw new Error("Deck not found.");
+  }
+  return deck;
+}
+
+async function ensureUniqueDeckName(
+  userId: string,
+  name: string,
+  excludeDeckId?: string,
+): Promise<void> {
+  const normalized = name.toLowerCase();
+  const decks = await listDecks(userId);
+  if (
+    decks.some(
+      (deck) =>
+        deck.id !== excludeDeckId && deck.name.toLowerCase() === normalized,
+    )
+  ) {
+    throw new Error(`A deck named "${name}" already exists.`);
+  }
+}
+
+/**
+ * Write a deck and queue it for sync
+ */
+async function saveDeck(
+  deck: CachedDeck,
+  operation: "create" | "update",
+): Promise<void> {
+  await db.decks.put(deck);
+  await enqueueSyncItem(
+    deck.user_id,
+    operation,
+    "flashcard_decks",
+    deck.id,
+    toServerPayload(deck),
+  );
+}
+
+/**
+ * Write a flashcard update and queue it for sync
+ */
+async function saveFlashcard(flashcard: CachedFlashcard): Promise<void> {
+  await db.flashcards.put(flashcard);
+  await enqueueSyncItem(
+    flashcard.user_id,
+    "update",
+    "flashcards",
+    flashcard.id,
+    toServerPayload(flashcard),
+  );
+}
+
+/**
+ * Recount non-deleted cards for each deck, saving decks whose card_count drifted
+ *
+ * Must run inside a transaction covering decks, flashcards and syncQueue.
+ */
+export async function refreshCardCounts(
+  deckIds: Iterable<string>,
+): Promise<void> {
+  for (const deckId of new Set(deckIds)) {
+    const deck = await db.decks.get(deckId);
+    if (!deck) continue;
+
+    const cardCount = await db.flashcards
+      .where("[user_id+deck_id]")
+      .equals([deck.user_id, deck.id])
+      .filter((card) => !card.deleted_at)
+      .count();
+
+    if (deck.card_count !== cardCount) {
+      await saveDeck(
+        {
+          ...deck,
+          card_count: cardCount,
+          updated_at: new Date().toISOString(),
+          syncStatus: "pending",
+        },
+        "update",
+      );
+    }
+  }
+}
+
+/**
+ * Create a deck and queue it for sync
+ *
+ * @throws Error if the name is empty or already used by another deck
+ */
+export async function createDeck(
+  userId: string,
+  input: { name: string; language: string; description?: string | null },
+): Promise<CachedDeck> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error("Deck name is required.");
+  }
+  if (!input.language) {
+    throw new Error("Deck language is required.");
+  }
+
+  const now = new Date().toISOString();
+  const deck: CachedDeck = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    name,
+    description: input.description?.trim() || null,
+    language: input.language,
+    card_count: 0,
+    total_study_time_seconds: 0,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+    syncStatus: "pending",
+    lastAccessedAt: Date.now(),
+  };
+
+  await db.transaction("rw", db.decks, db.syncQueue, async () => {
+    await ensureUniqueDeckName(userId, name);
+    await saveDeck(deck, "create");
+  });
+
+  console.log("[Glotian Cache] Deck created:", deck.id);
+  return deck;
+}
+
+/**
+ * Rename a deck and/or change its description
+ *
+ * @throws Error if the deck is missing or the new name is empty or taken
+ */
+export async function updateDeck(
+  deckId: string,
+  changes: { name?: string; description?: string | null },
+): Promise<CachedDeck> {
+  return db.transaction("rw", db.decks, db.syncQueue, async () => {
+    const deck = await getActiveDeck(deckId);
+    const name = changes.name !== undefined ? changes.name.trim() : deck.name;
+    if (!name) {
+      throw new Error("Deck name is required.");
+    }
+    if (name !== deck.name) {
+      await ensureUniqueDeckName(deck.user_id, name, deck.id);
+    }
+
+    const updated: CachedDeck = {
+      ...deck,
+      name,
+      description:
+        changes.description !== undefined
+          ? changes.description?.trim() || null
+          : deck.description,
+      updated_at: new Date().toISOString(),
+      syncStatus: "pending",
+      lastAccessedAt: Date.now(),
+    };
+    await saveDeck(updated, "update");
+
+    console.log("[Glotian Cache] Deck updated:", deckId);
+    return updated;
+  });
+}
+
+/**
+ * Soft-delete a deck together with its cards
+ */
+export async function deleteDeck(
+  deckId: string,
+): Promise<{ deletedCards: number }> {
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const deck = await getActiveDeck(deckId);
+      const now = new Date().toISOString();
+
+      const flashcards = await listDeckFlashcards(deck.user_id, deck.id);
+      for (const flashcard of flashcards) {
+        await saveFlashcard({
+          ...flashcard,
+          deleted_at: now,
+          updated_at: now,
+          syncStatus: "pending",
+        });
+      }
+
+      await saveDeck(
+        {
+          ...deck,
+          card_count: 0,
+          deleted_at: now,
+          updated_at: now,
+          syncStatus: "pending",
+        },
+        "update",
+      );
+
+      console.log("[Glotian Cache] Deck deleted:", deckId, flashcards.length);
+      return { deletedCards: flashcards.length };
+    },
+  );
+}
+
+/**
+ * Restore a soft-deleted deck together with the cards deleted along with it
+ *
+ * @throws Error if the deck isn't in the trash or its name is now taken
+ */
+export async function restoreDeck(
+  deckId: string,
+): Promise<{ restoredCards: number }> {
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const deck = await db.decks.get(deckId);
+      if (!deck || !deck.deleted_at) {
+        throw new Error("Deck not found.");
+      }
+      await ensureUniqueDeckName(deck.user_id, deck.name, deck.id);
+
+      // deleteDeck stamps the deck and its cards with the same time
+      const flashcards = await db.flashcards
+        .where("[user_id+deck_id]")
+        .equals([deck.user_id, deck.id])
+        .filter((card) => card.deleted_at === deck.deleted_at)
+        .toArray();
+
+      const now = new Date().toISOString();
+      for (const flashcard of flashcards) {
+        await saveFlashcard({
+          ...flashcard,
+          deleted_at: null,
+          updated_at: now,
+          syncStatus: "pending",
+        });
+      }
+
+      await saveDeck(
+        {
+          ...deck,
+          deleted_at: null,
+          updated_at: now,
+          syncStatus: "pending",
+          lastAccessedAt: Date.now(),
+        },
+        "update",
+      );
+      await refreshCardCounts([deck.id]);
+
+      console.log("[Glotian Cache] Deck restored:", deckId, flashcards.length);
+      return { restoredCards: flashcards.length };
+    },
+  );
+}
+
+/**
+ * Soft-delete flashcards, keeping their decks' card_count in step
+ *
+ * Cards that are already deleted are skipped. Returns the number deleted.
+ */
+export async function deleteFlashcards(
+  flashcardIds: string[],
+): Promise<number> {
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const flashcards = (await db.flashcards.bulkGet(flashcardIds)).filter(
+        (card): card is CachedFlashcard => !!card && !card.deleted_at,
+      );
+
+      const now = new Date().toISOString();
+      for (const flashcard of flashcards) {
+        await saveFlashcard({
+          ...flashcard,
+          deleted_at: now,
+          updated_at: now,
+          syncStatus: "pending",
+        });
+      }
+
+      await refreshCardCounts(flashcards.map((card) => card.deck_id));
+
+      console.log("[Glotian Cache] Flashcards deleted:", flashcards.length);
+      return flashcards.length;
+    },
+  );
+}
+
+/**
+ * Restore a soft-deleted flashcard into its deck
+ *
+ * @throws Error if the card isn't in the trash or its deck is deleted too
+ */
+export async function restoreFlashcard(
+  flashcardId: string,
+): Promise<CachedFlashcard> {
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const flashcard = await db.flashcards.get(flashcardId);
+      if (!flashcard || !flashcard.deleted_at) {
+        throw new Error("Flashcard not found.");
+      }
+
+      const deck = await db.decks.get(flashcard.deck_id);
+      if (!deck) {
+        throw new Error("Deck not found.");
+      }
+      if (deck.deleted_at) {
+        throw new Error(`Restore the deck "${deck.name}" first.`);
+      }
+
+      const restored: CachedFlashcard = {
+        ...flashcard,
+        deleted_at: null,
+        updated_at: new Date().toISOString(),
+        syncStatus: "pending",
+        lastAccessedAt: Date.now(),
+      };
+      await saveFlashcard(restored);
+      await refreshCardCounts([deck.id]);
+
+      console.log("[Glotian Cache] Flashcard restored:", flashcardId);
+      return restored;
+    },
+  );
+}
+
+/**
+ * Move flashcards into another deck, keeping both decks' card_count in step
+ *
+ * Cards that are deleted or belong to another user are skipped.
+ */
+export async function moveFlashcards(
+  flashcardIds: string[],
+  targetDeckId: string,
+): Promise<number> {
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const target = await getActiveDeck(targetDeckId);
+      const flashcards = (await db.flashcards.bulkGet(flashcardIds)).filter(
+        (card): card is CachedFlashcard =>
+          !!card &&
+          !card.deleted_at &&
+          card.user_id === target.user_id &&
+          card.deck_id !== target.id,
+      );
+
+      const now = new Date().toISOString();
+      const touchedDeckIds = [target.id];
+      for (const flashcard of flashcards) {
+        touchedDeckIds.push(flashcard.deck_id);
+        await saveFlashcard({
+          ...flashcard,
+          deck_id: target.id,
+          updated_at: now,
+          syncStatus: "pending",
+        });
+      }
+
+      await refreshCardCounts(touchedDeckIds);
+
+      console.log(
+        "[Glotian Cache] Flashcards moved:",
+        flashcards.length,
+        "→",
+        targetDeckId,
+      );
+      return flashcards.length;
+    },
+  );
+}
+
+/**
+ * Merge one deck into another: move all cards, then soft-delete the source
+ */
+export async function mergeDecks(
+  sourceDeckId: string,
+  targetDeckId: string,
+): Promise<{ movedCards: number }> {
+  if (sourceDeckId === targetDeckId) {
+    throw new Error("Choose a different deck to merge into.");
+  }
+
+  return db.transaction(
+    "rw",
+    [db.decks, db.flashcards, db.syncQueue],
+    async () => {
+      const source = await getActiveDeck(sourceDeckId);
+      const target = await getActiveDeck(targetDeckId);
+      if (source.user_id !== target.user_id) {
+        throw new Error("Deck not found.");
+      }
+
+      const flashcards = await listDeckFlashcards(source.user_id, source.id);
+      const movedCards = await moveFlashcards(
+        flashcards.map((card) => card.id),
+        target.id,
+      );
+
+      const now = new Date().toISOString();
+      const refreshedSource = await getActiveDeck(source.id);
+      await saveDeck(
+        {
+          ...refreshedSource,
+          card_count: 0,
+          deleted_at: now,
+          updated_at: now,
+          syncStatus: "pending",
+        },
+        "update",
+      );
+
+      console.log(
+        "[Glotian Cache] Deck merged:",
+        sourceDeckId,
+        "→",
+        targetDeckId,
+      );
+      return { movedCards };
+    },
+  );
+}
+
+/**
+ * Import flashcards into a deck, writing and queueing them for sync in batches
+ *
+ * Each batch is its own transaction, so a failure keeps the batches already
+ * written. Returns the number of cards imported.
+ */
+export async function importFlashcards(
+  userId: string,
+  deckId: string,
+  drafts: FlashcardDraft[],
+  onProgress?: (imported: number, total: number) => void,
+): Promise<number> {
+  let imported = 0;
+
+  for (let start = 0; start < drafts.length; start += IMPORT_BATCH_SIZE) {
+    const batch = drafts.slice(start, start + IMPORT_BATCH_SIZE);
+
+    await db.transaction(
+      "rw",
+      [db.decks, db.flashcards, db.syncQueue],
+      async () => {
+        const deck = await getActiveDeck(deckId);
+        if (deck.user_id !== userId) {
+          throw new Error("Deck not found.");
+        }
+
+        for (const draft of batch) {
+          const flashcard = buildCachedFlashcard(userId, deck.id, draft);
+          await db.flashcards.put(flashcard);
+          await enqueueSyncItem(
+            userId,
+            "create",
+            "flashcards",
+            flashcard.id,
+            toServerPayload(flashcard),
+          );
+        }
+
+        await refreshCardCounts([deck.id]);
+      },
+    );
+
+    imported += batch.length;
+    onProgress?.(imported, drafts.length);
+  }
+
+  console.log("[Glotian Cache] Flashcards imported:", imported, "→", deckId);
+  return imported;
+}
+
+// Fields the server has no columns for (see `CachedFlashcard` and
+// `CachedStudyProgress`)
+type LocalOnlyField = "card_type" | "context_sentence" | "stability";
+
+/**
+ * Strip local sync metadata and local-only fields so a cached row can be
+ * sent to Supabase
+ */
+export function toServerPayload<
+  T extends { syncStatus: SyncStatus; lastAccessedAt?: number },
+>(row: T): Omit<T, "syncStatus" | "lastAccessedAt" | LocalOnlyField> {
+  const {
+    syncStatus: _syncStatus,
+    lastAccessedAt: _lastAccessedAt,
+    ...rest
+  } = row;
+  const payload: Record<string, unknown> = rest;
+  delete payload.card_type;
+  delete payload.context_sentence;
+  delete payload.stability;
+  return payload as Omit<T, "syncStatus" | "lastAccessedAt" | LocalOnlyField>;
+}
@@ -4,6 +4,15 @@ import type {
   CachedFlashcard,
   CachedDeck,
   CachedUserPreference,
+  CachedStudyProgress,
+  CachedReview,
+  CachedStudySession,
+  CachedUserAchievements,
+  DailyStudyTime,
+  DeadLetterSyncItem,
+  SyncBase,
+  SyncConflict,
+  SyncCursor,
   SyncQueueItem,
   ActivityLogItem,
 } from "@/types";
@@ -16,15 +25,33 @@ import type {
  * - flashcards: Cached flashcards with sync status
  * - decks: Cached flashcard decks with sync status
  * - userPreferences: Cached user preferences with sync status
- * - syncQueue: Queue for offline changes waiting to sync
- * - activityLog: Local activity history
+ * - studyProgress: Per-card spaced-repetition state with sync status
+ * - reviews: Review history (one row per rating) with sync status
+ * - studySessions: Review sessions with sync status
+ * - achievements: Streak, XP, level and badges (one row per user) with sync status
+ * - dailyStudyTime: Active learning time per user and day (local only)
+ * - syncQueue: Queue for offline changes waiting to sync (per user)
+ * - deadLetterQueue: Sync items that failed permanently, kept for review
+ * - syncBases: Last agreed server version of each synced row (merge base)
+ * - conflicts: Sync conflicts waiting for the user to pick a version
+ * - syncCursors: Latest server change pulled per user and table
+ * - activityLog: Activity history, recorded here or pulled from the server
  */
 export class GlotianExtensionDB extends Dexie {
   notes!: Table<CachedNote, string>;
   flashcards!: Table<CachedFlashcard, string>;
   decks!: Table<CachedDeck, string>;
   userPreferences!: Table<CachedUserPreference, string>;
+  studyProgress!: Table<CachedStudyProgress, string>;
+  reviews!: Table<CachedReview, string>;
+  studySessions!: Table<CachedStudySession, string>;
+  achievements!: Table<CachedUserAchievements, string>;
+  dailyStudyTime!: Table<DailyStudyTime, [string, string]>;
   syncQueue!: Table<SyncQueueItem, number>;
+  deadLetterQueue!: Table<DeadLetterSyncItem, number>;
+  syncBases!: Table<SyncBase, [string, string]>;
+  conflicts!: Table<SyncConflict, number>;
+  syncCursors!: Table<SyncCursor, [string, string]>;
   activityLog!: Table<ActivityLogItem, number>;
 
   constructor() {
@@ -149,6 +176,427 @@ export class GlotianExtensionDB extends Dexie {
           delete note.deleted_at;
         });
       });
+
+    // Version 4: Add spaced-repetition tables for the Review tab
+    this.version(4).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, timestamp, operation, table, retryCount, [table+operation]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+
+      // Study progress: one row per user+flashcard, due queries via user_id+next_review_at
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+
+      // Reviews: append-only history, indexed for per-card and per-day lookups
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+
+      // Study sessions: indexed by start time for history and daily stats
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+    });
+
+    // Version 5: Queue study rows recorded before study tables were synced
+    this.version(5)
+      .stores({
+        notes:
+          "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+        flashcards:
+          "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        decks:
+          "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        userPreferences:
+          "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+        syncQueue:
+          "++id, timestamp, operation, table, retryCount, [table+operation]",
+        activityLog:
+          "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+        studyProgress:
+          "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        reviews:
+          "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+        studySessions:
+          "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      })
+      .upgrade(async (tx) => {
+        const syncQueue = tx.table("syncQueue");
+        const studyTables = [
+          { store: "studyProgress", table: "study_progress" },
+          { store: "reviews", table: "reviews" },
+          { store: "studySessions", table: "study_sessions" },
+        ] as const;
+
+        for (const { store, table } of studyTables) {
+          const pendingRows = await tx
+            .table(store)
+            .where("syncStatus")
+            .equals("pending")
+            .toArray();
+
+          for (const row of pendingRows) {
+            const {
+              syncStatus: _syncStatus,
+              lastAccessedAt: _lastAccessedAt,
+              ...payload
+            } = row;
+            await syncQueue.add({
+              operation: "create",
+              table,
+              entityId: row.id,
+              payload,
+              timestamp: Date.now(),
+              retryCount: 0,
+              lastAttempt: null,
+              error: null,
+            });
+          }
+        }
+      });
+
+    // Version 6: Card types (basic / cloze) on flashcards
+    this.version(6)
+      .stores({
+        notes:
+          "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+        flashcards:
+          "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        decks:
+          "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        userPreferences:
+          "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+        syncQueue:
+          "++id, timestamp, operation, table, retryCount, [table+operation]",
+        activityLog:
+          "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+        studyProgress:
+          "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        reviews:
+          "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+        studySessions:
+          "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table("flashcards")
+          .toCollection()
+          .modify((flashcard: any) => {
+            flashcard.card_type = flashcard.card_type ?? "basic";
+            flashcard.context_sentence = flashcard.context_sentence ?? null;
+          });
+      });
+
+    // Version 7: Streaks, XP and badges (user_achievements)
+    this.version(7).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, timestamp, operation, table, retryCount, [table+operation]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      // Achievements: one row per user, looked up by user_id
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+    });
+
+    // Version 8: Daily active learning time
+    this.version(8).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, timestamp, operation, table, retryCount, [table+operation]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      // Study time: one row per user and day
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 9: Sync queue items belong to a user
+    this.version(9)
+      .stores({
+        notes:
+          "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+        flashcards:
+          "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        decks:
+          "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        userPreferences:
+          "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+        syncQueue:
+          "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp]",
+        activityLog:
+          "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+        studyProgress:
+          "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        reviews:
+          "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+        studySessions:
+          "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+        achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+        dailyStudyTime: "[userId+day], userId",
+      })
+      .upgrade(async (tx) => {
+        // Every synced row carries its owner; fall back to the cached entity
+        const cacheStores: Record<SyncQueueItem["table"], string> = {
+          learning_notes: "notes",
+          flashcards: "flashcards",
+          flashcard_decks: "decks",
+          user_preferences: "userPreferences",
+          study_progress: "studyProgress",
+          reviews: "reviews",
+          study_sessions: "studySessions",
+          user_achievements: "achievements",
+        };
+
+        const syncQueue = tx.table("syncQueue");
+        const items = await syncQueue.toArray();
+        for (const item of items) {
+          let userId = item.payload?.user_id ?? item.payload?.userId;
+          if (!userId) {
+            const entity = await tx
+              .table(cacheStores[item.table as SyncQueueItem["table"]])
+              .get(item.entityId);
+            userId = entity?.user_id ?? entity?.userId;
+          }
+
+          // Items with no known owner are adopted by the next user to sync
+          // (see `adoptOwnerlessSyncItems`)
+          await syncQueue.update(item.id, { userId: userId ?? "" });
+        }
+      });
+
+    // Version 10: Look up queued items per entity (queue coalescing)
+    this.version(10).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 11: Dead-letter queue for sync items that won't be retried
+    this.version(11).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      deadLetterQueue: "++id, userId, [userId+failedAt]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 12: Merge bases for three-way conflict resolution
+    this.version(12).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      deadLetterQueue: "++id, userId, [userId+failedAt]",
+      syncBases: "[table+entityId]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 13: Persistent sync conflict inbox
+    this.version(13).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      deadLetterQueue: "++id, userId, [userId+failedAt]",
+      syncBases: "[table+entityId]",
+      conflicts: "++id, userId, [userId+detectedAt], [table+entityId]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 14: Delta sync high-water marks
+    this.version(14).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      deadLetterQueue: "++id, userId, [userId+failedAt]",
+      syncBases: "[table+entityId]",
+      conflicts: "++id, userId, [userId+detectedAt], [table+entityId]",
+      syncCursors: "[userId+table]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
+
+    // Version 15: Trash bin. Every cached note gets a deleted_at (null when
+    // live). Notes migrated by version 3 lost theirs, so all notes are
+    // pulled again to bring the tombstones back.
+    this.version(15)
+      .stores({
+        notes:
+          "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+        flashcards:
+          "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        decks:
+          "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        userPreferences:
+          "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+        syncQueue:
+          "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+        deadLetterQueue: "++id, userId, [userId+failedAt]",
+        syncBases: "[table+entityId]",
+        conflicts: "++id, userId, [userId+detectedAt], [table+entityId]",
+        syncCursors: "[userId+table]",
+        activityLog:
+          "++id, userId, timestamp, action, syncStatus, [userId+action], [userId+syncStatus], [userId+timestamp]",
+        studyProgress:
+          "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+        reviews:
+          "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+        studySessions:
+          "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+        achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+        dailyStudyTime: "[userId+day], userId",
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table("notes")
+          .toCollection()
+          .modify((note: any) => {
+            note.deleted_at = note.deleted_at ?? null;
+          });
+        await tx
+          .table("syncCursors")
+          .filter((cursor: SyncCursor) => cursor.table === "learning_notes")
+          .delete();
+      });
+
+    // Version 16: Activity sync (index activityLog by its server row id)
+    this.version(16).stores({
+      notes:
+        "id, userId, [userId+createdAt], [userId+tags], [userId+syncStatus], lastAccessedAt, syncStatus",
+      flashcards:
+        "id, user_id, deck_id, source_note_id, [user_id+deck_id], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      decks:
+        "id, user_id, [user_id+created_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      userPreferences:
+        "id, user_id, [user_id+syncStatus], lastAccessedAt, syncStatus",
+      syncQueue:
+        "++id, userId, timestamp, operation, table, retryCount, [table+operation], [userId+timestamp], [userId+table+entityId]",
+      deadLetterQueue: "++id, userId, [userId+failedAt]",
+      syncBases: "[table+entityId]",
+      conflicts: "++id, userId, [userId+detectedAt], [table+entityId]",
+      syncCursors: "[userId+table]",
+      activityLog:
+        "++id, userId, timestamp, action, syncStatus, remoteId, [userId+action], [userId+syncStatus], [userId+timestamp]",
+      studyProgress:
+        "id, user_id, flashcard_id, [user_id+flashcard_id], [user_id+next_review_at], [user_id+syncStatus], lastAccessedAt, syncStatus",
+      reviews:
+        "id, user_id, flashcard_id, [user_id+reviewed_at], [user_id+syncStatus], syncStatus",
+      studySessions:
+        "id, user_id, [user_id+started_at], [user_id+syncStatus], syncStatus",
+      achievements: "id, &user_id, [user_id+syncStatus], syncStatus",
+      dailyStudyTime: "[userId+day], userId",
+    });
   }
 }
 
@@ -0,0 +1,136 @@
+/**
+ * Daily study time helpers
+ *
+ * Active learning time (see `createActivityTracker`) is summed per user and
+ * calendar day in the user's time zone, and compared against the
+ * `daily_goal_minutes` preference. Totals stay on this device.
+ */
+
+import { db } from "./schema";
+import { getUserTimeZone, toDayKey } from "@/lib/achievements";
+import type { DailyStudyTime, StudyTimeSource } from "@/types";
+
+const DEFAULT_DAILY_GOAL_MINUTES = 15;
+
+// Longest single chunk accepted from a tracker (guards against clock jumps)
+const MAX_RECORD_SECONDS = 10 * 60;
+
+export interface DailyGoalProgress {
+  day: string;
+  studiedSeconds: number;
+  goalMinutes: number;
+  completed: boolean;
+}
+
+type StudyTimeListener = (entry: DailyStudyTime) => void;
+
+const listeners = new Set<StudyTimeListener>();
+
+/**
+ * Call `listener` whenever this context records study time
+ *
+ * Other extension pages are told via a STUDY_TIME_UPDATED message.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeStudyTime(listener: StudyTimeListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Add active time to the day it was spent on
+ */
+export async function recordStudyTime(
+  userId: string,
+  source: StudyTimeSource,
+  seconds: number,
+  at: Date = new Date(),
+): Promise<DailyStudyTime | null> {
+  const added = Math.min(MAX_RECORD_SECONDS, Math.round(seconds));
+  if (!Number.isFinite(added) || added <= 0) return null;
+
+  const day = toDayKey(at.getTime(), getUserTimeZone());
+
+  const entry = await db.transaction("rw", db.dailyStudyTime, async () => {
+    const existing = await db.dailyStudyTime.get([userId, day]);
+    const entry: DailyStudyTime = {
+      userId,
+      day,
+      seconds: (existing?.seconds ?? 0) + added,
+      bySource: {
+        ...existing?.bySource,
+        [source]: (existing?.bySource[source] ?? 0) + added,
+      },
+      updatedAt: Date.now(),
+    };
+    await db.dailyStudyTime.put(entry);
+    return entry;
+  });
+
+  notifyStudyTimeChanged(entry);
+  return entry;
+}
+
+/**
+ * Get the study time recorded for a day (today by default)
+ */
+export async function getDailyStudyTime(
+  userId: string,
+  day: string = toDayKey(Date.now(), getUserTimeZone()),
+): Promise<DailyStudyTime | undefined> {
+  return db.dailyStudyTime.get([userId, day]);
+}
+
+/**
+ * Get the user's daily goal from cached preferences
+ */
+export async function getDailyGoalMinutes(userId: string): Promise<number> {
+  const preference = await db.userPreferences
+    .where("user_id")
+    .equals(userId)
+    .first();
+
+  const minutes = preference?.daily_goal_minutes;
+  return typeof minutes === "number" && minutes > 0
+    ? minutes
+    : DEFAULT_DAILY_GOAL_MINUTES;
+}
+
+/**
+ * Today's study time compared against the daily goal
+ */
+export async function getDailyGoalProgress(
+  userId: string,
+  now: Date = new Date(),
+): Promise<DailyGoalProgress> {
+  const day = toDayKey(now.getTime(), getUserTimeZone());
+  const [entry, goalMinutes] = await Promise.all([
+    getDailyStudyTime(userId, day),
+    getDailyGoalMinutes(userId),
+  ]);
+  const studiedSeconds = entry?.seconds ?? 0;
+
+  return {
+    day,
+    studiedSeconds,
+    goalMinutes,
+    completed: studiedSeconds >= goalMinutes * 60,
+  };
+}
+
+function notifyStudyTimeChanged(entry: DailyStudyTime): void {
+  for (const listener of listeners) {
+    try {
+      listener(entry);
+    } catch (error) {
+      console.error("[Glotian Study Time] Listener failed:", error);
+    }
+  }
+
+  chrome.runtime
+    .sendMessage({ type: "STUDY_TIME_UPDATED", userId: entry.userId })
+    .catch(() => {
+      // No other extension pages open
+    });
+}
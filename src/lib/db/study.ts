@@ -0,0 +1,306 @@
+/**
+ * Study progress, review and session cache helpers
+ *
+ * Everything is written locally first (syncStatus "pending") and queued
+ * for sync, so reviewing works offline.
+ */
+
+import Dexie from "dexie";
+import { db } from "./schema";
+import { toServerPayload } from "./flashcards";
+import { enqueueSyncItem } from "./sync-queue";
+import {
+  DEFAULT_SRS_ALGORITHM,
+  createInitialSchedulingState,
+  isSrsAlgorithm,
+  scheduleReview,
+  type ReviewRating,
+  type SrsAlgorithm,
+} from "@/lib/srs";
+import type {
+  CachedFlashcard,
+  CachedReview,
+  CachedStudyProgress,
+  CachedStudySession,
+} from "@/types";
+
+const DEFAULT_NEW_CARDS_PER_SESSION = 20;
+
+export interface ReviewQueueItem {
+  flashcard: CachedFlashcard;
+  progress: CachedStudyProgress | null; // null for cards never reviewed
+}
+
+/**
+ * Get the user's SRS algorithm from cached preferences
+ */
+export async function getSrsAlgorithm(userId: string): Promise<SrsAlgorithm> {
+  const preference = await db.userPreferences
+    .where("user_id")
+    .equals(userId)
+    .first();
+
+  return isSrsAlgorithm(preference?.srs_algorithm)
+    ? preference.srs_algorithm
+    : DEFAULT_SRS_ALGORITHM;
+}
+
+/**
+ * Get the study progress row for a card, if it has been reviewed before
+ */
+export async function getStudyProgress(
+  userId: string,
+  flashcardId: string,
+): Promise<CachedStudyProgress | undefined> {
+  return db.studyProgress
+    .where("[user_id+flashcard_id]")
+    .equals([userId, flashcardId])
+    .first();
+}
+
+/**
+ * Build the review queue: due cards first (oldest due first), then new cards
+ *
+ * Cards whose deck is deleted or that are soft-deleted themselves are skipped.
+ */
+export async function getReviewQueue(
+  userId: string,
+  options: { deckId?: string; newLimit?: number; now?: Date } = {},
+): Promise<ReviewQueueItem[]> {
+  const now = options.now ?? new Date();
+  const newLimit = options.newLimit ?? DEFAULT_NEW_CARDS_PER_SESSION;
+
+  const flashcards = options.deckId
+    ? await db.flashcards
+        .where("[user_id+deck_id]")
+        .equals([userId, options.deckId])
+        .toArray()
+    : await db.flashcards.where("user_id").equals(userId).toArray();
+
+  const deletedDeckIds = new Set(
+    (await db.decks.where("user_id").equals(userId).toArray())
+      .filter((deck) => deck.deleted_at)
+      .map((deck) => deck.id),
+  );
+
+  const activeCards = new Map(
+    flashcards
+      .filter((card) => !card.deleted_at && !deletedDeckIds.has(card.deck_id))
+      .map((card) => [card.id, card]),
+  );
+
+  const dueProgress = await db.studyProgress
+    .where("[user_id+next_review_at]")
+    .between([userId, Dexie.minKey], [userId, now.toISOString()], true, true)
+    .toArray();
+
+  const queue: ReviewQueueItem[] = [];
+  for (const progress of dueProgress) {
+    const flashcard = activeCards.get(progress.flashcard_id);
+    if (flashcard) {
+      queue.push({ flashcard, progress });
+    }
+  }
+
+  const reviewedIds = new Set(
+    (await db.studyProgress.where("user_id").equals(userId).toArray()).map(
+      (progress) => progress.flashcard_id,
+    ),
+  );
+
+  const newCards = Array.from(activeCards.values())
+    .filter((card) => !reviewedIds.has(card.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .slice(0, newLimit);
+
+  for (const flashcard of newCards) {
+    queue.push({ flashcard, progress: null });
+  }
+
+  return queue;
+}
+
+/**
+ * Count cards due for review at `now` (new, never-reviewed cards excluded)
+ */
+export async function countDueCards(
+  userId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const queue = await getReviewQueue(userId, { newLimit: 0, now });
+  return queue.length;
+}
+
+/**
+ * Get when the user's next card becomes due after `now`, if any
+ */
+export async function getNextDueAt(
+  userId: string,
+  now: Date = new Date(),
+): Promise<string | null> {
+  const next = await db.studyProgress
+    .where("[user_id+next_review_at]")
+    .between([userId, now.toISOString()], [userId, Dexie.maxKey], false, true)
+    .first();
+
+  return next?.next_review_at ?? null;
+}
+
+/**
+ * Start a study session
+ */
+export async function startStudySession(
+  userId: string,
+): Promise<CachedStudySession> {
+  const session: CachedStudySession = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    started_at: new Date().toISOString(),
+    ended_at: null,
+    cards_reviewed: 0,
+    correct_count: 0,
+    total_time_seconds: 0,
+    syncStatus: "pending",
+  };
+
+  await db.transaction("rw", db.studySessions, db.syncQueue, async () => {
+    await db.studySessions.put(session);
+    await enqueueSyncItem(
+      userId,
+      "create",
+      "study_sessions",
+      session.id,
+      toServerPayload(session),
+    );
+  });
+  console.log("[Glotian Study] Session started:", session.id);
+
+  return session;
+}
+
+/**
+ * Mark a study session as finished
+ */
+export async function endStudySession(
+  sessionId: string,
+): Promise<CachedStudySession | undefined> {
+  const session = await db.transaction(
+    "rw",
+    db.studySessions,
+    db.syncQueue,
+    async () => {
+      await db.studySessions.update(sessionId, {
+        ended_at: new Date().toISOString(),
+        syncStatus: "pending",
+      });
+
+      const updated = await db.studySessions.get(sessionId);
+      if (updated) {
+        await enqueueSyncItem(
+          updated.user_id,
+          "update",
+          "study_sessions",
+          sessionId,
+          toServerPayload(updated),
+        );
+      }
+      return updated;
+    },
+  );
+
+  console.log("[Glotian Study] Session ended:", sessionId);
+
+  return session;
+}
+
+/**
+ * Record a rating: reschedule the card, append a review and update the session
+ *
+ * Session counters are only pushed when the session ends.
+ */
+export async function recordReview(
+  userId: string,
+  flashcardId: string,
+  rating: ReviewRating,
+  options: {
+    algorithm: SrsAlgorithm;
+    timeTakenSeconds: number;
+    sessionId?: string;
+    now?: Date;
+  },
+): Promise<CachedStudyProgress> {
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const timeTakenSeconds = Math.max(0, Math.round(options.timeTakenSeconds));
+
+  return db.transaction(
+    "rw",
+    [db.studyProgress, db.reviews, db.studySessions, db.syncQueue],
+    async () => {
+      const existing = await getStudyProgress(userId, flashcardId);
+      const scheduled = scheduleReview(
+        existing ?? createInitialSchedulingState(now),
+        rating,
+        options.algorithm,
+        now,
+      );
+
+      const progress: CachedStudyProgress = {
+        id: existing?.id ?? crypto.randomUUID(),
+        user_id: userId,
+        flashcard_id: flashcardId,
+        ...scheduled,
+        updated_at: nowIso,
+        syncStatus: "pending",
+        lastAccessedAt: Date.now(),
+      };
+      await db.studyProgress.put(progress);
+      await enqueueSyncItem(
+        userId,
+        existing ? "update" : "create",
+        "study_progress",
+        progress.id,
+        toServerPayload(progress),
+      );
+
+      const review: CachedReview = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        flashcard_id: flashcardId,
+        rating,
+        time_taken_seconds: timeTakenSeconds,
+        reviewed_at: nowIso,
+        syncStatus: "pending",
+      };
+      await db.reviews.put(review);
+      await enqueueSyncItem(
+        userId,
+        "create",
+        "reviews",
+        review.id,
+        toServerPayload(review),
+      );
+
+      if (options.sessionId) {
+        await db.studySessions
+          .where("id")
+          .equals(options.sessionId)
+          .modify((session) => {
+            session.cards_reviewed += 1;
+            session.correct_count += rating > 1 ? 1 : 0;
+            session.total_time_seconds += timeTakenSeconds;
+            session.syncStatus = "pending";
+          });
+      }
+
+      console.log(
+        "[Glotian Study] Review recorded:",
+        flashcardId,
+        rating,
+        progress.next_review_at,
+      );
+
+      return progress;
+    },
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Merge base helpers
+ *
+ * Keeps the last server version of each synced row that the local cache
+ * agreed with: rows written from the server and payloads that were pushed
+ * successfully. Conflicts are merged field by field against this base (see
+ * `mergeThreeWay`).
+ */
+
+import { db } from "./schema";
+import type { SyncBase, SyncQueueItem } from "@/types";
+
+// Local-only cache fields that never reach the server
+const LOCAL_ONLY_FIELDS = ["syncStatus", "lastAccessedAt", "stats"];
+
+export async function getSyncBase(
+  table: SyncQueueItem["table"],
+  entityId: string,
+): Promise<Record<string, unknown> | null> {
+  const base = await db.syncBases.get([table, entityId]);
+  return base?.data ?? null;
+}
+
+/**
+ * Record the version the server now has
+ *
+ * @param merge - Apply `data` on top of the existing base (partial payloads)
+ */
+export async function saveSyncBase(
+  table: SyncQueueItem["table"],
+  entityId: string,
+  data: Record<string, unknown>,
+  merge = false,
+): Promise<void> {
+  const serverFields = { ...data };
+  for (const field of LOCAL_ONLY_FIELDS) {
+    delete serverFields[field];
+  }
+
+  await db.transaction("rw", db.syncBases, async () => {
+    const existing = merge ? await getSyncBase(table, entityId) : null;
+    await db.syncBases.put({
+      table,
+      entityId,
+      data: { ...existing, ...serverFields },
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+export async function deleteSyncBase(
+  table: SyncQueueItem["table"],
+  entityId: string,
+): Promise<void> {
+  await db.syncBases.delete([table, entityId]);
+}
@@ -0,0 +1,39 @@
+/**
+ * Delta sync high-water marks
+ *
+ * For each user and table, the highest server `updated_at` already pulled
+ * into the cache. The next pull only asks for rows changed after it.
+ */
+
+import { db } from "./schema";
+import type { SyncCursor } from "@/types";
+
+export async function getSyncCursor(
+  userId: string,
+  table: SyncCursor["table"],
+): Promise<string | null> {
+  const cursor = await db.syncCursors.get([userId, table]);
+  return cursor?.updatedAt ?? null;
+}
+
+export async function saveSyncCursor(
+  userId: string,
+  table: SyncCursor["table"],
+  updatedAt: string,
+): Promise<void> {
+  await db.syncCursors.put({
+    userId,
+    table,
+    updatedAt,
+    pulledAt: Date.now(),
+  });
+}
+
+/**
+ * Forget every cursor, so the next pull fetches whole tables again
+ *
+ * Call whenever cached rows are cleared.
+ */
+export async function clearSyncCursors(): Promise<void> {
+  await db.syncCursors.clear();
+}
@@ -1,20 +1,70 @@
 /**
  * Sync queue helpers
+ *
+ * Each item belongs to the user who made the change. Items are only pushed
+ * while their owner is signed in; other users' items stay parked until
+ * they sign back in.
  */
 
+import Dexie from "dexie";
 import { db } from "./schema";
-import type { SyncQueueItem } from "@/types";
+import type { DeadLetterSyncItem, SyncErrorKind, SyncQueueItem } from "@/types";
+
+/**
+ * How a newly queued operation combines with the entity's latest queued one
+ *
+ * - "merge": fold the new payload into the existing item (update after
+ *   create or update); the existing item keeps its place in the queue
+ * - "cancel": drop both (delete after a create that never reached the server)
+ * - "replace": drop the existing item and append the new one (delete after
+ *   update)
+ * - "append": keep both
+ */
+type SyncItemFold = "merge" | "cancel" | "replace" | "append";
+
+function foldSyncItem(
+  existing: SyncQueueItem,
+  next: Pick<SyncQueueItem, "operation">,
+): SyncItemFold {
+  if (existing.operation === "delete") return "append";
+
+  if (next.operation === "update") return "merge";
+
+  if (next.operation === "delete") {
+    if (existing.operation === "update") return "replace";
+    // A create that was attempted may have reached the server
+    return existing.lastAttempt === null ? "cancel" : "append";
+  }
+
+  return "append";
+}
+
+function whereEntitySyncItems(
+  userId: string,
+  table: SyncQueueItem["table"],
+  entityId: string,
+) {
+  return db.syncQueue
+    .where("[userId+table+entityId]")
+    .equals([userId, table, entityId]);
+}
 
 /**
  * Add item to sync queue
+ *
+ * Redundant operations on the same entity are coalesced with the latest
+ * queued one (see `foldSyncItem`), so repeated offline edits are pushed once.
+ * Must be called outside a transaction or inside one covering syncQueue.
  */
 export async function enqueueSyncItem(
+  userId: string,
   operation: SyncQueueItem["operation"],
   table: SyncQueueItem["table"],
   entityId: string,
   payload: Record<string, any>,
 ): Promise<void> {
   const item: Omit<SyncQueueItem, "id"> = {
+    userId,
     operation,
     table,
     entityId,
@@ -25,18 +75,171 @@ export async function enqueueSyncItem(
     error: null,
   };
 
-  await db.syncQueue.add(item);
+  const fold = await db.transaction("rw", db.syncQueue, async () => {
+    const existing = await whereEntitySyncItems(userId, table, entityId).last();
+    const fold = existing ? foldSyncItem(existing, item) : "append";
+
+    if (existing?.id !== undefined && fold !== "append") {
+      if (fold === "merge") {
+        await db.syncQueue.update(existing.id, {
+          payload: { ...existing.payload, ...payload },
+        });
+        return fold;
+      }
+      await db.syncQueue.delete(existing.id);
+      if (fold === "cancel") return fold;
+    }
+
+    await db.syncQueue.add(item);
+    return fold;
+  });
+
   console.log(
-    `[Glotian Sync Queue] Enqueued ${operation} for ${table}/${entityId}`,
+    `[Glotian Sync Queue] Enqueued ${operation} for ${table}/${entityId}` +
+      (fold === "append" ? "" : ` (${fold})`),
   );
 }
 
 /**
- * Get all pending sync items
+ * Give queue items without an owner to a user
+ *
+ * These were queued before items had owners, by a user schema version 9
+ * couldn't work out. A profile had a single signed-in user then, so they go
+ * to the first user who syncs instead of staying parked for good.
+ *
+ * @returns Number of items adopted
+ */
+export async function adoptOwnerlessSyncItems(userId: string): Promise<number> {
+  const adopted = await db.syncQueue
+    .where("userId")
+    .equals("")
+    .modify({ userId });
+  if (adopted > 0) {
+    console.log(`[Glotian Sync Queue] Adopted ${adopted} items without owner`);
+  }
+  return adopted;
+}
+
+/**
+ * Coalesce a user's queued items the same way `enqueueSyncItem` does
+ *
+ * Catches items added without coalescing (direct writes, older versions).
+ *
+ * @returns Number of queue items removed
  */
-export async function getAllSyncItems(): Promise<SyncQueueItem[]> {
-  const items = await db.syncQueue.orderBy("timestamp").toArray();
-  return items;
+export async function compactSyncQueue(userId: string): Promise<number> {
+  return db.transaction("rw", db.syncQueue, async () => {
+    const items = await whereUserSyncItems(userId).toArray();
+    items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+    const latestByEntity = new Map<string, SyncQueueItem>();
+    const merged = new Map<number, Record<string, any>>();
+    const removed = new Set<number>();
+
+    for (const item of items) {
+      if (item.id === undefined) continue;
+
+      const key = `${item.table}/${item.entityId}`;
+      const existing = latestByEntity.get(key);
+      const fold = existing ? foldSyncItem(existing, item) : "append";
+
+      if (!existing || existing.id === undefined || fold === "append") {
+        latestByEntity.set(key, item);
+        continue;
+      }
+
+      if (fold === "merge") {
+        existing.payload = { ...existing.payload, ...item.payload };
+        merged.set(existing.id, existing.payload);
+        removed.add(item.id);
+        continue;
+      }
+
+      removed.add(existing.id);
+      merged.delete(existing.id);
+      if (fold === "replace") {
+        latestByEntity.set(key, item);
+      } else {
+        removed.add(item.id);
+        latestByEntity.delete(key);
+      }
+    }
+
+    for (const [id, payload] of merged) {
+      await db.syncQueue.update(id, { payload });
+    }
+    if (removed.size > 0) {
+      await db.syncQueue.bulkDelete(Array.from(removed));
+      console.log(
+        `[Glotian Sync Queue] Compacted ${removed.size} redundant items`,
+      );
+    }
+
+    return removed.size;
+  });
+}
+
+/**
+ * Remove an item once it has been pushed (or resolved as a conflict)
+ *
+ * If a newer change was merged into the item while it was being pushed,
+ * the item is kept so the change goes out next run; a create that reached
+ * the server becomes an update.
+ */
+export async function completeSyncItem(item: SyncQueueItem): Promise<void> {
+  if (item.id === undefined) return;
+  const itemId = item.id;
+
+  await db.transaction("rw", db.syncQueue, async () => {
+    const current = await db.syncQueue.get(itemId);
+    if (!current) return;
+
+    if (JSON.stringify(current.payload) === JSON.stringify(item.payload)) {
+      await db.syncQueue.delete(itemId);
+    } else if (current.operation === "create") {
+      await db.syncQueue.update(itemId, { operation: "update" });
+    }
+  });
+}
+
+/**
+ * Query a user's sync items, oldest first
+ */
+export function whereUserSyncItems(userId: string) {
+  return db.syncQueue
+    .where("[userId+timestamp]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey]);
+}
+
+/**
+ * Get all pending sync items for a user
+ */
+export async function getAllSyncItems(
+  userId: string,
+): Promise<SyncQueueItem[]> {
+  return whereUserSyncItems(userId).toArray();
+}
+
+/**
+ * Whether an entity has local changes the server hasn't seen yet (queued or
+ * dead-lettered)
+ */
+export async function hasUnsyncedChanges(
+  userId: string,
+  table: SyncQueueItem["table"],
+  entityId: string,
+): Promise<boolean> {
+  if ((await whereEntitySyncItems(userId, table, entityId).count()) > 0) {
+    return true;
+  }
+
+  const deadLetters = await db.deadLetterQueue
+    .where("userId")
+    .equals(userId)
+    .toArray();
+  return deadLetters.some(
+    ({ item }) => item.table === table && item.entityId === entityId,
+  );
 }
 
 /**
@@ -48,31 +251,111 @@ export async function removeSyncItem(itemId: number): Promise<void> {
 }
 
 /**
- * Update sync item retry count
+ * Update sync item retry count and when it may be attempted again
  */
 export async function updateSyncItemRetry(
   itemId: number,
   retryCount: number,
   error: string,
+  nextAttemptAt: number | null = null,
 ): Promise<void> {
   await db.syncQueue.update(itemId, {
     retryCount,
     lastAttempt: Date.now(),
+    nextAttemptAt,
     error,
   });
 }
 
 /**
- * Get sync queue statistics
+ * Move an item out of the sync queue into the dead-letter queue
+ */
+export async function moveToDeadLetter(
+  item: SyncQueueItem,
+  errorKind: SyncErrorKind,
+  error: string,
+): Promise<void> {
+  await db.transaction("rw", db.syncQueue, db.deadLetterQueue, async () => {
+    if (item.id !== undefined) {
+      await db.syncQueue.delete(item.id);
+    }
+    await db.deadLetterQueue.add({
+      userId: item.userId,
+      item: { ...item, error },
+      errorKind,
+      error,
+      failedAt: Date.now(),
+    });
+  });
+  console.warn(
+    `[Glotian Sync Queue] Dead-lettered ${item.operation} for ${item.table}/${item.entityId} (${errorKind}): ${error}`,
+  );
+}
+
+/**
+ * Get a user's dead-lettered items, most recent first
+ */
+export async function getDeadLetterItems(
+  userId: string,
+): Promise<DeadLetterSyncItem[]> {
+  return db.deadLetterQueue
+    .where("[userId+failedAt]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+    .reverse()
+    .toArray();
+}
+
+/**
+ * Put a dead-lettered item back into the sync queue with a fresh retry budget
+ *
+ * It keeps its original queue id and timestamp, so it is pushed before any
+ * later changes to the same entity.
+ */
+export async function retryDeadLetterItem(deadLetterId: number): Promise<void> {
+  await db.transaction("rw", db.syncQueue, db.deadLetterQueue, async () => {
+    const deadLetter = await db.deadLetterQueue.get(deadLetterId);
+    if (!deadLetter) return;
+
+    await db.syncQueue.put({
+      ...deadLetter.item,
+      retryCount: 0,
+      nextAttemptAt: null,
+      error: null,
+    });
+    await db.deadLetterQueue.delete(deadLetterId);
+  });
+}
+
+/**
+ * Drop a dead-lettered item; the change is never pushed
+ */
+export async function discardDeadLetterItem(
+  deadLetterId: number,
+): Promise<void> {
+  await db.deadLetterQueue.delete(deadLetterId);
+}
+
+/**
+ * Get sync queue statistics for a user
+ *
+ * `failed` counts queued items waiting to be retried; `deadLettered` counts
+ * items that are no longer retried automatically.
  */
-export async function getSyncQueueStats(): Promise<{
+export async function getSyncQueueStats(userId: string): Promise<{
   pending: number;
   failed: number;
+  deadLettered: number;
   total: number;
 }> {
-  const total = await db.syncQueue.count();
-  const failed = await db.syncQueue.where("retryCount").above(0).count();
+  const total = await whereUserSyncItems(userId).count();
+  const failed = await whereUserSyncItems(userId)
+    .filter((item) => item.retryCount > 0)
+    .count();
   const pending = total - failed;
+  const deadLettered = await db.deadLetterQueue
+    .where("userId")
+    .equals(userId)
+    .count();
 
-  return { pending, failed, total };
+  return { pending, failed, deadLettered, total };
 }
@@ -0,0 +1,265 @@
+/**
+ * Trash bin
+ *
+ * Notes, decks and flashcards are deleted softly: `deleted_at` is set and
+ * synced like any other change, so they can be restored on any device.
+ * Deleting an item from the trash removes it for good, locally and (through
+ * a permanent delete in the sync queue) on the server. Items older than the
+ * retention setting are purged by the background (see `purgeExpiredTrash`).
+ */
+
+import { db } from "./schema";
+import { enqueueSyncItem } from "./sync-queue";
+import { deleteSyncBase } from "./sync-bases";
+import { deleteSyncConflictForEntity } from "./conflicts";
+import { restoreDeck, restoreFlashcard } from "./flashcards";
+import type { CachedNote, SyncQueueItem } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashTable = "learning_notes" | "flashcard_decks" | "flashcards";
+
+export interface TrashItem {
+  table: TrashTable;
+  id: string;
+  userId: string;
+  title: string;
+  detail: string | null;
+  deletedAt: string;
+}
+
+/**
+ * List a user's deleted notes, decks and cards, most recently deleted first
+ *
+ * Cards deleted together with their deck are listed as part of the deck.
+ */
+export async function listTrash(userId: string): Promise<TrashItem[]> {
+  const notes = await db.notes
+    .filter((note) => isOwnNote(note, userId) && !!note.deleted_at)
+    .toArray();
+  const decks = await db.decks
+    .where("user_id")
+    .equals(userId)
+    .filter((deck) => !!deck.deleted_at)
+    .toArray();
+  const flashcards = await db.flashcards
+    .where("user_id")
+    .equals(userId)
+    .filter((card) => !!card.deleted_at)
+    .toArray();
+
+  const deletedDecks = new Map(decks.map((deck) => [deck.id, deck]));
+  const items: TrashItem[] = [];
+
+  for (const note of notes) {
+    items.push({
+      table: "learning_notes",
+      id: note.id,
+      userId,
+      title: note.title || "Untitled note",
+      detail: "Note",
+      deletedAt: note.deleted_at!,
+    });
+  }
+
+  for (const deck of decks) {
+    const cardCount = flashcards.filter(
+      (card) => card.deck_id === deck.id && card.deleted_at === deck.deleted_at,
+    ).length;
+    items.push({
+      table: "flashcard_decks",
+      id: deck.id,
+      userId,
+      title: deck.name,
+      detail: `Deck · ${cardCount} card${cardCount === 1 ? "" : "s"}`,
+      deletedAt: deck.deleted_at!,
+    });
+  }
+
+  for (const card of flashcards) {
+    const deck = deletedDecks.get(card.deck_id);
+    if (deck && card.deleted_at === deck.deleted_at) continue;
+    items.push({
+      table: "flashcards",
+      id: card.id,
+      userId,
+      title: card.term,
+      detail: card.definition,
+      deletedAt: card.deleted_at!,
+    });
+  }
+
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Move a note to the trash
+ */
+export async function deleteNote(
+  userId: string,
+  noteId: string,
+): Promise<void> {
+  await setNoteDeletedAt(userId, noteId, new Date().toISOString());
+  console.log("[Glotian Cache] Note deleted:", noteId);
+}
+
+async function restoreNote(userId: string, noteId: string): Promise<void> {
+  await setNoteDeletedAt(userId, noteId, null);
+  console.log("[Glotian Cache] Note restored:", noteId);
+}
+
+/**
+ * Notes saved here carry `userId`, notes pulled from the server `user_id`
+ */
+function isOwnNote(note: CachedNote, userId: string): boolean {
+  return (
+    note.user_id === userId || (note as { userId?: string }).userId === userId
+  );
+}
+
+async function setNoteDeletedAt(
+  userId: string,
+  noteId: string,
+  deletedAt: string | null,
+): Promise<void> {
+  await db.transaction("rw", db.notes, db.syncQueue, async () => {
+    const note = await db.notes.get(noteId);
+    if (!note || !isOwnNote(note, userId)) {
+      throw new Error("Note not found.");
+    }
+    // Already where it should be (e.g. deleted twice from two views)
+    if (!!note.deleted_at === !!deletedAt) return;
+
+    const updatedAt = new Date().toISOString();
+    await db.notes.update(noteId, {
+      deleted_at: deletedAt,
+      updated_at: updatedAt,
+      syncStatus: "pending",
+    });
+    await enqueueSyncItem(userId, "update", "learning_notes", noteId, {
+      deleted_at: deletedAt,
+      updated_at: updatedAt,
+    });
+  });
+}
+
+/**
+ * Take an item out of the trash
+ *
+ * @throws Error if the item can't be restored (e.g. its deck is deleted)
+ */
+export async function restoreTrashItem(item: TrashItem): Promise<void> {
+  switch (item.table) {
+    case "learning_notes":
+      await restoreNote(item.userId, item.id);
+      break;
+    case "flashcard_decks":
+      await restoreDeck(item.id);
+      break;
+    case "flashcards":
+      await restoreFlashcard(item.id);
+      break;
+  }
+}
+
+/**
+ * Delete an item in the trash for good, here and on the server
+ *
+ * A deck goes with all its cards; a card goes with its review progress.
+ */
+export async function deleteTrashItemForever(item: TrashItem): Promise<void> {
+  await db.transaction(
+    "rw",
+    [
+      db.notes,
+      db.decks,
+      db.flashcards,
+      db.studyProgress,
+      db.syncQueue,
+      db.syncBases,
+      db.conflicts,
+    ],
+    async () => {
+      if (item.table === "learning_notes") {
+        const note = await db.notes.get(item.id);
+        if (!note?.deleted_at) throw new Error("Note not found.");
+        await db.notes.delete(item.id);
+        await queuePermanentDelete(item.userId, "learning_notes", item.id);
+      } else if (item.table === "flashcard_decks") {
+        const deck = await db.decks.get(item.id);
+        if (!deck?.deleted_at) throw new Error("Deck not found.");
+        const cardIds = await db.flashcards
+          .where("[user_id+deck_id]")
+          .equals([deck.user_id, deck.id])
+          .primaryKeys();
+        for (const cardId of cardIds) {
+          await deleteFlashcardForever(item.userId, cardId);
+        }
+        await db.decks.delete(item.id);
+        await queuePermanentDelete(item.userId, "flashcard_decks", item.id);
+      } else {
+        const card = await db.flashcards.get(item.id);
+        if (!card?.deleted_at) throw new Error("Flashcard not found.");
+        await deleteFlashcardForever(item.userId, item.id);
+      }
+    },
+  );
+
+  console.log("[Glotian Cache] Deleted forever:", item.table, item.id);
+}
+
+async function deleteFlashcardForever(
+  userId: string,
+  flashcardId: string,
+): Promise<void> {
+  const progressIds = await db.studyProgress
+    .where("[user_id+flashcard_id]")
+    .equals([userId, flashcardId])
+    .primaryKeys();
+  for (const progressId of progressIds) {
+    await db.studyProgress.delete(progressId);
+    await queuePermanentDelete(userId, "study_progress", progressId);
+  }
+
+  await db.flashcards.delete(flashcardId);
+  await queuePermanentDelete(userId, "flashcards", flashcardId);
+}
+
+/**
+ * Queue a hard delete (not a soft one) and drop local sync state
+ */
+async function queuePermanentDelete(
+  userId: string,
+  table: SyncQueueItem["table"],
+  entityId: string,
+): Promise<void> {
+  await enqueueSyncItem(userId, "delete", table, entityId, {
+    updated_at: new Date().toISOString(),
+    permanent: true,
+  });
+  await deleteSyncBase(table, entityId);
+  await deleteSyncConflictForEntity(table, entityId);
+}
+
+/**
+ * Delete items that have been in the trash longer than the retention period
+ *
+ * @returns Number of items purged
+ */
+export async function purgeExpiredTrash(
+  userId: string,
+  retentionDays: number,
+  now = Date.now(),
+): Promise<number> {
+  if (!(retentionDays > 0)) return 0;
+
+  const cutoff = now - retentionDays * DAY_MS;
+  const expired = (await listTrash(userId)).filter(
+    (item) => new Date(item.deletedAt).getTime() < cutoff,
+  );
+
+  for (const item of expired) {
+    await deleteTrashItemForever(item);
+  }
+  return expired.length;
+}
@@ -0,0 +1,588 @@
+/**
+ * Anki deck export
+ *
+ * Turns cached decks and flashcards into:
+ * - an Anki package (.apkg): a zip holding a schema-11 SQLite collection
+ *   (`collection.anki2`) and an empty media manifest (`media`)
+ * - a tab-separated text file with Anki's plain-text import headers
+ *
+ * Note fields: Term, Definition, Part of Speech, Examples. Tags (the source
+ * note's tags plus the card difficulty) become Anki note tags. When requested,
+ * cached study_progress is carried over as card scheduling.
+ */
+
+import { db } from "@/lib/db/schema";
+import { listDeckFlashcards, listDecks } from "@/lib/db/flashcards";
+import { buildSqliteDatabase, type SqliteTable } from "./sqlite";
+import { createZip } from "./zip";
+import type { CachedDeck, CachedFlashcard, CachedStudyProgress } from "@/types";
+
+export type DeckExportFormat = "apkg" | "tsv";
+
+export interface ExportCard {
+  flashcard: CachedFlashcard;
+  tags: string[];
+  progress?: CachedStudyProgress; // Only set when scheduling is exported
+}
+
+export interface ExportDeck {
+  deck: CachedDeck;
+  cards: ExportCard[];
+}
+
+export interface DeckExportResult {
+  filename: string;
+  blob: Blob;
+  cardCount: number;
+}
+
+const FIELD_NAMES = ["Term", "Definition", "Part of Speech", "Examples"];
+const FIELD_SEPARATOR = "\x1f";
+const TSV_EXAMPLE_SEPARATOR = " | ";
+const NOTE_TYPE_NAME = "Glotian Vocabulary";
+const DEFAULT_DECK_ID = 1;
+const DEFAULT_DECK_CONFIG_ID = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CARD_TEMPLATE = {
+  qfmt: "<div class=term>{{Term}}</div>",
+  afmt:
+    "{{FrontSide}}<hr id=answer>" +
+    "<div class=definition>{{Definition}}</div>" +
+    "{{#Part of Speech}}<div class=pos>{{Part of Speech}}</div>{{/Part of Speech}}" +
+    "{{#Examples}}<div class=examples>{{Examples}}</div>{{/Examples}}",
+};
+
+const CARD_CSS = `.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }
+.term { font-size: 28px; font-weight: bold; }
+.pos { margin-top: 8px; font-style: italic; color: #666; }
+.examples { margin-top: 12px; font-size: 16px; color: #444; }`;
+
+const COLLECTION_SCHEMA: Record<string, string> = {
+  col: "CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)",
+  notes:
+    "CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)",
+  cards:
+    "CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)",
+  revlog:
+    "CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)",
+  graves:
+    "CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)",
+};
+
+/**
+ * Load decks and their cards for export
+ *
+ * @param deckIds - Decks to export, or "all" for every non-deleted deck
+ */
+export async function loadExportDecks(
+  userId: string,
+  deckIds: string[] | "all",
+  options: { includeScheduling?: boolean } = {},
+): Promise<ExportDeck[]> {
+  const decks = (await listDecks(userId)).filter(
+    (deck) => deckIds === "all" || deckIds.includes(deck.id),
+  );
+
+  const progressByCard = new Map<string, CachedStudyProgress>();
+  if (options.includeScheduling) {
+    const progress = await db.studyProgress
+      .where("user_id")
+      .equals(userId)
+      .toArray();
+    for (const row of progress) {
+      progressByCard.set(row.flashcard_id, row);
+    }
+  }
+
+  const result: ExportDeck[] = [];
+  for (const deck of decks) {
+    // Oldest first, so new cards keep their creation order in Anki
+    const flashcards = (await listDeckFlashcards(userId, deck.id)).reverse();
+
+    const noteIds = Array.from(
+      new Set(
+        flashcards
+          .map((card) => card.source_note_id)
+          .filter((id): id is string => Boolean(id)),
+      ),
+    );
+    const notes = await db.notes.bulkGet(noteIds);
+    const noteTags = new Map(
+      notes
+        .filter((note) => note !== undefined)
+        .map((note) => [note.id, note.tags ?? []]),
+    );
+
+    result.push({
+      deck,
+      cards: flashcards.map((flashcard) => ({
+        flashcard,
+        tags: [
+          ...(flashcard.source_note_id
+            ? (noteTags.get(flashcard.source_note_id) ?? [])
+            : []),
+          flashcard.difficulty_level,
+        ],
+        progress: progressByCard.get(flashcard.id),
+      })),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Export decks as a downloadable file
+ */
+export async function exportDecks(
+  userId: string,
+  deckIds: string[] | "all",
+  format: DeckExportFormat,
+  options: { includeScheduling?: boolean } = {},
+): Promise<DeckExportResult> {
+  const decks = await loadExportDecks(userId, deckIds, options);
+  if (decks.length === 0) {
+    throw new Error("No decks to export.");
+  }
+
+  const cardCount = decks.reduce((sum, deck) => sum + deck.cards.length, 0);
+  const baseName =
+    decks.length === 1
+      ? slugify(decks[0].deck.name) || "deck"
+      : "glotian-flashcards";
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (format === "tsv") {
+    return {
+      filename: `${baseName}-${date}.txt`,
+      blob: new Blob([buildTsv(decks)], {
+        type: "text/tab-separated-values;charset=utf-8",
+      }),
+      cardCount,
+    };
+  }
+
+  const archive = await buildAnkiPackage(decks);
+  return {
+    filename: `${baseName}-${date}.apkg`,
+    blob: new Blob([archive], { type: "application/octet-stream" }),
+    cardCount,
+  };
+}
+
+/**
+ * Build an Anki package (.apkg) for the given decks
+ */
+export async function buildAnkiPackage(
+  decks: ExportDeck[],
+  now: Date = new Date(),
+): Promise<Uint8Array<ArrayBuffer>> {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+  const modelId = nowMs;
+
+  // Day numbers for review cards count from the collection creation day, so
+  // start it early enough that no due day is negative
+  const earliestDue = decks
+    .flatMap((deck) => deck.cards)
+    .reduce((earliest, card) => {
+      if (!card.progress || card.progress.status !== "review") return earliest;
+      return Math.min(
+        earliest,
+        new Date(card.progress.next_review_at).getTime(),
+      );
+    }, nowMs);
+  const crtDate = new Date(earliestDue);
+  crtDate.setHours(0, 0, 0, 0);
+  const crt = Math.floor(crtDate.getTime() / 1000);
+
+  const ankiDecks: Record<string, unknown> = {
+    [DEFAULT_DECK_ID]: buildAnkiDeck(
+      DEFAULT_DECK_ID,
+      "Default",
+      "",
+      nowSeconds,
+    ),
+  };
+  const noteRows: SqliteTable["rows"] = [];
+  const cardRows: SqliteTable["rows"] = [];
+  let nextId = nowMs;
+  let position = 0;
+
+  for (const [index, { deck, cards }] of decks.entries()) {
+    const deckId = nowMs + index + 1;
+    ankiDecks[deckId] = buildAnkiDeck(
+      deckId,
+      deck.name,
+      deck.description ?? "",
+      nowSeconds,
+    );
+
+    for (const { flashcard, tags, progress } of cards) {
+      const id = nextId++;
+      position++;
+
+      const fields = [
+        escapeField(flashcard.term),
+        escapeField(flashcard.definition),
+        escapeField(flashcard.part_of_speech ?? ""),
+        (flashcard.example_sentences ?? []).map(escapeField).join("<br>"),
+      ];
+
+      noteRows.push([
+        id,
+        flashcard.id, // guid: re-importing updates the same notes
+        modelId,
+        nowSeconds,
+        -1,
+        formatAnkiTags(tags),
+        fields.join(FIELD_SEPARATOR),
+        flashcard.term,
+        await fieldChecksum(flashcard.term),
+        0,
+        "",
+      ]);
+
+      const scheduling = toAnkiScheduling(progress, position, crt);
+      cardRows.push([
+        id,
+        id,
+        deckId,
+        0,
+        nowSeconds,
+        -1,
+        scheduling.type,
+        scheduling.queue,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+        scheduling.lapses,
+        scheduling.left,
+        0,
+        0,
+        0,
+        "",
+      ]);
+    }
+  }
+
+  const firstDeckId = decks.length > 0 ? nowMs + 1 : DEFAULT_DECK_ID;
+  const conf = {
+    activeDecks: [firstDeckId],
+    curDeck: firstDeckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: modelId,
+    nextPos: position + 1,
+    sortType: "noteFld",
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  const collection = buildSqliteDatabase([
+    {
+      name: "col",
+      sql: COLLECTION_SCHEMA.col,
+      rowidColumn: 0,
+      rows: [
+        [
+          1,
+          crt,
+          nowMs,
+          nowMs,
+          11,
+          0,
+          0,
+          0,
+          JSON.stringify(conf),
+          JSON.stringify({
+            [modelId]: buildNoteType(modelId, firstDeckId, nowSeconds),
+          }),
+          JSON.stringify(ankiDecks),
+          JSON.stringify({ [DEFAULT_DECK_CONFIG_ID]: buildDeckConfig() }),
+          "{}",
+        ],
+      ],
+    },
+    {
+      name: "notes",
+      sql: COLLECTION_SCHEMA.notes,
+      rowidColumn: 0,
+      rows: noteRows,
+    },
+    {
+      name: "cards",
+      sql: COLLECTION_SCHEMA.cards,
+      rowidColumn: 0,
+      rows: cardRows,
+    },
+    { name: "revlog", sql: COLLECTION_SCHEMA.revlog, rowidColumn: 0, rows: [] },
+    { name: "graves", sql: COLLECTION_SCHEMA.graves, rows: [] },
+  ]);
+
+  const encoder = new TextEncoder();
+  return createZip(
+    [
+      { name: "collection.anki2", data: collection },
+      { name: "media", data: encoder.encode("{}") },
+    ],
+    now,
+  );
+}
+
+/**
+ * Build a tab-separated export with Anki's plain-text import headers
+ *
+ * Columns: term, definition, part of speech, examples (joined with " | "),
+ * tags (space-separated) and deck name.
+ */
+export function buildTsv(decks: ExportDeck[]): string {
+  const lines = [
+    "#separator:tab",
+    "#html:false",
+    `#columns:${[...FIELD_NAMES, "Tags", "Deck"].join("\t")}`,
+    "#tags column:5",
+    "#deck column:6",
+  ];
+
+  for (const { deck, cards } of decks) {
+    for (const { flashcard, tags } of cards) {
+      lines.push(
+        [
+          flashcard.term,
+          flashcard.definition,
+          flashcard.part_of_speech ?? "",
+          (flashcard.example_sentences ?? []).join(TSV_EXAMPLE_SEPARATOR),
+          formatAnkiTags(tags).trim(),
+          deck.name,
+        ]
+          .map(toTsvCell)
+          .join("\t"),
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Map cached study progress onto Anki card scheduling
+ *
+ * Review cards are due on a day number relative to the collection creation
+ * day; learning cards are due at a Unix timestamp.
+ */
+function toAnkiScheduling(
+  progress: CachedStudyProgress | undefined,
+  position: number,
+  crt: number,
+): {
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+} {
+  if (!progress || progress.status === "new") {
+    return {
+      type: 0,
+      queue: 0,
+      due: position,
+      ivl: 0,
+      factor: 0,
+      reps: 0,
+      lapses: 0,
+      left: 0,
+    };
+  }
+
+  const dueMs = new Date(progress.next_review_at).getTime();
+  const shared = {
+    ivl: Math.max(1, Math.round(progress.interval_days)),
+    factor: Math.round(progress.ease_factor * 1000),
+    reps: progress.total_reviews,
+    lapses: Math.max(0, progress.total_reviews - progress.correct_reviews),
+  };
+
+  if (progress.status === "review") {
+    return {
+      type: 2,
+      queue: 2,
+      due: Math.floor((dueMs - crt * 1000) / DAY_MS),
+      left: 0,
+      ...shared,
+    };
+  }
+
+  // Learning / relearning: one step left
+  return {
+    type: progress.status === "relearning" ? 3 : 1,
+    queue: 1,
+    due: Math.floor(dueMs / 1000),
+    left: 1001,
+    ...shared,
+    ivl: progress.status === "relearning" ? shared.ivl : 0,
+  };
+}
+
+function buildNoteType(
+  modelId: number,
+  deckId: number,
+  modified: number,
+): Record<string, unknown> {
+  return {
+    id: modelId,
+    name: NOTE_TYPE_NAME,
+    type: 0,
+    mod: modified,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: CARD_TEMPLATE.qfmt,
+        afmt: CARD_TEMPLATE.afmt,
+        bqfmt: "",
+        bafmt: "",
+        did: null,
+        bfont: "",
+        bsize: 0,
+      },
+    ],
+    flds: FIELD_NAMES.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: CARD_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    tags: [],
+    vers: [],
+    req: [[0, "any", [0]]],
+  };
+}
+
+function buildAnkiDeck(
+  id: number,
+  name: string,
+  description: string,
+  modified: number,
+): Record<string, unknown> {
+  return {
+    id,
+    name,
+    desc: description,
+    mod: modified,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: DEFAULT_DECK_CONFIG_ID,
+    extendNew: 10,
+    extendRev: 50,
+  };
+}
+
+function buildDeckConfig(): Record<string, unknown> {
+  return {
+    id: DEFAULT_DECK_CONFIG_ID,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      delays: [1, 10],
+      ints: [1, 4, 0],
+      initialFactor: 2500,
+      order: 1,
+      perDay: 20,
+      bury: false,
+    },
+    rev: {
+      perDay: 200,
+      ease4: 1.3,
+      ivlFct: 1,
+      maxIvl: 36500,
+      fuzz: 0.05,
+      bury: false,
+      hardFactor: 1.2,
+    },
+    lapse: {
+      delays: [10],
+      mult: 0,
+      minInt: 1,
+      leechFails: 8,
+      leechAction: 1,
+    },
+  };
+}
+
+/**
+ * Anki's note checksum: first 8 hex digits of the SHA-1 of the sort field
+ */
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(text),
+  );
+  return new DataView(digest).getUint32(0);
+}
+
+/**
+ * Anki stores tags space-separated with surrounding spaces; tags can't
+ * contain spaces themselves
+ */
+function formatAnkiTags(tags: string[]): string {
+  const unique = Array.from(
+    new Set(
+      tags
+        .map((tag) => tag.trim().replace(/\s+/g, "_"))
+        .filter((tag) => tag.length > 0),
+    ),
+  );
+  return unique.length > 0 ? ` ${unique.join(" ")} ` : "";
+}
+
+function escapeField(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function toTsvCell(text: string): string {
+  return text.replace(/[\t\r\n]+/g, " ").trim();
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
@@ -0,0 +1,408 @@
+/**
+ * Minimal SQLite database writer
+ *
+ * Builds a complete SQLite 3 database file in memory from table definitions
+ * and rows, following the on-disk format (https://www.sqlite.org/fileformat.html):
+ * - Table b-trees only (no indexes, no freelist)
+ * - UTF-8 text encoding, 4096-byte pages, overflow pages for large rows
+ *
+ * Used for export packages (e.g. Anki's collection file) where shipping a
+ * full SQLite engine would be overkill.
+ */
+
+export type SqliteValue = number | string | Uint8Array | null;
+
+export interface SqliteTable {
+  name: string;
+  sql: string; // CREATE TABLE statement stored in sqlite_schema
+  rows: SqliteValue[][];
+  // Index of an INTEGER PRIMARY KEY column: its value becomes the rowid and
+  // is stored as NULL in the record, as SQLite does. Otherwise rowids are 1..n.
+  rowidColumn?: number;
+}
+
+interface TableRow {
+  rowid: number;
+  record: Uint8Array;
+}
+
+interface ChildPage {
+  page: number;
+  maxRowid: number;
+}
+
+const PAGE_SIZE = 4096;
+const DB_HEADER_SIZE = 100;
+const LEAF_HEADER_SIZE = 8;
+const INTERIOR_HEADER_SIZE = 12;
+const TABLE_LEAF = 0x0d;
+const TABLE_INTERIOR = 0x05;
+const SQLITE_VERSION_NUMBER = 3045000;
+
+// Payload thresholds for table leaf cells (usable size = page size, no reserved bytes)
+const MAX_LOCAL = PAGE_SIZE - 35;
+const MIN_LOCAL = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Encode an SQLite varint (big-endian, 7 bits per byte)
+ */
+function encodeVarint(value: number): Uint8Array {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`Unsupported varint value: ${value}`);
+  }
+
+  // Safe integers stay below 2^56, so the 9-byte form is never needed
+  const groups: number[] = [];
+  let remaining = value;
+  do {
+    groups.unshift(remaining % 128);
+    remaining = Math.floor(remaining / 128);
+  } while (remaining > 0);
+
+  return Uint8Array.from(groups, (group, index) =>
+    index < groups.length - 1 ? group | 0x80 : group,
+  );
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function encodeInteger(value: number, byteLength: number): Uint8Array {
+  const bytes = new Uint8Array(byteLength);
+  let unsigned = BigInt.asUintN(byteLength * 8, BigInt(value));
+  for (let i = byteLength - 1; i >= 0; i--) {
+    bytes[i] = Number(unsigned & 0xffn);
+    unsigned >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Serial type and body for a single record value
+ */
+function encodeValue(value: SqliteValue): {
+  serialType: number;
+  body: Uint8Array;
+} {
+  if (value === null) {
+    return { serialType: 0, body: new Uint8Array(0) };
+  }
+
+  if (typeof value === "string") {
+    const body = textEncoder.encode(value);
+    return { serialType: body.length * 2 + 13, body };
+  }
+
+  if (value instanceof Uint8Array) {
+    return { serialType: value.length * 2 + 12, body: value };
+  }
+
+  if (Number.isSafeInteger(value)) {
+    if (value === 0) return { serialType: 8, body: new Uint8Array(0) };
+    if (value === 1) return { serialType: 9, body: new Uint8Array(0) };
+
+    const sizes: Array<[serialType: number, bytes: number]> = [
+      [1, 1],
+      [2, 2],
+      [3, 3],
+      [4, 4],
+      [5, 6],
+    ];
+    for (const [serialType, bytes] of sizes) {
+      const limit = 2 ** (bytes * 8 - 1);
+      if (value >= -limit && value < limit) {
+        return { serialType, body: encodeInteger(value, bytes) };
+      }
+    }
+    return { serialType: 6, body: encodeInteger(value, 8) };
+  }
+
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, value);
+  return { serialType: 7, body };
+}
+
+/**
+ * Encode a row as an SQLite record (header of serial types, then bodies)
+ */
+function encodeRecord(values: SqliteValue[]): Uint8Array {
+  const encoded = values.map(encodeValue);
+  const typeBytes = concatBytes(
+    encoded.map(({ serialType }) => encodeVarint(serialType)),
+  );
+
+  // The header size varint counts itself
+  let headerSize = typeBytes.length + 1;
+  while (encodeVarint(headerSize).length + typeBytes.length > headerSize) {
+    headerSize++;
+  }
+
+  return concatBytes([
+    encodeVarint(headerSize),
+    typeBytes,
+    ...encoded.map(({ body }) => body),
+  ]);
+}
+
+/**
+ * Page allocator for the database being built (page numbers start at 1)
+ */
+class PageWriter {
+  readonly pages: Uint8Array[] = [];
+
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  get(pageNumber: number): Uint8Array {
+    return this.pages[pageNumber - 1];
+  }
+}
+
+/**
+ * Build a table leaf cell, spilling the payload to overflow pages if needed
+ */
+function buildLeafCell(
+  writer: PageWriter,
+  rowid: number,
+  record: Uint8Array,
+): Uint8Array {
+  const header = concatBytes([
+    encodeVarint(record.length),
+    encodeVarint(rowid),
+  ]);
+
+  if (record.length <= MAX_LOCAL) {
+    return concatBytes([header, record]);
+  }
+
+  const spill = MIN_LOCAL + ((record.length - MIN_LOCAL) % (PAGE_SIZE - 4));
+  const localSize = spill <= MAX_LOCAL ? spill : MIN_LOCAL;
+
+  // Overflow chain: 4-byte next page number, then content
+  const overflowPages: number[] = [];
+  for (
+    let offset = localSize;
+    offset < record.length;
+    offset += PAGE_SIZE - 4
+  ) {
+    overflowPages.push(writer.allocate());
+  }
+  overflowPages.forEach((pageNumber, index) => {
+    const page = writer.get(pageNumber);
+    const view = new DataView(page.buffer);
+    view.setUint32(0, overflowPages[index + 1] ?? 0);
+    const start = localSize + index * (PAGE_SIZE - 4);
+    page.set(record.subarray(start, start + PAGE_SIZE - 4), 4);
+  });
+
+  const firstOverflow = new Uint8Array(4);
+  new DataView(firstOverflow.buffer).setUint32(0, overflowPages[0]);
+
+  return concatBytes([header, record.subarray(0, localSize), firstOverflow]);
+}
+
+/**
+ * Write a b-tree page: header at `headerOffset`, cell pointers after it and
+ * cell contents packed at the end of the page
+ */
+function writeBtreePage(
+  page: Uint8Array,
+  headerOffset: number,
+  pageType: number,
+  cells: Uint8Array[],
+  rightMostPage?: number,
+): void {
+  const view = new DataView(page.buffer);
+  const headerSize =
+    pageType === TABLE_INTERIOR ? INTERIOR_HEADER_SIZE : LEAF_HEADER_SIZE;
+
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, index) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(headerOffset + headerSize + index * 2, contentStart);
+  });
+
+  view.setUint8(headerOffset, pageType);
+  view.setUint16(headerOffset + 1, 0); // No freeblocks
+  view.setUint16(headerOffset + 3, cells.length);
+  view.setUint16(headerOffset + 5, contentStart);
+  view.setUint8(headerOffset + 7, 0); // No fragmented bytes
+  if (pageType === TABLE_INTERIOR) {
+    view.setUint32(headerOffset + 8, rightMostPage ?? 0);
+  }
+}
+
+function fitsOnPage(
+  headerOffset: number,
+  headerSize: number,
+  cells: Uint8Array[],
+): boolean {
+  const used = cells.reduce((sum, cell) => sum + cell.length + 2, 0);
+  return headerOffset + headerSize + used <= PAGE_SIZE;
+}
+
+/**
+ * Write a table b-tree and return its root page number
+ */
+function writeTableTree(writer: PageWriter, rows: TableRow[]): number {
+  let level: ChildPage[] = [];
+  let cells: Uint8Array[] = [];
+  let maxRowid = 0;
+
+  const flushLeaf = () => {
+    const pageNumber = writer.allocate();
+    writeBtreePage(writer.get(pageNumber), 0, TABLE_LEAF, cells);
+    level.push({ page: pageNumber, maxRowid });
+    cells = [];
+  };
+
+  for (const row of rows) {
+    const cell = buildLeafCell(writer, row.rowid, row.record);
+    if (
+      cells.length > 0 &&
+      !fitsOnPage(0, LEAF_HEADER_SIZE, [...cells, cell])
+    ) {
+      flushLeaf();
+    }
+    cells.push(cell);
+    maxRowid = row.rowid;
+  }
+  flushLeaf();
+
+  // Interior levels: each cell points at a child and holds its largest rowid;
+  // the last child of each page goes in the right-most pointer
+  while (level.length > 1) {
+    const nextLevel: ChildPage[] = [];
+    let children: ChildPage[] = [];
+
+    const flushInterior = () => {
+      const last = children[children.length - 1];
+      const pageNumber = writer.allocate();
+      writeBtreePage(
+        writer.get(pageNumber),
+        0,
+        TABLE_INTERIOR,
+        children.slice(0, -1).map(buildInteriorCell),
+        last.page,
+      );
+      nextLevel.push({ page: pageNumber, maxRowid: last.maxRowid });
+      children = [];
+    };
+
+    for (const child of level) {
+      if (
+        children.length > 0 &&
+        !fitsOnPage(0, INTERIOR_HEADER_SIZE, children.map(buildInteriorCell))
+      ) {
+        flushInterior();
+      }
+      children.push(child);
+    }
+    flushInterior();
+
+    level = nextLevel;
+  }
+
+  return level[0].page;
+}
+
+function buildInteriorCell(child: ChildPage): Uint8Array {
+  const pointer = new Uint8Array(4);
+  new DataView(pointer.buffer).setUint32(0, child.page);
+  return concatBytes([pointer, encodeVarint(child.maxRowid)]);
+}
+
+function toTableRows(table: SqliteTable): TableRow[] {
+  const rows = table.rows.map((values, index) => {
+    if (table.rowidColumn === undefined) {
+      return { rowid: index + 1, record: encodeRecord(values) };
+    }
+
+    const rowid = values[table.rowidColumn];
+    if (typeof rowid !== "number" || !Number.isSafeInteger(rowid)) {
+      throw new Error(`Invalid rowid in table ${table.name}: ${rowid}`);
+    }
+    const stored = [...values];
+    stored[table.rowidColumn] = null;
+    return { rowid, record: encodeRecord(stored) };
+  });
+
+  rows.sort((a, b) => a.rowid - b.rowid);
+  rows.forEach((row, index) => {
+    if (row.rowid < 1) {
+      throw new Error(`Rowids must be positive in table ${table.name}`);
+    }
+    if (index > 0 && rows[index - 1].rowid === row.rowid) {
+      throw new Error(`Duplicate rowid ${row.rowid} in table ${table.name}`);
+    }
+  });
+
+  return rows;
+}
+
+function writeDatabaseHeader(page: Uint8Array, pageCount: number): void {
+  const view = new DataView(page.buffer);
+
+  page.set(textEncoder.encode("SQLite format 3\0"), 0);
+  view.setUint16(16, PAGE_SIZE);
+  view.setUint8(18, 1); // File format write version (legacy)
+  view.setUint8(19, 1); // File format read version (legacy)
+  view.setUint8(20, 0); // Reserved bytes per page
+  view.setUint8(21, 64); // Max embedded payload fraction
+  view.setUint8(22, 32); // Min embedded payload fraction
+  view.setUint8(23, 32); // Leaf payload fraction
+  view.setUint32(24, 1); // File change counter
+  view.setUint32(28, pageCount);
+  view.setUint32(32, 0); // First freelist trunk page
+  view.setUint32(36, 0); // Freelist page count
+  view.setUint32(40, 1); // Schema cookie
+  view.setUint32(44, 4); // Schema format number
+  view.setUint32(56, 1); // Text encoding: UTF-8
+  view.setUint32(92, 1); // Version-valid-for (matches change counter)
+  view.setUint32(96, SQLITE_VERSION_NUMBER);
+}
+
+/**
+ * Build an SQLite database file containing the given tables
+ */
+export function buildSqliteDatabase(tables: SqliteTable[]): Uint8Array {
+  const writer = new PageWriter();
+  const schemaPage = writer.allocate(); // Page 1 holds the schema table
+
+  const schemaRows: TableRow[] = tables.map((table, index) => ({
+    rowid: index + 1,
+    record: encodeRecord([
+      "table",
+      table.name,
+      table.name,
+      writeTableTree(writer, toTableRows(table)),
+      table.sql,
+    ]),
+  }));
+
+  const schemaCells = schemaRows.map((row) =>
+    buildLeafCell(writer, row.rowid, row.record),
+  );
+  if (!fitsOnPage(DB_HEADER_SIZE, LEAF_HEADER_SIZE, schemaCells)) {
+    throw new Error("Database schema does not fit on the first page");
+  }
+
+  const firstPage = writer.get(schemaPage);
+  writeBtreePage(firstPage, DB_HEADER_SIZE, TABLE_LEAF, schemaCells);
+  writeDatabaseHeader(firstPage, writer.pages.length);
+
+  return concatBytes(writer.pages);
+}
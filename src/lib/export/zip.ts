@@ -0,0 +1,134 @@
+/**
+ * Minimal ZIP archive writer
+ *
+ * Stores files uncompressed ("stored" method), which every unzip
+ * implementation supports. File names are written as UTF-8.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_NAME_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields used by ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date(),
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modifiedAt);
+
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = files.reduce(
+    (sum, file) => sum + 30 + file.name.length + file.data.length,
+    0,
+  );
+  const centralSize = files.reduce(
+    (sum, file) => sum + 46 + file.name.length,
+    0,
+  );
+
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_NAME_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, dos.time, true);
+    view.setUint16(offset + 12, dos.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.name, offset + 30);
+    output.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  const centralOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_NAME_FLAG, true);
+    view.setUint16(offset + 10, 0, true); // Stored
+    view.setUint16(offset + 12, dos.time, true);
+    view.setUint16(offset + 14, dos.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, file.offset, true);
+    output.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}
@@ -0,0 +1,229 @@
+/**
+ * Delimited text parsing for flashcard imports
+ *
+ * Handles CSV/TSV files, including:
+ * - Anki "Notes in Plain Text" exports, whose `#key:value` header lines set
+ *   the separator, HTML mode and column names
+ * - Quizlet exports (term and definition separated by a tab or comma)
+ *
+ * Quoted fields follow RFC 4180: a quoted field may contain the delimiter,
+ * line breaks and doubled quotes.
+ */
+
+export type ImportDelimiter = "\t" | "," | ";" | "|";
+
+export interface DelimitedTable {
+  delimiter: ImportDelimiter;
+  html: boolean; // Fields contain HTML (Anki "#html:true")
+  columnNames: string[] | null; // From "#columns:" or a detected header row
+  rows: string[][];
+}
+
+const DELIMITERS: ImportDelimiter[] = ["\t", ",", ";", "|"];
+
+const ANKI_SEPARATORS: Record<string, ImportDelimiter> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+};
+
+// Anki "#<name> column:N" directives name special columns
+const ANKI_COLUMN_DIRECTIVES: Record<string, string> = {
+  "guid column": "GUID",
+  "notetype column": "Note Type",
+  "deck column": "Deck",
+  "tags column": "Tags",
+};
+
+// First-row cells that mark a header rather than a card
+const HEADER_WORDS = new Set([
+  "term",
+  "word",
+  "front",
+  "question",
+  "definition",
+  "meaning",
+  "back",
+  "answer",
+  "part of speech",
+  "part_of_speech",
+  "examples",
+  "example_sentences",
+  "example sentences",
+  "tags",
+]);
+
+/**
+ * Parse delimited text into rows
+ *
+ * @param delimiter - Force a delimiter; otherwise it comes from an Anki
+ *   `#separator:` header or is detected from the first lines
+ */
+export function parseDelimitedText(
+  text: string,
+  delimiter?: ImportDelimiter,
+): DelimitedTable {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  // Anki header lines come first and start with "#"
+  let headerLineCount = 0;
+  let headerDelimiter: ImportDelimiter | undefined;
+  let html = false;
+  let columnNames: string[] | null = null;
+  const namedColumns = new Map<number, string>();
+
+  for (const line of lines) {
+    const match = line.match(/^#([a-z ]+):(.*)$/i);
+    if (!match) break;
+    headerLineCount++;
+
+    const key = match[1].trim().toLowerCase();
+    const value = match[2];
+    if (key === "separator") {
+      const separator = value.trim().toLowerCase();
+      headerDelimiter =
+        ANKI_SEPARATORS[separator] ??
+        DELIMITERS.find((candidate) => candidate === value);
+    } else if (key === "html") {
+      html = value.trim().toLowerCase() === "true";
+    } else if (key === "columns") {
+      columnNames = value.split(headerDelimiter ?? "\t");
+    } else if (key in ANKI_COLUMN_DIRECTIVES) {
+      const column = Number.parseInt(value, 10);
+      if (column > 0) {
+        namedColumns.set(column - 1, ANKI_COLUMN_DIRECTIVES[key]);
+      }
+    }
+  }
+
+  const body = lines.slice(headerLineCount).join("\n");
+  const resolvedDelimiter =
+    delimiter ?? headerDelimiter ?? detectDelimiter(body);
+  const rows = splitRows(body, resolvedDelimiter).filter((row) =>
+    row.some((cell) => cell.trim().length > 0),
+  );
+
+  if (!columnNames && rows.length > 1 && looksLikeHeader(rows[0])) {
+    columnNames = rows.shift()!.map((cell) => cell.trim());
+  }
+
+  if (namedColumns.size > 0) {
+    const width = Math.max(
+      columnNames?.length ?? 0,
+      ...rows.map((row) => row.length),
+    );
+    columnNames = Array.from(
+      { length: width },
+      (_, index) => namedColumns.get(index) ?? columnNames?.[index] ?? "",
+    );
+  }
+
+  return { delimiter: resolvedDelimiter, html, columnNames, rows };
+}
+
+/**
+ * Pick the delimiter that splits the first lines most consistently
+ */
+function detectDelimiter(text: string): ImportDelimiter {
+  const sample = text.split("\n").slice(0, 20).filter(Boolean);
+  if (sample.length === 0) return "\t";
+
+  let best: ImportDelimiter = "\t";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = sample.map((line) => line.split(delimiter).length - 1);
+    const linesWithDelimiter = counts.filter((count) => count > 0).length;
+    // Prefer delimiters present on every line; tabs win ties
+    const score = linesWithDelimiter * 1000 + Math.min(...counts);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split text into rows of fields, honouring quoted fields
+ */
+function splitRows(text: string, delimiter: ImportDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let fieldStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && fieldStart) {
+      inQuotes = true;
+      fieldStart = false;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+      fieldStart = true;
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      fieldStart = true;
+    } else {
+      field += char;
+      fieldStart = false;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function looksLikeHeader(row: string[]): boolean {
+  const known = row.filter((cell) =>
+    HEADER_WORDS.has(cell.trim().toLowerCase()),
+  ).length;
+  return known >= Math.min(2, row.length);
+}
+
+/**
+ * Convert an HTML field (as exported by Anki) to plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) =>
+      String.fromCodePoint(Number.parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+}
@@ -0,0 +1,182 @@
+/**
+ * Flashcard import: column mapping and preview
+ *
+ * Turns a parsed delimited table into flashcard drafts for a target deck,
+ * flagging rows that are invalid or duplicate an existing card before
+ * anything is written.
+ */
+
+import { db } from "@/lib/db/schema";
+import type { FlashcardDraft } from "@/lib/db/flashcards";
+import { htmlToText, type DelimitedTable } from "./delimited";
+import type { CachedDeck } from "@/types";
+
+export type ImportField =
+  | "term"
+  | "definition"
+  | "part_of_speech"
+  | "example_sentences"
+  | "ignore";
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  term: "Term",
+  definition: "Definition",
+  part_of_speech: "Part of speech",
+  example_sentences: "Example sentences",
+  ignore: "Ignore",
+};
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based, counting data rows only
+  draft: FlashcardDraft | null; // null when the row is invalid
+  status: "new" | "duplicate" | "invalid";
+  message?: string;
+}
+
+const COLUMN_ALIASES: Record<Exclude<ImportField, "ignore">, string[]> = {
+  term: ["term", "word", "front", "question", "expression", "vocabulary"],
+  definition: ["definition", "meaning", "back", "answer", "translation"],
+  part_of_speech: ["part of speech", "part_of_speech", "pos"],
+  example_sentences: [
+    "examples",
+    "example",
+    "example sentences",
+    "example_sentences",
+    "sentence",
+    "sentences",
+  ],
+};
+
+// Columns named by Anki export directives are never card content
+const IGNORED_COLUMNS = new Set(["guid", "note type", "deck", "tags"]);
+
+// Our TSV export joins examples with " | "; Anki HTML fields use line breaks
+const EXAMPLE_SEPARATOR = /\s*\|\s*|\n+/;
+
+/**
+ * Guess which flashcard field each column holds
+ *
+ * Named columns are matched by alias; remaining columns fill term, then
+ * definition, in order.
+ */
+export function guessColumnMapping(table: DelimitedTable): ImportField[] {
+  const width = Math.max(
+    table.columnNames?.length ?? 0,
+    ...table.rows.map((row) => row.length),
+    0,
+  );
+  const mapping: ImportField[] = Array(width).fill("ignore");
+  const assigned = new Set<ImportField>();
+
+  table.columnNames?.forEach((name, index) => {
+    const normalized = name.trim().toLowerCase();
+    if (IGNORED_COLUMNS.has(normalized)) return;
+
+    const field = (
+      Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>
+    ).find((key) => COLUMN_ALIASES[key].includes(normalized));
+    if (field && !assigned.has(field)) {
+      mapping[index] = field;
+      assigned.add(field);
+    }
+  });
+
+  for (const field of ["term", "definition"] as const) {
+    if (assigned.has(field)) continue;
+    const index = mapping.findIndex(
+      (current, column) =>
+        current === "ignore" &&
+        !IGNORED_COLUMNS.has(
+          table.columnNames?.[column]?.trim().toLowerCase() ?? "",
+        ),
+    );
+    if (index === -1) break;
+    mapping[index] = field;
+    assigned.add(field);
+  }
+
+  return mapping;
+}
+
+/**
+ * Map rows to drafts for the target deck and check them for duplicates
+ *
+ * A row is a duplicate when a non-deleted card with the same term
+ * (case-insensitive) already exists in the deck's language, or when an
+ * earlier row in the file has the same term.
+ */
+export async function buildImportPreview(
+  userId: string,
+  deck: CachedDeck,
+  table: DelimitedTable,
+  mapping: ImportField[],
+): Promise<ImportPreviewRow[]> {
+  if (!mapping.includes("term") || !mapping.includes("definition")) {
+    throw new Error("Map one column to Term and one to Definition.");
+  }
+
+  const existingTerms = new Set(
+    (await db.flashcards.where("user_id").equals(userId).toArray())
+      .filter((card) => !card.deleted_at && card.language === deck.language)
+      .map((card) => normalizeTerm(card.term)),
+  );
+  const fileTerms = new Set<string>();
+
+  return table.rows.map((row, index) => {
+    const rowNumber = index + 1;
+    const values: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field === "ignore") return;
+      const raw = row[column] ?? "";
+      values[field] = table.html ? htmlToText(raw) : raw.trim();
+    });
+
+    const term = values.term?.replace(/\s+/g, " ") ?? "";
+    const definition = values.definition ?? "";
+    if (!term || !definition) {
+      return {
+        rowNumber,
+        draft: null,
+        status: "invalid",
+        message: !term ? "Missing term" : "Missing definition",
+      };
+    }
+
+    const draft: FlashcardDraft = {
+      deck_id: deck.id,
+      term,
+      definition,
+      part_of_speech: values.part_of_speech?.trim() || null,
+      example_sentences: (values.example_sentences ?? "")
+        .split(EXAMPLE_SEPARATOR)
+        .map((sentence) => sentence.trim())
+        .filter(Boolean),
+      language: deck.language,
+    };
+
+    const key = normalizeTerm(term);
+    if (existingTerms.has(key)) {
+      return {
+        rowNumber,
+        draft,
+        status: "duplicate",
+        message: "Already in your flashcards",
+      };
+    }
+    if (fileTerms.has(key)) {
+      return {
+        rowNumber,
+        draft,
+        status: "duplicate",
+        message: "Repeated in this file",
+      };
+    }
+    fileTerms.add(key);
+
+    return { rowNumber, draft, status: "new" };
+  });
+}
+
+function normalizeTerm(term: string): string {
+  return term.trim().toLowerCase();
+}
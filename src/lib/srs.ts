@@ -0,0 +1,304 @@
+/**
+ * Spaced-repetition scheduling
+ *
+ * Implements the two algorithms a user can pick in `user_preferences.srs_algorithm`:
+ * - sm2: SuperMemo-2 with Anki-style 4-button ratings
+ * - fsrs-lite: FSRS-4.5 stability/difficulty model; difficulty is mapped onto
+ *   `ease_factor` and stability kept in the local-only `stability` field
+ *
+ * `interval_days` is always a whole number of days, as the server stores it.
+ *
+ * Ratings: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+ */
+
+import type { CachedStudyProgress, Review, UserPreferences } from "@/types";
+
+export type SrsAlgorithm = UserPreferences["srs_algorithm"];
+export type ReviewRating = Review["rating"];
+
+/**
+ * Scheduling fields of a cached study_progress row
+ */
+export type SchedulingState = Pick<
+  CachedStudyProgress,
+  | "interval_days"
+  | "ease_factor"
+  | "repetitions"
+  | "next_review_at"
+  | "total_reviews"
+  | "correct_reviews"
+  | "last_reviewed_at"
+  | "status"
+  | "stability"
+>;
+
+interface ScheduledInterval {
+  intervalDays: number;
+  ease: number;
+  repetitions: number;
+  stability: number | null;
+}
+
+export const DEFAULT_SRS_ALGORITHM: SrsAlgorithm = "sm2";
+
+export const RATING_LABELS: Record<ReviewRating, string> = {
+  1: "Again",
+  2: "Hard",
+  3: "Good",
+  4: "Easy",
+};
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 36500;
+const RELEARN_STEP_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FSRS-4.5 default weights
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_REQUEST_RETENTION = 0.9;
+
+/**
+ * Scheduling state for a card that has never been reviewed
+ */
+export function createInitialSchedulingState(
+  now: Date = new Date(),
+): SchedulingState {
+  return {
+    interval_days: 0,
+    ease_factor: DEFAULT_EASE,
+    repetitions: 0,
+    next_review_at: now.toISOString(),
+    total_reviews: 0,
+    correct_reviews: 0,
+    last_reviewed_at: null,
+    status: "new",
+    stability: null,
+  };
+}
+
+/**
+ * Narrow an unknown value to a supported algorithm
+ */
+export function isSrsAlgorithm(value: unknown): value is SrsAlgorithm {
+  return value === "sm2" || value === "fsrs-lite";
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function addDays(now: Date, days: number): Date {
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+function addMinutes(now: Date, minutes: number): Date {
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * SM-2 interval and ease update
+ *
+ * Clears the FSRS stability: it no longer matches the interval, so a switch
+ * back to FSRS starts again from the interval.
+ */
+function scheduleSm2(
+  state: SchedulingState,
+  rating: ReviewRating,
+): ScheduledInterval {
+  const easeDelta = { 1: -0.2, 2: -0.15, 3: 0, 4: 0.15 }[rating];
+  const ease = Math.max(MIN_EASE, state.ease_factor + easeDelta);
+
+  if (rating === 1) {
+    return { intervalDays: 0, ease, repetitions: 0, stability: null };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const previous = Math.max(state.interval_days, 1);
+  let intervalDays: number;
+
+  if (state.repetitions === 0) {
+    intervalDays = rating === 4 ? 4 : 1;
+  } else if (state.repetitions === 1 && rating === 3) {
+    intervalDays = 6;
+  } else if (rating === 2) {
+    intervalDays = Math.max(previous + 1, Math.round(previous * 1.2));
+  } else if (rating === 3) {
+    intervalDays = Math.max(previous + 1, Math.round(previous * ease));
+  } else {
+    intervalDays = Math.max(previous + 1, Math.round(previous * ease * 1.3));
+  }
+
+  return { intervalDays, ease, repetitions, stability: null };
+}
+
+// ease_factor <-> FSRS difficulty (1 = easiest, 10 = hardest), so switching
+// algorithms keeps a sensible scale: 2.5 <-> 4, 1.3 <-> 10
+function easeToDifficulty(ease: number): number {
+  return clamp(10 - (ease - MIN_EASE) * 5, 1, 10);
+}
+
+function difficultyToEase(difficulty: number): number {
+  return MIN_EASE + (10 - difficulty) / 5;
+}
+
+function fsrsInitialDifficulty(rating: ReviewRating): number {
+  return clamp(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5], 1, 10);
+}
+
+function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+}
+
+function fsrsInterval(stability: number): number {
+  return (
+    (stability / FSRS_FACTOR) *
+    (Math.pow(FSRS_REQUEST_RETENTION, 1 / FSRS_DECAY) - 1)
+  );
+}
+
+/**
+ * FSRS-lite stability and difficulty update
+ *
+ * Cards without a stored stability (scheduled by SM-2, or reviewed on another
+ * device) continue from their interval, which is the stability at 90%
+ * retention.
+ */
+function scheduleFsrsLite(
+  state: SchedulingState,
+  rating: ReviewRating,
+  now: Date,
+): ScheduledInterval {
+  const w = FSRS_WEIGHTS;
+  const stability =
+    state.status === "new" ? null : (state.stability ?? state.interval_days);
+
+  if (!stability || stability <= 0) {
+    const initialStability = w[rating - 1];
+    const difficulty = fsrsInitialDifficulty(rating);
+    return {
+      intervalDays:
+        rating === 1 ? 0 : Math.max(1, Math.round(initialStability)),
+      ease: difficultyToEase(difficulty),
+      repetitions: rating === 1 ? 0 : 1,
+      stability: initialStability,
+    };
+  }
+
+  const lastReviewed = state.last_reviewed_at
+    ? new Date(state.last_reviewed_at).getTime()
+    : now.getTime();
+  const elapsedDays = Math.max(0, (now.getTime() - lastReviewed) / DAY_MS);
+  const retrievability = fsrsRetrievability(elapsedDays, stability);
+
+  const previousDifficulty = easeToDifficulty(state.ease_factor);
+  const difficulty = clamp(
+    w[7] * fsrsInitialDifficulty(4) +
+      (1 - w[7]) * (previousDifficulty - w[6] * (rating - 3)),
+    1,
+    10,
+  );
+
+  if (rating === 1) {
+    const nextStability = Math.min(
+      stability,
+      w[11] *
+        Math.pow(difficulty, -w[12]) *
+        (Math.pow(stability + 1, w[13]) - 1) *
+        Math.exp(w[14] * (1 - retrievability)),
+    );
+    return {
+      intervalDays: 0,
+      ease: difficultyToEase(difficulty),
+      repetitions: 0,
+      stability: nextStability,
+    };
+  }
+
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  const nextStability =
+    stability *
+    (Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1);
+
+  return {
+    intervalDays: Math.max(1, Math.round(fsrsInterval(nextStability))),
+    ease: difficultyToEase(difficulty),
+    repetitions: state.repetitions + 1,
+    stability: nextStability,
+  };
+}
+
+/**
+ * Apply a rating to a card's scheduling state
+ *
+ * Failed cards (Again) come back after a short relearning step; everything
+ * else is scheduled in whole days.
+ */
+export function scheduleReview(
+  state: SchedulingState,
+  rating: ReviewRating,
+  algorithm: SrsAlgorithm,
+  now: Date = new Date(),
+): SchedulingState {
+  const { intervalDays, ease, repetitions, stability } =
+    algorithm === "fsrs-lite"
+      ? scheduleFsrsLite(state, rating, now)
+      : scheduleSm2(state, rating);
+
+  const failed = rating === 1;
+  const cappedInterval = Math.min(intervalDays, MAX_INTERVAL_DAYS);
+  const nextReviewAt = failed
+    ? addMinutes(now, RELEARN_STEP_MINUTES)
+    : addDays(now, cappedInterval);
+
+  let status: SchedulingState["status"];
+  if (failed) {
+    status =
+      state.status === "review" || state.status === "relearning"
+        ? "relearning"
+        : "learning";
+  } else {
+    status = "review";
+  }
+
+  return {
+    interval_days: cappedInterval,
+    ease_factor: Math.round(ease * 1000) / 1000,
+    repetitions,
+    next_review_at: nextReviewAt.toISOString(),
+    total_reviews: state.total_reviews + 1,
+    correct_reviews: state.correct_reviews + (failed ? 0 : 1),
+    last_reviewed_at: now.toISOString(),
+    status,
+    stability,
+  };
+}
+
+/**
+ * Short human-readable interval for a scheduled review (e.g. "10m", "3d", "2mo")
+ */
+export function formatInterval(from: Date, nextReviewAt: string): string {
+  const minutes = Math.max(
+    1,
+    Math.round((new Date(nextReviewAt).getTime() - from.getTime()) / 60000),
+  );
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.round(hours / 24);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
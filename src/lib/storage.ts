@@ -22,11 +22,20 @@ const DEFAULT_SETTINGS: Partial<ExtensionSettings> = {
   serverFallbackEnabled: true,
   uiLanguage: LANGUAGE_DEFAULTS.uiLanguage,
   sidePanelLastTab: "capture",
+  reviewReminderEnabled: false,
+  reviewReminderTime: "19:00",
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00",
+  dailyGoalNudgeEnabled: true,
+  dailyGoalNudgeTime: "20:00",
+  trashRetentionDays: 30,
   telemetryEnabled: false,
   errorLogs: [],
   lastSyncTime: null,
   supabaseSession: null,
   userId: null,
+  accounts: [],
   aiSupport: {
     translator: false,
     summarizer: false,
@@ -0,0 +1,142 @@
+/**
+ * Field-level three-way merge for sync conflicts
+ *
+ * Compares the local and server versions of a row against the base version
+ * the local edit started from (the last version both sides agreed on):
+ * - A field changed on one side only takes that side's value
+ * - Set-like arrays (`tags`) merge additions and removals from both sides
+ * - A field changed differently on both sides is a conflict; the server
+ *   value is kept until the user decides otherwise
+ *
+ * Without a base every differing field counts as a conflict.
+ */
+
+export type MergeResolution = "local" | "server" | "set_merge" | "conflict";
+
+export interface MergedField {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+  merged: unknown;
+  resolution: MergeResolution;
+}
+
+export interface ThreeWayMergeResult {
+  merged: Record<string, unknown>;
+  /** Fields where local and server differ, and how each was resolved */
+  fields: MergedField[];
+  /** Fields changed on both sides that couldn't be merged */
+  conflicts: MergedField[];
+  /** Whether the merged row contains local changes the server lacks */
+  hasLocalChanges: boolean;
+}
+
+// Bookkeeping columns that are never merged
+const IGNORED_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "user_id",
+  "created_at",
+  "updated_at",
+]);
+
+// Array columns whose order doesn't matter
+const SET_FIELDS: ReadonlySet<string> = new Set(["tags"]);
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == b;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Apply both sides' additions and removals to the base set
+ *
+ * Keeps the server order, then appends local additions.
+ */
+function mergeSets(base: string[], local: string[], server: string[]) {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const removedLocally = base.filter((item) => !localSet.has(item));
+  const addedLocally = local.filter((item) => !baseSet.has(item));
+
+  const merged = server.filter((item) => !removedLocally.includes(item));
+  for (const item of addedLocally) {
+    if (!merged.includes(item)) merged.push(item);
+  }
+  return merged;
+}
+
+/**
+ * Merge a local row and a server row against their common base
+ *
+ * @param base - Last version both sides agreed on, or null if unknown
+ * @param local - Local version (the queued payload)
+ * @param server - Current server version
+ */
+export function mergeThreeWay(
+  base: Record<string, unknown> | null,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+): ThreeWayMergeResult {
+  const merged: Record<string, unknown> = { ...server };
+  const fields: MergedField[] = [];
+
+  for (const field of Object.keys(local)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const localValue = local[field];
+    const serverValue = server[field];
+    if (valuesEqual(localValue, serverValue)) continue;
+
+    const baseValue = base ? base[field] : undefined;
+    const localChanged = !base || !valuesEqual(localValue, baseValue);
+    const serverChanged = !base || !valuesEqual(serverValue, baseValue);
+
+    let resolution: MergeResolution;
+    if (!localChanged) {
+      resolution = "server";
+    } else if (!serverChanged) {
+      resolution = "local";
+      merged[field] = localValue;
+    } else if (
+      base &&
+      SET_FIELDS.has(field) &&
+      isStringArray(localValue) &&
+      isStringArray(serverValue)
+    ) {
+      resolution = "set_merge";
+      merged[field] = mergeSets(
+        isStringArray(baseValue) ? baseValue : [],
+        localValue,
+        serverValue,
+      );
+    } else {
+      resolution = "conflict";
+    }
+
+    fields.push({
+      field,
+      base: baseValue,
+      local: localValue,
+      server: serverValue,
+      merged: merged[field],
+      resolution,
+    });
+  }
+
+  return {
+    merged,
+    fields,
+    conflicts: fields.filter((item) => item.resolution === "conflict"),
+    hasLocalChanges: fields.some(
+      (item) => !valuesEqual(item.merged, item.server),
+    ),
+  };
+}
@@ -4,10 +4,20 @@ import {
   type SummarizeResponse,
 } from "@/lib/ai/summarizer";
 import { summarizeWithTimeout } from "@/lib/ai/summarize";
-import type { QARequest, QAResponse } from "@/types";
+import type {
+  FlashcardExtractRequest,
+  FlashcardExtractResponse,
+  QARequest,
+  QAResponse,
+} from "@/types";
 import { answerQuestionWithPrompt } from "@/lib/ai/prompt";
+import { extractFlashcardsWithPrompt } from "@/lib/ai/flashcard-extract";
 
-type OffscreenAction = "summarize" | "qa" | "summarize-content";
+type OffscreenAction =
+  | "summarize"
+  | "qa"
+  | "summarize-content"
+  | "extract-flashcards";
 
 type SummarizePayload = {
   request: SummarizeRequest;
@@ -22,6 +32,10 @@ type SummarizeContentPayload = {
   content: string;
 };
 
+type ExtractFlashcardsPayload = {
+  request: FlashcardExtractRequest;
+};
+
 declare const chrome: typeof globalThis.chrome;
 
 function isSummarizePayload(payload: unknown): payload is SummarizePayload {
@@ -58,6 +72,22 @@ function isSummarizeContentPayload(
   return typeof candidate.content === "string" && candidate.content.length > 0;
 }
 
+function isExtractFlashcardsPayload(
+  payload: unknown,
+): payload is ExtractFlashcardsPayload {
+  if (!payload || typeof payload !== "object") {
+    return false;
+  }
+
+  const candidate = payload as ExtractFlashcardsPayload;
+  return (
+    typeof candidate.request === "object" &&
+    candidate.request !== null &&
+    typeof candidate.request.text === "string" &&
+    candidate.request.text.length > 0
+  );
+}
+
 async function handleSummarize(
   payload: SummarizePayload,
 ): Promise<SummarizeResponse> {
@@ -74,6 +104,12 @@ async function handleSummarizeContent(
   return summarizeLongContent(payload.content);
 }
 
+async function handleExtractFlashcards(
+  payload: ExtractFlashcardsPayload,
+): Promise<FlashcardExtractResponse> {
+  return extractFlashcardsWithPrompt(payload.request);
+}
+
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (!message || message.target !== "offscreen") {
     return undefined;
@@ -110,6 +146,14 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         sendResponse({ ok: true, result });
         return;
       }
+      case "extract-flashcards": {
+        if (!isExtractFlashcardsPayload(payload)) {
+          throw new Error("Invalid extract-flashcards payload");
+        }
+        const result = await handleExtractFlashcards(payload);
+        sendResponse({ ok: true, result });
+        return;
+      }
       default:
         throw new Error(`Unsupported offscreen action: ${String(action)}`);
     }
@@ -1,9 +1,12 @@
 /**
  * Action popup script
  *
- * Displays quick actions and keyboard shortcuts
+ * Displays quick actions, achievements, the daily goal and keyboard shortcuts
  */
 
+import { initAchievementsSummary } from "@/side-panel/components/achievements";
+import { initDailyGoalRing } from "@/side-panel/components/daily-goal";
+
 console.log("[Glotian Popup] Initializing...");
 
 // Open side panel button
@@ -73,4 +76,20 @@ if (settingsBtn) {
   });
 }
 
+// Streak, level and badges
+const achievementsSummary = document.getElementById("achievements-summary");
+if (achievementsSummary) {
+  initAchievementsSummary(achievementsSummary).catch((error) =>
+    console.error("[Glotian Popup] Error loading achievements:", error),
+  );
+}
+
+// Today's study time vs. daily goal
+const dailyGoal = document.getElementById("daily-goal");
+if (dailyGoal) {
+  initDailyGoalRing(dailyGoal).catch((error) =>
+    console.error("[Glotian Popup] Error loading daily goal:", error),
+  );
+}
+
 console.log("[Glotian Popup] Initialized");
@@ -0,0 +1,224 @@
+/**
+ * Account Switcher Component
+ *
+ * Header menu listing the accounts used on this browser. Picking one makes
+ * it the signed-in account and reloads the panel with its data; accounts
+ * that were signed out open the login form with their email filled in.
+ * Also asks, when signing out, whether to keep the account's local data.
+ */
+
+import { listAccounts } from "@/lib/accounts";
+import { getSetting } from "@/lib/storage";
+import { countAccountData } from "@/lib/db/account-data";
+import type { StoredAccount } from "@/types";
+
+export type SignOutChoice = "keep" | "wipe";
+
+// Component state
+let switcherContainer: HTMLElement | null = null;
+let onAddAccount: ((email: string | null) => void) | null = null;
+let isSwitching = false;
+
+/**
+ * Render the switcher into a container and keep it up to date
+ *
+ * @param options.onAddAccount - Show the login form, prefilled with the
+ * email of a signed-out account (null for a new account)
+ */
+export async function initAccountSwitcher(
+  container: HTMLElement,
+  options: { onAddAccount: (email: string | null) => void },
+): Promise<void> {
+  switcherContainer = container;
+  onAddAccount = options.onAddAccount;
+
+  // Actions are delegated so re-rendering the menu keeps them working
+  container.addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      "button[data-action]",
+    );
+    if (!button) return;
+
+    closeMenu();
+    if (button.dataset.action === "add") {
+      onAddAccount?.(null);
+    } else if (button.dataset.action === "switch" && button.dataset.userId) {
+      void switchAccount(button.dataset.userId);
+    }
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (
+      areaName === "local" &&
+      ("accounts" in changes || "userId" in changes)
+    ) {
+      void refreshAccountSwitcher();
+    }
+  });
+
+  await refreshAccountSwitcher();
+}
+
+async function refreshAccountSwitcher(): Promise<void> {
+  if (!switcherContainer) return;
+
+  const accounts = await listAccounts();
+  const userId = await getSetting("userId");
+
+  if (accounts.length === 0) {
+    switcherContainer.innerHTML = "";
+    switcherContainer.classList.add("hidden");
+    return;
+  }
+
+  const active = accounts.find((account) => account.userId === userId);
+
+  switcherContainer.classList.remove("hidden");
+  switcherContainer.innerHTML = `
+    <details class="account-switcher">
+      <summary class="account-switcher-current" title="Switch account">${escapeHtml(active ? getAccountLabel(active) : "Signed out")}</summary>
+      <div class="account-switcher-menu">
+        <ul class="account-switcher-list" aria-label="Accounts">
+          ${accounts
+            .map(
+              (account) => `
+            <li>
+              <button class="account-switcher-item" data-action="switch" data-user-id="${escapeHtml(account.userId)}" ${account === active ? 'aria-current="true"' : ""}>
+                <span class="account-switcher-email">${escapeHtml(getAccountLabel(account))}</span>
+                <span class="account-switcher-status">${getAccountStatus(account, account === active)}</span>
+              </button>
+            </li>
+          `,
+            )
+            .join("")}
+        </ul>
+        <button class="account-switcher-add" data-action="add">+ Add account</button>
+        <p id="account-switcher-error" class="account-switcher-error hidden" role="alert"></p>
+      </div>
+    </details>
+  `;
+}
+
+async function switchAccount(userId: string): Promise<void> {
+  if (isSwitching || userId === (await getSetting("userId"))) return;
+  isSwitching = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: "SWITCH_ACCOUNT",
+      userId,
+    });
+
+    if (response?.success) {
+      // Every tab loaded the previous account's data
+      window.location.reload();
+      return;
+    }
+
+    if (response?.needsLogin) {
+      onAddAccount?.(response.email ?? null);
+      return;
+    }
+
+    throw new Error(response?.error || "Unable to switch accounts.");
+  } catch (error) {
+    console.error("[Glotian Accounts] Failed to switch account:", error);
+    showError((error as Error).message);
+  } finally {
+    isSwitching = false;
+  }
+}
+
+/**
+ * Ask whether to keep the account's local data when signing out
+ *
+ * @returns The choice, or null when the user cancelled
+ */
+export async function confirmSignOut(
+  userId: string,
+): Promise<SignOutChoice | null> {
+  const counts = await countAccountData(userId);
+  const cached = counts.notes + counts.flashcards + counts.decks;
+
+  const modal = document.createElement("div");
+  modal.className = "sign-out-modal";
+  modal.innerHTML = `
+    <div class="modal-backdrop"></div>
+    <div class="modal-content" role="dialog" aria-modal="true" aria-labelledby="sign-out-title">
+      <div class="modal-header">
+        <h3 id="sign-out-title">Log Out</h3>
+        <button class="modal-close" data-choice="cancel" aria-label="Cancel">&times;</button>
+      </div>
+      <div class="modal-body">
+        <p class="sign-out-explanation">
+          Keep this account's notes, cards and preferences on this browser for the next time you log in, or delete them now.
+        </p>
+        <p class="sign-out-counts">${cached} cached item${cached === 1 ? "" : "s"} stored locally.</p>
+        ${
+          counts.unsyncedChanges > 0
+            ? `<p class="sign-out-warning">${counts.unsyncedChanges} change${counts.unsyncedChanges === 1 ? " hasn't" : "s haven't"} been synced yet and will be lost if you delete the local data.</p>`
+            : ""
+        }
+        <div class="sign-out-actions">
+          <button class="btn-primary" data-choice="keep">Keep Data</button>
+          <button class="btn-secondary sign-out-wipe" data-choice="wipe">Delete Data</button>
+          <button class="btn-ghost" data-choice="cancel">Cancel</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+  modal.querySelector<HTMLButtonElement>('[data-choice="keep"]')?.focus();
+
+  return new Promise((resolve) => {
+    const close = (choice: SignOutChoice | null) => {
+      modal.remove();
+      resolve(choice);
+    };
+
+    modal.querySelector(".modal-backdrop")?.addEventListener("click", () => {
+      close(null);
+    });
+    modal
+      .querySelectorAll<HTMLButtonElement>("button[data-choice]")
+      .forEach((button) => {
+        button.addEventListener("click", () => {
+          const choice = button.dataset.choice;
+          close(choice === "keep" || choice === "wipe" ? choice : null);
+        });
+      });
+  });
+}
+
+function getAccountLabel(account: StoredAccount): string {
+  return account.email ?? `Account ${account.userId.slice(0, 8)}`;
+}
+
+function getAccountStatus(account: StoredAccount, isActive: boolean): string {
+  if (isActive) return "Signed in";
+  return account.refreshToken ? "Switch" : "Log in";
+}
+
+function closeMenu(): void {
+  switcherContainer
+    ?.querySelector<HTMLDetailsElement>(".account-switcher")
+    ?.removeAttribute("open");
+}
+
+function showError(message: string): void {
+  const errorEl = switcherContainer?.querySelector("#account-switcher-error");
+  if (!errorEl) return;
+
+  errorEl.textContent = message;
+  errorEl.classList.remove("hidden");
+  switcherContainer
+    ?.querySelector<HTMLDetailsElement>(".account-switcher")
+    ?.setAttribute("open", "");
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
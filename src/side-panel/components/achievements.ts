@@ -0,0 +1,137 @@
+/**
+ * Achievements Summary Component
+ *
+ * Compact strip with the current streak, level / XP progress and unlocked
+ * badges. Mounted in the side panel header area and in the popup.
+ */
+
+import { getSetting } from "@/lib/storage";
+import {
+  getAchievements,
+  subscribeAchievements,
+  updateAchievements,
+} from "@/lib/db/achievements";
+import { BADGES, getLevelProgress } from "@/lib/achievements";
+import type { CachedUserAchievements } from "@/types";
+
+// Component state
+let summaryContainer: HTMLElement | null = null;
+let userId: string | null = null;
+
+/**
+ * Render the summary into a container and keep it up to date
+ */
+export async function initAchievementsSummary(
+  container: HTMLElement,
+): Promise<void> {
+  summaryContainer = container;
+  userId = (await getSetting("userId")) ?? null;
+
+  // Updates made in this page
+  subscribeAchievements((achievements) => {
+    if (achievements.user_id === userId) render(achievements);
+  });
+
+  // Updates made by the background or another extension page
+  chrome.runtime.onMessage.addListener((message) => {
+    if (
+      (message?.type === "ACHIEVEMENTS_UPDATED" && message.userId === userId) ||
+      message?.type === "SYNC_COMPLETE"
+    ) {
+      void refreshAchievementsSummary(false);
+    }
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && "userId" in changes) {
+      userId = changes.userId.newValue ?? null;
+      void refreshAchievementsSummary();
+    }
+  });
+
+  await refreshAchievementsSummary();
+}
+
+/**
+ * Reload the summary
+ *
+ * @param recompute - Count new activity first (also resets a broken streak)
+ */
+async function refreshAchievementsSummary(recompute = true): Promise<void> {
+  if (!summaryContainer) return;
+
+  if (!userId) {
+    summaryContainer.innerHTML = "";
+    summaryContainer.classList.add("hidden");
+    return;
+  }
+
+  try {
+    const achievements = recompute
+      ? await updateAchievements(userId)
+      : await getAchievements(userId);
+    if (achievements) render(achievements);
+  } catch (error) {
+    console.error("[Glotian Achievements] Failed to load achievements:", error);
+  }
+}
+
+function render(achievements: CachedUserAchievements): void {
+  if (!summaryContainer) return;
+
+  const progress = getLevelProgress(achievements.total_xp);
+  const percent = Math.min(
+    100,
+    Math.round((progress.xpIntoLevel / progress.xpForNextLevel) * 100),
+  );
+  const unlocked = BADGES.filter((badge) =>
+    achievements.badges.includes(badge.id),
+  );
+
+  summaryContainer.innerHTML = `
+    <div class="achievements-summary">
+      <div class="achievements-streak" title="Longest streak: ${achievements.longest_streak} day${achievements.longest_streak === 1 ? "" : "s"}">
+        <span aria-hidden="true">🔥</span>
+        <strong>${achievements.current_streak}</strong>
+        <span>day${achievements.current_streak === 1 ? "" : "s"}</span>
+      </div>
+
+      <div class="achievements-level">
+        <div class="achievements-level-label">
+          <strong>Level ${progress.level}</strong>
+          <span>${progress.xpIntoLevel} / ${progress.xpForNextLevel} XP</span>
+        </div>
+        <div
+          class="progress-bar"
+          role="progressbar"
+          aria-label="XP toward level ${progress.level + 1}"
+          aria-valuemin="0"
+          aria-valuemax="${progress.xpForNextLevel}"
+          aria-valuenow="${progress.xpIntoLevel}"
+        >
+          <div class="progress-fill" style="width: ${percent}%"></div>
+        </div>
+      </div>
+
+      <div class="achievements-badges" aria-label="Badges">
+        ${
+          unlocked.length > 0
+            ? unlocked
+                .map(
+                  (badge) =>
+                    `<span class="achievements-badge" title="${escapeHtml(`${badge.title}: ${badge.description}`)}">${badge.icon}</span>`,
+                )
+                .join("")
+            : `<span class="achievements-empty">No badges yet</span>`
+        }
+      </div>
+    </div>
+  `;
+  summaryContainer.classList.remove("hidden");
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
@@ -14,6 +14,12 @@ export async function login(
   password: string,
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    // Signing in replaces the stored session; the background keeps this one
+    // for switching back to the account signed in until now
+    const {
+      data: { session: previousSession },
+    } = await supabase.auth.getSession();
+
     const { data, error } = await supabase.auth.signInWithPassword({
       email,
       password,
@@ -40,6 +46,7 @@ export async function login(
         type: "AUTH_SUCCESS",
         userId: data.user.id,
         session: data.session,
+        previousSession,
       });
 
       if (response?.success === false) {
@@ -77,8 +84,13 @@ export async function login(
 
 /**
  * Handle logout
+ *
+ * @param options.wipeData - Also delete the account's local data, unsynced
+ * changes included (kept by default for the next sign-in)
  */
-export async function logout(): Promise<{ success: boolean; error?: string }> {
+export async function logout(
+  options: { wipeData?: boolean } = {},
+): Promise<{ success: boolean; error?: string }> {
   try {
     // Sign out from Supabase
     const { error } = await supabase.auth.signOut();
@@ -87,8 +99,11 @@ export async function logout(): Promise<{ success: boolean; error?: string }> {
       return { success: false, error: error.message };
     }
 
-    // Notify background service worker to clear data
-    await chrome.runtime.sendMessage({ type: "AUTH_LOGOUT" });
+    // Notify background service worker to store or clear the account's data
+    await chrome.runtime.sendMessage({
+      type: "AUTH_LOGOUT",
+      wipeData: options.wipeData ?? false,
+    });
 
     console.log("[Glotian Auth] Logout successful");
     return { success: true };
@@ -0,0 +1,110 @@
+/**
+ * Daily Goal Ring Component
+ *
+ * Progress ring showing today's active study time against the
+ * `daily_goal_minutes` preference. Mounted in the side panel and the popup.
+ */
+
+import { getSetting } from "@/lib/storage";
+import {
+  getDailyGoalProgress,
+  subscribeStudyTime,
+  type DailyGoalProgress,
+} from "@/lib/db/study-time";
+
+const RING_RADIUS = 16;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+// Component state
+let ringContainer: HTMLElement | null = null;
+let userId: string | null = null;
+
+/**
+ * Render the ring into a container and keep it up to date
+ */
+export async function initDailyGoalRing(container: HTMLElement): Promise<void> {
+  ringContainer = container;
+  userId = (await getSetting("userId")) ?? null;
+
+  // Time recorded in this page
+  subscribeStudyTime((entry) => {
+    if (entry.userId === userId) void refreshDailyGoalRing();
+  });
+
+  // Time recorded by the background (writing coach) or another page, and
+  // goal changes pulled in by sync
+  chrome.runtime.onMessage.addListener((message) => {
+    if (
+      (message?.type === "STUDY_TIME_UPDATED" && message.userId === userId) ||
+      message?.type === "SYNC_COMPLETE"
+    ) {
+      void refreshDailyGoalRing();
+    }
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && "userId" in changes) {
+      userId = changes.userId.newValue ?? null;
+      void refreshDailyGoalRing();
+    }
+  });
+
+  await refreshDailyGoalRing();
+}
+
+async function refreshDailyGoalRing(): Promise<void> {
+  if (!ringContainer) return;
+
+  if (!userId) {
+    ringContainer.innerHTML = "";
+    ringContainer.classList.add("hidden");
+    return;
+  }
+
+  try {
+    render(await getDailyGoalProgress(userId));
+  } catch (error) {
+    console.error("[Glotian Daily Goal] Failed to load progress:", error);
+  }
+}
+
+function render(progress: DailyGoalProgress): void {
+  if (!ringContainer) return;
+
+  const studiedMinutes = Math.floor(progress.studiedSeconds / 60);
+  const ratio = Math.min(
+    1,
+    progress.studiedSeconds / (progress.goalMinutes * 60),
+  );
+  const dashOffset = RING_CIRCUMFERENCE * (1 - ratio);
+
+  ringContainer.innerHTML = `
+    <div class="daily-goal ${progress.completed ? "daily-goal-complete" : ""}">
+      <svg
+        class="daily-goal-ring"
+        viewBox="0 0 40 40"
+        role="progressbar"
+        aria-label="Daily study goal"
+        aria-valuemin="0"
+        aria-valuemax="${progress.goalMinutes}"
+        aria-valuenow="${Math.min(studiedMinutes, progress.goalMinutes)}"
+      >
+        <circle class="daily-goal-track" cx="20" cy="20" r="${RING_RADIUS}" />
+        <circle
+          class="daily-goal-fill"
+          cx="20"
+          cy="20"
+          r="${RING_RADIUS}"
+          stroke-dasharray="${RING_CIRCUMFERENCE.toFixed(2)}"
+          stroke-dashoffset="${dashOffset.toFixed(2)}"
+          transform="rotate(-90 20 20)"
+        />
+      </svg>
+      <div class="daily-goal-label">
+        <strong>${studiedMinutes} / ${progress.goalMinutes} min today</strong>
+        <span>${progress.completed ? "Daily goal reached 🎉" : `${progress.goalMinutes - studiedMinutes} min to go`}</span>
+      </div>
+    </div>
+  `;
+  ringContainer.classList.remove("hidden");
+}
@@ -0,0 +1,371 @@
+/**
+ * Flashcard Import Component
+ *
+ * Imports cards from CSV/TSV files (Anki "Notes in Plain Text", Quizlet
+ * exports, spreadsheets) into a chosen deck:
+ * 1. Pick a file, delimiter and target deck
+ * 2. Map columns to term / definition / part of speech / example sentences
+ * 3. Preview rows with duplicate and validation checks
+ * 4. Import the new rows; they are written and queued for sync in batches
+ */
+
+import { importFlashcards } from "@/lib/db/flashcards";
+import {
+  parseDelimitedText,
+  type DelimitedTable,
+  type ImportDelimiter,
+} from "@/lib/import/delimited";
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportPreview,
+  guessColumnMapping,
+  type ImportField,
+  type ImportPreviewRow,
+} from "@/lib/import/flashcards";
+import type { CachedDeck } from "@/types";
+
+const PREVIEW_ROW_LIMIT = 50;
+
+const DELIMITER_OPTIONS: Array<{
+  value: ImportDelimiter | "auto";
+  label: string;
+}> = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "\t", label: "Tab" },
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "|", label: "Pipe" },
+];
+
+// Component state
+let importContainer: HTMLElement | null = null;
+let userId: string | null = null;
+let onImported: (() => Promise<void>) | null = null;
+let decks: CachedDeck[] = [];
+let fileText: string | null = null;
+let table: DelimitedTable | null = null;
+let mapping: ImportField[] = [];
+let preview: ImportPreviewRow[] = [];
+let isImporting = false;
+
+/**
+ * Render the import panel into a container
+ *
+ * @param options.onImported - Called after cards were imported
+ */
+export function initFlashcardImport(
+  container: HTMLElement,
+  options: { userId: string; onImported: () => Promise<void> },
+): void {
+  importContainer = container;
+  userId = options.userId;
+  onImported = options.onImported;
+
+  container.innerHTML = `
+    <details class="flashcard-import">
+      <summary class="label-text">Import cards from CSV / TSV</summary>
+
+      <div class="flashcard-import-body">
+        <input id="import-file" class="input-base" type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" />
+
+        <div class="flashcard-import-options">
+          <label>
+            <span>Delimiter</span>
+            <select id="import-delimiter" class="filter-select">
+              ${DELIMITER_OPTIONS.map(
+                (option) =>
+                  `<option value="${option.value === "\t" ? "tab" : option.value}">${option.label}</option>`,
+              ).join("")}
+            </select>
+          </label>
+          <label>
+            <span>Deck</span>
+            <select id="import-deck" class="filter-select"></select>
+          </label>
+        </div>
+
+        <div id="import-mapping" class="import-mapping hidden"></div>
+        <div id="import-preview" class="import-preview hidden"></div>
+
+        <button id="import-commit" class="primary-button" disabled>Import</button>
+        <p id="import-status" class="decks-message hidden" role="status"></p>
+      </div>
+    </details>
+  `;
+
+  setImportDecks(decks);
+  attachEventListeners(container);
+}
+
+/**
+ * Update the target deck choices (call whenever the deck list changes)
+ */
+export function setImportDecks(nextDecks: CachedDeck[]): void {
+  decks = nextDecks;
+
+  const deckSelect =
+    importContainer?.querySelector<HTMLSelectElement>("#import-deck");
+  if (!deckSelect) return;
+
+  const selected = deckSelect.value;
+  deckSelect.innerHTML = decks
+    .map(
+      (deck) =>
+        `<option value="${deck.id}">${escapeHtml(deck.name)} (${escapeHtml(deck.language.toUpperCase())})</option>`,
+    )
+    .join("");
+  if (decks.some((deck) => deck.id === selected)) {
+    deckSelect.value = selected;
+  }
+
+  void refreshPreview();
+}
+
+function attachEventListeners(container: HTMLElement): void {
+  container
+    .querySelector<HTMLInputElement>("#import-file")
+    ?.addEventListener("change", (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (file) void loadFile(file);
+    });
+
+  container
+    .querySelector("#import-delimiter")
+    ?.addEventListener("change", () => {
+      parseFile();
+      void refreshPreview();
+    });
+
+  container
+    .querySelector("#import-deck")
+    ?.addEventListener("change", () => void refreshPreview());
+
+  container
+    .querySelector("#import-mapping")
+    ?.addEventListener("change", (event) => {
+      const select = (event.target as HTMLElement).closest<HTMLSelectElement>(
+        "select[data-column]",
+      );
+      if (!select) return;
+      mapping[Number(select.dataset.column)] = select.value as ImportField;
+      void refreshPreview();
+    });
+
+  container
+    .querySelector("#import-commit")
+    ?.addEventListener("click", () => void handleImport());
+}
+
+async function loadFile(file: File): Promise<void> {
+  try {
+    fileText = await file.text();
+    parseFile();
+    await refreshPreview();
+  } catch (error) {
+    console.error("[Glotian Import] Failed to read file:", error);
+    setStatus("Could not read that file.", true);
+  }
+}
+
+/**
+ * Parse the loaded file with the chosen delimiter and guess a column mapping
+ */
+function parseFile(): void {
+  if (fileText === null) return;
+
+  const delimiterValue =
+    importContainer?.querySelector<HTMLSelectElement>("#import-delimiter")
+      ?.value ?? "auto";
+  const delimiter =
+    delimiterValue === "auto"
+      ? undefined
+      : ((delimiterValue === "tab" ? "\t" : delimiterValue) as ImportDelimiter);
+
+  table = parseDelimitedText(fileText, delimiter);
+  mapping = guessColumnMapping(table);
+  renderMapping();
+}
+
+function renderMapping(): void {
+  const mappingEl = importContainer?.querySelector("#import-mapping");
+  if (!mappingEl || !table) return;
+
+  const fields = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+  mappingEl.innerHTML = mapping
+    .map((field, column) => {
+      const name = table?.columnNames?.[column] || `Column ${column + 1}`;
+      const sample = table?.rows[0]?.[column] ?? "";
+      return `
+        <label class="import-mapping-row">
+          <span class="import-mapping-column">
+            ${escapeHtml(name)}
+            <span class="import-mapping-sample">${escapeHtml(sample.slice(0, 40))}</span>
+          </span>
+          <select class="filter-select" data-column="${column}">
+            ${fields
+              .map(
+                (option) =>
+                  `<option value="${option}" ${option === field ? "selected" : ""}>${IMPORT_FIELD_LABELS[option]}</option>`,
+              )
+              .join("")}
+          </select>
+        </label>
+      `;
+    })
+    .join("");
+  mappingEl.classList.toggle("hidden", mapping.length === 0);
+}
+
+/**
+ * Rebuild the preview for the current file, mapping and deck
+ */
+async function refreshPreview(): Promise<void> {
+  const container = importContainer;
+  if (!container || !table || !userId) return;
+
+  const previewEl = container.querySelector("#import-preview");
+  const deck = decks.find(
+    (item) =>
+      item.id ===
+      container.querySelector<HTMLSelectElement>("#import-deck")?.value,
+  );
+  if (!previewEl) return;
+
+  try {
+    if (!deck) {
+      throw new Error("Create a deck to import into first.");
+    }
+    preview = await buildImportPreview(userId, deck, table, mapping);
+  } catch (error) {
+    preview = [];
+    previewEl.classList.add("hidden");
+    setCommitButton(0);
+    setStatus(
+      error instanceof Error ? error.message : "Could not build a preview.",
+      true,
+    );
+    return;
+  }
+
+  const counts = { new: 0, duplicate: 0, invalid: 0 };
+  for (const row of preview) counts[row.status]++;
+
+  previewEl.innerHTML = `
+    <p class="import-preview-summary">
+      ${counts.new} new · ${counts.duplicate} duplicate${counts.duplicate === 1 ? "" : "s"} · ${counts.invalid} invalid
+    </p>
+    <table class="import-preview-table">
+      <thead>
+        <tr><th>#</th><th>Term</th><th>Definition</th><th>Status</th></tr>
+      </thead>
+      <tbody>
+        ${preview
+          .slice(0, PREVIEW_ROW_LIMIT)
+          .map(
+            (row) => `
+          <tr class="import-row-${row.status}">
+            <td>${row.rowNumber}</td>
+            <td>${escapeHtml(row.draft?.term ?? "")}</td>
+            <td>${escapeHtml(row.draft?.definition ?? "")}</td>
+            <td>${escapeHtml(row.message ?? "New")}</td>
+          </tr>
+        `,
+          )
+          .join("")}
+      </tbody>
+    </table>
+    ${
+      preview.length > PREVIEW_ROW_LIMIT
+        ? `<p class="import-preview-more">…and ${preview.length - PREVIEW_ROW_LIMIT} more rows</p>`
+        : ""
+    }
+  `;
+  previewEl.classList.remove("hidden");
+  setCommitButton(counts.new);
+  container.querySelector("#import-status")?.classList.add("hidden");
+}
+
+/**
+ * Import the new rows of the preview into the chosen deck
+ */
+async function handleImport(): Promise<void> {
+  const container = importContainer;
+  if (!container || !userId || isImporting) return;
+
+  const deckId =
+    container.querySelector<HTMLSelectElement>("#import-deck")?.value;
+  const drafts = preview
+    .filter((row) => row.status === "new" && row.draft)
+    .map((row) => row.draft!);
+  if (!deckId || drafts.length === 0) return;
+
+  isImporting = true;
+  setCommitButton(0);
+
+  try {
+    const imported = await importFlashcards(
+      userId,
+      deckId,
+      drafts,
+      (done, total) => setStatus(`Importing ${done} of ${total}...`),
+    );
+
+    // Push the new cards now rather than waiting for periodic sync
+    if (navigator.onLine) {
+      chrome.runtime.sendMessage({ type: "SYNC_NOW" }).catch(() => {
+        // Background may be restarting; periodic sync will pick it up
+      });
+    }
+
+    resetImport();
+    setStatus(`Imported ${imported} card${imported === 1 ? "" : "s"}.`);
+    await onImported?.();
+  } catch (error) {
+    console.error("[Glotian Import] Import failed:", error);
+    setStatus(error instanceof Error ? error.message : "Import failed.", true);
+    await refreshPreview();
+  } finally {
+    isImporting = false;
+  }
+}
+
+function resetImport(): void {
+  fileText = null;
+  table = null;
+  mapping = [];
+  preview = [];
+
+  const fileInput =
+    importContainer?.querySelector<HTMLInputElement>("#import-file");
+  if (fileInput) fileInput.value = "";
+  importContainer?.querySelector("#import-mapping")?.classList.add("hidden");
+  importContainer?.querySelector("#import-preview")?.classList.add("hidden");
+  setCommitButton(0);
+}
+
+function setCommitButton(newCount: number): void {
+  const button =
+    importContainer?.querySelector<HTMLButtonElement>("#import-commit");
+  if (!button) return;
+
+  button.disabled = newCount === 0 || isImporting;
+  button.textContent =
+    newCount > 0
+      ? `Import ${newCount} card${newCount === 1 ? "" : "s"}`
+      : "Import";
+}
+
+function setStatus(message: string, isError = false): void {
+  const statusEl = importContainer?.querySelector("#import-status");
+  if (!statusEl) return;
+
+  statusEl.textContent = message;
+  statusEl.classList.toggle("error", isError);
+  statusEl.classList.remove("hidden");
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
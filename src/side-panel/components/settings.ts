@@ -5,8 +5,13 @@
  * User preferences and configuration management
  */
 
-import { getSetting, setSetting } from "@/lib/storage";
+import { getSetting, getSettings, setSetting } from "@/lib/storage";
 import { db } from "@/lib/db/schema";
+import { clearSyncCursors } from "@/lib/db/sync-cursors";
+import { countAccountData } from "@/lib/db/account-data";
+import { listDecks } from "@/lib/db/flashcards";
+import { exportDecks, type DeckExportFormat } from "@/lib/export/anki";
+import { downloadBlob } from "@/utils/dom";
 import { renderErrorLogsViewer } from "./error-logs";
 import { isTelemetryEnabled, initTelemetry } from "@/lib/telemetry";
 import {
@@ -34,6 +39,18 @@ export async function renderSettingsModal(
   const cefrLevel = await getSetting("defaultCEFRLevel");
   const aiFallbackEnabled = await getSetting("serverFallbackEnabled");
   const telemetryOptIn = await getSetting("telemetryEnabled");
+  const trashRetentionDays = await getSetting("trashRetentionDays");
+  const reminders = await getSettings([
+    "reviewReminderEnabled",
+    "reviewReminderTime",
+    "quietHoursEnabled",
+    "quietHoursStart",
+    "quietHoursEnd",
+    "dailyGoalNudgeEnabled",
+    "dailyGoalNudgeTime",
+  ]);
+  const userId = await getSetting("userId");
+  const decks = userId ? await listDecks(userId) : [];
 
   container.innerHTML = `
     <div class="settings-modal">
@@ -92,6 +109,54 @@ export async function renderSettingsModal(
           </div>
         </section>
 
+        <!-- Review Reminders -->
+        <section class="settings-section">
+          <h3>Review Reminders</h3>
+
+          <div class="settings-field">
+            <label class="settings-toggle">
+              <input type="checkbox" id="settings-reminder-enabled" ${reminders.reviewReminderEnabled ? "checked" : ""}>
+              <span>Remind Me to Review</span>
+            </label>
+            <p class="settings-hint">
+              Shows a notification when flashcards are due
+            </p>
+          </div>
+
+          <div class="settings-field">
+            <label for="settings-reminder-time">Reminder Time</label>
+            <input type="time" id="settings-reminder-time" value="${reminders.reviewReminderTime}">
+          </div>
+
+          <div class="settings-field">
+            <label class="settings-toggle">
+              <input type="checkbox" id="settings-goal-nudge-enabled" ${reminders.dailyGoalNudgeEnabled ? "checked" : ""}>
+              <span>Daily Goal Nudge</span>
+            </label>
+            <p class="settings-hint">
+              Shows a notification if today's study goal isn't met yet
+            </p>
+          </div>
+
+          <div class="settings-field">
+            <label for="settings-goal-nudge-time">Nudge Time</label>
+            <input type="time" id="settings-goal-nudge-time" value="${reminders.dailyGoalNudgeTime}">
+          </div>
+
+          <div class="settings-field">
+            <label class="settings-toggle">
+              <input type="checkbox" id="settings-quiet-hours" ${reminders.quietHoursEnabled ? "checked" : ""}>
+              <span>Quiet Hours</span>
+            </label>
+            <div class="settings-time-range">
+              <input type="time" id="settings-quiet-start" value="${reminders.quietHoursStart}" aria-label="Quiet hours start">
+              <span>to</span>
+              <input type="time" id="settings-quiet-end" value="${reminders.quietHoursEnd}" aria-label="Quiet hours end">
+            </div>
+            <p class="settings-hint">No reminders are shown during this window</p>
+          </div>
+        </section>
+
         <!-- Keyboard Shortcuts (Task: T190) -->
         <section class="settings-section">
           <h3>Keyboard Shortcuts</h3>
@@ -150,6 +215,51 @@ export async function renderSettingsModal(
             <p>Loading storage stats...</p>
           </div>
 
+          <div class="settings-field">
+            <label for="settings-export-deck">Export Flashcards</label>
+            <select id="settings-export-deck" ${decks.length === 0 ? "disabled" : ""}>
+              <option value="all">All decks</option>
+              ${decks
+                .map(
+                  (deck) =>
+                    `<option value="${deck.id}">${escapeHtml(deck.name)} (${deck.card_count})</option>`,
+                )
+                .join("")}
+            </select>
+          </div>
+
+          <div class="settings-field">
+            <select id="settings-export-format">
+              <option value="apkg">Anki package (.apkg)</option>
+              <option value="tsv">Tab-separated text (.txt)</option>
+            </select>
+          </div>
+
+          <div class="settings-field">
+            <label class="settings-toggle">
+              <input type="checkbox" id="settings-export-scheduling">
+              <span>Include Review Progress</span>
+            </label>
+            <p class="settings-hint">
+              Anki packages only: cards keep their due dates and intervals
+            </p>
+          </div>
+
+          <button id="settings-export" class="btn-secondary" ${decks.length === 0 ? "disabled" : ""}>
+            Export
+          </button>
+          <p class="settings-hint settings-export-hint">
+            ${decks.length === 0 ? "No decks to export yet." : "Import the file in Anki via File → Import."}
+          </p>
+
+          <div class="settings-field">
+            <label for="settings-trash-retention">Keep Deleted Items (days)</label>
+            <input type="number" id="settings-trash-retention" min="1" max="365" step="1" value="${trashRetentionDays}">
+            <p class="settings-hint">
+              Deleted notes, decks and cards stay in the trash this long, then are deleted for good
+            </p>
+          </div>
+
           <button id="settings-clear-data" class="btn-danger">
             Clear All Local Data
           </button>
@@ -209,22 +319,22 @@ function renderLanguageOptions(
 }
 
 /**
- * Load storage statistics
+ * Load storage statistics for the signed-in account
  */
 async function loadStorageStats(container: HTMLElement): Promise<void> {
   try {
-    const notesCount = await db.notes.count();
-    const flashcardsCount = await db.flashcards.count();
-    const decksCount = await db.decks.count();
-    const syncQueueCount = await db.syncQueue.count();
+    const userId = await getSetting("userId");
+    const counts = userId
+      ? await countAccountData(userId)
+      : { notes: 0, flashcards: 0, decks: 0, unsyncedChanges: 0 };
 
     const statsEl = container.querySelector("#settings-stats");
     if (statsEl) {
       statsEl.innerHTML = `
-        <p><strong>${notesCount}</strong> cached notes</p>
-        <p><strong>${flashcardsCount}</strong> cached flashcards</p>
-        <p><strong>${decksCount}</strong> cached decks</p>
-        <p><strong>${syncQueueCount}</strong> items in sync queue</p>
+        <p><strong>${counts.notes}</strong> cached notes</p>
+        <p><strong>${counts.flashcards}</strong> cached flashcards</p>
+        <p><strong>${counts.decks}</strong> cached decks</p>
+        <p><strong>${counts.unsyncedChanges}</strong> items in sync queue</p>
       `;
     }
   } catch (error) {
@@ -295,6 +405,15 @@ function setupEventListeners(container: HTMLElement): void {
     });
   }
 
+  // Export flashcards button
+  const exportBtn =
+    container.querySelector<HTMLButtonElement>("#settings-export");
+  if (exportBtn) {
+    exportBtn.addEventListener("click", async () => {
+      await handleExportFlashcards(container, exportBtn);
+    });
+  }
+
   // Clear data button (Task: T192)
   const clearDataBtn = container.querySelector("#settings-clear-data");
   if (clearDataBtn) {
@@ -306,6 +425,7 @@ function setupEventListeners(container: HTMLElement): void {
             "- All cached notes, flashcards, and decks\n" +
             "- Sync queue (pending changes will be lost)\n" +
             "- Activity logs\n\n" +
+            "This applies to every account used on this browser.\n" +
             "Synced data on the server will NOT be affected.\n\n" +
             "This cannot be undone.",
         )
@@ -324,6 +444,7 @@ function setupEventListeners(container: HTMLElement): void {
         await db.decks.clear();
         await db.syncQueue.clear();
         await db.activityLog.clear();
+        await clearSyncCursors();
 
         // Clear chrome.storage.local (except user settings)
         const keysToPreserve = [
@@ -333,6 +454,7 @@ function setupEventListeners(container: HTMLElement): void {
           "serverFallbackEnabled",
           "telemetryEnabled",
           "userId",
+          "accounts",
         ];
         const allKeys = await chrome.storage.local.get(null);
         const keysToRemove = Object.keys(allKeys).filter(
@@ -387,6 +509,51 @@ function setupEventListeners(container: HTMLElement): void {
   }
 }
 
+/**
+ * Export the selected deck(s) as an Anki package or TSV file
+ */
+async function handleExportFlashcards(
+  container: HTMLElement,
+  exportBtn: HTMLButtonElement,
+): Promise<void> {
+  const userId = await getSetting("userId");
+  if (!userId) {
+    alert("Log in to export your flashcards.");
+    return;
+  }
+
+  const deckId = (
+    container.querySelector("#settings-export-deck") as HTMLSelectElement
+  )?.value;
+  const format = (
+    container.querySelector("#settings-export-format") as HTMLSelectElement
+  )?.value as DeckExportFormat;
+  const includeScheduling = (
+    container.querySelector("#settings-export-scheduling") as HTMLInputElement
+  )?.checked;
+
+  try {
+    exportBtn.textContent = "Exporting...";
+    exportBtn.disabled = true;
+
+    const { filename, blob, cardCount } = await exportDecks(
+      userId,
+      !deckId || deckId === "all" ? "all" : [deckId],
+      format,
+      { includeScheduling },
+    );
+    downloadBlob(blob, filename);
+
+    console.log(`[Settings] Exported ${cardCount} flashcards to ${filename}`);
+  } catch (error) {
+    console.error("[Settings] Failed to export flashcards:", error);
+    alert("Failed to export flashcards: " + (error as Error).message);
+  } finally {
+    exportBtn.textContent = "Export";
+    exportBtn.disabled = false;
+  }
+}
+
 /**
  * Save settings
  */
@@ -408,6 +575,33 @@ async function saveSettings(container: HTMLElement): Promise<void> {
     const telemetryOptIn = (
       container.querySelector("#settings-telemetry") as HTMLInputElement
     )?.checked;
+    const reminderEnabled = (
+      container.querySelector("#settings-reminder-enabled") as HTMLInputElement
+    )?.checked;
+    const reminderTime = (
+      container.querySelector("#settings-reminder-time") as HTMLInputElement
+    )?.value;
+    const goalNudgeEnabled = (
+      container.querySelector(
+        "#settings-goal-nudge-enabled",
+      ) as HTMLInputElement
+    )?.checked;
+    const goalNudgeTime = (
+      container.querySelector("#settings-goal-nudge-time") as HTMLInputElement
+    )?.value;
+    const quietHoursEnabled = (
+      container.querySelector("#settings-quiet-hours") as HTMLInputElement
+    )?.checked;
+    const quietHoursStart = (
+      container.querySelector("#settings-quiet-start") as HTMLInputElement
+    )?.value;
+    const quietHoursEnd = (
+      container.querySelector("#settings-quiet-end") as HTMLInputElement
+    )?.value;
+    const trashRetentionDays = Number(
+      (container.querySelector("#settings-trash-retention") as HTMLInputElement)
+        ?.value,
+    );
 
     if (cefrLevel)
       await setSetting(
@@ -420,6 +614,23 @@ async function saveSettings(container: HTMLElement): Promise<void> {
       await setSetting("serverFallbackEnabled", aiFallbackEnabled);
     if (telemetryOptIn !== undefined)
       await setSetting("telemetryEnabled", telemetryOptIn);
+    // The background reschedules the reminder and nudge when these change
+    if (reminderEnabled !== undefined)
+      await setSetting("reviewReminderEnabled", reminderEnabled);
+    if (reminderTime) await setSetting("reviewReminderTime", reminderTime);
+    if (goalNudgeEnabled !== undefined)
+      await setSetting("dailyGoalNudgeEnabled", goalNudgeEnabled);
+    if (goalNudgeTime) await setSetting("dailyGoalNudgeTime", goalNudgeTime);
+    if (quietHoursEnabled !== undefined)
+      await setSetting("quietHoursEnabled", quietHoursEnabled);
+    if (quietHoursStart) await setSetting("quietHoursStart", quietHoursStart);
+    if (quietHoursEnd) await setSetting("quietHoursEnd", quietHoursEnd);
+    if (
+      Number.isInteger(trashRetentionDays) &&
+      trashRetentionDays >= 1 &&
+      trashRetentionDays <= 365
+    )
+      await setSetting("trashRetentionDays", trashRetentionDays);
 
     console.log("[Settings] Settings saved successfully");
 
@@ -532,6 +743,21 @@ function addStyles(): void {
       background: #fff;
     }
 
+    .settings-field input[type="time"] {
+      padding: 8px 12px;
+      border: 1px solid #ccc;
+      border-radius: 6px;
+      font-size: 14px;
+      background: #fff;
+    }
+
+    .settings-time-range {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-top: 8px;
+    }
+
     .settings-hint {
       margin: 6px 0 0 0;
       font-size: 13px;
@@ -665,7 +891,22 @@ function addStyles(): void {
       opacity: 0.5;
       cursor: not-allowed;
     }
+
+    .btn-secondary:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .settings-export-hint {
+      margin-bottom: 20px;
+    }
   `;
 
   document.head.appendChild(style);
 }
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
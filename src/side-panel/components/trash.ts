@@ -0,0 +1,177 @@
+/**
+ * Trash Component
+ *
+ * Lists deleted notes, decks and cards with restore and delete-forever
+ * actions. Items are purged automatically after the retention period set
+ * in Settings.
+ */
+
+import { getSetting } from "@/lib/storage";
+import {
+  deleteTrashItemForever,
+  listTrash,
+  restoreTrashItem,
+  type TrashItem,
+} from "@/lib/db/trash";
+
+// Component state
+let trashContainer: HTMLElement | null = null;
+let userId: string | null = null;
+let onChanged: (() => Promise<void>) | null = null;
+let items: TrashItem[] = [];
+let isBusy = false;
+
+/**
+ * Render the trash panel into a container
+ *
+ * @param options.onChanged - Called after an item was restored or deleted
+ */
+export function initTrash(
+  container: HTMLElement,
+  options: { userId: string; onChanged: () => Promise<void> },
+): void {
+  trashContainer = container;
+  userId = options.userId;
+  onChanged = options.onChanged;
+
+  container.innerHTML = `
+    <details class="trash">
+      <summary class="label-text">Trash <span id="trash-count" class="trash-count"></span></summary>
+
+      <div class="trash-body">
+        <p id="trash-retention" class="trash-hint"></p>
+        <p id="trash-status" class="decks-message hidden" role="status"></p>
+        <ul id="trash-list" class="trash-list"></ul>
+      </div>
+    </details>
+  `;
+
+  // Actions are delegated so re-rendering the list keeps them working
+  container.querySelector("#trash-list")?.addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      "button[data-action]",
+    );
+    const row = button?.closest<HTMLElement>("[data-trash-index]");
+    const item = row ? items[Number(row.dataset.trashIndex)] : undefined;
+    if (!button || !item) return;
+
+    if (button.dataset.action === "restore") {
+      void handleRestore(item);
+    } else if (button.dataset.action === "delete-forever") {
+      void handleDeleteForever(item);
+    }
+  });
+
+  void refreshTrash();
+}
+
+/**
+ * Reload the trash list (call whenever something was deleted)
+ */
+export async function refreshTrash(): Promise<void> {
+  if (!userId || !trashContainer) return;
+
+  items = await listTrash(userId);
+  const retentionDays = await getSetting("trashRetentionDays");
+
+  const countEl = trashContainer.querySelector("#trash-count");
+  if (countEl) {
+    countEl.textContent = items.length > 0 ? `(${items.length})` : "";
+  }
+
+  const retentionEl = trashContainer.querySelector("#trash-retention");
+  if (retentionEl) {
+    retentionEl.textContent = `Items are deleted for good after ${retentionDays} day${retentionDays === 1 ? "" : "s"} in the trash.`;
+  }
+
+  const listEl = trashContainer.querySelector("#trash-list");
+  if (!listEl) return;
+
+  if (items.length === 0) {
+    listEl.innerHTML = `<li class="trash-empty">The trash is empty.</li>`;
+    return;
+  }
+
+  listEl.innerHTML = items
+    .map(
+      (item, index) => `
+      <li class="trash-item" data-trash-index="${index}">
+        <div class="trash-item-text">
+          <span class="trash-item-title">${escapeHtml(item.title)}</span>
+          <span class="trash-item-detail">${escapeHtml(item.detail ?? "")} · deleted ${formatDeletedAt(item.deletedAt)}</span>
+        </div>
+        <div class="trash-item-actions">
+          <button class="btn-ghost" data-action="restore">Restore</button>
+          <button class="btn-ghost trash-delete" data-action="delete-forever">Delete forever</button>
+        </div>
+      </li>
+    `,
+    )
+    .join("");
+}
+
+async function handleRestore(item: TrashItem): Promise<void> {
+  await runTrashAction(async () => {
+    await restoreTrashItem(item);
+    return `Restored "${item.title}".`;
+  });
+}
+
+async function handleDeleteForever(item: TrashItem): Promise<void> {
+  if (
+    !confirm(
+      `Delete "${item.title}" for good? This can't be undone on any device.`,
+    )
+  ) {
+    return;
+  }
+
+  await runTrashAction(async () => {
+    await deleteTrashItemForever(item);
+    return `Deleted "${item.title}" for good.`;
+  });
+}
+
+/**
+ * Run a trash mutation, then refresh and report the outcome
+ */
+async function runTrashAction(action: () => Promise<string>): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+
+  try {
+    setStatus(await action());
+    await onChanged?.();
+  } catch (error) {
+    console.error("[Glotian Trash] Trash action failed:", error);
+    setStatus(
+      error instanceof Error ? error.message : "Something went wrong.",
+      true,
+    );
+  } finally {
+    isBusy = false;
+    await refreshTrash();
+  }
+}
+
+function setStatus(message: string, isError = false): void {
+  const statusEl = trashContainer?.querySelector("#trash-status");
+  if (!statusEl) return;
+
+  statusEl.textContent = message;
+  statusEl.classList.toggle("error", isError);
+  statusEl.classList.remove("hidden");
+}
+
+function formatDeletedAt(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
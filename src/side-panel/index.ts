@@ -7,11 +7,22 @@
 import { getSetting, setSetting } from "@/lib/storage";
 import { initTranslateTab, handleCapturedText } from "./tabs/translate";
 import { initSummarizeTab } from "./tabs/summarize";
+import { initReviewTab } from "./tabs/review";
+import { initDecksTab } from "./tabs/decks";
+import { initAchievementsSummary } from "./components/achievements";
+import { initDailyGoalRing } from "./components/daily-goal";
+import { createActivityTracker } from "@/lib/activity-tracker";
+import { recordStudyTime } from "@/lib/db/study-time";
+import type { StudyTimeSource } from "@/types";
 import {
   login as performLogin,
   logout as performLogout,
   isAuthenticated as checkAuthenticated,
 } from "./components/auth";
+import {
+  initAccountSwitcher,
+  confirmSignOut,
+} from "./components/account-switcher";
 
 console.log("[Glotian Side Panel] Initializing...");
 
@@ -44,6 +55,28 @@ const tabContents = document.querySelectorAll(".tab-content");
 // Track which tabs have been initialized to enable lazy loading
 const initializedTabs = new Set<string>();
 
+// Active time in each tab counts toward the daily study goal
+const STUDY_TIME_TABS: StudyTimeSource[] = [
+  "translate",
+  "summarize",
+  "review",
+  "decks",
+];
+
+const activityTracker = createActivityTracker({
+  target: document,
+  getSource: () => {
+    const tabName = document
+      .querySelector(".tab.active")
+      ?.getAttribute("data-tab");
+    return STUDY_TIME_TABS.find((source) => source === tabName) ?? null;
+  },
+  onFlush: async (source, seconds) => {
+    const userId = await getSetting("userId");
+    if (userId) await recordStudyTime(userId, source, seconds);
+  },
+});
+
 /**
  * Switch to a specific tab
  * Task: T182 - Keyboard navigation helper
@@ -52,6 +85,9 @@ async function switchToTab(tabElement: Element): Promise<void> {
   const tabName = tabElement.getAttribute("data-tab");
   if (!tabName) return;
 
+  // Credit time spent so far to the tab being left
+  activityTracker.flush();
+
   // Cleanup listeners on previously active tab before switching
   const previousActiveTab = Array.from(tabs).find((t) =>
     t.classList.contains("active"),
@@ -102,6 +138,30 @@ async function switchToTab(tabElement: Element): Promise<void> {
         );
       }
     }
+  } else if (tabName === "review") {
+    if (!initializedTabs.has("review")) {
+      const reviewTabContent = document.getElementById("tab-review");
+      if (reviewTabContent instanceof HTMLElement) {
+        await initReviewTab(reviewTabContent);
+        initializedTabs.add("review");
+      } else {
+        console.warn(
+          "[Glotian Side Panel] Review tab container not found during init",
+        );
+      }
+    }
+  } else if (tabName === "decks") {
+    if (!initializedTabs.has("decks")) {
+      const decksTabContent = document.getElementById("tab-decks");
+      if (decksTabContent instanceof HTMLElement) {
+        await initDecksTab(decksTabContent);
+        initializedTabs.add("decks");
+      } else {
+        console.warn(
+          "[Glotian Side Panel] Decks tab container not found during init",
+        );
+      }
+    }
   }
 
   console.log("[Glotian Side Panel] Switched to tab:", tabName);
@@ -229,11 +289,18 @@ if (loginForm) {
     loginButton.textContent = "Logging in...";
 
     try {
+      const previousUserId = await getSetting("userId");
       const result = await performLogin(email, password);
       if (!result.success) {
         throw new Error(result.error || "Unable to log in. Please try again.");
       }
 
+      if (previousUserId) {
+        // Added another account: tabs still show the previous one's data
+        window.location.reload();
+        return;
+      }
+
       await setAuthState(true);
     } catch (error) {
       console.error("[Glotian Side Panel] Login failed:", error);
@@ -248,19 +315,31 @@ if (loginForm) {
   });
 }
 
+/**
+ * Show the login card, optionally with an account's email filled in
+ */
+function showLoginForm(email: string | null = null): void {
+  if (!authSection) return;
+  authSection.classList.remove("hidden");
+  if (loginError) {
+    loginError.classList.add("hidden");
+    loginError.textContent = "";
+  }
+  if (loginEmailInput) {
+    loginEmailInput.value = email ?? "";
+  }
+  window.scrollTo({ top: 0, behavior: "smooth" });
+  (email ? loginPasswordInput : loginEmailInput)?.focus();
+}
+
 // Toggle login card visibility
 if (loginToggleBtn) {
   loginToggleBtn.addEventListener("click", () => {
     if (!authSection) return;
-    const showLogin = authSection.classList.contains("hidden");
-    authSection.classList.toggle("hidden", !showLogin);
-    if (showLogin) {
-      if (loginError) {
-        loginError.classList.add("hidden");
-        loginError.textContent = "";
-      }
-      window.scrollTo({ top: 0, behavior: "smooth" });
-      loginEmailInput?.focus();
+    if (authSection.classList.contains("hidden")) {
+      showLoginForm();
+    } else {
+      authSection.classList.add("hidden");
     }
   });
 }
@@ -268,16 +347,21 @@ if (loginToggleBtn) {
 // Logout handler
 if (logoutBtn) {
   logoutBtn.addEventListener("click", async () => {
+    const userId = await getSetting("userId");
+    const choice = userId ? await confirmSignOut(userId) : "keep";
+    if (!choice) return;
+
     logoutBtn.disabled = true;
     logoutBtn.textContent = "Logging out...";
 
     try {
-      const result = await performLogout();
+      const result = await performLogout({ wipeData: choice === "wipe" });
       if (!result.success) {
         throw new Error(result.error || "Unable to log out. Please try again.");
       }
 
-      await setAuthState(false);
+      // Tabs still show the signed-out account's data
+      window.location.reload();
     } catch (error) {
       console.error("[Glotian Side Panel] Logout failed:", error);
       if (loginError) {
@@ -331,6 +415,14 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         console.error("[Glotian Side Panel] Error switching to tab:", error),
       );
     }
+  } else if (message.type === "OPEN_SIDE_PANEL" && message.tab) {
+    // Deep link into a tab (e.g., from a review reminder) when already open
+    const tabButton = document.querySelector(`[data-tab="${message.tab}"]`);
+    if (tabButton) {
+      switchToTab(tabButton).catch((error) =>
+        console.error("[Glotian Side Panel] Error switching to tab:", error),
+      );
+    }
   } else if (message.type === "TRANSLATE_REQUEST") {
     // Handle translation request from background (Chrome AI only works in side panel)
     console.log(
@@ -360,6 +452,13 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   const authenticated = await checkAuthenticated();
   await setAuthState(authenticated);
 
+  const accountSwitcher = document.getElementById("account-switcher");
+  if (accountSwitcher) {
+    await initAccountSwitcher(accountSwitcher, {
+      onAddAccount: showLoginForm,
+    });
+  }
+
   // Initialize translate tab (always eager-loaded as default tab)
   await initTranslateTab();
   initializedTabs.add("translate");
@@ -367,7 +466,17 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Restore last active tab (will lazy-load if not translate)
   await restoreLastTab();
 
-  // Note: Q&A, Media, Summarize, and Activity tabs are now lazy-loaded when first accessed
+  const achievementsSummary = document.getElementById("achievements-summary");
+  if (achievementsSummary) {
+    await initAchievementsSummary(achievementsSummary);
+  }
+
+  const dailyGoal = document.getElementById("daily-goal");
+  if (dailyGoal) {
+    await initDailyGoalRing(dailyGoal);
+  }
+
+  // Note: Q&A, Media, Summarize, Review, Decks, and Activity tabs are now lazy-loaded when first accessed
   // This reduces initial memory footprint and speeds up side panel load time
 
   console.log("[Glotian Side Panel] Initialized (lazy loading enabled)");
@@ -2,12 +2,15 @@
  * Activity Tab Component
  *
  * Displays:
- * - Activity log (last 100 items)
+ * - Activity log (last 100 items, including activity from the web app,
+ *   the mobile app and other devices)
  * - Sync status (pending, synced, failed counts)
  * - Sync controls (Sync Now, Retry Failed)
+ * - Live sync progress (per-item log, cancel between items)
+ * - Dead-lettered sync items (retry or discard)
  * - Filters (action type, date range, sync status)
  * - Deep links to web app
- * - Conflict warnings
+ * - Sync conflict inbox (keep local, keep server or edit)
  *
  * Tasks: T152-T176
  */
@@ -18,7 +21,22 @@ import {
   getFilteredActivity,
   getActivityCounts,
 } from "@/lib/db/activity-log";
-import type { ActivityLogItem } from "@/types";
+import {
+  discardDeadLetterItem,
+  getDeadLetterItems,
+  getSyncQueueStats,
+  retryDeadLetterItem,
+  whereUserSyncItems,
+} from "@/lib/db/sync-queue";
+import { getSyncConflicts } from "@/lib/db/conflicts";
+import type {
+  ActivityLogItem,
+  DeadLetterSyncItem,
+  SyncConflict,
+  SyncConflictChoice,
+  SyncErrorKind,
+  SyncProgressEvent,
+} from "@/types";
 
 // Global state
 let currentUserId: string | null = null;
@@ -28,8 +46,13 @@ let actionFilterListener: ((event: Event) => void) | null = null;
 let dateFilterListener: ((event: Event) => void) | null = null;
 let statusFilterListener: ((event: Event) => void) | null = null;
 
-// Map for storing conflict metadata by item ID to avoid XSS vulnerability
-const conflictMetadataMap = new Map<string, any>();
+// Sync run shown in the progress section
+let syncProgressRunId: string | null = null;
+let syncProgressDone = 0;
+let syncProgressHideTimer: number | null = null;
+
+// Lines kept in the live sync log
+const SYNC_LOG_LIMIT = 50;
 
 // Type guards for filter validation
 function isValidActionType(
@@ -45,6 +68,7 @@ function isValidActionType(
     "coach_fix_applied",
     "media_ocr",
     "media_transcribe",
+    "study_session_completed",
   ].includes(value);
 }
 
@@ -86,7 +110,12 @@ export async function initActivityTab(): Promise<void> {
   renderActivityTab();
 
   // Load initial data
-  await Promise.all([loadActivityItems(), updateSyncStatus()]);
+  await Promise.all([
+    loadActivityItems(),
+    updateSyncStatus(),
+    loadDeadLetterItems(),
+    loadSyncConflicts(),
+  ]);
 
   // Setup real-time sync status updates (T161)
   setupSyncStatusListener();
@@ -140,15 +169,31 @@ function renderActivityTab(): void {
 
       <!-- Sync Progress (T166-T167) -->
       <div class="sync-progress hidden" id="sync-progress">
-        <div class="progress-bar">
+        <div class="progress-bar" role="progressbar" id="progress-bar" aria-valuemin="0" aria-valuemax="0" aria-valuenow="0">
           <div class="progress-fill" id="progress-fill"></div>
         </div>
-        <div class="progress-text" id="progress-text">Syncing 0/0 items...</div>
+        <div class="sync-progress-header">
+          <div class="progress-text" id="progress-text" role="status">Syncing 0/0 items...</div>
+          <button class="sync-cancel-btn hidden" id="sync-cancel-btn">Cancel</button>
+        </div>
+        <ol class="sync-progress-log" id="sync-progress-log"></ol>
       </div>
 
       <!-- Sync Result Toast (T167) -->
       <div class="sync-toast hidden" id="sync-toast"></div>
 
+      <!-- Dead-lettered sync items -->
+      <div class="dead-letter-section hidden" id="dead-letter-section">
+        <div class="dead-letter-title">Changes that couldn't be synced</div>
+        <div class="dead-letter-list" id="dead-letter-list"></div>
+      </div>
+
+      <!-- Sync conflicts waiting for a decision -->
+      <div class="conflict-inbox-section hidden" id="conflict-inbox-section">
+        <div class="conflict-inbox-title">Sync conflicts to review</div>
+        <div class="conflict-inbox-list" id="conflict-inbox-list"></div>
+      </div>
+
       <!-- Filters (T169-T171) -->
       <div class="activity-filters">
         <select class="filter-select" id="action-filter">
@@ -161,6 +206,7 @@ function renderActivityTab(): void {
           <option value="coach_fix_applied">Writing Coach</option>
           <option value="media_ocr">Image OCR</option>
           <option value="media_transcribe">Audio Transcription</option>
+          <option value="study_session_completed">Review Sessions</option>
         </select>
 
         <select class="filter-select" id="date-filter">
@@ -203,6 +249,10 @@ function setupEventListeners(): void {
   const retryFailedBtn = document.getElementById("retry-failed-btn");
   retryFailedBtn?.addEventListener("click", handleRetryFailed);
 
+  document
+    .getElementById("sync-cancel-btn")
+    ?.addEventListener("click", handleCancelSync);
+
   // Filter changes with type validation
   const actionFilter = document.getElementById("action-filter");
   if (actionFilter) {
@@ -250,6 +300,10 @@ function cleanupDomEventListeners(): void {
     .getElementById("retry-failed-btn")
     ?.removeEventListener("click", handleRetryFailed);
 
+  document
+    .getElementById("sync-cancel-btn")
+    ?.removeEventListener("click", handleCancelSync);
+
   const actionFilter = document.getElementById("action-filter");
   if (actionFilter && actionFilterListener) {
     actionFilter.removeEventListener("change", actionFilterListener);
@@ -342,19 +396,6 @@ async function loadActivityItems(): Promise<void> {
         }
       });
     });
-
-    // Add event listeners for conflict items (T175-T176)
-    listContainer.querySelectorAll(".conflict-item").forEach((item) => {
-      item.addEventListener("click", (e) => {
-        const itemId = (e.currentTarget as HTMLElement).dataset.itemId;
-        if (itemId) {
-          const conflictData = conflictMetadataMap.get(itemId);
-          if (conflictData) {
-            showConflictModal(conflictData);
-          }
-        }
-      });
-    });
   } catch (error) {
     console.error("[Glotian Activity] Error loading activity:", error);
     const listContainer = document.getElementById("activity-list");
@@ -370,6 +411,169 @@ async function loadActivityItems(): Promise<void> {
   }
 }
 
+/**
+ * Load sync items that are no longer retried automatically
+ */
+async function loadDeadLetterItems(): Promise<void> {
+  if (!currentUserId) return;
+
+  const section = document.getElementById("dead-letter-section");
+  const listContainer = document.getElementById("dead-letter-list");
+  if (!section || !listContainer) return;
+
+  try {
+    const items = await getDeadLetterItems(currentUserId);
+    section.classList.toggle("hidden", items.length === 0);
+    listContainer.innerHTML = items.map(renderDeadLetterItem).join("");
+
+    listContainer
+      .querySelectorAll<HTMLButtonElement>(".dead-letter-retry-btn")
+      .forEach((btn) => {
+        btn.addEventListener("click", () =>
+          handleDeadLetterAction(Number(btn.dataset.id), "retry"),
+        );
+      });
+    listContainer
+      .querySelectorAll<HTMLButtonElement>(".dead-letter-discard-btn")
+      .forEach((btn) => {
+        btn.addEventListener("click", () =>
+          handleDeadLetterAction(Number(btn.dataset.id), "discard"),
+        );
+      });
+  } catch (error) {
+    console.error("[Glotian Activity] Error loading failed sync items:", error);
+  }
+}
+
+function renderDeadLetterItem(deadLetter: DeadLetterSyncItem): string {
+  const { item } = deadLetter;
+
+  return `
+    <div class="activity-item dead-letter-item">
+      <div class="activity-header">
+        <span class="activity-action">
+          ${escapeHtml(`${capitalize(item.operation)} ${getTableLabel(item.table)}`)}
+        </span>
+        <span class="sync-badge failed">${getErrorKindLabel(deadLetter.errorKind)}</span>
+      </div>
+      <div class="activity-details">
+        <span class="activity-time">${getRelativeTime(deadLetter.failedAt)}</span>
+        <div class="dead-letter-error">${escapeHtml(deadLetter.error)}</div>
+      </div>
+      <div class="dead-letter-actions">
+        <button class="dead-letter-retry-btn" data-id="${deadLetter.id}">Retry</button>
+        <button class="dead-letter-discard-btn" data-id="${deadLetter.id}">Discard</button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Retry (re-queue) or discard a dead-lettered item
+ */
+async function handleDeadLetterAction(
+  deadLetterId: number,
+  action: "retry" | "discard",
+): Promise<void> {
+  if (!Number.isFinite(deadLetterId)) return;
+
+  try {
+    if (action === "retry") {
+      await retryDeadLetterItem(deadLetterId);
+      await chrome.runtime.sendMessage({ type: "SYNC_NOW" });
+      showSyncToast("✓ Change queued for sync again", "success");
+    } else {
+      if (!confirm("Discard this change? It will not be synced.")) return;
+      await discardDeadLetterItem(deadLetterId);
+      showSyncToast("Change discarded", "success");
+    }
+  } catch (error) {
+    console.error(`[Glotian Activity] Failed to ${action} sync item:`, error);
+    showSyncToast(`✗ ${(error as Error).message}`, "error");
+  }
+
+  await Promise.all([loadDeadLetterItems(), updateSyncStatus()]);
+}
+
+/**
+ * Load conflicts waiting for the user to pick a version (T175)
+ */
+async function loadSyncConflicts(): Promise<void> {
+  if (!currentUserId) return;
+
+  const section = document.getElementById("conflict-inbox-section");
+  const listContainer = document.getElementById("conflict-inbox-list");
+  if (!section || !listContainer) return;
+
+  try {
+    const conflicts = await getSyncConflicts(currentUserId);
+    section.classList.toggle("hidden", conflicts.length === 0);
+    listContainer.innerHTML = conflicts.map(renderConflictItem).join("");
+
+    listContainer
+      .querySelectorAll<HTMLElement>(".conflict-item")
+      .forEach((element) => {
+        element.addEventListener("click", () => {
+          const conflict = conflicts.find(
+            (item) => item.id === Number(element.dataset.id),
+          );
+          if (conflict) showConflictModal(conflict);
+        });
+      });
+  } catch (error) {
+    console.error("[Glotian Activity] Error loading sync conflicts:", error);
+  }
+}
+
+function renderConflictItem(conflict: SyncConflict): string {
+  const summary =
+    conflict.operation === "delete"
+      ? "Deleted here, changed on the server"
+      : `${conflict.fields.length} field${conflict.fields.length === 1 ? "" : "s"} changed on both sides`;
+
+  return `
+    <div class="activity-item conflict-item" data-id="${conflict.id}">
+      <div class="activity-header">
+        <span class="activity-action">
+          ${escapeHtml(`${capitalize(getTableLabel(conflict.table))} conflict`)}
+        </span>
+        <span class="sync-badge pending">Needs review</span>
+      </div>
+      <div class="activity-details">
+        <span class="activity-time">${getRelativeTime(conflict.detectedAt)}</span>
+        <div class="conflict-warning">${escapeHtml(summary)}</div>
+      </div>
+    </div>
+  `;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function getTableLabel(table: SyncConflict["table"]): string {
+  const labels: Record<SyncConflict["table"], string> = {
+    learning_notes: "note",
+    flashcards: "flashcard",
+    flashcard_decks: "deck",
+    user_preferences: "preferences",
+    study_progress: "study progress",
+    reviews: "review",
+    study_sessions: "study session",
+    user_achievements: "achievements",
+  };
+  return labels[table] ?? table;
+}
+
+function getErrorKindLabel(kind: SyncErrorKind): string {
+  const labels: Record<SyncErrorKind, string> = {
+    network: "Network",
+    auth: "Sign-in",
+    validation: "Rejected",
+  };
+  return labels[kind];
+}
+
 /**
  * Render a single activity item (T154-T156)
  */
@@ -377,37 +581,9 @@ function renderActivityItem(item: ActivityLogItem): string {
   const icon = getActionIcon(item.action);
   const actionText = getActionText(item.action);
   const relativeTime = getRelativeTime(item.timestamp);
-  const syncBadge = getSyncBadge(item.syncStatus);
-  const isConflict = item.action === "note_updated" && item.metadata?.conflict;
-
-  // Check if this is a conflict warning (T175)
-  if (isConflict) {
-    // Store metadata in map using item ID as key (safe from XSS)
-    const itemId = String(item.id) || `conflict-${Date.now()}-${Math.random()}`;
-    if (item.metadata) {
-      conflictMetadataMap.set(itemId, item.metadata);
-    }
-
-    return `
-      <div class="activity-item conflict-item" data-item-id="${itemId}">
-        <div class="activity-icon conflict">⚠️</div>
-        <div class="activity-content">
-          <div class="activity-header">
-            <span class="activity-action">Sync Conflict Detected</span>
-            ${syncBadge}
-          </div>
-          <div class="activity-details">
-            <span class="activity-time">${relativeTime}</span>
-          </div>
-          <div class="conflict-warning">
-            Click to view conflict details and resolve
-          </div>
-        </div>
-      </div>
-    `;
-  }
-
-  // Standard activity item
+  const syncBadge = item.pulledAt
+    ? getSourceBadge(item.source)
+    : getSyncBadge(item.syncStatus);
   return `
     <div class="activity-item" data-item-id="${item.id}">
       <div class="activity-icon">${icon}</div>
@@ -439,6 +615,8 @@ function getActionIcon(action: ActivityLogItem["action"]): string {
     coach_fix_applied: "✍️",
     media_ocr: "📷",
     media_transcribe: "🎤",
+    study_session_completed: "🧠",
+    sync_conflict: "🔀",
   };
   return icons[action] || "📋";
 }
@@ -456,6 +634,8 @@ function getActionText(action: ActivityLogItem["action"]): string {
     coach_fix_applied: "Writing Coach Used",
     media_ocr: "Image Text Extracted",
     media_transcribe: "Audio Transcribed",
+    study_session_completed: "Review Session Completed",
+    sync_conflict: "Sync Conflict Merged",
   };
   return texts[action] || action;
 }
@@ -492,6 +672,18 @@ function getSyncBadge(status: ActivityLogItem["syncStatus"]): string {
   return badges[status] || "";
 }
 
+/**
+ * Get badge for activity pulled from another device
+ */
+function getSourceBadge(source: ActivityLogItem["source"]): string {
+  const badges: Record<string, string> = {
+    web: '<span class="sync-badge source">🌐 Web app</span>',
+    mobile: '<span class="sync-badge source">📱 Mobile app</span>',
+    extension: '<span class="sync-badge source">💻 Another device</span>',
+  };
+  return badges[source ?? ""] || "";
+}
+
 /**
  * Render metadata details
  */
@@ -563,17 +755,17 @@ async function updateSyncStatus(): Promise<void> {
   try {
     // Get counts
     const counts = await getActivityCounts(currentUserId);
-    const syncQueueCount = await db.syncQueue.count();
-    const failedSyncCount = await db.syncQueue
-      .where("retryCount")
-      .above(0)
-      .count();
+    const {
+      total: syncQueueCount,
+      failed: failedSyncCount,
+      deadLettered: deadLetteredCount,
+    } = await getSyncQueueStats(currentUserId);
 
     // Update status dot and text (T157)
     const statusDot = document.getElementById("sync-status-dot");
     const statusText = document.getElementById("sync-status-text");
 
-    if (failedSyncCount > 0) {
+    if (failedSyncCount > 0 || deadLetteredCount > 0) {
       statusDot?.setAttribute("data-status", "failed");
       if (statusText) statusText.textContent = "Sync Failed";
     } else if (syncQueueCount > 0) {
@@ -605,7 +797,7 @@ async function updateSyncStatus(): Promise<void> {
     if (failedBadge) {
       const badgeText = failedBadge.querySelector(".badge-text");
       if (badgeText) {
-        badgeText.textContent = `${failedSyncCount} failed`;
+        badgeText.textContent = `${failedSyncCount + deadLetteredCount} failed`;
       }
     }
 
@@ -653,12 +845,15 @@ async function handleSyncNow(): Promise<void> {
 
     // Show success toast (T167)
     showSyncToast(
-      `✓ Synced successfully! ${response.syncedCount || 0} items synced, ${response.failedCount || 0} errors.`,
+      response.cancelled
+        ? `Sync cancelled. ${response.syncedCount || 0} items synced, the rest stays queued.`
+        : `✓ Synced successfully! ${response.syncedCount || 0} items synced, ${response.failedCount || 0} errors.`,
       "success",
     );
 
     // Reload activity items
     await loadActivityItems();
+    await loadDeadLetterItems();
   } catch (error) {
     console.error("[Glotian Activity] Sync failed:", error);
     showSyncToast(`✗ Sync failed: ${(error as Error).message}`, "error");
@@ -679,15 +874,15 @@ async function handleRetryFailed(): Promise<void> {
 
   try {
     // Reset retry count for all failed items in sync queue
-    const failedItems = await db.syncQueue
-      .where("retryCount")
-      .above(0)
+    const failedItems = await whereUserSyncItems(currentUserId)
+      .filter((item) => item.retryCount > 0)
       .toArray();
 
     for (const item of failedItems) {
       await db.syncQueue.update(item.id!, {
         retryCount: 0,
         lastAttempt: null,
+        nextAttemptAt: null,
         error: null,
       });
     }
@@ -717,29 +912,164 @@ async function handleRetryFailed(): Promise<void> {
  * Show sync progress indicator (T166)
  */
 function showSyncProgress(): void {
-  const progressEl = document.getElementById("sync-progress");
-  if (progressEl) {
-    progressEl.classList.remove("hidden");
+  if (syncProgressHideTimer !== null) {
+    clearTimeout(syncProgressHideTimer);
+    syncProgressHideTimer = null;
   }
 
-  // Animate progress bar
-  const progressFill = document.getElementById("progress-fill");
-  if (progressFill) {
-    progressFill.style.width = "0%";
-    setTimeout(() => {
-      progressFill.style.width = "100%";
-    }, 100);
+  document.getElementById("sync-progress")?.classList.remove("hidden");
+
+  // Filled in by the SYNC_PROGRESS events of the run
+  if (!syncProgressRunId) {
+    setSyncProgress(0, 0, "Starting sync...");
+    const logEl = document.getElementById("sync-progress-log");
+    if (logEl) logEl.innerHTML = "";
   }
 }
 
 /**
- * Hide sync progress indicator
+ * Hide sync progress indicator (after a moment, so the result can be read)
  */
 function hideSyncProgress(): void {
-  const progressEl = document.getElementById("sync-progress");
-  if (progressEl) {
-    progressEl.classList.add("hidden");
+  if (syncProgressRunId || syncProgressHideTimer !== null) return;
+
+  syncProgressHideTimer = window.setTimeout(() => {
+    syncProgressHideTimer = null;
+    document.getElementById("sync-progress")?.classList.add("hidden");
+  }, 3000);
+}
+
+/**
+ * Mirror a sync run's SYNC_PROGRESS events (from any trigger, not just
+ * Sync Now) in the progress bar and live log
+ */
+function handleSyncProgress(runId: string, event: SyncProgressEvent): void {
+  if (event.phase === "started") {
+    // Runs with nothing to push aren't worth showing (a manual sync keeps
+    // its indicator until the reply)
+    if (event.total === 0) {
+      if (!syncProgressRunId) {
+        setSyncProgress(0, 0, "Nothing to push. Checking for changes...");
+      }
+      return;
+    }
+
+    syncProgressRunId = runId;
+    syncProgressDone = 0;
+    const logEl = document.getElementById("sync-progress-log");
+    if (logEl) logEl.innerHTML = "";
+    showSyncProgress();
+    setSyncProgress(0, event.total, `Syncing 0/${event.total} items...`);
+    setCancelButtonVisible(true);
+    return;
   }
+
+  if (runId !== syncProgressRunId) return;
+
+  switch (event.phase) {
+    case "item":
+      setSyncProgress(
+        syncProgressDone,
+        event.total,
+        `Syncing ${event.index}/${event.total}: ${event.operation} in ${formatTableName(event.table)}...`,
+      );
+      break;
+
+    case "result": {
+      syncProgressDone++;
+      setSyncProgress(
+        syncProgressDone,
+        event.total,
+        `Synced ${syncProgressDone}/${event.total} items...`,
+      );
+      appendSyncLogLine(event);
+      break;
+    }
+
+    case "finished": {
+      const { synced, failed, conflicts } = event.stats;
+      const summary = `${synced} synced, ${failed} failed, ${conflicts} conflicts`;
+      setSyncProgress(
+        syncProgressDone,
+        Math.max(syncProgressDone, 1),
+        event.cancelled
+          ? `Sync cancelled: ${summary}. The rest stays queued.`
+          : `Sync finished: ${summary}.`,
+      );
+      setCancelButtonVisible(false);
+      syncProgressRunId = null;
+      hideSyncProgress();
+      break;
+    }
+  }
+}
+
+function setSyncProgress(done: number, total: number, text: string): void {
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  const progressFill = document.getElementById("progress-fill");
+  if (progressFill) progressFill.style.width = `${percent}%`;
+
+  const progressBar = document.getElementById("progress-bar");
+  progressBar?.setAttribute("aria-valuemax", String(total));
+  progressBar?.setAttribute("aria-valuenow", String(done));
+
+  const progressText = document.getElementById("progress-text");
+  if (progressText) progressText.textContent = text;
+}
+
+function appendSyncLogLine(
+  event: Extract<SyncProgressEvent, { phase: "result" }>,
+): void {
+  const logEl = document.getElementById("sync-progress-log");
+  if (!logEl) return;
+
+  const icons: Record<string, string> = {
+    synced: "✓",
+    conflict: "🔀",
+    failed: "✗",
+    skipped: "⏭",
+  };
+  const line = document.createElement("li");
+  line.dataset.result = event.result;
+  line.textContent =
+    `${icons[event.result] ?? ""} ${event.index}/${event.total} ` +
+    `${formatTableName(event.table)} ${event.entityId.slice(0, 8)}: ${event.result}` +
+    (event.error ? ` (${event.error})` : "");
+  logEl.prepend(line);
+
+  while (logEl.children.length > SYNC_LOG_LIMIT) {
+    logEl.lastElementChild?.remove();
+  }
+}
+
+function setCancelButtonVisible(visible: boolean): void {
+  const cancelBtn = document.getElementById("sync-cancel-btn");
+  if (!cancelBtn) return;
+
+  cancelBtn.classList.toggle("hidden", !visible);
+  cancelBtn.removeAttribute("disabled");
+  cancelBtn.textContent = "Cancel";
+}
+
+/**
+ * Stop the running sync before its next request
+ */
+async function handleCancelSync(): Promise<void> {
+  const cancelBtn = document.getElementById("sync-cancel-btn");
+  cancelBtn?.setAttribute("disabled", "true");
+  if (cancelBtn) cancelBtn.textContent = "Cancelling...";
+
+  try {
+    await chrome.runtime.sendMessage({ type: "CANCEL_SYNC" });
+  } catch (error) {
+    console.error("[Glotian Activity] Cancel sync failed:", error);
+    setCancelButtonVisible(Boolean(syncProgressRunId));
+  }
+}
+
+function formatTableName(table: string): string {
+  return table.replace(/_/g, " ");
 }
 
 /**
@@ -773,6 +1103,17 @@ function setupSyncStatusListener(): void {
     if (message.type === "SYNC_STATUS") {
       console.log("[Glotian Activity] Received SYNC_STATUS message:", message);
       updateSyncStatus();
+    } else if (message.type === "SYNC_PROGRESS") {
+      handleSyncProgress(message.runId, message.event);
+    } else if (message.type === "SYNC_COMPLETE") {
+      // Activity from other devices may have been pulled
+      updateSyncStatus();
+      loadActivityItems();
+    } else if (
+      message.type === "SYNC_CONFLICTS_UPDATED" &&
+      message.userId === currentUserId
+    ) {
+      loadSyncConflicts();
     }
   };
 
@@ -812,61 +1153,45 @@ function escapeHtml(str: string): string {
   return div.innerHTML;
 }
 
-function showConflictModal(conflictData: any): void {
+/**
+ * Show a conflict side by side and let the user pick a version (T175-T176)
+ */
+function showConflictModal(conflict: SyncConflict): void {
   const modal = document.createElement("div");
   modal.className = "conflict-modal";
 
-  const previewText = (note: any): string => {
-    if (!note) return "";
-    const content = note.content ?? note.translated_text ?? note.original_text;
-    if (!content || typeof content !== "string") return "";
-    return content.substring(0, 100);
-  };
-
-  const localText = previewText(conflictData.localVersion);
-  const serverText = previewText(conflictData.serverVersion);
-
-  const toDisplayDate = (value?: string): string =>
-    value ? new Date(value).toLocaleString() : "Unknown";
-
-  const localUpdated =
-    conflictData.localVersion?.updatedAt ??
-    conflictData.localVersion?.updated_at;
-  const serverUpdated =
-    conflictData.serverVersion?.updatedAt ??
-    conflictData.serverVersion?.updated_at;
-
-  const localDate = localUpdated ? toDisplayDate(localUpdated) : "Unknown";
-  const serverDate = serverUpdated ? toDisplayDate(serverUpdated) : "Unknown";
+  const isDelete = conflict.operation === "delete";
+  const label = getTableLabel(conflict.table);
+  const serverDate = conflict.serverUpdatedAt
+    ? new Date(conflict.serverUpdatedAt).toLocaleString()
+    : "Unknown";
 
   modal.innerHTML = `
     <div class="modal-backdrop"></div>
     <div class="modal-content">
       <div class="modal-header">
-        <h3>Sync Conflict Detected</h3>
+        <h3>Sync Conflict</h3>
         <button class="modal-close">&times;</button>
       </div>
       <div class="modal-body">
         <p class="conflict-explanation">
-          This note was modified on both the server and locally. Please choose which version to keep:
+          ${escapeHtml(
+            isDelete
+              ? `You deleted this ${label} here, but it was changed on the server.`
+              : `This ${label} was changed both here and on the server. Keep one version, or edit the values.`,
+          )}
         </p>
-        <div class="conflict-versions">
-          <div class="version-card">
-            <h4>Local Version</h4>
-            <div class="version-details">
-              <p><strong>Modified:</strong> ${escapeHtml(localDate)}</p>
-              <p><strong>Content:</strong> ${escapeHtml(localText)}...</p>
-            </div>
-            <button class="version-button" data-choice="local">Keep Local</button>
-          </div>
-          <div class="version-card">
-            <h4>Server Version</h4>
-            <div class="version-details">
-              <p><strong>Modified:</strong> ${escapeHtml(serverDate)}</p>
-              <p><strong>Content:</strong> ${escapeHtml(serverText)}...</p>
-            </div>
-            <button class="version-button" data-choice="server">Keep Server</button>
-          </div>
+        <p class="conflict-server-date">Server version: ${escapeHtml(serverDate)}</p>
+        ${
+          isDelete
+            ? ""
+            : `<div class="conflict-fields">${conflict.fields.map(renderConflictField).join("")}</div>`
+        }
+        <div class="conflict-error hidden" data-role="conflict-error"></div>
+        <div class="conflict-actions">
+          <button class="version-button" data-choice="local">${isDelete ? "Delete It" : "Keep Local"}</button>
+          <button class="version-button" data-choice="server">Keep Server</button>
+          ${isDelete ? "" : `<button class="version-button" data-role="edit">Edit</button>`}
         </div>
       </div>
     </div>
@@ -874,50 +1199,186 @@ function showConflictModal(conflictData: any): void {
 
   document.body.appendChild(modal);
 
-  // Setup event listeners
-  modal.querySelector(".modal-close")?.addEventListener("click", () => {
-    modal.remove();
-  });
+  const close = () => modal.remove();
+  modal.querySelector(".modal-close")?.addEventListener("click", close);
+  modal.querySelector(".modal-backdrop")?.addEventListener("click", close);
 
-  modal.querySelector(".modal-backdrop")?.addEventListener("click", () => {
-    modal.remove();
-  });
+  const showError = (message: string) => {
+    const errorEl = modal.querySelector('[data-role="conflict-error"]');
+    if (!errorEl) return;
+    errorEl.textContent = message;
+    errorEl.classList.remove("hidden");
+  };
 
-  modal.querySelectorAll(".version-button").forEach((btn) => {
-    btn.addEventListener("click", async (e) => {
-      const choice = (e.target as HTMLElement).dataset.choice;
-      await resolveConflict(
-        conflictData.entityId,
-        choice as "local" | "server",
-      );
-      modal.remove();
+  const submit = async (
+    choice: SyncConflictChoice,
+    values?: Record<string, unknown>,
+  ) => {
+    const error = await resolveConflict(conflict, choice, values);
+    if (error) {
+      showError(error);
+    } else {
+      close();
+    }
+  };
+
+  modal
+    .querySelectorAll<HTMLButtonElement>(".version-button[data-choice]")
+    .forEach((btn) => {
+      btn.addEventListener("click", () => {
+        void submit(btn.dataset.choice as SyncConflictChoice);
+      });
     });
+
+  const editButton = modal.querySelector<HTMLButtonElement>(
+    '.version-button[data-role="edit"]',
+  );
+  editButton?.addEventListener("click", () => {
+    const inputs = Array.from(
+      modal.querySelectorAll<HTMLTextAreaElement>(".conflict-edit-input"),
+    );
+
+    // First click shows the editors (prefilled with the local values)
+    if (editButton.dataset.editing !== "true") {
+      inputs.forEach((input) => input.classList.remove("hidden"));
+      editButton.dataset.editing = "true";
+      editButton.textContent = "Save Edit";
+      inputs[0]?.focus();
+      return;
+    }
+
+    const values: Record<string, unknown> = {};
+    for (const field of conflict.fields) {
+      const input = inputs.find((item) => item.dataset.field === field.field);
+      try {
+        values[field.field] = parseEditedValue(
+          input?.value ?? "",
+          field.local ?? field.server,
+        );
+      } catch {
+        showError(`Invalid value for ${formatFieldName(field.field)}`);
+        input?.focus();
+        return;
+      }
+    }
+
+    void submit("edit", values);
   });
 }
 
+function renderConflictField(field: SyncConflict["fields"][number]): string {
+  return `
+    <div class="conflict-field">
+      <div class="conflict-field-name">${escapeHtml(formatFieldName(field.field))}</div>
+      <div class="conflict-versions">
+        <div class="version-card">
+          <h4>Local</h4>
+          <div class="version-value">${escapeHtml(formatConflictValue(field.local))}</div>
+        </div>
+        <div class="version-card">
+          <h4>Server</h4>
+          <div class="version-value">${escapeHtml(formatConflictValue(field.server))}</div>
+        </div>
+      </div>
+      <textarea class="conflict-edit-input hidden" data-field="${escapeHtml(field.field)}" rows="2">${escapeHtml(toEditText(field.local))}</textarea>
+    </div>
+  `;
+}
+
+function formatFieldName(field: string): string {
+  return capitalize(field.replace(/_/g, " "));
+}
+
+function formatConflictValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  return toEditText(value);
+}
+
+function toEditText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.join(", ");
+  }
+  return JSON.stringify(value);
+}
+
 /**
- * Resolve sync conflict
+ * Parse an edited value back into the type of the original value
+ *
+ * Lists are comma-separated; numbers, booleans and objects must parse.
+ */
+function parseEditedValue(text: string, original: unknown): unknown {
+  const trimmed = text.trim();
+
+  if (Array.isArray(original)) {
+    return trimmed
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (typeof original === "number") {
+    const value = Number(trimmed);
+    if (trimmed === "" || !Number.isFinite(value)) {
+      throw new Error("Not a number");
+    }
+    return value;
+  }
+  if (typeof original === "boolean") {
+    if (trimmed !== "true" && trimmed !== "false") {
+      throw new Error("Not a boolean");
+    }
+    return trimmed === "true";
+  }
+  if (typeof original === "object" && original !== null) {
+    return JSON.parse(trimmed);
+  }
+  return original === null && trimmed === "" ? null : text;
+}
+
+/**
+ * Resolve a sync conflict in the background, then push the result
+ *
+ * @returns Error message, or null on success
  */
 async function resolveConflict(
-  entityId: string,
-  choice: "local" | "server",
-): Promise<void> {
+  conflict: SyncConflict,
+  choice: SyncConflictChoice,
+  values?: Record<string, unknown>,
+): Promise<string | null> {
+  if (conflict.id === undefined) return "Conflict not found";
+
   try {
     console.log(
-      `[Glotian Activity] Resolving conflict for ${entityId}: ${choice}`,
+      `[Glotian Activity] Resolving conflict for ${conflict.entityId}: ${choice}`,
     );
 
-    // TODO: Implement conflict resolution logic
-    // This should update the sync queue and trigger a sync
+    const response = await chrome.runtime.sendMessage({
+      type: "RESOLVE_SYNC_CONFLICT",
+      conflictId: conflict.id,
+      choice,
+      values,
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || "Failed to resolve conflict");
+    }
 
-    showSyncToast(`✓ Conflict resolved. Keeping ${choice} version.`, "success");
-    await loadActivityItems();
+    if (choice !== "server") {
+      await chrome.runtime.sendMessage({ type: "SYNC_NOW" });
+    }
+
+    const kept = { local: "local", server: "server", edit: "edited" }[choice];
+    showSyncToast(`✓ Conflict resolved. Keeping ${kept} version.`, "success");
+    return null;
   } catch (error) {
     console.error("[Glotian Activity] Error resolving conflict:", error);
     showSyncToast(
       `✗ Failed to resolve conflict: ${(error as Error).message}`,
       "error",
     );
+    return (error as Error).message;
+  } finally {
+    await Promise.all([loadSyncConflicts(), updateSyncStatus()]);
   }
 }
 
@@ -6,11 +6,13 @@
  * - Search functionality with debounce
  * - Filter by tags
  * - Sync status indicators
+ * - Delete notes (to the trash, see the Decks tab)
  */
 
 import { db } from "@/lib/db/schema";
-import type { CachedNote } from "@/types";
+import type { CachedNote, FlashcardCandidate } from "@/types";
 import { getSetting } from "@/lib/storage";
+import { deleteNote } from "@/lib/db/trash";
 
 // State
 let allNotes: CachedNote[] = [];
@@ -52,10 +54,11 @@ async function loadRecentNotes(): Promise<void> {
   }
 
   try {
-    // Query notes ordered by createdAt descending
+    // Query notes ordered by createdAt descending, skipping the trash
     const notes = await db.notes
       .where("userId")
       .equals(userId)
+      .filter((note) => !note.deleted_at)
       .sortBy("createdAt");
 
     // Take only recent 20 (reverse to get descending order)
@@ -278,6 +281,9 @@ function renderNotes(notes: CachedNote[]): void {
         <button class="btn-secondary" data-action="open-web" data-note-id="${note.id}">
           Open in Web App
         </button>
+        <button class="btn-secondary" data-action="delete" data-note-id="${note.id}">
+          Delete
+        </button>
       </div>
     </div>
   `,
@@ -378,6 +384,8 @@ function attachNoteActionListeners(): void {
         await createFlashcardsFromNote(noteId);
       } else if (action === "open-web") {
         await openNoteInWebApp(noteId);
+      } else if (action === "delete") {
+        await deleteNoteToTrash(noteId);
       }
     });
   });
@@ -415,6 +423,9 @@ Status: ${note.syncStatus}
 
 /**
  * Create flashcards from note
+ *
+ * Asks the background to extract candidates, then lets the user accept or
+ * reject each one before anything is written.
  */
 async function createFlashcardsFromNote(noteId: string): Promise<void> {
   const note = await db.notes.get(noteId);
@@ -430,17 +441,176 @@ async function createFlashcardsFromNote(noteId: string): Promise<void> {
       noteId,
     });
 
-    if (response.success) {
-      alert(`Created ${response.count} flashcards from this note!`);
-    } else {
-      alert("Failed to create flashcards: " + response.error);
+    if (!response?.success) {
+      alert("Failed to create flashcards: " + response?.error);
+      return;
     }
+
+    const candidates = (response.candidates ?? []) as FlashcardCandidate[];
+    if (candidates.length === 0) {
+      alert("No flashcard candidates were found in this note.");
+      return;
+    }
+
+    showFlashcardPreview(noteId, candidates, response.aiSource);
   } catch (error) {
     console.error("[Glotian Capture] Error creating flashcards:", error);
     alert("Failed to create flashcards. Please try again.");
   }
 }
 
+/**
+ * Show extracted flashcard candidates for review before saving
+ */
+function showFlashcardPreview(
+  noteId: string,
+  candidates: FlashcardCandidate[],
+  aiSource: "chrome" | "heuristic",
+): void {
+  const modal = document.createElement("div");
+  modal.className = "flashcard-preview-modal";
+
+  const rowsHTML = candidates
+    .map(
+      (candidate, index) => `
+      <div class="flashcard-preview-item" data-index="${index}">
+        <label class="flashcard-preview-accept">
+          <input type="checkbox" data-role="accept" ${candidate.definition ? "checked" : ""} />
+          <span class="flashcard-preview-term">${escapeHtml(candidate.term)}</span>
+          ${candidate.partOfSpeech ? `<span class="tag">${escapeHtml(candidate.partOfSpeech)}</span>` : ""}
+        </label>
+        <input
+          type="text"
+          class="search-input"
+          data-role="definition"
+          placeholder="Definition"
+        />
+        ${
+          candidate.exampleSentences.length > 0
+            ? `<div class="note-summary">${escapeHtml(candidate.exampleSentences[0])}</div>`
+            : ""
+        }
+      </div>
+    `,
+    )
+    .join("");
+
+  modal.innerHTML = `
+    <div class="modal-backdrop"></div>
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3>Review Flashcards</h3>
+        <button class="modal-close">&times;</button>
+      </div>
+      <div class="modal-body">
+        <p class="placeholder">
+          ${
+            aiSource === "heuristic"
+              ? "AI is unavailable, so these terms come from keyword detection. Add a definition to each card you want to keep."
+              : "Uncheck any card you don't want to keep. You can edit definitions before saving."
+          }
+        </p>
+        <div class="flashcard-preview-list">${rowsHTML}</div>
+        <p class="placeholder hidden" data-role="preview-error"></p>
+      </div>
+      <div class="note-actions">
+        <button class="btn-secondary" data-action="cancel">Cancel</button>
+        <button class="btn-primary" data-action="save">Save Selected</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  const close = () => modal.remove();
+  modal.querySelector(".modal-close")?.addEventListener("click", close);
+  modal.querySelector(".modal-backdrop")?.addEventListener("click", close);
+  modal
+    .querySelector('[data-action="cancel"]')
+    ?.addEventListener("click", close);
+
+  // Fill definitions via the DOM (not markup) and let typing one accept the card
+  modal.querySelectorAll(".flashcard-preview-item").forEach((row) => {
+    const index = Number(row.getAttribute("data-index"));
+    const definitionInput = row.querySelector(
+      '[data-role="definition"]',
+    ) as HTMLInputElement | null;
+    const acceptInput = row.querySelector(
+      '[data-role="accept"]',
+    ) as HTMLInputElement | null;
+    if (definitionInput) {
+      definitionInput.value = candidates[index]?.definition ?? "";
+    }
+    definitionInput?.addEventListener("input", () => {
+      if (acceptInput && definitionInput.value.trim()) {
+        acceptInput.checked = true;
+      }
+    });
+  });
+
+  const saveButton = modal.querySelector(
+    '[data-action="save"]',
+  ) as HTMLButtonElement | null;
+  saveButton?.addEventListener("click", async () => {
+    const accepted: FlashcardCandidate[] = [];
+    modal.querySelectorAll(".flashcard-preview-item").forEach((row) => {
+      const index = Number(row.getAttribute("data-index"));
+      const candidate = candidates[index];
+      const acceptInput = row.querySelector(
+        '[data-role="accept"]',
+      ) as HTMLInputElement | null;
+      const definitionInput = row.querySelector(
+        '[data-role="definition"]',
+      ) as HTMLInputElement | null;
+
+      if (candidate && acceptInput?.checked) {
+        accepted.push({
+          ...candidate,
+          definition: definitionInput?.value.trim() ?? candidate.definition,
+        });
+      }
+    });
+
+    const errorEl = modal.querySelector('[data-role="preview-error"]');
+    const missingDefinition = accepted.find((card) => !card.definition);
+    if (accepted.length === 0 || missingDefinition) {
+      if (errorEl) {
+        errorEl.textContent = missingDefinition
+          ? `Add a definition for "${missingDefinition.term}" or uncheck it.`
+          : "Select at least one flashcard to save.";
+        errorEl.classList.remove("hidden");
+      }
+      return;
+    }
+
+    saveButton.disabled = true;
+    saveButton.textContent = "Saving...";
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "SAVE_EXTRACTED_FLASHCARDS",
+        noteId,
+        candidates: accepted,
+      });
+
+      if (!response?.success) {
+        throw new Error(response?.error || "Failed to save flashcards.");
+      }
+
+      close();
+      alert(`Created ${response.count} flashcards from this note!`);
+    } catch (error) {
+      console.error("[Glotian Capture] Error saving flashcards:", error);
+      if (errorEl) {
+        errorEl.textContent = (error as Error).message;
+        errorEl.classList.remove("hidden");
+      }
+      saveButton.disabled = false;
+      saveButton.textContent = "Save Selected";
+    }
+  });
+}
+
 /**
  * Open note in web app
  */
@@ -469,6 +639,24 @@ async function openNoteInWebApp(noteId: string): Promise<void> {
   chrome.tabs.create({ url: webAppUrl });
 }
 
+/**
+ * Move a note to the trash
+ */
+async function deleteNoteToTrash(noteId: string): Promise<void> {
+  const userId = await getSetting("userId");
+  if (!userId) return;
+
+  if (!confirm("Move this note to the trash?")) return;
+
+  try {
+    await deleteNote(userId, noteId);
+    await loadRecentNotes();
+  } catch (error) {
+    console.error("[Glotian Capture] Error deleting note:", error);
+    alert("Failed to delete note. Please try again.");
+  }
+}
+
 /**
  * Listen for note updates from background
  */
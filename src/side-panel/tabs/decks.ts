@@ -0,0 +1,504 @@
+/**
+ * Decks tab component
+ *
+ * Deck manager for cached flashcard decks:
+ * - List, create, rename, delete (soft) and merge decks
+ * - Browse a deck's cards, move them to another deck or delete them
+ * - Restore deleted notes, decks and cards from the trash
+ * - Export a deck as an Anki package or TSV file
+ * - Import cards from CSV/TSV files
+ *
+ * All changes are written locally and queued for sync.
+ */
+
+import { getSetting } from "@/lib/storage";
+import {
+  createDeck,
+  deleteDeck,
+  deleteFlashcards,
+  listDeckFlashcards,
+  listDecks,
+  mergeDecks,
+  moveFlashcards,
+  updateDeck,
+} from "@/lib/db/flashcards";
+import { exportDecks, type DeckExportFormat } from "@/lib/export/anki";
+import { downloadBlob } from "@/utils/dom";
+import {
+  initFlashcardImport,
+  setImportDecks,
+} from "../components/flashcard-import";
+import { initTrash, refreshTrash } from "../components/trash";
+import {
+  coerceNonAutoLanguage,
+  ensureSupportedSourceLanguage,
+  getDefaultLanguagePreferences,
+} from "@/lib/language";
+import type { CachedDeck } from "@/types";
+
+const DECK_LANGUAGES = [
+  { code: "en", name: "English" },
+  { code: "ko", name: "Korean" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "zh-hans", name: "Chinese (Simplified)" },
+  { code: "zh-hant", name: "Chinese (Traditional)" },
+  { code: "ja", name: "Japanese" },
+  { code: "it", name: "Italian" },
+  { code: "pt", name: "Portuguese" },
+  { code: "ru", name: "Russian" },
+  { code: "ar", name: "Arabic" },
+  { code: "hi", name: "Hindi" },
+];
+
+// Tab state
+let tabContainer: HTMLElement | null = null;
+let userId: string | null = null;
+let decks: CachedDeck[] = [];
+let expandedDeckId: string | null = null;
+let isBusy = false;
+
+/**
+ * Initialize Decks tab
+ */
+export async function initDecksTab(container: HTMLElement): Promise<void> {
+  console.log("[Glotian Decks Tab] Initializing");
+
+  tabContainer = container;
+  userId = (await getSetting("userId")) ?? null;
+
+  const defaults = getDefaultLanguagePreferences();
+  const defaultLanguage = coerceNonAutoLanguage(
+    ensureSupportedSourceLanguage(
+      await getSetting("sourceLanguage"),
+      defaults.sourceLanguage,
+    ),
+    "en",
+  );
+
+  renderDecksTab(container, defaultLanguage);
+  attachEventListeners(container);
+
+  if (!userId) {
+    setMessage("Log in to manage your decks.");
+    return;
+  }
+
+  const importContainer = container.querySelector<HTMLElement>("#deck-import");
+  if (importContainer) {
+    initFlashcardImport(importContainer, {
+      userId,
+      onImported: refreshDeckList,
+    });
+  }
+
+  const trashContainer = container.querySelector<HTMLElement>("#deck-trash");
+  if (trashContainer) {
+    initTrash(trashContainer, { userId, onChanged: refreshDeckList });
+  }
+
+  await refreshDeckList();
+}
+
+/**
+ * Render Decks tab HTML
+ */
+function renderDecksTab(container: HTMLElement, defaultLanguage: string): void {
+  container.innerHTML = `
+    <div class="decks-tab">
+      <form id="deck-create-form" class="deck-create-form">
+        <span class="label-text">New Deck</span>
+        <input id="deck-create-name" class="input-base" type="text" maxlength="100" placeholder="Deck name" required />
+        <select id="deck-create-language" class="input-base">
+          ${DECK_LANGUAGES.map(
+            (lang) =>
+              `<option value="${lang.code}" ${lang.code === defaultLanguage ? "selected" : ""}>${lang.name}</option>`,
+          ).join("")}
+        </select>
+        <input id="deck-create-description" class="input-base" type="text" maxlength="500" placeholder="Description (optional)" />
+        <button type="submit" class="primary-button">Create Deck</button>
+      </form>
+
+      <div id="deck-import"></div>
+
+      <p id="decks-message" class="decks-message hidden" role="status"></p>
+
+      <label class="deck-export-option">
+        <input type="checkbox" id="deck-export-scheduling" />
+        <span>Include review progress in Anki exports</span>
+      </label>
+
+      <div id="deck-list" class="deck-list"></div>
+
+      <div id="deck-trash"></div>
+    </div>
+  `;
+}
+
+/**
+ * Attach event listeners
+ */
+function attachEventListeners(container: HTMLElement): void {
+  const form = container.querySelector(
+    "#deck-create-form",
+  ) as HTMLFormElement | null;
+  form?.addEventListener("submit", (event) => {
+    event.preventDefault();
+    void handleCreateDeck(container);
+  });
+
+  // Deck actions are delegated so re-rendering the list keeps them working
+  const deckList = container.querySelector("#deck-list");
+  deckList?.addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      "button[data-action]",
+    );
+    const deckId =
+      button?.closest<HTMLElement>("[data-deck-id]")?.dataset.deckId;
+    if (!button || !deckId) return;
+
+    switch (button.dataset.action) {
+      case "toggle-cards":
+        void toggleDeckCards(deckId);
+        break;
+      case "rename":
+        void handleRenameDeck(deckId);
+        break;
+      case "merge":
+        void handleMergeDeck(deckId);
+        break;
+      case "delete":
+        void handleDeleteDeck(deckId);
+        break;
+      case "move-cards":
+        void handleMoveCards(deckId);
+        break;
+      case "delete-cards":
+        void handleDeleteCards(deckId);
+        break;
+      case "export-apkg":
+        void handleExportDeck(deckId, "apkg");
+        break;
+      case "export-tsv":
+        void handleExportDeck(deckId, "tsv");
+        break;
+    }
+  });
+}
+
+/**
+ * Reload decks from IndexedDB and re-render the list
+ */
+async function refreshDeckList(): Promise<void> {
+  if (!userId || !tabContainer) return;
+
+  decks = await listDecks(userId);
+  setImportDecks(decks);
+  if (expandedDeckId && !decks.some((deck) => deck.id === expandedDeckId)) {
+    expandedDeckId = null;
+  }
+
+  const deckList = tabContainer.querySelector("#deck-list");
+  if (!deckList) return;
+
+  if (decks.length === 0) {
+    deckList.innerHTML = `
+      <div class="empty-state">
+        <h3>No decks yet</h3>
+        <p>Create a deck above, or save flashcards from your notes and summaries.</p>
+      </div>
+    `;
+    return;
+  }
+
+  deckList.innerHTML = decks
+    .map(
+      (deck) => `
+      <div class="deck-item" data-deck-id="${deck.id}">
+        <div class="deck-item-header">
+          <div class="deck-item-title">
+            <span class="deck-name">${escapeHtml(deck.name)}</span>
+            <span class="badge badge-secondary">${escapeHtml(deck.language.toUpperCase())}</span>
+            ${deck.syncStatus === "pending" ? '<span class="sync-badge pending">pending</span>' : ""}
+          </div>
+          <span class="deck-card-count">${deck.card_count} card${deck.card_count === 1 ? "" : "s"}</span>
+        </div>
+        ${deck.description ? `<p class="deck-description">${escapeHtml(deck.description)}</p>` : ""}
+        <div class="deck-actions">
+          <button class="btn-ghost" data-action="toggle-cards">${expandedDeckId === deck.id ? "Hide cards" : "Cards"}</button>
+          <button class="btn-ghost" data-action="rename">Rename</button>
+          <button class="btn-ghost" data-action="merge" ${decks.length < 2 ? "disabled" : ""}>Merge</button>
+          <button class="btn-ghost" data-action="export-apkg">Anki</button>
+          <button class="btn-ghost" data-action="export-tsv">TSV</button>
+          <button class="btn-ghost deck-delete" data-action="delete">Delete</button>
+        </div>
+        <div class="deck-cards ${expandedDeckId === deck.id ? "" : "hidden"}" data-cards-for="${deck.id}"></div>
+      </div>
+    `,
+    )
+    .join("");
+
+  if (expandedDeckId) {
+    await renderDeckCards(expandedDeckId);
+  }
+}
+
+/**
+ * Render the card list (with move controls) for an expanded deck
+ */
+async function renderDeckCards(deckId: string): Promise<void> {
+  if (!userId || !tabContainer) return;
+
+  const cardsContainer = tabContainer.querySelector(
+    `[data-cards-for="${deckId}"]`,
+  );
+  if (!cardsContainer) return;
+
+  const flashcards = await listDeckFlashcards(userId, deckId);
+  if (flashcards.length === 0) {
+    cardsContainer.innerHTML = `<p class="deck-cards-empty">This deck has no cards.</p>`;
+    return;
+  }
+
+  const otherDecks = decks.filter((deck) => deck.id !== deckId);
+
+  cardsContainer.innerHTML = `
+    <ul class="deck-card-list">
+      ${flashcards
+        .map(
+          (card) => `
+        <li class="deck-card-row">
+          <label>
+            <input type="checkbox" class="deck-card-select" value="${card.id}" />
+            <span class="deck-card-term">${escapeHtml(card.term)}</span>
+            <span class="deck-card-definition">${escapeHtml(card.definition)}</span>
+          </label>
+        </li>
+      `,
+        )
+        .join("")}
+    </ul>
+    <div class="deck-move-controls">
+      ${
+        otherDecks.length > 0
+          ? `
+        <select class="filter-select deck-move-target">
+          ${otherDecks
+            .map(
+              (deck) =>
+                `<option value="${deck.id}">${escapeHtml(deck.name)}</option>`,
+            )
+            .join("")}
+        </select>
+        <button class="secondary-button" data-action="move-cards">Move selected</button>
+      `
+          : ""
+      }
+      <button class="btn-ghost deck-delete" data-action="delete-cards">Delete selected</button>
+    </div>
+  `;
+}
+
+async function toggleDeckCards(deckId: string): Promise<void> {
+  expandedDeckId = expandedDeckId === deckId ? null : deckId;
+  await refreshDeckList();
+}
+
+async function handleCreateDeck(container: HTMLElement): Promise<void> {
+  if (!userId || isBusy) return;
+
+  const nameInput = container.querySelector(
+    "#deck-create-name",
+  ) as HTMLInputElement | null;
+  const languageSelect = container.querySelector(
+    "#deck-create-language",
+  ) as HTMLSelectElement | null;
+  const descriptionInput = container.querySelector(
+    "#deck-create-description",
+  ) as HTMLInputElement | null;
+  if (!nameInput || !languageSelect) return;
+
+  await runDeckAction(async () => {
+    const deck = await createDeck(userId!, {
+      name: nameInput.value,
+      language: languageSelect.value,
+      description: descriptionInput?.value ?? null,
+    });
+    nameInput.value = "";
+    if (descriptionInput) descriptionInput.value = "";
+    return `Created "${deck.name}".`;
+  });
+}
+
+async function handleRenameDeck(deckId: string): Promise<void> {
+  const deck = decks.find((item) => item.id === deckId);
+  if (!deck) return;
+
+  const name = prompt("Rename deck", deck.name);
+  if (name === null || name.trim() === deck.name) return;
+
+  await runDeckAction(async () => {
+    const updated = await updateDeck(deckId, { name });
+    return `Renamed to "${updated.name}".`;
+  });
+}
+
+async function handleMergeDeck(deckId: string): Promise<void> {
+  const source = decks.find((item) => item.id === deckId);
+  const targets = decks.filter((item) => item.id !== deckId);
+  if (!source || targets.length === 0) return;
+
+  const choices = targets
+    .map((deck, index) => `${index + 1}. ${deck.name}`)
+    .join("\n");
+  const answer = prompt(
+    `Merge "${source.name}" into which deck? Enter a number:\n${choices}`,
+  );
+  if (answer === null) return;
+
+  const target = targets[Number(answer.trim()) - 1];
+  if (!target) {
+    setMessage("Please enter one of the listed numbers.", true);
+    return;
+  }
+
+  if (
+    !confirm(
+      `Move all ${source.card_count} cards from "${source.name}" into "${target.name}" and delete "${source.name}"?`,
+    )
+  ) {
+    return;
+  }
+
+  await runDeckAction(async () => {
+    const { movedCards } = await mergeDecks(source.id, target.id);
+    return `Merged ${movedCards} card${movedCards === 1 ? "" : "s"} into "${target.name}".`;
+  });
+}
+
+async function handleDeleteDeck(deckId: string): Promise<void> {
+  const deck = decks.find((item) => item.id === deckId);
+  if (!deck) return;
+
+  if (
+    !confirm(
+      `Delete "${deck.name}" and its ${deck.card_count} card${deck.card_count === 1 ? "" : "s"}?`,
+    )
+  ) {
+    return;
+  }
+
+  await runDeckAction(async () => {
+    await deleteDeck(deckId);
+    return `Moved "${deck.name}" to the trash.`;
+  });
+}
+
+async function handleDeleteCards(deckId: string): Promise<void> {
+  const selectedIds = getSelectedCardIds(deckId);
+  if (selectedIds.length === 0) {
+    setMessage("Select at least one card to delete.", true);
+    return;
+  }
+
+  await runDeckAction(async () => {
+    const deleted = await deleteFlashcards(selectedIds);
+    return `Moved ${deleted} card${deleted === 1 ? "" : "s"} to the trash.`;
+  });
+}
+
+async function handleMoveCards(deckId: string): Promise<void> {
+  const cardsContainer = tabContainer?.querySelector(
+    `[data-cards-for="${deckId}"]`,
+  );
+  if (!cardsContainer) return;
+
+  const selectedIds = getSelectedCardIds(deckId);
+  const targetSelect =
+    cardsContainer.querySelector<HTMLSelectElement>(".deck-move-target");
+
+  if (selectedIds.length === 0 || !targetSelect) {
+    setMessage("Select at least one card to move.", true);
+    return;
+  }
+
+  const target = decks.find((deck) => deck.id === targetSelect.value);
+  await runDeckAction(async () => {
+    const moved = await moveFlashcards(selectedIds, targetSelect.value);
+    return `Moved ${moved} card${moved === 1 ? "" : "s"} to "${target?.name ?? "deck"}".`;
+  });
+}
+
+function getSelectedCardIds(deckId: string): string[] {
+  const cardsContainer = tabContainer?.querySelector(
+    `[data-cards-for="${deckId}"]`,
+  );
+  if (!cardsContainer) return [];
+
+  return Array.from(
+    cardsContainer.querySelectorAll<HTMLInputElement>(
+      ".deck-card-select:checked",
+    ),
+  ).map((checkbox) => checkbox.value);
+}
+
+async function handleExportDeck(
+  deckId: string,
+  format: DeckExportFormat,
+): Promise<void> {
+  if (!userId || isBusy) return;
+
+  const includeScheduling =
+    tabContainer?.querySelector<HTMLInputElement>("#deck-export-scheduling")
+      ?.checked ?? false;
+
+  await runDeckAction(async () => {
+    const { filename, blob, cardCount } = await exportDecks(
+      userId!,
+      [deckId],
+      format,
+      { includeScheduling },
+    );
+    downloadBlob(blob, filename);
+    return `Exported ${cardCount} card${cardCount === 1 ? "" : "s"} to ${filename}.`;
+  });
+}
+
+/**
+ * Run a deck mutation, then refresh the list and report the outcome
+ */
+async function runDeckAction(action: () => Promise<string>): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+
+  try {
+    const message = await action();
+    setMessage(message);
+  } catch (error) {
+    console.error("[Glotian Decks Tab] Deck action failed:", error);
+    setMessage(
+      error instanceof Error ? error.message : "Something went wrong.",
+      true,
+    );
+  } finally {
+    isBusy = false;
+    await refreshDeckList();
+    await refreshTrash();
+  }
+}
+
+function setMessage(message: string, isError = false): void {
+  const messageEl = tabContainer?.querySelector("#decks-message");
+  if (!messageEl) return;
+
+  messageEl.textContent = message;
+  messageEl.classList.toggle("error", isError);
+  messageEl.classList.remove("hidden");
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
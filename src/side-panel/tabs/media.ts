@@ -15,8 +15,8 @@ import {
 } from "@/lib/ai/fallback";
 import { getSetting } from "@/lib/storage";
 import { translate } from "@/lib/ai/translate";
-import { db } from "@/lib/db/schema";
 import { createCachedNote } from "@/lib/db/cache";
+import { enqueueSyncItem } from "@/lib/db/sync-queue";
 import { noteDraftToSupabasePayload, type NoteDraft } from "@repo/domain/notes";
 import { ensureAIPolyfill } from "@/lib/ai/polyfill";
 import { getAIHandle } from "@/lib/ai/env";
@@ -690,16 +690,13 @@ async function translateAndSaveText(
       timestamp: now,
     });
 
-    await db.syncQueue.add({
-      operation: "create",
-      table: "learning_notes",
-      entityId: noteId,
-      payload: notePayload,
-      timestamp: Date.now(),
-      retryCount: 0,
-      lastAttempt: null,
-      error: null,
-    });
+    await enqueueSyncItem(
+      userId,
+      "create",
+      "learning_notes",
+      noteId,
+      notePayload,
+    );
 
     // Log activity
     const { logActivity } = await import("@/lib/db/activity-log");
@@ -0,0 +1,464 @@
+/**
+ * Review tab component
+ *
+ * Spaced-repetition review of cached flashcards:
+ * - Due cards first, then new cards (optionally filtered by deck)
+ * - 1-4 ratings (Again/Hard/Good/Easy), scheduled with the user's SRS algorithm
+ * - Works fully offline; progress, reviews and sessions are stored locally
+ *   and queued for sync
+ * - Cloze cards show their context sentence with the term blanked out and the
+ *   translation as a hint
+ *
+ * Keyboard: Space/Enter shows the answer, 1-4 rates the card.
+ */
+
+import { db } from "@/lib/db/schema";
+import { getSetting } from "@/lib/storage";
+import { logActivity } from "@/lib/db/activity-log";
+import {
+  endStudySession,
+  getNextDueAt,
+  getReviewQueue,
+  getSrsAlgorithm,
+  recordReview,
+  startStudySession,
+  type ReviewQueueItem,
+} from "@/lib/db/study";
+import {
+  RATING_LABELS,
+  createInitialSchedulingState,
+  formatInterval,
+  scheduleReview,
+  type ReviewRating,
+  type SrsAlgorithm,
+} from "@/lib/srs";
+import { CLOZE_BLANK, splitCloze, type ClozeParts } from "@/lib/cloze";
+import type { CachedFlashcard, CachedStudySession } from "@/types";
+
+const RATINGS: ReviewRating[] = [1, 2, 3, 4];
+
+// Tab state
+let tabContainer: HTMLElement | null = null;
+let userId: string | null = null;
+let algorithm: SrsAlgorithm = "sm2";
+let selectedDeckId = "all";
+let queue: ReviewQueueItem[] = [];
+let currentItem: ReviewQueueItem | null = null;
+let answerShown = false;
+let currentCloze: ClozeParts | null = null;
+let cardShownAt = 0;
+let session: CachedStudySession | null = null;
+let isRating = false;
+
+/**
+ * Initialize Review tab
+ */
+export async function initReviewTab(container: HTMLElement): Promise<void> {
+  console.log("[Glotian Review Tab] Initializing");
+
+  tabContainer = container;
+  renderReviewTab(container);
+  attachEventListeners(container);
+
+  userId = (await getSetting("userId")) ?? null;
+  if (!userId) {
+    showEmptyState(
+      "Log in to start reviewing",
+      "Your flashcards are reviewed offline once you have logged in at least once.",
+    );
+    return;
+  }
+
+  algorithm = await getSrsAlgorithm(userId);
+  await loadDeckOptions(container);
+  await loadQueue();
+}
+
+/**
+ * Render Review tab HTML
+ */
+function renderReviewTab(container: HTMLElement): void {
+  container.innerHTML = `
+    <div class="review-tab">
+      <div class="review-controls">
+        <label for="review-deck-filter" class="label-text">Deck</label>
+        <select id="review-deck-filter" class="filter-select">
+          <option value="all">All decks</option>
+        </select>
+        <div class="review-stats" id="review-stats" aria-live="polite"></div>
+      </div>
+
+      <div id="review-card" class="review-card hidden">
+        <div class="review-card-meta">
+          <span id="review-card-status" class="badge badge-primary"></span>
+          <span id="review-card-language" class="badge badge-secondary"></span>
+        </div>
+
+        <div id="review-term" class="review-term"></div>
+        <div id="review-hint" class="review-hint hidden"></div>
+
+        <div id="review-answer" class="review-answer hidden">
+          <div id="review-part-of-speech" class="review-part-of-speech"></div>
+          <div id="review-definition" class="review-definition"></div>
+          <ul id="review-examples" class="review-examples"></ul>
+        </div>
+
+        <button id="review-show-answer" class="primary-button">
+          Show Answer <span class="review-shortcut">Space</span>
+        </button>
+
+        <div id="review-ratings" class="review-ratings hidden">
+          ${RATINGS.map(
+            (rating) => `
+            <button class="review-rating-button" data-rating="${rating}">
+              <span class="review-rating-label">${RATING_LABELS[rating]}</span>
+              <span class="review-rating-interval" data-interval-for="${rating}"></span>
+              <span class="review-shortcut">${rating}</span>
+            </button>`,
+          ).join("")}
+        </div>
+      </div>
+
+      <div id="review-empty" class="empty-state hidden">
+        <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">
+          <rect x="3" y="4" width="18" height="14" rx="2" ry="2"/>
+          <polyline points="8 11 11 14 16 9"/>
+        </svg>
+        <h3 id="review-empty-title"></h3>
+        <p id="review-empty-text"></p>
+      </div>
+
+      <div id="review-error" class="error-section hidden" role="alert">
+        <p id="review-error-text"></p>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Attach event listeners
+ */
+function attachEventListeners(container: HTMLElement): void {
+  const deckFilter = container.querySelector(
+    "#review-deck-filter",
+  ) as HTMLSelectElement | null;
+  deckFilter?.addEventListener("change", () => {
+    selectedDeckId = deckFilter.value;
+    void finishSession().then(loadQueue);
+  });
+
+  container
+    .querySelector("#review-show-answer")
+    ?.addEventListener("click", () => showAnswer());
+
+  container.querySelectorAll(".review-rating-button").forEach((button) => {
+    button.addEventListener("click", () => {
+      const rating = Number(button.getAttribute("data-rating"));
+      if (RATINGS.includes(rating as ReviewRating)) {
+        void rateCurrentCard(rating as ReviewRating);
+      }
+    });
+  });
+
+  document.addEventListener("keydown", (event) => {
+    if (!tabContainer || tabContainer.hasAttribute("hidden")) return;
+    if (!currentItem) return;
+
+    const target = event.target as HTMLElement | null;
+    if (target?.closest("input, textarea, select")) return;
+
+    if (!answerShown && (event.key === " " || event.key === "Enter")) {
+      event.preventDefault();
+      showAnswer();
+      return;
+    }
+
+    if (answerShown && ["1", "2", "3", "4"].includes(event.key)) {
+      event.preventDefault();
+      void rateCurrentCard(Number(event.key) as ReviewRating);
+    }
+  });
+}
+
+/**
+ * Populate the deck filter with the user's decks
+ */
+async function loadDeckOptions(container: HTMLElement): Promise<void> {
+  if (!userId) return;
+
+  const deckFilter = container.querySelector(
+    "#review-deck-filter",
+  ) as HTMLSelectElement | null;
+  if (!deckFilter) return;
+
+  const decks = (await db.decks.where("user_id").equals(userId).toArray())
+    .filter((deck) => !deck.deleted_at)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const deck of decks) {
+    const option = document.createElement("option");
+    option.value = deck.id;
+    option.textContent = `${deck.name} (${deck.card_count})`;
+    deckFilter.appendChild(option);
+  }
+}
+
+/**
+ * Load the review queue for the selected deck and show the first card
+ */
+async function loadQueue(): Promise<void> {
+  if (!userId) return;
+
+  try {
+    queue = await getReviewQueue(userId, {
+      deckId: selectedDeckId === "all" ? undefined : selectedDeckId,
+    });
+    await showNextCard();
+  } catch (error) {
+    console.error("[Glotian Review Tab] Failed to load review queue:", error);
+    showError("Failed to load flashcards for review.");
+  }
+}
+
+/**
+ * Show the next card in the queue, or the finished state
+ */
+async function showNextCard(): Promise<void> {
+  const container = tabContainer;
+  if (!container) return;
+
+  currentItem = queue.shift() ?? null;
+  answerShown = false;
+  updateStats();
+
+  if (!currentItem) {
+    await finishSession();
+    await showCaughtUpState();
+    return;
+  }
+
+  const { flashcard, progress } = currentItem;
+
+  container.querySelector("#review-empty")?.classList.add("hidden");
+  container.querySelector("#review-card")?.classList.remove("hidden");
+  container.querySelector("#review-answer")?.classList.add("hidden");
+  container.querySelector("#review-ratings")?.classList.add("hidden");
+  container.querySelector("#review-show-answer")?.classList.remove("hidden");
+
+  currentCloze = getClozeParts(flashcard);
+  if (currentCloze) {
+    renderClozeSentence(currentCloze, false);
+  } else {
+    setText("#review-term", flashcard.term);
+  }
+  setText("#review-card-status", getStatusLabel(currentItem));
+  setText("#review-card-language", flashcard.language.toUpperCase());
+  setText("#review-definition", flashcard.definition);
+  setText("#review-part-of-speech", flashcard.part_of_speech ?? "");
+
+  // Cloze cards give the translation up front as a hint
+  setText("#review-hint", currentCloze ? `Hint: ${flashcard.definition}` : "");
+  container
+    .querySelector("#review-hint")
+    ?.classList.toggle("hidden", !currentCloze);
+  container
+    .querySelector("#review-definition")
+    ?.classList.toggle("hidden", !!currentCloze);
+
+  const examples = container.querySelector("#review-examples");
+  if (examples) {
+    examples.replaceChildren(
+      ...(flashcard.example_sentences ?? [])
+        .filter((sentence) => sentence !== flashcard.context_sentence)
+        .map((sentence) => {
+          const item = document.createElement("li");
+          item.textContent = sentence;
+          return item;
+        }),
+    );
+  }
+
+  // Preview the next interval for each rating
+  const now = new Date();
+  const state = progress ?? createInitialSchedulingState(now);
+  for (const rating of RATINGS) {
+    const preview = scheduleReview(state, rating, algorithm, now);
+    const intervalLabel = container.querySelector(
+      `[data-interval-for="${rating}"]`,
+    );
+    if (intervalLabel) {
+      intervalLabel.textContent = formatInterval(now, preview.next_review_at);
+    }
+  }
+
+  cardShownAt = Date.now();
+}
+
+function showAnswer(): void {
+  const container = tabContainer;
+  if (!container || !currentItem || answerShown) return;
+
+  answerShown = true;
+  if (currentCloze) {
+    renderClozeSentence(currentCloze, true);
+  }
+  container.querySelector("#review-answer")?.classList.remove("hidden");
+  container.querySelector("#review-ratings")?.classList.remove("hidden");
+  container.querySelector("#review-show-answer")?.classList.add("hidden");
+}
+
+/**
+ * Record a rating for the current card and move on
+ */
+async function rateCurrentCard(rating: ReviewRating): Promise<void> {
+  if (!userId || !currentItem || !answerShown || isRating) return;
+
+  isRating = true;
+  setRatingButtonsEnabled(false);
+
+  try {
+    if (!session) {
+      session = await startStudySession(userId);
+    }
+
+    const progress = await recordReview(
+      userId,
+      currentItem.flashcard.id,
+      rating,
+      {
+        algorithm,
+        timeTakenSeconds: (Date.now() - cardShownAt) / 1000,
+        sessionId: session.id,
+      },
+    );
+
+    // Failed cards come back at the end of this session
+    if (rating === 1) {
+      queue.push({ flashcard: currentItem.flashcard, progress });
+    }
+
+    // Keep the due-card badge in step with local reviews
+    chrome.runtime.sendMessage({ type: "REFRESH_REVIEW_BADGE" }).catch(() => {
+      // Background may be restarting; the next periodic refresh catches up
+    });
+
+    await showNextCard();
+  } catch (error) {
+    console.error("[Glotian Review Tab] Failed to record review:", error);
+    showError("Failed to save your rating. Please try again.");
+  } finally {
+    isRating = false;
+    setRatingButtonsEnabled(true);
+  }
+}
+
+/**
+ * End the current study session, if one is running
+ */
+async function finishSession(): Promise<void> {
+  if (!session || !userId) return;
+
+  const finished = await endStudySession(session.id);
+  session = null;
+
+  if (finished && finished.cards_reviewed > 0) {
+    await logActivity(userId, "study_session_completed", {
+      metadata: {
+        sessionId: finished.id,
+        cardsReviewed: finished.cards_reviewed,
+        correctCount: finished.correct_count,
+        totalTimeSeconds: finished.total_time_seconds,
+        algorithm,
+      },
+    });
+  }
+
+  // Push the session's reviews now rather than waiting for periodic sync
+  if (navigator.onLine) {
+    chrome.runtime.sendMessage({ type: "SYNC_NOW" }).catch(() => {
+      // Background may be restarting; periodic sync will pick it up
+    });
+  }
+}
+
+async function showCaughtUpState(): Promise<void> {
+  if (!userId) return;
+
+  const nextDueAt = await getNextDueAt(userId);
+  showEmptyState(
+    "All caught up!",
+    nextDueAt
+      ? `Next review in ${formatInterval(new Date(), nextDueAt)}.`
+      : "Create flashcards from your notes or summaries to start reviewing.",
+  );
+}
+
+function updateStats(): void {
+  const remaining = queue.length + (currentItem ? 1 : 0);
+  const items = currentItem ? [currentItem, ...queue] : queue;
+  const newCount = items.filter((item) => !item.progress).length;
+
+  setText(
+    "#review-stats",
+    remaining > 0
+      ? `${remaining - newCount} due · ${newCount} new`
+      : "Nothing due",
+  );
+}
+
+function getClozeParts(flashcard: CachedFlashcard): ClozeParts | null {
+  if (flashcard.card_type !== "cloze" || !flashcard.context_sentence) {
+    return null;
+  }
+  return splitCloze(flashcard.context_sentence, flashcard.term);
+}
+
+/**
+ * Show a cloze sentence with the term blanked out, or filled in once revealed
+ */
+function renderClozeSentence(parts: ClozeParts, revealed: boolean): void {
+  const term = tabContainer?.querySelector("#review-term");
+  if (!term) return;
+
+  const blank = document.createElement("span");
+  blank.className = revealed ? "review-cloze-answer" : "review-cloze-blank";
+  blank.textContent = revealed ? parts.answer : CLOZE_BLANK;
+
+  term.replaceChildren(parts.before, blank, parts.after);
+}
+
+function getStatusLabel(item: ReviewQueueItem): string {
+  if (!item.progress || item.progress.status === "new") return "New";
+  if (item.progress.status === "learning") return "Learning";
+  if (item.progress.status === "relearning") return "Relearning";
+  return "Review";
+}
+
+function setRatingButtonsEnabled(enabled: boolean): void {
+  tabContainer
+    ?.querySelectorAll<HTMLButtonElement>(".review-rating-button")
+    .forEach((button) => {
+      button.disabled = !enabled;
+    });
+}
+
+function setText(selector: string, text: string): void {
+  const element = tabContainer?.querySelector(selector);
+  if (element) element.textContent = text;
+}
+
+function showEmptyState(title: string, text: string): void {
+  tabContainer?.querySelector("#review-card")?.classList.add("hidden");
+  tabContainer?.querySelector("#review-empty")?.classList.remove("hidden");
+  setText("#review-empty-title", title);
+  setText("#review-empty-text", text);
+}
+
+function showError(message: string): void {
+  const errorSection = tabContainer?.querySelector("#review-error");
+  if (!errorSection) return;
+
+  setText("#review-error-text", message);
+  errorSection.classList.remove("hidden");
+  window.setTimeout(() => errorSection.classList.add("hidden"), 10000);
+}
@@ -364,9 +364,9 @@ function attachEventListeners(container: HTMLElement): void {
     "#create-flashcards-button",
   );
   if (createFlashcardsButton) {
-    createFlashcardsButton.addEventListener("click", () =>
-      handleCreateFlashcards(container),
-    );
+    createFlashcardsButton.addEventListener("click", () => {
+      void handleCreateFlashcards(container);
+    });
   }
 
   // Save Note button
@@ -869,8 +869,12 @@ function showError(container: HTMLElement, message: string): void {
 
 /**
  * Handle Create Flashcards button
+ *
+ * Runs CREATE_FLASHCARDS_FROM_TEXT in the background and mirrors its
+ * FLASHCARDS_FROM_TEXT_PROGRESS events in the progress bar.
  */
-function handleCreateFlashcards(container: HTMLElement): void {
+async function handleCreateFlashcards(container: HTMLElement): Promise<void> {
+  if (isProcessing) return;
   if (!currentSummary) {
     showError(container, "Summarize a page before creating flashcards.");
     return;
@@ -884,13 +888,68 @@ function handleCreateFlashcards(container: HTMLElement): void {
     return;
   }
 
-  chrome.runtime.sendMessage({
-    type: "CREATE_FLASHCARDS_FROM_TEXT",
-    text: textForFlashcards,
-    sourceNoteId: null,
-  });
+  const jobId = crypto.randomUUID();
+  const progressListener = (message: any) => {
+    if (
+      message?.type !== "FLASHCARDS_FROM_TEXT_PROGRESS" ||
+      message.jobId !== jobId
+    ) {
+      return;
+    }
+    const percent =
+      10 + Math.round((message.processed / Math.max(message.total, 1)) * 85);
+    updateProgress(
+      container,
+      `Creating flashcards... (${message.processed}/${message.total})`,
+      Math.min(percent, 95),
+    );
+  };
+
+  try {
+    showProgress(container, "Finding vocabulary in summary...");
+    updateProgress(container, "Finding vocabulary in summary...", 10);
+    isProcessing = true;
+    setPrimaryButtonsEnabled(container, false);
+    setSummaryActionsEnabled(container, false);
+    chrome.runtime.onMessage.addListener(progressListener);
+
+    const response = await chrome.runtime.sendMessage({
+      type: "CREATE_FLASHCARDS_FROM_TEXT",
+      text: textForFlashcards,
+      sourceNoteId: null,
+      jobId,
+    });
 
-  alert("Flashcards will be created in the background!");
+    if (!response?.success) {
+      throw new Error(response?.error || "Failed to create flashcards.");
+    }
+
+    const { created = 0, skipped = 0, failed = 0 } = response;
+    let summaryMessage =
+      created > 0
+        ? `Created ${created} flashcard${created === 1 ? "" : "s"}`
+        : "No new flashcards created";
+    if (skipped > 0) summaryMessage += `, ${skipped} already in your decks`;
+    if (failed > 0) summaryMessage += `, ${failed} failed`;
+
+    updateProgress(container, `${summaryMessage}.`, 100);
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  } catch (error) {
+    console.error("[Glotian Summarize Tab] Create flashcards error:", error);
+    showError(
+      container,
+      error instanceof Error
+        ? error.message
+        : "Failed to create flashcards. Please try again.",
+    );
+  } finally {
+    chrome.runtime.onMessage.removeListener(progressListener);
+    isProcessing = false;
+    hideProgress(container);
+    displayResults(container);
+    setPrimaryButtonsEnabled(container, true);
+    setSummaryActionsEnabled(container, Boolean(currentSummary));
+  }
 }
 
 /**
@@ -1,4 +1,5 @@
 // Extension-specific TypeScript types
+import type { Session } from "@supabase/supabase-js";
 import type { Database } from "./supabase";
 
 export type CEFRLevel = "A1" | "A2" | "B1" | "B2" | "C1" | "C2";
@@ -13,6 +14,11 @@ export type Flashcard = Tables<"flashcards">;
 export type FlashcardDeck = Tables<"flashcard_decks">;
 export type User = Tables<"users">;
 export type UserPreferences = Tables<"user_preferences">;
+export type StudyProgress = Tables<"study_progress">;
+export type Review = Tables<"reviews">;
+export type StudySession = Tables<"study_sessions">;
+export type UserAchievements = Tables<"user_achievements">;
+export type ActivityLogRow = Tables<"activity_log">;
 
 // Sync status types
 export type SyncStatus = "pending" | "synced" | "failed";
@@ -24,6 +30,9 @@ export interface CachedNote extends Note {
 }
 
 export interface CachedFlashcard extends Flashcard {
+  // Local only: the server has no columns for cloze cards
+  card_type: "basic" | "cloze";
+  context_sentence: string | null;
   syncStatus: SyncStatus;
   lastAccessedAt: number;
 }
@@ -38,23 +47,163 @@ export interface CachedUserPreference extends UserPreferences {
   lastAccessedAt: number;
 }
 
+export interface CachedStudyProgress extends StudyProgress {
+  // Local only: FSRS memory stability in days (the server has no column for
+  // it); null when scheduled by SM-2
+  stability: number | null;
+  syncStatus: SyncStatus;
+  lastAccessedAt: number;
+}
+
+export interface CachedReview extends Review {
+  syncStatus: SyncStatus;
+}
+
+export interface CachedStudySession extends StudySession {
+  syncStatus: SyncStatus;
+}
+
+// Local counters behind user_achievements (never sent to the server)
+export interface AchievementStats {
+  activityCursor: number; // Highest activityLog id already counted
+  lastActiveDay: string | null; // "YYYY-MM-DD" in the user's time zone
+  actionCounts: Partial<Record<ActivityAction, number>>;
+  cardsReviewed: number;
+}
+
+export interface CachedUserAchievements extends UserAchievements {
+  stats: AchievementStats;
+  syncStatus: SyncStatus;
+  lastAccessedAt: number;
+}
+
+// Where active learning time was spent (side panel tab or overlay)
+export type StudyTimeSource =
+  | "translate"
+  | "summarize"
+  | "review"
+  | "decks"
+  | "writing_coach";
+
+// Active learning time for one day (local only)
+export interface DailyStudyTime {
+  userId: string;
+  day: string; // "YYYY-MM-DD" in the user's time zone
+  seconds: number;
+  bySource: Partial<Record<StudyTimeSource, number>>;
+  updatedAt: number;
+}
+
 // Sync queue types
 export interface SyncQueueItem {
   id?: number;
+  userId: string; // Owner; only pushed while this user is signed in
   operation: "create" | "update" | "delete";
   table:
     | "learning_notes"
     | "flashcards"
     | "flashcard_decks"
-    | "user_preferences";
+    | "user_preferences"
+    | "study_progress"
+    | "reviews"
+    | "study_sessions"
+    | "user_achievements";
   entityId: string;
   payload: Record<string, any>;
   timestamp: number;
   retryCount: number;
   lastAttempt: number | null;
+  nextAttemptAt?: number | null; // Backoff: not retried before this time
   error: string | null;
 }
 
+// Why a sync attempt failed; decides whether (and how) it is retried
+export type SyncErrorKind = "network" | "auth" | "validation";
+
+// Counts of one sync run
+export interface SyncRunStats {
+  synced: number;
+  failed: number;
+  conflicts: number;
+  pulled: number;
+}
+
+// What happened to a queued item in a sync run ("skipped": an earlier change
+// to the same entity failed, so it waits for the next run)
+export type SyncItemResult = "synced" | "conflict" | "failed" | "skipped";
+
+// Live progress of a sync run, broadcast as SYNC_PROGRESS. Indexes are
+// 1-based and count items in the order they are pushed.
+export type SyncProgressEvent =
+  | { phase: "started"; total: number }
+  | {
+      phase: "item";
+      index: number;
+      total: number;
+      table: SyncQueueItem["table"];
+      entityId: string;
+      operation: SyncQueueItem["operation"];
+    }
+  | {
+      phase: "result";
+      index: number;
+      total: number;
+      table: SyncQueueItem["table"];
+      entityId: string;
+      result: SyncItemResult;
+      error?: string;
+    }
+  | { phase: "finished"; stats: SyncRunStats; cancelled: boolean };
+
+// Sync item that won't be retried automatically (see Activity tab)
+export interface DeadLetterSyncItem {
+  id?: number;
+  userId: string;
+  item: SyncQueueItem; // As it was when it failed, including its queue id
+  errorKind: SyncErrorKind;
+  error: string;
+  failedAt: number;
+}
+
+// Last server version of a synced row both sides agreed on (three-way merge base)
+export interface SyncBase {
+  table: SyncQueueItem["table"];
+  entityId: string;
+  data: Record<string, unknown>;
+  updatedAt: number;
+}
+
+// How far a user's cache has pulled a server table (delta sync high-water mark)
+export interface SyncCursor {
+  userId: string;
+  table: SyncQueueItem["table"] | "activity_log";
+  updatedAt: string; // Highest server `updated_at` (activity: `created_at`) pulled
+  pulledAt: number;
+}
+
+// Field changed differently on both sides of a sync conflict
+export interface SyncConflictField {
+  field: string;
+  base: unknown; // undefined when no merge base was known
+  local: unknown;
+  server: unknown;
+}
+
+// Sync conflict waiting for the user to pick a version (Activity tab inbox)
+export interface SyncConflict {
+  id?: number;
+  userId: string;
+  table: SyncQueueItem["table"];
+  entityId: string;
+  operation: SyncQueueItem["operation"]; // Local operation that conflicted
+  fields: SyncConflictField[]; // Empty for a local delete
+  merged: Record<string, unknown>; // Row written to the cache (server values for `fields`)
+  serverUpdatedAt: string | null;
+  detectedAt: number;
+}
+
+export type SyncConflictChoice = "local" | "server" | "edit";
+
 // Activity log types
 export type ActivityAction =
   | "note_created"
@@ -65,8 +214,12 @@ export type ActivityAction =
   | "coach_fix_applied"
   | "media_ocr"
   | "media_transcribe"
+  | "study_session_completed"
   | "sync_conflict";
 
+// Where an activity happened
+export type ActivitySource = ActivityLogRow["source"];
+
 export interface ActivityLogItem {
   id?: number;
   userId: string;
@@ -76,6 +229,9 @@ export interface ActivityLogItem {
   metadata: Record<string, any>;
   timestamp: number;
   syncStatus: SyncStatus;
+  remoteId?: string; // activity_log row id, assigned on first upload
+  source?: ActivitySource; // Only set on activity pulled from the server
+  pulledAt?: number; // When it was pulled (not counted towards XP)
 }
 
 // Chrome runtime message types
@@ -86,6 +242,7 @@ export type RuntimeMessage =
       pageUrl: string;
       pageTitle: string;
       noteId?: string;
+      contextSentence?: string | null; // Sentence around the selection, for cloze cards
     }
   | {
       type: "CAPTURE_TEXT_OFFLINE";
@@ -160,16 +317,66 @@ export type RuntimeMessage =
       language?: string;
       error?: string;
     }
+  | {
+      type: "CREATE_FLASHCARD";
+      term: string;
+      definition: string;
+      sourceType?: "writing_coach" | "capture" | "manual";
+      language?: string;
+      partOfSpeech?: string | null;
+      exampleSentences?: string[];
+      sourceNoteId?: string | null;
+      deckId?: string;
+    }
+  | { type: "EXTRACT_FLASHCARDS"; noteId: string }
+  | {
+      type: "SAVE_EXTRACTED_FLASHCARDS";
+      noteId: string;
+      candidates: FlashcardCandidate[];
+    }
+  | {
+      type: "CREATE_FLASHCARDS_FROM_TEXT";
+      text: string;
+      sourceNoteId: string | null;
+      jobId?: string;
+    }
+  | {
+      type: "FLASHCARDS_FROM_TEXT_PROGRESS";
+      jobId: string | null;
+      processed: number;
+      total: number;
+      created: number;
+    }
   | { type: "SYNC_NOW" }
+  | { type: "CANCEL_SYNC" }
+  | { type: "SYNC_PROGRESS"; runId: string; event: SyncProgressEvent }
+  | { type: "REFRESH_REVIEW_BADGE" }
+  | { type: "ACHIEVEMENTS_UPDATED"; userId: string }
+  | { type: "RECORD_STUDY_TIME"; source: StudyTimeSource; seconds: number }
+  | { type: "STUDY_TIME_UPDATED"; userId: string }
+  | { type: "SYNC_CONFLICTS_UPDATED"; userId: string }
+  | {
+      type: "RESOLVE_SYNC_CONFLICT";
+      conflictId: number;
+      choice: SyncConflictChoice;
+      values?: Record<string, unknown>; // Field values for "edit"
+    }
   | {
       type: "SYNC_STATUS";
       pendingCount: number;
       syncedCount: number;
       failedCount: number;
       lastSyncTime: number | null;
+      cancelled?: boolean; // Reply to SYNC_NOW: the run was cancelled
     }
-  | { type: "AUTH_SUCCESS"; userId: string; session: any }
-  | { type: "AUTH_LOGOUT" }
+  | {
+      type: "AUTH_SUCCESS";
+      userId: string;
+      session: Session;
+      previousSession?: Session | null; // Session of the account signed in until now
+    }
+  | { type: "AUTH_LOGOUT"; wipeData?: boolean } // Else local data is kept
+  | { type: "SWITCH_ACCOUNT"; userId: string }
   | {
       type: "OPEN_SIDE_PANEL";
       tab?: string;
@@ -233,6 +440,9 @@ export interface ExtensionSettings {
   supabaseSession: any | null;
   userId: string | null;
 
+  // Accounts that have used this browser, signed-in one included
+  accounts: StoredAccount[];
+
   // User preferences
   sourceLanguage: string;
   targetLanguage: string;
@@ -246,7 +456,28 @@ export interface ExtensionSettings {
 
   // UI preferences
   uiLanguage: "en" | "ko";
-  sidePanelLastTab: "capture" | "summarize" | "qa" | "media" | "activity";
+  sidePanelLastTab:
+    | "capture"
+    | "summarize"
+    | "qa"
+    | "media"
+    | "activity"
+    | "review"
+    | "decks";
+
+  // Review reminders (times are "HH:MM" in local time)
+  reviewReminderEnabled: boolean;
+  reviewReminderTime: string;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+
+  // Evening nudge when the daily goal is not met ("HH:MM" local time)
+  dailyGoalNudgeEnabled: boolean;
+  dailyGoalNudgeTime: string;
+
+  // Days a deleted note, deck or card stays in the trash before it is purged
+  trashRetentionDays: number;
 
   // Telemetry
   telemetryEnabled: boolean;
@@ -264,6 +495,39 @@ export interface ExtensionSettings {
   lastSyncTime: number | null;
 }
 
+// Preferences each account keeps for itself; the flat keys above hold the
+// signed-in account's values (see lib/accounts.ts)
+export type AccountSettingKey =
+  | "sourceLanguage"
+  | "targetLanguage"
+  | "defaultCEFRLevel"
+  | "autoSaveEnabled"
+  | "sidePanelLastTab"
+  | "reviewReminderEnabled"
+  | "reviewReminderTime"
+  | "quietHoursEnabled"
+  | "quietHoursStart"
+  | "quietHoursEnd"
+  | "dailyGoalNudgeEnabled"
+  | "dailyGoalNudgeTime"
+  | "trashRetentionDays"
+  | "lastSyncTime";
+
+export type AccountSettings = Partial<
+  Pick<ExtensionSettings, AccountSettingKey>
+>;
+
+export interface StoredAccount {
+  userId: string;
+  email: string | null;
+  // Inactive accounts only: enough to sign back in without a password. Null
+  // for the signed-in account (its session is `supabaseSession`) and once
+  // signed out (local data kept, password needed).
+  refreshToken: string | null;
+  settings: AccountSettings; // Snapshot taken when the account was left
+  lastActiveAt: number;
+}
+
 // Translation request/response
 export interface TranslateRequest {
   text: string;
@@ -294,6 +558,26 @@ export interface AutoTagResponse {
   domain?: string;
 }
 
+// Flashcard extraction types
+export interface FlashcardCandidate {
+  term: string;
+  definition: string;
+  partOfSpeech: string | null;
+  exampleSentences: string[];
+}
+
+export interface FlashcardExtractRequest {
+  text: string; // Note text to mine for vocabulary (max 5,000 chars used)
+  language: string; // Language of the note text
+  targetLanguage: string; // Language definitions should be written in
+  maxCards?: number; // Defaults to 10
+}
+
+export interface FlashcardExtractResponse {
+  candidates: FlashcardCandidate[];
+  aiSource: "chrome" | "heuristic";
+}
+
 // Q&A types
 export interface QARequest {
   question: string; // User's question (max 500 chars)
@@ -219,6 +219,25 @@ export interface Database {
         >;
         Relationships: never[];
       };
+      activity_log: {
+        Row: {
+          id: string; // Generated by the client, so re-uploads are no-ops
+          user_id: string;
+          action: string;
+          entity_type: string | null;
+          entity_id: string | null;
+          metadata: Json;
+          source: "extension" | "web" | "mobile";
+          occurred_at: string;
+          created_at: string;
+        };
+        Insert: Omit<
+          Database["public"]["Tables"]["activity_log"]["Row"],
+          "created_at"
+        >;
+        Update: Partial<Database["public"]["Tables"]["activity_log"]["Insert"]>;
+        Relationships: never[];
+      };
     };
     Views: Record<string, never>;
     Functions: Record<string, never>;
@@ -229,6 +248,7 @@ export interface Database {
       study_status: "new" | "learning" | "review" | "relearning";
       srs_algorithm: "sm2" | "fsrs-lite";
       cefr_level: "A1" | "A2" | "B1" | "B2" | "C1" | "C2";
+      activity_source: "extension" | "web" | "mobile";
     };
   };
 }
@@ -251,6 +271,7 @@ export type Review = Tables<"reviews">;
 export type UserPreferences = Tables<"user_preferences">;
 export type AudioContent = Tables<"audio_content">;
 export type UserAchievements = Tables<"user_achievements">;
+export type ActivityLogRow = Tables<"activity_log">;
 
 // Helper types for queries
 export type NoteListItem = Pick<
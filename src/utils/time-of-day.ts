@@ -0,0 +1,52 @@
+/**
+ * Time-of-day helpers for "HH:MM" settings (reminder times, quiet hours)
+ *
+ * All times are in the browser's local time zone.
+ */
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Next local date/time after `now` at the given "HH:MM"
+ */
+export function getNextOccurrence(timeOfDay: string, now: Date): Date | null {
+  const minutes = parseTimeOfDay(timeOfDay);
+  if (minutes === null) return null;
+
+  const next = new Date(now);
+  next.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+/**
+ * Whether `now` falls in [start, end), a window that may wrap past midnight
+ */
+export function isWithinQuietHours(
+  now: Date,
+  start: string,
+  end: string,
+): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null) return false;
+  if (startMinutes === endMinutes) return false;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
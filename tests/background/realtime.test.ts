@@ -0,0 +1,311 @@
+/**
+ * Realtime cache updates against the in-memory client: changes reach the
+ * cache through the same validation as pulled rows, and dropped channels
+ * are subscribed again
+ */
+
+import { db } from "@/lib/db/schema";
+import {
+  createMemorySyncBackend,
+  type MemorySyncBackend,
+} from "@/background/memory-sync-backend";
+import {
+  createMemoryRealtimeClient,
+  type MemoryRealtimeClient,
+} from "@/background/memory-realtime-client";
+import type { FlashcardDeckRow } from "@/types";
+
+jest.mock("@/lib/supabase", () => ({ supabase: {} }));
+
+const mockRefreshDueBadge = jest.fn(async () => {});
+jest.mock("@/background/review-scheduler", () => ({
+  refreshDueBadge: () => mockRefreshDueBadge(),
+}));
+
+type RealtimeModule = typeof import("@/background/realtime");
+type SyncModule = typeof import("@/background/sync");
+
+const USER_ID = "user-1";
+const OTHER_USER_ID = "user-2";
+
+function deckRow(
+  id: string,
+  fields: Partial<FlashcardDeckRow> = {},
+): FlashcardDeckRow {
+  return {
+    id,
+    user_id: USER_ID,
+    name: `Deck ${id}`,
+    description: null,
+    language: "en",
+    card_count: 0,
+    total_study_time_seconds: 0,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    deleted_at: null,
+    ...fields,
+  };
+}
+
+/**
+ * Wait for async work started by a channel callback (they aren't awaited)
+ */
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+): Promise<void> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    if (await condition()) return;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  throw new Error("Condition not met");
+}
+
+let client: MemoryRealtimeClient;
+let sync: SyncModule; // The sync module of the latest worker
+
+/**
+ * Load the background modules afresh, as a service worker start does, and
+ * subscribe through the in-memory client
+ */
+async function startWorker(
+  backend: MemorySyncBackend = createMemorySyncBackend(),
+): Promise<RealtimeModule> {
+  const existing = client.channels().length;
+  let realtime!: RealtimeModule;
+  await jest.isolateModulesAsync(async () => {
+    realtime = await import("@/background/realtime");
+    sync = await import("@/background/sync");
+    sync.setSyncBackend(backend);
+  });
+
+  await realtime.setRealtimeClient(client);
+  realtime.setupRealtimeSync();
+  await waitFor(() =>
+    ["joined", "errored"].includes(client.channels()[existing]?.state ?? ""),
+  );
+  return realtime;
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(chrome.storage.onChanged, "addListener");
+  mockRefreshDueBadge.mockClear();
+
+  await Promise.all(db.tables.map((table) => table.clear()));
+  await chrome.storage.local.clear();
+  await chrome.storage.local.set({ userId: USER_ID });
+  client = createMemoryRealtimeClient();
+});
+
+afterEach(async () => {
+  // Workers from earlier tests must not react to later storage changes
+  const addListener = jest.mocked(chrome.storage.onChanged.addListener);
+  for (const [listener] of addListener.mock.calls) {
+    chrome.storage.onChanged.removeListener(listener);
+  }
+
+  // Let catch-up pulls started by the subscriptions finish
+  jest.useRealTimers();
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  jest.restoreAllMocks();
+});
+
+describe("realtime changes", () => {
+  it("applies the user's rows to the cache", async () => {
+    await startWorker();
+
+    client.emit("flashcard_decks", {
+      eventType: "INSERT",
+      new: deckRow("deck-1"),
+    });
+
+    await waitFor(async () => (await db.decks.get("deck-1")) !== undefined);
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      name: "Deck deck-1",
+      syncStatus: "synced",
+    });
+    await waitFor(() => mockRefreshDueBadge.mock.calls.length > 0);
+  });
+
+  it("skips rows that fail validation", async () => {
+    await startWorker();
+
+    client.emit("flashcard_decks", {
+      eventType: "UPDATE",
+      new: { ...deckRow("deck-1"), card_count: "3" },
+    });
+
+    await waitFor(() => mockRefreshDueBadge.mock.calls.length > 0);
+    expect(await db.decks.get("deck-1")).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "remote validation failed for flashcard_decks (deck-1)",
+      ),
+    );
+  });
+
+  it("only listens to the signed-in user's rows", async () => {
+    await startWorker();
+
+    const [channel] = client.channels();
+    expect(channel.listeners()).toEqual(
+      ["learning_notes", "flashcards", "flashcard_decks"].map((table) => ({
+        table,
+        filter: `user_id=eq.${USER_ID}`,
+      })),
+    );
+
+    const delivered = client.emit("flashcard_decks", {
+      eventType: "INSERT",
+      new: deckRow("deck-2", { user_id: OTHER_USER_ID }),
+    });
+    client.emit("flashcard_decks", {
+      eventType: "INSERT",
+      new: deckRow("deck-1"),
+    });
+
+    expect(delivered).toBe(0);
+    await waitFor(async () => (await db.decks.get("deck-1")) !== undefined);
+    expect(await db.decks.get("deck-2")).toBeUndefined();
+  });
+
+  it("removes rows deleted on the server", async () => {
+    await db.decks.put({ ...deckRow("deck-1"), syncStatus: "synced" });
+    await startWorker();
+
+    client.emit("flashcard_decks", {
+      eventType: "DELETE",
+      old: { id: "deck-1", user_id: USER_ID },
+    });
+
+    await waitFor(async () => (await db.decks.get("deck-1")) === undefined);
+  });
+});
+
+describe("realtime reconnects", () => {
+  it("retries failed subscriptions with a doubling delay", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "nextTick"] });
+    client.failSubscriptions("CHANNEL_ERROR");
+    const createChannel = jest.spyOn(client, "channel");
+
+    await startWorker();
+    expect(client.channels()[0].state).toBe("errored");
+    expect(createChannel).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1_999);
+    expect(createChannel).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await waitFor(() => createChannel.mock.calls.length === 2);
+
+    await waitFor(() => client.channels()[0]?.state === "errored");
+    await jest.advanceTimersByTimeAsync(3_999);
+    expect(createChannel).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    await waitFor(() => createChannel.mock.calls.length === 3);
+
+    // A successful subscription starts the backoff over
+    client.failSubscriptions(null);
+    await waitFor(() => client.channels()[0]?.state === "errored");
+    await jest.advanceTimersByTimeAsync(8_000);
+    await waitFor(() => client.channels()[0]?.state === "joined");
+    expect(createChannel).toHaveBeenCalledTimes(4);
+
+    client.setStatus("CHANNEL_ERROR");
+    await jest.advanceTimersByTimeAsync(2_000);
+    await waitFor(() => client.channels()[0]?.state === "joined");
+    expect(createChannel).toHaveBeenCalledTimes(5);
+    expect(client.channels()).toHaveLength(1);
+  });
+
+  it("subscribes again on the reconnect alarm after the channel closes", async () => {
+    const realtime = await startWorker();
+    const getAlarm = () => chrome.alarms.get(realtime.REALTIME_RECONNECT_ALARM);
+
+    // Only set while not subscribed
+    await waitFor(async () => (await getAlarm()) === undefined);
+
+    // A live channel is kept
+    const [first] = client.channels();
+    await realtime.ensureRealtimeSubscription();
+    expect(client.channels()).toEqual([first]);
+
+    client.setStatus("CLOSED");
+    expect(first.state).toBe("closed");
+    expect((await getAlarm())?.periodInMinutes).toBe(1);
+
+    // What the alarm handler runs
+    await realtime.ensureRealtimeSubscription();
+    await waitFor(() => client.channels()[0]?.state === "joined");
+    expect(client.channels()).toHaveLength(1);
+    expect(client.channels()[0]).not.toBe(first);
+    await waitFor(async () => (await getAlarm()) === undefined);
+  });
+
+  it("keeps the reconnect alarm while subscriptions fail", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "nextTick"] });
+    client.failSubscriptions("CHANNEL_ERROR");
+    const realtime = await startWorker();
+
+    const alarm = await chrome.alarms.get(realtime.REALTIME_RECONNECT_ALARM);
+    expect(alarm?.periodInMinutes).toBe(1);
+  });
+
+  it("subscribes again and catches up after a service worker restart", async () => {
+    const backend = createMemorySyncBackend();
+    await startWorker(backend);
+    const [first] = client.channels();
+
+    // Changed while the worker was stopped (its socket went with it)
+    await backend.insert(
+      "flashcard_decks",
+      deckRow("deck-1", { updated_at: "2026-02-01T00:00:00.000Z" }),
+    );
+    await startWorker(backend);
+
+    const channels = client.channels();
+    expect(channels).toHaveLength(2);
+    expect(channels[1]).not.toBe(first);
+    expect(channels[1].state).toBe("joined");
+    await waitFor(async () => (await db.decks.get("deck-1")) !== undefined);
+  });
+
+  it("waits for a sync run before catching up", async () => {
+    const backend = createMemorySyncBackend();
+    const realtime = await startWorker(backend);
+    await waitFor(async () => (await chrome.alarms.getAll()).length === 0);
+
+    // Count requests in flight: the run and the pull must not overlap
+    let inFlight = 0;
+    let maxInFlight = 0;
+    for (const method of ["fetchChangesSince", "fetchActivitySince"] as const) {
+      const original = backend[method].bind(backend) as (
+        ...args: unknown[]
+      ) => Promise<unknown>;
+      jest.spyOn(backend, method).mockImplementation((async (
+        ...args: unknown[]
+      ) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        try {
+          return await original(...args);
+        } finally {
+          inFlight--;
+        }
+      }) as never);
+    }
+
+    const run = sync.processSyncQueue(USER_ID);
+    client.setStatus("CLOSED");
+    await realtime.ensureRealtimeSubscription();
+    await waitFor(() => client.channels()[0]?.state === "joined");
+    await run;
+    // Queued behind the catch-up pull
+    await sync.pullServerChanges(USER_ID);
+
+    expect(backend.fetchChangesSince).toHaveBeenCalled();
+    expect(maxInFlight).toBe(1);
+  });
+});
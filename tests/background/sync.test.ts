@@ -0,0 +1,475 @@
+/**
+ * Sync engine against the in-memory backend: queued changes are pushed,
+ * server changes merged and failures classified without a Supabase project
+ */
+
+import { db } from "@/lib/db/schema";
+import { enqueueSyncItem, getAllSyncItems } from "@/lib/db/sync-queue";
+import { saveSyncBase } from "@/lib/db/sync-bases";
+import { getSyncCursor } from "@/lib/db/sync-cursors";
+import { logActivity } from "@/lib/db/activity-log";
+import { processSyncQueue, setSyncBackend } from "@/background/sync";
+import {
+  createMemorySyncBackend,
+  type MemorySyncBackend,
+} from "@/background/memory-sync-backend";
+import { SyncBackendError } from "@/background/sync-backend";
+import { toServerPayload } from "@/lib/db/flashcards";
+import { recordReview } from "@/lib/db/study";
+import type { CachedFlashcard, FlashcardDeckRow } from "@/types";
+
+jest.mock("@/lib/supabase", () => ({ supabase: {} }));
+
+const USER_ID = "user-1";
+
+function deckRow(
+  id: string,
+  fields: Partial<FlashcardDeckRow> = {},
+): FlashcardDeckRow {
+  return {
+    id,
+    user_id: USER_ID,
+    name: `Deck ${id}`,
+    description: null,
+    language: "en",
+    card_count: 0,
+    total_study_time_seconds: 0,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    deleted_at: null,
+    ...fields,
+  };
+}
+
+let backend: MemorySyncBackend;
+
+// Runs also queue the user's achievements row, created on first sync
+async function queuedDeckItems() {
+  const queue = await getAllSyncItems(USER_ID);
+  return queue.filter((item) => item.table === "flashcard_decks");
+}
+
+function useBackend(seed: Parameters<typeof createMemorySyncBackend>[0] = {}) {
+  backend = createMemorySyncBackend(seed);
+  setSyncBackend(backend);
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+
+  await Promise.all(db.tables.map((table) => table.clear()));
+  await chrome.storage.local.clear();
+  useBackend();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("processSyncQueue round trips", () => {
+  it("creates rows on the server", async () => {
+    const single = deckRow("deck-1");
+    await db.decks.put({ ...single, syncStatus: "pending" });
+    await enqueueSyncItem(
+      USER_ID,
+      "create",
+      "flashcard_decks",
+      "deck-1",
+      single,
+    );
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats).toMatchObject({ synced: 1, failed: 0, cancelled: false });
+    expect(backend.rows("flashcard_decks")).toEqual([single]);
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      syncStatus: "synced",
+    });
+    expect(await queuedDeckItems()).toHaveLength(0);
+  });
+
+  it("creates several rows of a table in one batch", async () => {
+    const rows = [deckRow("deck-1"), deckRow("deck-2")];
+    for (const row of rows) {
+      await enqueueSyncItem(USER_ID, "create", "flashcard_decks", row.id, row);
+    }
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats.synced).toBe(2);
+    expect(
+      backend.rows("flashcard_decks").sort((a, b) => a.id.localeCompare(b.id)),
+    ).toEqual(rows);
+  });
+
+  it("updates a row the server has an older version of", async () => {
+    useBackend({ flashcard_decks: [deckRow("deck-1")] });
+    await enqueueSyncItem(USER_ID, "update", "flashcard_decks", "deck-1", {
+      name: "Renamed",
+      updated_at: "2026-02-01T00:00:00.000Z",
+    });
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats).toMatchObject({ synced: 1, conflicts: 0 });
+    expect(backend.rows("flashcard_decks")[0]).toMatchObject({
+      name: "Renamed",
+      updated_at: "2026-02-01T00:00:00.000Z",
+    });
+  });
+
+  it("sends identical partial updates of several rows as one update", async () => {
+    useBackend({
+      flashcard_decks: [deckRow("deck-1"), deckRow("deck-2")],
+    });
+    const update = jest.spyOn(backend, "update");
+    const upsert = jest.spyOn(backend, "upsert");
+    // What moving a deck to the trash queues
+    const changes = {
+      deleted_at: "2026-02-01T00:00:00.000Z",
+      updated_at: "2026-02-01T00:00:00.000Z",
+    };
+    for (const id of ["deck-1", "deck-2"]) {
+      await enqueueSyncItem(USER_ID, "update", "flashcard_decks", id, changes);
+    }
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats).toMatchObject({ synced: 2, failed: 0 });
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith(
+      "flashcard_decks",
+      ["deck-1", "deck-2"],
+      changes,
+    );
+    expect(upsert).not.toHaveBeenCalledWith(
+      "flashcard_decks",
+      expect.anything(),
+    );
+    expect(backend.rows("flashcard_decks")).toEqual([
+      deckRow("deck-1", changes),
+      deckRow("deck-2", changes),
+    ]);
+  });
+
+  it("soft-deletes rows, keeping a tombstone on the server", async () => {
+    useBackend({ flashcard_decks: [deckRow("deck-1")] });
+    await enqueueSyncItem(USER_ID, "delete", "flashcard_decks", "deck-1", {
+      updated_at: "2026-02-01T00:00:00.000Z",
+    });
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats.synced).toBe(1);
+    const [row] = backend.rows("flashcard_decks");
+    expect(row.id).toBe("deck-1");
+    expect(row.deleted_at).toEqual(expect.any(String));
+  });
+
+  it("pushes items left without an owner for the user who syncs", async () => {
+    useBackend({ flashcard_decks: [deckRow("deck-1")] });
+    // What schema version 9 leaves when it can't find an item's owner
+    await db.syncQueue.add({
+      userId: "",
+      operation: "update",
+      table: "flashcard_decks",
+      entityId: "deck-1",
+      payload: { name: "Renamed", updated_at: "2026-02-01T00:00:00.000Z" },
+      timestamp: Date.now(),
+      retryCount: 0,
+      lastAttempt: null,
+      error: null,
+    });
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats).toMatchObject({ synced: 1, failed: 0 });
+    expect(backend.rows("flashcard_decks")[0].name).toBe("Renamed");
+    expect(await db.syncQueue.count()).toBe(0);
+  });
+});
+
+describe("processSyncQueue local-only fields", () => {
+  it("keeps cloze fields off the server and in the cache", async () => {
+    const card: CachedFlashcard = {
+      id: "card-1",
+      user_id: USER_ID,
+      deck_id: "deck-1",
+      source_note_id: null,
+      term: "gato",
+      definition: "cat",
+      part_of_speech: null,
+      example_sentences: [],
+      language: "es",
+      difficulty_level: "medium",
+      card_type: "cloze",
+      context_sentence: "El gato duerme.",
+      created_at: "2026-01-01T00:00:00.000Z",
+      updated_at: "2026-01-01T00:00:00.000Z",
+      deleted_at: null,
+      syncStatus: "pending",
+      lastAccessedAt: 0,
+    };
+    await db.flashcards.put(card);
+    await enqueueSyncItem(
+      USER_ID,
+      "create",
+      "flashcards",
+      card.id,
+      toServerPayload(card),
+    );
+
+    await processSyncQueue(USER_ID);
+
+    const [row] = backend.rows("flashcards");
+    expect(row).not.toHaveProperty("card_type");
+    expect(row).not.toHaveProperty("context_sentence");
+    // Pulled back as the new base without losing the cloze fields
+    expect(await db.flashcards.get("card-1")).toMatchObject({
+      card_type: "cloze",
+      context_sentence: "El gato duerme.",
+      syncStatus: "synced",
+    });
+  });
+
+  it("keeps FSRS stability off the server and intervals in whole days", async () => {
+    const progress = await recordReview(USER_ID, "card-1", 3, {
+      algorithm: "fsrs-lite",
+      timeTakenSeconds: 5,
+    });
+
+    await processSyncQueue(USER_ID);
+
+    const [row] = backend.rows("study_progress");
+    expect(row).not.toHaveProperty("stability");
+    expect(Number.isInteger(row.interval_days)).toBe(true);
+    expect(await db.studyProgress.get(progress.id)).toMatchObject({
+      stability: progress.stability,
+      syncStatus: "synced",
+    });
+  });
+});
+
+describe("processSyncQueue conflicts", () => {
+  it("merges a stale update with the server's newer row", async () => {
+    const base = deckRow("deck-1");
+    useBackend({
+      flashcard_decks: [
+        deckRow("deck-1", {
+          description: "Edited on the web",
+          updated_at: "2026-03-01T00:00:00.000Z",
+        }),
+      ],
+    });
+    await saveSyncBase("flashcard_decks", "deck-1", base);
+    await db.decks.put({ ...base, syncStatus: "pending" });
+    await enqueueSyncItem(USER_ID, "update", "flashcard_decks", "deck-1", {
+      ...base,
+      name: "Edited here",
+      updated_at: "2026-02-01T00:00:00.000Z",
+    });
+
+    const first = await processSyncQueue(USER_ID);
+
+    // The merge is cached and queued; the server is untouched until pushed
+    expect(first.conflicts).toBe(1);
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      name: "Edited here",
+      description: "Edited on the web",
+      syncStatus: "pending",
+    });
+    expect(backend.rows("flashcard_decks")[0].name).toBe("Deck deck-1");
+    expect(await queuedDeckItems()).toHaveLength(1);
+    expect(await db.conflicts.count()).toBe(0);
+
+    const second = await processSyncQueue(USER_ID);
+
+    expect(second).toMatchObject({ conflicts: 0, failed: 0 });
+    expect(backend.rows("flashcard_decks")[0]).toMatchObject({
+      name: "Edited here",
+      description: "Edited on the web",
+    });
+    expect(await queuedDeckItems()).toHaveLength(0);
+  });
+});
+
+describe("processSyncQueue pulls", () => {
+  it("pulls a row skipped for a pending change again after the push", async () => {
+    const base = deckRow("deck-1");
+    useBackend({
+      flashcard_decks: [
+        deckRow("deck-0", { updated_at: "2026-01-15T00:00:00.000Z" }),
+        deckRow("deck-1", {
+          description: "Edited on the web",
+          updated_at: "2026-02-01T00:00:00.000Z",
+        }),
+        deckRow("deck-2", { updated_at: "2026-03-01T00:00:00.000Z" }),
+      ],
+    });
+    await saveSyncBase("flashcard_decks", "deck-1", base);
+    await db.decks.put({ ...base, name: "Edited here", syncStatus: "pending" });
+    await enqueueSyncItem(USER_ID, "update", "flashcard_decks", "deck-1", {
+      name: "Edited here",
+      updated_at: "2026-02-15T00:00:00.000Z",
+    });
+    // Still backing off from an earlier failure
+    await db.syncQueue
+      .filter((item) => item.table === "flashcard_decks")
+      .modify({ nextAttemptAt: Date.now() + 60_000 });
+
+    await processSyncQueue(USER_ID);
+
+    expect(await db.decks.get("deck-2")).toBeDefined();
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      description: null,
+      syncStatus: "pending",
+    });
+    expect(await getSyncCursor(USER_ID, "flashcard_decks")).toBe(
+      "2026-01-15T00:00:00.000Z",
+    );
+
+    await db.syncQueue.toCollection().modify({ nextAttemptAt: null });
+    await processSyncQueue(USER_ID);
+
+    // Pushed older than deck-2, yet the web edit still reaches the cache
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      name: "Edited here",
+      description: "Edited on the web",
+      syncStatus: "synced",
+    });
+    expect(await getSyncCursor(USER_ID, "flashcard_decks")).toBe(
+      "2026-03-01T00:00:00.000Z",
+    );
+  });
+});
+
+describe("processSyncQueue failures", () => {
+  it("stops the run on an auth error and keeps the queue for later", async () => {
+    await enqueueSyncItem(
+      USER_ID,
+      "create",
+      "flashcard_decks",
+      "deck-1",
+      deckRow("deck-1"),
+    );
+    await enqueueSyncItem(USER_ID, "create", "flashcards", "card-1", {
+      id: "card-1",
+      deck_id: "deck-1",
+    });
+    useBackend({ flashcard_decks: [deckRow("deck-2")] });
+    backend.failWith(new SyncBackendError("JWT expired", "PGRST301", 401));
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats).toMatchObject({ synced: 0, pulled: 0 });
+    const queue = await getAllSyncItems(USER_ID);
+    expect(queue).toHaveLength(2);
+    // Auth errors don't count towards the retry limit
+    expect(queue.every((item) => item.retryCount === 0)).toBe(true);
+    // Nothing after the failed request was attempted
+    const card = queue.find((item) => item.table === "flashcards");
+    expect(card?.lastAttempt).toBeNull();
+    expect(await db.deadLetterQueue.count()).toBe(0);
+    expect(await db.decks.get("deck-2")).toBeUndefined();
+  });
+
+  it("dead-letters a change the server rejects as invalid", async () => {
+    const row = deckRow("deck-1");
+    await db.decks.put({ ...row, syncStatus: "pending" });
+    await enqueueSyncItem(USER_ID, "create", "flashcard_decks", "deck-1", row);
+    backend.failWith(
+      new SyncBackendError("violates check constraint", "23514", 400),
+    );
+
+    const stats = await processSyncQueue(USER_ID);
+
+    expect(stats.failed).toBe(1);
+    expect(await queuedDeckItems()).toHaveLength(0);
+    const [deadLetter] = await db.deadLetterQueue.toArray();
+    expect(deadLetter).toMatchObject({
+      errorKind: "validation",
+      item: { table: "flashcard_decks", entityId: "deck-1" },
+    });
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      syncStatus: "failed",
+    });
+
+    backend.failWith(null);
+    expect(backend.rows("flashcard_decks")).toEqual([]);
+  });
+
+  it("dead-letters a write that row level security rejects", async () => {
+    await enqueueSyncItem(
+      USER_ID,
+      "create",
+      "flashcard_decks",
+      "deck-1",
+      deckRow("deck-1"),
+    );
+    backend.failWith(
+      new SyncBackendError(
+        'new row violates row-level security policy for table "flashcard_decks"',
+        "42501",
+        403,
+      ),
+    );
+
+    await processSyncQueue(USER_ID);
+
+    expect(await queuedDeckItems()).toHaveLength(0);
+    expect(await db.deadLetterQueue.toArray()).toEqual([
+      expect.objectContaining({ errorKind: "validation" }),
+    ]);
+  });
+
+  it("retries a card whose deck isn't on the server yet", async () => {
+    await enqueueSyncItem(USER_ID, "create", "flashcards", "card-1", {
+      id: "card-1",
+      deck_id: "deck-1",
+    });
+    backend.failWith(
+      new SyncBackendError(
+        'insert or update on table "flashcards" violates foreign key constraint',
+        "23503",
+        409,
+      ),
+    );
+
+    await processSyncQueue(USER_ID);
+
+    const queue = await getAllSyncItems(USER_ID);
+    const card = queue.find((item) => item.table === "flashcards");
+    expect(card).toMatchObject({ retryCount: 1 });
+    expect(card?.nextAttemptAt).toEqual(expect.any(Number));
+    expect(await db.deadLetterQueue.count()).toBe(0);
+  });
+});
+
+describe("processSyncQueue activity upload", () => {
+  it("uploads numeric details only, not URLs or text", async () => {
+    await logActivity(USER_ID, "note_created", {
+      entityType: "learning_note",
+      entityId: "note-1",
+      metadata: {
+        offline: true,
+        pageUrl: "https://example.com/private",
+        pageTitle: "Private page",
+        question: "What does this mean?",
+        textLength: 42,
+      },
+    });
+
+    await processSyncQueue(USER_ID);
+
+    const [row] = backend.activityRows();
+    expect(row).toMatchObject({
+      action: "note_created",
+      entity_type: "learning_note",
+      entity_id: "note-1",
+      metadata: { textLength: 42 },
+    });
+    expect(Object.keys(row.metadata as object)).toEqual(["textLength"]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Stored accounts keep no more of a session than it takes to sign back in
+ */
+
+import type { Session } from "@supabase/supabase-js";
+import {
+  forgetAccountSession,
+  getAccount,
+  removeAccount,
+  saveAccount,
+  touchAccount,
+} from "@/lib/accounts";
+
+function session(userId: string, refreshToken: string): Session {
+  return {
+    access_token: `access-${refreshToken}`,
+    refresh_token: refreshToken,
+    expires_in: 3600,
+    token_type: "bearer",
+    user: { id: userId, email: `${userId}@example.com` },
+  } as Session;
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await chrome.storage.local.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("accounts", () => {
+  it("keeps only the refresh token of an account that was left", async () => {
+    await saveAccount("user-1", session("user-1", "refresh-1"));
+
+    const account = await getAccount("user-1");
+    expect(account).toMatchObject({
+      email: "user-1@example.com",
+      refreshToken: "refresh-1",
+    });
+    expect(
+      JSON.stringify(await chrome.storage.local.get("accounts")),
+    ).not.toContain("access-refresh-1");
+  });
+
+  it("drops the token once the account is signed in again", async () => {
+    await saveAccount("user-1", session("user-1", "refresh-1"));
+
+    await touchAccount("user-1", session("user-1", "refresh-2"));
+
+    expect(await getAccount("user-1")).toMatchObject({
+      email: "user-1@example.com",
+      refreshToken: null,
+    });
+  });
+
+  it("forgets tokens that stop working and removed accounts", async () => {
+    await saveAccount("user-1", session("user-1", "refresh-1"));
+    await saveAccount("user-2", session("user-2", "refresh-2"));
+
+    await forgetAccountSession("user-1");
+    await removeAccount("user-2");
+
+    expect(await getAccount("user-1")).toMatchObject({ refreshToken: null });
+    expect(await getAccount("user-2")).toBeUndefined();
+    expect(JSON.stringify(await chrome.storage.local.get(null))).not.toContain(
+      "refresh-",
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Achievement rules: XP per activity, the level curve, badges and streaks
+ * counted in calendar days of the user's time zone
+ */
+
+import {
+  advanceStreak,
+  daysBetween,
+  getActivityXp,
+  getLevelForXp,
+  getLevelProgress,
+  getUnlockedBadges,
+  isStreakAlive,
+  toDayKey,
+} from "@/lib/achievements";
+import { createEmptyStats } from "@/lib/db/achievements";
+import type { ActivityLogItem } from "@/types";
+
+function activity(
+  action: ActivityLogItem["action"],
+  metadata: Record<string, any> = {},
+): ActivityLogItem {
+  return {
+    userId: "user-1",
+    action,
+    entityType: null,
+    entityId: null,
+    metadata,
+    timestamp: 0,
+    syncStatus: "pending",
+  };
+}
+
+describe("getActivityXp", () => {
+  it.each([
+    ["note_created", 10],
+    ["page_summarized", 15],
+    ["flashcard_created", 2],
+    ["note_updated", 0],
+    ["sync_conflict", 0],
+  ] as const)("gives %s %d XP", (action, xp) => {
+    expect(getActivityXp(activity(action))).toBe(xp);
+  });
+
+  it("adds XP per card reviewed to a study session", () => {
+    expect(
+      getActivityXp(activity("study_session_completed", { cardsReviewed: 12 })),
+    ).toBe(5 + 12 * 2);
+    expect(
+      getActivityXp(
+        activity("study_session_completed", { cardsReviewed: "x" }),
+      ),
+    ).toBe(5);
+  });
+});
+
+describe("levels", () => {
+  it.each([
+    [0, 1],
+    [99, 1],
+    [100, 2],
+    [299, 2],
+    [300, 3],
+    [600, 4],
+    [4500, 10],
+  ])("puts %d XP at level %d", (xp, level) => {
+    expect(getLevelForXp(xp)).toBe(level);
+  });
+
+  it("reports progress towards the next level", () => {
+    expect(getLevelProgress(350)).toEqual({
+      level: 3,
+      xpIntoLevel: 50,
+      xpForNextLevel: 300,
+    });
+  });
+});
+
+describe("getUnlockedBadges", () => {
+  it("unlocks badges whose rule is met", () => {
+    const stats = createEmptyStats();
+    stats.actionCounts = { note_created: 50, page_summarized: 9 };
+    stats.cardsReviewed = 100;
+
+    expect(
+      getUnlockedBadges({ stats, longestStreak: 7, level: 5 }).sort(),
+    ).toEqual(
+      [
+        "collector_50",
+        "first_capture",
+        "level_5",
+        "reviewer_100",
+        "streak_7",
+      ].sort(),
+    );
+  });
+
+  it("unlocks nothing for a new user", () => {
+    expect(
+      getUnlockedBadges({
+        stats: createEmptyStats(),
+        longestStreak: 0,
+        level: 1,
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("streaks", () => {
+  it("uses the calendar day of the given time zone", () => {
+    const timestamp = Date.parse("2026-03-01T20:00:00.000Z");
+
+    expect(toDayKey(timestamp, "UTC")).toBe("2026-03-01");
+    expect(toDayKey(timestamp, "Asia/Seoul")).toBe("2026-03-02");
+    expect(toDayKey(timestamp, "America/Los_Angeles")).toBe("2026-03-01");
+  });
+
+  it("counts whole days across a DST change", () => {
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(daysBetween("2026-03-09", "2026-03-07")).toBe(-2);
+  });
+
+  it("advances on the next day and restarts after a missed day", () => {
+    expect(advanceStreak(0, null, "2026-03-01")).toBe(1);
+    expect(advanceStreak(3, "2026-03-01", "2026-03-01")).toBe(3);
+    expect(advanceStreak(3, "2026-03-01", "2026-03-02")).toBe(4);
+    expect(advanceStreak(3, "2026-03-01", "2026-03-03")).toBe(1);
+    // Clock moved back: keep the streak
+    expect(advanceStreak(3, "2026-03-02", "2026-03-01")).toBe(3);
+  });
+
+  it("stays alive until the day after the last active day is over", () => {
+    expect(isStreakAlive("2026-03-01", "2026-03-01")).toBe(true);
+    expect(isStreakAlive("2026-03-01", "2026-03-02")).toBe(true);
+    expect(isStreakAlive("2026-03-01", "2026-03-03")).toBe(false);
+    expect(isStreakAlive(null, "2026-03-01")).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Achievements row: activity is counted once, streaks follow active days and
+ * the row is only queued when something the server sees changed
+ */
+
+import { db } from "@/lib/db/schema";
+import { updateAchievements } from "@/lib/db/achievements";
+import { getAllSyncItems } from "@/lib/db/sync-queue";
+import type { ActivityLogItem } from "@/types";
+
+const USER_ID = "user-1";
+
+// Noon UTC is the same calendar day in nearly every time zone
+function noon(day: string): number {
+  return Date.parse(`${day}T12:00:00.000Z`);
+}
+
+async function addActivity(
+  action: ActivityLogItem["action"],
+  day: string,
+  extra: Partial<ActivityLogItem> = {},
+): Promise<void> {
+  await db.activityLog.add({
+    userId: USER_ID,
+    action,
+    entityType: null,
+    entityId: null,
+    metadata: {},
+    timestamp: noon(day),
+    syncStatus: "pending",
+    ...extra,
+  });
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("updateAchievements", () => {
+  it("counts XP and streaks over consecutive days", async () => {
+    await addActivity("note_created", "2026-03-01");
+    await addActivity("note_created", "2026-03-02");
+    await addActivity("study_session_completed", "2026-03-03", {
+      metadata: { cardsReviewed: 10 },
+    });
+
+    const row = await updateAchievements(USER_ID, new Date(noon("2026-03-03")));
+
+    expect(row).toMatchObject({
+      total_xp: 10 + 10 + 5 + 10 * 2,
+      level: 1,
+      current_streak: 3,
+      longest_streak: 3,
+      badges: ["first_capture"],
+    });
+    expect(await getAllSyncItems(USER_ID)).toEqual([
+      expect.objectContaining({
+        operation: "create",
+        table: "user_achievements",
+        entityId: row.id,
+        payload: expect.not.objectContaining({ stats: expect.anything() }),
+      }),
+    ]);
+  });
+
+  it("counts each activity once", async () => {
+    await addActivity("page_summarized", "2026-03-01");
+    const now = new Date(noon("2026-03-01"));
+    await updateAchievements(USER_ID, now);
+
+    const row = await updateAchievements(USER_ID, now);
+
+    expect(row.total_xp).toBe(15);
+  });
+
+  it("restarts the streak after a missed day", async () => {
+    await addActivity("note_created", "2026-03-01");
+    await addActivity("note_created", "2026-03-02");
+    await addActivity("note_created", "2026-03-04");
+
+    const row = await updateAchievements(USER_ID, new Date(noon("2026-03-04")));
+
+    expect(row.current_streak).toBe(1);
+    expect(row.longest_streak).toBe(2);
+  });
+
+  it("resets a streak that ran out without new activity", async () => {
+    await addActivity("note_created", "2026-03-01");
+    await updateAchievements(USER_ID, new Date(noon("2026-03-01")));
+
+    const row = await updateAchievements(USER_ID, new Date(noon("2026-03-03")));
+
+    expect(row.current_streak).toBe(0);
+    expect(row.longest_streak).toBe(1);
+    const queue = await getAllSyncItems(USER_ID);
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload).toMatchObject({ current_streak: 0 });
+  });
+
+  it("skips activity pulled from other devices", async () => {
+    await addActivity("note_created", "2026-03-01", { pulledAt: Date.now() });
+    await addActivity("qa_asked", "2026-03-01");
+
+    const row = await updateAchievements(USER_ID, new Date(noon("2026-03-01")));
+
+    expect(row.total_xp).toBe(5);
+    expect(row.badges).toEqual([]);
+  });
+
+  it("doesn't queue the row again when nothing changed", async () => {
+    await addActivity("note_created", "2026-03-01");
+    const now = new Date(noon("2026-03-01"));
+    await updateAchievements(USER_ID, now);
+    await db.syncQueue.clear();
+
+    await addActivity("note_updated", "2026-03-01");
+    await updateAchievements(USER_ID, now);
+
+    expect(await getAllSyncItems(USER_ID)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Flashcard cache helpers: card counts stay in step with the cards, on the
+ * server too
+ */
+
+import { db } from "@/lib/db/schema";
+import { getAllSyncItems } from "@/lib/db/sync-queue";
+import { createCachedFlashcard, createDeck } from "@/lib/db/flashcards";
+import type { CachedDeck } from "@/types";
+
+const USER_ID = "user-1";
+
+function cachedDeck(id: string): CachedDeck {
+  return {
+    id,
+    user_id: USER_ID,
+    name: `Deck ${id}`,
+    description: null,
+    language: "es",
+    card_count: 0,
+    total_study_time_seconds: 0,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    deleted_at: null,
+    syncStatus: "synced",
+    lastAccessedAt: 0,
+  };
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("createCachedFlashcard", () => {
+  it("queues the deck's new card count", async () => {
+    await db.decks.put(cachedDeck("deck-1"));
+
+    await createCachedFlashcard(USER_ID, "deck-1", {
+      term: "gato",
+      definition: "cat",
+      language: "es",
+    });
+    await createCachedFlashcard(USER_ID, "deck-1", {
+      term: "perro",
+      definition: "dog",
+      language: "es",
+    });
+
+    expect(await db.decks.get("deck-1")).toMatchObject({
+      card_count: 2,
+      syncStatus: "pending",
+    });
+    const queue = await getAllSyncItems(USER_ID);
+    expect(queue).toEqual([
+      expect.objectContaining({
+        operation: "update",
+        table: "flashcard_decks",
+        entityId: "deck-1",
+        payload: expect.objectContaining({ card_count: 2 }),
+      }),
+    ]);
+  });
+
+  it("folds the count into a deck that isn't pushed yet", async () => {
+    const deck = await createDeck(USER_ID, { name: "Spanish", language: "es" });
+
+    await createCachedFlashcard(USER_ID, deck.id, {
+      term: "gato",
+      definition: "cat",
+      language: "es",
+    });
+
+    const queue = await getAllSyncItems(USER_ID);
+    expect(queue).toEqual([
+      expect.objectContaining({
+        operation: "create",
+        entityId: deck.id,
+        payload: expect.objectContaining({ card_count: 1 }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Sync queue coalescing: repeated offline changes to an entity are pushed
+ * once, and nothing the server may already have is dropped
+ */
+
+import { db } from "@/lib/db/schema";
+import {
+  compactSyncQueue,
+  completeSyncItem,
+  enqueueSyncItem,
+  getAllSyncItems,
+} from "@/lib/db/sync-queue";
+import type { SyncQueueItem } from "@/types";
+
+const USER_ID = "user-1";
+
+function queued(
+  operation: SyncQueueItem["operation"],
+  entityId: string,
+  payload: Record<string, any>,
+): Omit<SyncQueueItem, "id"> {
+  return {
+    userId: USER_ID,
+    operation,
+    table: "learning_notes",
+    entityId,
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+    lastAttempt: null,
+    error: null,
+  };
+}
+
+async function queueSummary() {
+  return (await getAllSyncItems(USER_ID)).map(
+    ({ operation, entityId, payload }) => [operation, entityId, payload],
+  );
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("enqueueSyncItem", () => {
+  it("merges updates into a queued create", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {
+      title: "a",
+      content: "x",
+    });
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-1", {
+      title: "b",
+    });
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-1", {
+      content: "y",
+    });
+
+    expect(await queueSummary()).toEqual([
+      ["create", "note-1", { title: "b", content: "y" }],
+    ]);
+  });
+
+  it("drops a create that never left when the entity is deleted", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {});
+    await enqueueSyncItem(USER_ID, "delete", "learning_notes", "note-1", {});
+
+    expect(await queueSummary()).toEqual([]);
+  });
+
+  it("keeps an attempted create before the delete", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {});
+    const [create] = await getAllSyncItems(USER_ID);
+    await db.syncQueue.update(create.id!, { lastAttempt: Date.now() });
+
+    await enqueueSyncItem(USER_ID, "delete", "learning_notes", "note-1", {});
+
+    expect(await queueSummary()).toEqual([
+      ["create", "note-1", {}],
+      ["delete", "note-1", {}],
+    ]);
+  });
+
+  it("replaces a queued update with the delete", async () => {
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-1", {
+      title: "b",
+    });
+    await enqueueSyncItem(USER_ID, "delete", "learning_notes", "note-1", {});
+
+    expect(await queueSummary()).toEqual([["delete", "note-1", {}]]);
+  });
+
+  it("appends anything queued after a delete", async () => {
+    await enqueueSyncItem(USER_ID, "delete", "learning_notes", "note-1", {});
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-1", {
+      deleted_at: null,
+    });
+
+    expect(await queueSummary()).toEqual([
+      ["delete", "note-1", {}],
+      ["update", "note-1", { deleted_at: null }],
+    ]);
+  });
+
+  it("keeps other users' and entities' items apart", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {});
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-2", {});
+    await enqueueSyncItem("user-2", "update", "learning_notes", "note-1", {});
+    await enqueueSyncItem(USER_ID, "update", "flashcards", "note-1", {});
+
+    expect(await getAllSyncItems(USER_ID)).toHaveLength(3);
+    expect(await getAllSyncItems("user-2")).toHaveLength(1);
+  });
+});
+
+describe("compactSyncQueue", () => {
+  it("coalesces items that were written without folding", async () => {
+    await db.syncQueue.bulkAdd([
+      queued("create", "note-1", { title: "a" }),
+      queued("update", "note-2", { title: "b" }),
+      queued("update", "note-1", { title: "c" }),
+      queued("delete", "note-2", {}),
+      queued("create", "note-3", {}),
+      queued("delete", "note-3", {}),
+    ]);
+
+    expect(await compactSyncQueue(USER_ID)).toBe(4);
+    expect(await queueSummary()).toEqual([
+      ["create", "note-1", { title: "c" }],
+      ["delete", "note-2", {}],
+    ]);
+  });
+
+  it("leaves a coalesced queue alone", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {});
+
+    expect(await compactSyncQueue(USER_ID)).toBe(0);
+    expect(await getAllSyncItems(USER_ID)).toHaveLength(1);
+  });
+});
+
+describe("completeSyncItem", () => {
+  it("removes an item that was pushed as queued", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {
+      title: "a",
+    });
+    const [pushed] = await getAllSyncItems(USER_ID);
+
+    await completeSyncItem(pushed);
+
+    expect(await queueSummary()).toEqual([]);
+  });
+
+  it("keeps a change merged in while the create was pushed", async () => {
+    await enqueueSyncItem(USER_ID, "create", "learning_notes", "note-1", {
+      title: "a",
+    });
+    const [pushed] = await getAllSyncItems(USER_ID);
+    await enqueueSyncItem(USER_ID, "update", "learning_notes", "note-1", {
+      title: "b",
+    });
+
+    await completeSyncItem(pushed);
+
+    expect(await queueSummary()).toEqual([
+      ["update", "note-1", { title: "b" }],
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Trash bin: notes saved here and notes pulled from the server are listed,
+ * and deleting or restoring twice is harmless
+ */
+
+import { db } from "@/lib/db/schema";
+import { getAllSyncItems } from "@/lib/db/sync-queue";
+import { deleteNote, listTrash, restoreTrashItem } from "@/lib/db/trash";
+import type { CachedNote } from "@/types";
+
+const USER_ID = "user-1";
+
+function cachedNote(id: string, fields: Partial<CachedNote> = {}): CachedNote {
+  return {
+    id,
+    user_id: USER_ID,
+    title: `Note ${id}`,
+    original_text: "gato",
+    translated_text: "cat",
+    source_language: "es",
+    target_language: "en",
+    grammar_explanation: null,
+    alternative_expressions: [],
+    source_type: "extension",
+    source_url: null,
+    attached_image_url: null,
+    tags: [],
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    deleted_at: null,
+    syncStatus: "synced",
+    lastAccessedAt: 0,
+    ...fields,
+  };
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("listTrash", () => {
+  it("lists deleted notes whichever owner field they carry", async () => {
+    const deletedAt = "2026-02-01T00:00:00.000Z";
+    // Pulled from the server
+    await db.notes.put(cachedNote("note-1", { deleted_at: deletedAt }));
+    // Saved here
+    await db.notes.put({
+      ...cachedNote("note-2", { deleted_at: deletedAt }),
+      user_id: undefined,
+      userId: USER_ID,
+    } as unknown as CachedNote);
+    await db.notes.put(cachedNote("note-3"));
+    await db.notes.put(
+      cachedNote("note-4", { user_id: "user-2", deleted_at: deletedAt }),
+    );
+
+    const trash = await listTrash(USER_ID);
+
+    expect(trash.map((item) => item.id).sort()).toEqual(["note-1", "note-2"]);
+  });
+});
+
+describe("deleteNote", () => {
+  it("does nothing for a note already in the trash", async () => {
+    await db.notes.put(cachedNote("note-1"));
+
+    await deleteNote(USER_ID, "note-1");
+    const { deleted_at } = (await db.notes.get("note-1"))!;
+    await deleteNote(USER_ID, "note-1");
+
+    expect((await db.notes.get("note-1"))!.deleted_at).toBe(deleted_at);
+    expect(await getAllSyncItems(USER_ID)).toHaveLength(1);
+  });
+
+  it("rejects another user's note", async () => {
+    await db.notes.put(cachedNote("note-1", { user_id: "user-2" }));
+
+    await expect(deleteNote(USER_ID, "note-1")).rejects.toThrow(
+      "Note not found.",
+    );
+  });
+});
+
+describe("restoreTrashItem", () => {
+  it("restores a deleted note and ignores a second restore", async () => {
+    await db.notes.put(
+      cachedNote("note-1", { deleted_at: "2026-02-01T00:00:00.000Z" }),
+    );
+    const [item] = await listTrash(USER_ID);
+
+    await restoreTrashItem(item);
+    await restoreTrashItem(item);
+
+    expect((await db.notes.get("note-1"))!.deleted_at).toBeNull();
+    expect(await listTrash(USER_ID)).toEqual([]);
+  });
+});
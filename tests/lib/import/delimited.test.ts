@@ -0,0 +1,106 @@
+/**
+ * Delimited text parsing: delimiter detection, RFC 4180 quoting, header rows
+ * and Anki export headers
+ */
+
+import { htmlToText, parseDelimitedText } from "@/lib/import/delimited";
+
+describe("parseDelimitedText", () => {
+  it("reads a Quizlet export (tab between term and definition)", () => {
+    const table = parseDelimitedText("gato\tcat\nperro\tdog");
+
+    expect(table).toEqual({
+      delimiter: "\t",
+      html: false,
+      columnNames: null,
+      rows: [
+        ["gato", "cat"],
+        ["perro", "dog"],
+      ],
+    });
+  });
+
+  it("keeps delimiters, quotes and line breaks inside quoted fields", () => {
+    const table = parseDelimitedText(
+      [
+        "term,definition",
+        '"hola, amigo","hello, friend"',
+        '"dice ""sí""","says ""yes"""',
+        '"two',
+        'lines",x',
+      ].join("\n"),
+    );
+
+    expect(table.delimiter).toBe(",");
+    expect(table.columnNames).toEqual(["term", "definition"]);
+    expect(table.rows).toEqual([
+      ["hola, amigo", "hello, friend"],
+      ['dice "sí"', 'says "yes"'],
+      ["two\nlines", "x"],
+    ]);
+  });
+
+  it("ignores a byte order mark, CRLF line ends and blank lines", () => {
+    const table = parseDelimitedText("\uFEFFgato;cat\r\n\r\nperro;dog\r\n");
+
+    expect(table.delimiter).toBe(";");
+    expect(table.rows).toEqual([
+      ["gato", "cat"],
+      ["perro", "dog"],
+    ]);
+  });
+
+  it("uses a forced delimiter", () => {
+    expect(parseDelimitedText("a|b,c", ",").rows).toEqual([["a|b", "c"]]);
+  });
+
+  it("keeps a lone header-like row as a card", () => {
+    const table = parseDelimitedText("term\tdefinition");
+
+    expect(table.columnNames).toBeNull();
+    expect(table.rows).toEqual([["term", "definition"]]);
+  });
+
+  it("reads Anki header lines", () => {
+    const table = parseDelimitedText(
+      [
+        "#separator:tab",
+        "#html:true",
+        "#columns:Front\tBack\tTags",
+        "#tags column:3",
+        "<b>chat</b>\tcat<br>feline\tanimals",
+      ].join("\n"),
+    );
+
+    expect(table).toEqual({
+      delimiter: "\t",
+      html: true,
+      columnNames: ["Front", "Back", "Tags"],
+      rows: [["<b>chat</b>", "cat<br>feline", "animals"]],
+    });
+  });
+
+  it("names Anki directive columns without a #columns line", () => {
+    const table = parseDelimitedText(
+      "#separator:semicolon\n#guid column:1\nabc123;gato;cat",
+    );
+
+    expect(table.delimiter).toBe(";");
+    expect(table.columnNames).toEqual(["GUID", "", ""]);
+    expect(table.rows).toEqual([["abc123", "gato", "cat"]]);
+  });
+});
+
+describe("htmlToText", () => {
+  it("turns Anki HTML into plain text", () => {
+    expect(
+      htmlToText(
+        "<div>Hola&nbsp;&amp; adiós</div>[sound:hola.mp3]<br>&#233;&#x4E2D;",
+      ),
+    ).toBe("Hola & adiós\n\né中");
+  });
+
+  it("decodes &amp; last, so escaped entities stay literal", () => {
+    expect(htmlToText("&amp;lt;b&amp;gt; &lt;i&gt;")).toBe("&lt;b&gt; <i>");
+  });
+});
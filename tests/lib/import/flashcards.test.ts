@@ -0,0 +1,141 @@
+/**
+ * Flashcard import mapping and preview: columns are matched by name,
+ * invalid and duplicate rows are flagged before anything is written
+ */
+
+import { db } from "@/lib/db/schema";
+import { parseDelimitedText } from "@/lib/import/delimited";
+import {
+  buildImportPreview,
+  guessColumnMapping,
+} from "@/lib/import/flashcards";
+import type { CachedDeck } from "@/types";
+
+const USER_ID = "user-1";
+
+const deck: CachedDeck = {
+  id: "deck-1",
+  user_id: USER_ID,
+  name: "Spanish",
+  description: null,
+  language: "es",
+  card_count: 1,
+  total_study_time_seconds: 0,
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+  deleted_at: null,
+  syncStatus: "synced",
+  lastAccessedAt: 0,
+};
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe("guessColumnMapping", () => {
+  it("matches named columns by alias", () => {
+    const table = parseDelimitedText(
+      "examples\tmeaning\tword\nLa casa es roja.\thouse\tcasa",
+    );
+
+    expect(guessColumnMapping(table)).toEqual([
+      "example_sentences",
+      "definition",
+      "term",
+    ]);
+  });
+
+  it("fills term and definition in order, skipping Anki columns", () => {
+    const table = parseDelimitedText(
+      "#separator:semicolon\n#guid column:1\nabc123;gato;cat;extra",
+    );
+
+    expect(guessColumnMapping(table)).toEqual([
+      "ignore",
+      "term",
+      "definition",
+      "ignore",
+    ]);
+  });
+});
+
+describe("buildImportPreview", () => {
+  it("flags invalid rows and duplicates of cards or earlier rows", async () => {
+    await db.flashcards.put({
+      id: "card-1",
+      user_id: USER_ID,
+      deck_id: "deck-1",
+      source_note_id: null,
+      term: "Gato",
+      definition: "cat",
+      part_of_speech: null,
+      example_sentences: [],
+      language: "es",
+      difficulty_level: "medium",
+      card_type: "basic",
+      context_sentence: null,
+      created_at: "2026-01-01T00:00:00.000Z",
+      updated_at: "2026-01-01T00:00:00.000Z",
+      deleted_at: null,
+      syncStatus: "synced",
+      lastAccessedAt: 0,
+    });
+    const table = parseDelimitedText(
+      [
+        "term\tdefinition\texamples",
+        "gato\tcat\t",
+        "perro\tdog\tEl perro ladra. | Tengo un perro.",
+        " PERRO \tdog\t",
+        "\tfish\t",
+        "pez\t\t",
+      ].join("\n"),
+    );
+
+    const preview = await buildImportPreview(
+      USER_ID,
+      deck,
+      table,
+      guessColumnMapping(table),
+    );
+
+    expect(preview.map(({ status, message }) => [status, message])).toEqual([
+      ["duplicate", "Already in your flashcards"],
+      ["new", undefined],
+      ["duplicate", "Repeated in this file"],
+      ["invalid", "Missing term"],
+      ["invalid", "Missing definition"],
+    ]);
+    expect(preview[1].draft).toEqual({
+      deck_id: "deck-1",
+      term: "perro",
+      definition: "dog",
+      part_of_speech: null,
+      example_sentences: ["El perro ladra.", "Tengo un perro."],
+      language: "es",
+    });
+  });
+
+  it("converts HTML fields to text", async () => {
+    const table = parseDelimitedText(
+      "#html:true\n#separator:tab\n<b>gato</b>\tcat<br>feline",
+    );
+
+    const [row] = await buildImportPreview(USER_ID, deck, table, [
+      "term",
+      "definition",
+    ]);
+
+    expect(row.draft).toMatchObject({
+      term: "gato",
+      definition: "cat\nfeline",
+    });
+  });
+
+  it("requires a term and a definition column", async () => {
+    const table = parseDelimitedText("gato\tcat");
+
+    await expect(
+      buildImportPreview(USER_ID, deck, table, ["term", "ignore"]),
+    ).rejects.toThrow("Map one column to Term and one to Definition.");
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Scheduler: SM-2 and FSRS-lite intervals, relearning steps and the whole-day
+ * intervals the server stores
+ */
+
+import {
+  createInitialSchedulingState,
+  formatInterval,
+  scheduleReview,
+  type ReviewRating,
+  type SchedulingState,
+  type SrsAlgorithm,
+} from "@/lib/srs";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Review a new card with each rating in turn, a day after it was due
+ */
+function reviewInTurn(
+  ratings: ReviewRating[],
+  algorithm: SrsAlgorithm,
+): SchedulingState[] {
+  const states: SchedulingState[] = [];
+  let state = createInitialSchedulingState(NOW);
+  let now = NOW;
+  for (const rating of ratings) {
+    state = scheduleReview(state, rating, algorithm, now);
+    states.push(state);
+    now = new Date(new Date(state.next_review_at).getTime() + DAY_MS);
+  }
+  return states;
+}
+
+describe("scheduleReview with sm2", () => {
+  it("grows the interval 1, 6, then by the ease factor", () => {
+    const states = reviewInTurn([3, 3, 3], "sm2");
+
+    expect(states.map((state) => state.interval_days)).toEqual([1, 6, 15]);
+    expect(states[2]).toMatchObject({
+      ease_factor: 2.5,
+      repetitions: 3,
+      total_reviews: 3,
+      correct_reviews: 3,
+      status: "review",
+      stability: null,
+    });
+  });
+
+  it("starts an easy new card at four days and raises its ease", () => {
+    const [state] = reviewInTurn([4], "sm2");
+
+    expect(state.interval_days).toBe(4);
+    expect(state.ease_factor).toBe(2.65);
+    expect(state.next_review_at).toBe(
+      new Date(NOW.getTime() + 4 * DAY_MS).toISOString(),
+    );
+  });
+
+  it("sends a lapsed card back to relearning in ten minutes", () => {
+    const [, , lapsed] = reviewInTurn([3, 3, 1], "sm2");
+
+    expect(lapsed).toMatchObject({
+      interval_days: 0,
+      repetitions: 0,
+      ease_factor: 2.3,
+      correct_reviews: 2,
+      status: "relearning",
+    });
+    const reviewedAt = new Date(lapsed.last_reviewed_at!).getTime();
+    expect(new Date(lapsed.next_review_at).getTime() - reviewedAt).toBe(
+      10 * 60 * 1000,
+    );
+  });
+
+  it("never lowers the ease below 1.3", () => {
+    const states = reviewInTurn([2, 2, 2, 2, 2, 2, 2, 2, 2, 2], "sm2");
+
+    expect(states[9].ease_factor).toBe(1.3);
+  });
+});
+
+describe("scheduleReview with fsrs-lite", () => {
+  it("keeps intervals in whole days and stability on its own", () => {
+    const states = reviewInTurn([1, 3, 2, 4, 1, 3], "fsrs-lite");
+
+    for (const state of states) {
+      expect(Number.isInteger(state.interval_days)).toBe(true);
+      expect(state.stability).toBeGreaterThan(0);
+    }
+    // Again on a new card: the first weight, not an interval
+    expect(states[0]).toMatchObject({
+      interval_days: 0,
+      stability: 0.4872,
+      status: "learning",
+    });
+  });
+
+  it("schedules good reviews further apart each time", () => {
+    const states = reviewInTurn([3, 3, 3, 3], "fsrs-lite");
+    const intervals = states.map((state) => state.interval_days);
+
+    expect(intervals[0]).toBe(4);
+    for (let index = 1; index < intervals.length; index++) {
+      expect(intervals[index]).toBeGreaterThan(intervals[index - 1]);
+      expect(intervals[index]).toBe(Math.round(states[index].stability!));
+    }
+  });
+
+  it("lowers stability after a lapse but keeps it above zero", () => {
+    const [, , , lapsed] = reviewInTurn([3, 3, 3, 1], "fsrs-lite");
+    const [, , before] = reviewInTurn([3, 3, 3], "fsrs-lite");
+
+    expect(lapsed.stability).toBeLessThan(before.stability!);
+    expect(lapsed.stability).toBeGreaterThan(0);
+    expect(lapsed.status).toBe("relearning");
+  });
+
+  it("continues from the interval of a card scheduled by sm2", () => {
+    const [sm2] = reviewInTurn([3, 3], "sm2").slice(-1);
+    const reviewedAt = new Date(sm2.next_review_at);
+
+    const fsrs = scheduleReview(sm2, 3, "fsrs-lite", reviewedAt);
+
+    expect(sm2.stability).toBeNull();
+    expect(fsrs.stability).toBeGreaterThan(sm2.interval_days);
+    expect(fsrs.interval_days).toBe(Math.round(fsrs.stability!));
+  });
+});
+
+describe("formatInterval", () => {
+  it.each([
+    [5 * 60 * 1000, "5m"],
+    [3 * 60 * 60 * 1000, "3h"],
+    [3 * DAY_MS, "3d"],
+    [60 * DAY_MS, "2mo"],
+    [730 * DAY_MS, "2.0y"],
+  ])("formats %d ms as %s", (ms, expected) => {
+    expect(
+      formatInterval(NOW, new Date(NOW.getTime() + ms).toISOString()),
+    ).toBe(expected);
+  });
+});
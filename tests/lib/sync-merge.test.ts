@@ -0,0 +1,111 @@
+/**
+ * Three-way merge: one-sided changes merge field by field, tags merge as
+ * sets and only fields changed differently on both sides conflict
+ */
+
+import { mergeThreeWay, valuesEqual } from "@/lib/sync-merge";
+
+const base = {
+  id: "note-1",
+  title: "Hola",
+  content: "Original",
+  tags: ["spanish", "greetings"],
+  updated_at: "2026-03-01T00:00:00.000Z",
+};
+
+describe("mergeThreeWay", () => {
+  it("takes each side's change to a different field", () => {
+    const result = mergeThreeWay(
+      base,
+      { ...base, title: "Hola (local)" },
+      {
+        ...base,
+        content: "Edited on the web",
+        updated_at: "2026-03-02T00:00:00.000Z",
+      },
+    );
+
+    expect(result.merged).toEqual({
+      ...base,
+      title: "Hola (local)",
+      content: "Edited on the web",
+      updated_at: "2026-03-02T00:00:00.000Z",
+    });
+    expect(
+      result.fields.map(({ field, resolution }) => [field, resolution]),
+    ).toEqual([
+      ["title", "local"],
+      ["content", "server"],
+    ]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.hasLocalChanges).toBe(true);
+  });
+
+  it("merges tags added and removed on both sides", () => {
+    const result = mergeThreeWay(
+      base,
+      { ...base, tags: ["spanish", "verbs"] },
+      { ...base, tags: ["greetings", "spanish", "a1"] },
+    );
+
+    expect(result.merged.tags).toEqual(["spanish", "a1", "verbs"]);
+    expect(result.fields[0].resolution).toBe("set_merge");
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("keeps the server value of a field changed on both sides", () => {
+    const result = mergeThreeWay(
+      base,
+      { ...base, content: "Local" },
+      { ...base, content: "Server" },
+    );
+
+    expect(result.merged.content).toBe("Server");
+    expect(result.conflicts).toEqual([
+      {
+        field: "content",
+        base: "Original",
+        local: "Local",
+        server: "Server",
+        merged: "Server",
+        resolution: "conflict",
+      },
+    ]);
+    expect(result.hasLocalChanges).toBe(false);
+  });
+
+  it("treats every differing field as a conflict without a base", () => {
+    const result = mergeThreeWay(
+      null,
+      { ...base, title: "Local", tags: ["spanish", "verbs"] },
+      { ...base, title: "Server" },
+    );
+
+    expect(result.conflicts.map(({ field }) => field)).toEqual([
+      "title",
+      "tags",
+    ]);
+    expect(result.merged).toEqual({ ...base, title: "Server" });
+  });
+
+  it("ignores bookkeeping columns and fields that already agree", () => {
+    const result = mergeThreeWay(
+      base,
+      { ...base, id: "other", updated_at: "2026-04-01T00:00:00.000Z" },
+      { ...base },
+    );
+
+    expect(result.fields).toEqual([]);
+    expect(result.merged).toEqual(base);
+    expect(result.hasLocalChanges).toBe(false);
+  });
+});
+
+describe("valuesEqual", () => {
+  it("treats null and undefined alike and compares arrays by value", () => {
+    expect(valuesEqual(null, undefined)).toBe(true);
+    expect(valuesEqual(["a", "b"], ["a", "b"])).toBe(true);
+    expect(valuesEqual(["a", "b"], ["b", "a"])).toBe(false);
+    expect(valuesEqual(0, null)).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * In-memory stand-in for the extension APIs the background modules use:
+ * `chrome.storage.local` (with change events), alarms, i18n and runtime
+ * messages that nobody receives
+ */
+
+type Listener = (...args: any[]) => unknown;
+
+function createEvent() {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: (listener: Listener) => listeners.add(listener),
+    removeListener: (listener: Listener) => listeners.delete(listener),
+    hasListener: (listener: Listener) => listeners.has(listener),
+    dispatch: (...args: unknown[]) => {
+      for (const listener of listeners) listener(...args);
+    },
+  };
+}
+
+const store = new Map<string, unknown>();
+const onChanged = createEvent();
+
+function emitChanges(changes: Record<string, chrome.storage.StorageChange>) {
+  if (Object.keys(changes).length > 0) {
+    onChanged.dispatch(changes, "local");
+  }
+}
+
+function toKeys(keys?: string | string[] | null): string[] {
+  if (keys === undefined || keys === null) return [...store.keys()];
+  return Array.isArray(keys) ? keys : [keys];
+}
+
+const local = {
+  async get(keys?: string | string[] | null) {
+    const result: Record<string, unknown> = {};
+    for (const key of toKeys(keys)) {
+      if (store.has(key)) result[key] = structuredClone(store.get(key));
+    }
+    return result;
+  },
+
+  async set(items: Record<string, unknown>) {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const [key, value] of Object.entries(items)) {
+      changes[key] = { oldValue: store.get(key), newValue: value };
+      store.set(key, structuredClone(value));
+    }
+    emitChanges(changes);
+  },
+
+  async remove(keys: string | string[]) {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const key of toKeys(keys)) {
+      if (!store.has(key)) continue;
+      changes[key] = { oldValue: store.get(key) };
+      store.delete(key);
+    }
+    emitChanges(changes);
+  },
+
+  async clear() {
+    await local.remove([...store.keys()]);
+  },
+};
+
+const alarms = new Map<string, chrome.alarms.Alarm>();
+
+(globalThis as { chrome?: unknown }).chrome = {
+  storage: { local, onChanged },
+  runtime: {
+    sendMessage: async () => undefined,
+    onMessage: createEvent(),
+  },
+  alarms: {
+    create(name: string, info: chrome.alarms.AlarmCreateInfo = {}) {
+      alarms.set(name, {
+        name,
+        scheduledTime: Date.now() + (info.delayInMinutes ?? 0) * 60_000,
+        periodInMinutes: info.periodInMinutes,
+      });
+    },
+    get: async (name: string) => alarms.get(name),
+    getAll: async () => [...alarms.values()],
+    clear: async (name: string) => alarms.delete(name),
+    onAlarm: createEvent(),
+  },
+  i18n: {
+    getUILanguage: () => "en",
+  },
+};